@@ -1,11 +1,219 @@
 import 'dotenv/config';
+import type { LLMRoutingTable } from '../types/llm';
+import type { LogFormat, LogLevel } from '../types/logging';
+import type { RateLimitRoute, RateLimitRule } from '../types/rateLimit';
+
+/**
+ * Parse a comma-separated env list ("exa,scholarly")
+ * Model names keep their case (some self-hosted servers are case-sensitive).
+ */
+function parseList(value: string | undefined, lowercase: boolean = true): string[] | undefined {
+  const items = (value || '').split(',').map((s) => (lowercase ? s.trim().toLowerCase() : s.trim())).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parse a USD quota ("5", "0.5"); "none" means unlimited
+ */
+export function parseQuota(value: string | undefined, fallback: number | null): number | null {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+  if (value.trim().toLowerCase() === 'none') {
+    return null;
+  }
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : fallback;
+}
+
+/**
+ * Parse a rate limit: requests per minute, optionally with a burst size
+ * ("5" or "5:10"); "0" or "none" disables the limit
+ */
+export function parseRateLimit(value: string | undefined, fallback: RateLimitRule | null): RateLimitRule | null {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+  if (value.trim().toLowerCase() === 'none') {
+    return null;
+  }
+  const [perMinute, burst] = value.split(':').map((part) => parseFloat(part));
+  if (!Number.isFinite(perMinute) || perMinute < 0) {
+    return fallback;
+  }
+  if (perMinute === 0) {
+    return null;
+  }
+  return { perMinute, burst: Number.isFinite(burst) && burst >= 1 ? burst : perMinute };
+}
 
 export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   dailyCostCap: parseFloat(process.env.DAILY_COST_CAP || '50'),
   environment: process.env.NODE_ENV || 'development',
 
+  // API keys: required on /api/v1 unless API_KEYS_REQUIRED=false. Quotas
+  // (USD) are the defaults for new keys; 'none' means unlimited.
+  apiKeys: {
+    required: process.env.API_KEYS_REQUIRED !== 'false',
+    defaultDailyQuota: parseQuota(process.env.API_KEY_DAILY_QUOTA, 5),
+    defaultMonthlyQuota: parseQuota(process.env.API_KEY_MONTHLY_QUOTA, 50),
+    // Key ids (not keys) allowed on operator endpoints such as the cost ledger
+    adminIds: parseList(process.env.ADMIN_API_KEYS, false) || [],
+  },
+
+  // Token-bucket rate limits per client (API key, or IP without keys).
+  // 'default' applies to every /api/v1 request; route limits come on top.
+  rateLimits: {
+    default: parseRateLimit(process.env.RATE_LIMIT_DEFAULT, { perMinute: 120, burst: 120 }),
+    analyze: parseRateLimit(process.env.RATE_LIMIT_ANALYZE, { perMinute: 30, burst: 30 }),
+    perspectives: parseRateLimit(process.env.RATE_LIMIT_PERSPECTIVES, { perMinute: 20, burst: 20 }),
+    evidence: parseRateLimit(process.env.RATE_LIMIT_EVIDENCE, { perMinute: 10, burst: 10 }),
+    evaluate: parseRateLimit(process.env.RATE_LIMIT_EVALUATE, { perMinute: 2, burst: 5 }),
+    articles: parseRateLimit(process.env.RATE_LIMIT_ARTICLES, { perMinute: 20, burst: 20 }),
+  } as Record<RateLimitRoute, RateLimitRule | null>,
+
+  // Pipeline runs at once in this process; excess runs wait in a queue
+  pipeline: {
+    maxConcurrent: parseInt(process.env.PIPELINE_MAX_CONCURRENT || '3', 10),
+    maxQueued: parseInt(process.env.PIPELINE_MAX_QUEUED || '50', 10),
+    queueTimeoutMs: parseInt(process.env.PIPELINE_QUEUE_TIMEOUT_MS || '120000', 10),
+  },
+
+  // Background evaluation jobs (POST /api/v1/jobs/evaluate)
+  jobs: {
+    // Jobs this process runs at once (each still takes a pipeline slot)
+    workerConcurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10),
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10),
+    // Finished jobs are kept this long for polling
+    retentionHours: parseInt(process.env.JOB_RETENTION_HOURS || '72', 10),
+    // Starts allowed per job; a job interrupted by restarts more often fails
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+    // Signs webhook payloads (X-ClearView-Signature) when set
+    webhookSecret: process.env.WEBHOOK_SECRET || '',
+  },
+
+  // Batch evaluations (POST /api/v1/jobs/batch)
+  batch: {
+    maxArticles: parseInt(process.env.BATCH_MAX_ARTICLES || '300', 10),
+    // Articles of one batch evaluated at once (each takes a pipeline slot)
+    articleConcurrency: parseInt(process.env.BATCH_ARTICLE_CONCURRENCY || '2', 10),
+    // Spending limit of a batch in USD unless the request sets maxCost
+    defaultMaxCost: parseFloat(process.env.BATCH_MAX_COST || '10'),
+  },
+
+  // Downloading articles by URL (POST /api/v1/articles/fetch, batches)
+  articleFetch: {
+    timeoutMs: parseInt(process.env.ARTICLE_FETCH_TIMEOUT_MS || '15000', 10),
+    maxBytes: parseInt(process.env.ARTICLE_FETCH_MAX_BYTES || String(5 * 1024 * 1024), 10),
+    maxRedirects: 5,
+  },
+
+  // Response cache: an in-process LRU in front of Redis (serves alone when Redis is down)
+  cache: {
+    memoryMaxEntries: parseInt(process.env.CACHE_MEMORY_MAX_ENTRIES || '500', 10),
+  },
+
+  // Claims remembered across articles; a fresh stored assessment is reused
+  claimStore: {
+    enabled: process.env.CLAIM_STORE_ENABLED !== 'false',
+    freshDays: parseInt(process.env.CLAIM_FRESH_DAYS || '14', 10),
+    // Share of content words two claims must have in common to match
+    lexicalMatch: 0.8,
+    // Cosine similarity of embeddings for claims worded differently
+    embeddingMatch: 0.9,
+  },
+
+  // Versions of edited articles (same canonical URL, different text)
+  articleRevisions: {
+    maxStored: parseInt(process.env.ARTICLE_REVISIONS_MAX || '10', 10),
+    retentionDays: parseInt(process.env.ARTICLE_REVISIONS_RETENTION_DAYS || '30', 10),
+    // Share of sentences changed up to which only the changed passages are re-analyzed
+    partialMaxChange: parseFloat(process.env.ARTICLE_REVISIONS_PARTIAL_MAX_CHANGE || '0.5'),
+  },
+
+  // Official statistics that statistical claims are compared with
+  referenceData: {
+    // Directory of dataset files (.json, .csv); unset disables the check
+    dir: process.env.REFERENCE_DATA_DIR || '',
+    // Relative difference from the official figure still counted as a match
+    tolerance: parseFloat(process.env.REFERENCE_DATA_TOLERANCE || '0.05'),
+  },
+
+  // Log entries below this level are dropped (debug, info, warn, error);
+  // 'json' writes one object per line, 'text' a readable line
+  logging: {
+    level: (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel,
+    format: (process.env.LOG_FORMAT === 'text' ? 'text' : 'json') as LogFormat,
+  },
+
+  // GET /metrics (Prometheus); with a token set, scrapers must send it as a bearer token
+  metrics: {
+    token: process.env.METRICS_TOKEN || undefined,
+  },
+
+  // Origins allowed by CORS (e.g. chrome-extension://<id>); unset allows any
+  corsOrigins: parseList(process.env.CORS_ORIGINS, false),
+
+  // Cost ledger: itemized charges in Redis, kept this many days
+  costLedger: {
+    retentionDays: parseInt(process.env.COST_LEDGER_RETENTION_DAYS || '90', 10),
+    // Itemized entries kept per day (totals and breakdowns are never trimmed)
+    maxChargesPerDay: parseInt(process.env.COST_LEDGER_MAX_CHARGES || '5000', 10),
+  },
+
+  // Unit prices (USD) for metered search APIs; CrossRef's public API is free
+  costRates: {
+    exaPerSearch: parseFloat(process.env.EXA_COST_PER_SEARCH || '0.005'),
+    exaPerResult: parseFloat(process.env.EXA_COST_PER_RESULT || '0.001'),
+    crossrefPerRequest: parseFloat(process.env.CROSSREF_COST_PER_REQUEST || '0'),
+  },
+
   // OpenAI configuration
   openaiApiKey: process.env.OPENAI_API_KEY || '',
   openaiModel: process.env.OPENAI_MODEL || 'gpt-5',
+
+  // LLM provider: 'openai' (Responses API) or 'openai-compatible' (chat
+  // completions at LLM_BASE_URL - vLLM, llama.cpp or another vendor)
+  llm: {
+    provider: process.env.LLM_PROVIDER || 'openai',
+    baseUrl: process.env.LLM_BASE_URL || '',
+    apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || '',
+    model: process.env.LLM_MODEL || process.env.OPENAI_MODEL || 'gpt-5',
+    jsonMode: process.env.LLM_JSON_MODE !== 'false',
+    streaming: process.env.LLM_STREAMING === 'true',
+    // Per 1M tokens; unset means the provider's own table (0 for self-hosted)
+    priceInput: process.env.LLM_PRICE_INPUT ? parseFloat(process.env.LLM_PRICE_INPUT) : undefined,
+    priceOutput: process.env.LLM_PRICE_OUTPUT ? parseFloat(process.env.LLM_PRICE_OUTPUT) : undefined,
+    // Per-operation model chains (primary first, then fallbacks); unset
+    // operations use the defaults in services/modelRouter.ts
+    routes: {
+      analyzeQuick: parseList(process.env.LLM_MODELS_ANALYZE_QUICK, false),
+      analyzeDetailed: parseList(process.env.LLM_MODELS_ANALYZE_DETAILED, false),
+      analyzeArticle: parseList(process.env.LLM_MODELS_ANALYZE_ARTICLE, false),
+      extractClaims: parseList(process.env.LLM_MODELS_EXTRACT_CLAIMS, false),
+      expertValidation: parseList(process.env.LLM_MODELS_EXPERT_VALIDATION, false),
+      evidenceSynthesis: parseList(process.env.LLM_MODELS_EVIDENCE_SYNTHESIS, false),
+      stanceClassification: parseList(process.env.LLM_MODELS_STANCE_CLASSIFICATION, false),
+      complete: parseList(process.env.LLM_MODELS_COMPLETE, false),
+    } as LLMRoutingTable,
+    // Fraction of DAILY_COST_CAP after which calls start on a cheaper model
+    budgetDowngradeAt: parseFloat(process.env.LLM_BUDGET_DOWNGRADE_AT || '0.8'),
+    // Embedding model for claim matching; OpenAI defaults to
+    // text-embedding-3-small, compatible servers to none ('none' disables)
+    embeddingModel: process.env.LLM_EMBEDDING_MODEL === 'none'
+      ? ''
+      : process.env.LLM_EMBEDDING_MODEL || ((process.env.LLM_PROVIDER || 'openai') === 'openai' ? 'text-embedding-3-small' : ''),
+    embeddingPrice: process.env.LLM_EMBEDDING_PRICE ? parseFloat(process.env.LLM_EMBEDDING_PRICE) : undefined,
+  },
+
+  // Search providers in priority order (exa, scholarly, local); results from
+  // every listed provider are combined. Per-operation lists override the default.
+  searchProviders: {
+    default: parseList(process.env.SEARCH_PROVIDERS) || ['exa'],
+    news: parseList(process.env.SEARCH_PROVIDERS_NEWS),
+    academic: parseList(process.env.SEARCH_PROVIDERS_ACADEMIC),
+    expertCommentary: parseList(process.env.SEARCH_PROVIDERS_EXPERT_COMMENTARY),
+    factCheck: parseList(process.env.SEARCH_PROVIDERS_FACT_CHECK),
+  },
 };
@@ -1,17 +1,17 @@
 import { Request, Response } from 'express';
 import { openaiService } from '../services/openai';
 import cache from '../services/cache';
+import { canonicalizeUrl, getArticleCacheKey } from '../services/canonicalUrl';
+import { recordRevision } from '../services/articleRevisions';
+import { createLogger } from '../services/logger';
+import { AnalysisRevisionInfo } from '../types/revision';
 import crypto from 'crypto';
 
+const log = createLogger('Analyze');
+
 // Cache TTL: 1 hour
 const CACHE_TTL = 3600;
 
-// Generate cache key from URL
-function getCacheKey(url: string): string {
-  const hash = crypto.createHash('md5').update(url).digest('hex');
-  return `analyze:${hash}`;
-}
-
 // Default/fallback values for partial failures
 const DEFAULT_ANALYSIS = {
   summary: {
@@ -23,81 +23,108 @@ const DEFAULT_ANALYSIS = {
   isPolitical: false,
 };
 
-export async function analyzeArticle(req: Request, res: Response): Promise<void> {
-  const { url, content, title, source } = req.body;
+/**
+ * Analyze an article, falling back to a basic summary if the LLM fails
+ * (budget errors are rethrown)
+ */
+async function runAnalysis(content: string, title: string, source: string) {
   const warnings: string[] = [];
 
+  log.info(`Analyzing article: "${title}" from ${source}`);
+
+  // Call OpenAI to analyze the article with graceful degradation
+  let analysis: typeof DEFAULT_ANALYSIS & { model?: string } = { ...DEFAULT_ANALYSIS };
+
   try {
-    // Check cache first
-    const cacheKey = getCacheKey(url);
-    const cached = await cache.get<any>(cacheKey);
-
-    if (cached) {
-      console.log(`[Analyze] Cache hit for ${url}`);
-      res.json({ ...cached, cached: true });
-      return;
-    }
+    analysis = await openaiService.analyzeArticle(content, title, source);
+  } catch (analysisError) {
+    const errorMessage = (analysisError as Error).message;
+    log.error('OpenAI analysis failed', { error: errorMessage });
 
-    console.log(`[Analyze] Analyzing article: "${title}" from ${source}`);
+    // Check if it's a budget error - rethrow so user knows
+    if (errorMessage.includes('budget') || errorMessage.includes('cost')) {
+      throw analysisError;
+    }
 
-    // Call OpenAI to analyze the article with graceful degradation
-    let analysis = { ...DEFAULT_ANALYSIS };
+    // For other errors, try to provide partial results
+    warnings.push('Full analysis unavailable - showing partial results');
 
+    // Try to extract basic summary from content if OpenAI fails
     try {
-      analysis = await openaiService.analyzeArticle(content, title, source);
-    } catch (analysisError) {
-      const errorMessage = (analysisError as Error).message;
-      console.error('[Analyze] OpenAI analysis failed:', errorMessage);
-
-      // Check if it's a budget error - rethrow so user knows
-      if (errorMessage.includes('budget') || errorMessage.includes('cost')) {
-        throw analysisError;
-      }
+      const basicSummary = extractBasicSummary(content, title);
+      analysis.summary.text = basicSummary.text;
+      analysis.summary.keyFacts = basicSummary.keyFacts;
+    } catch (summaryError) {
+      log.error('Basic summary extraction failed', { error: summaryError });
+      analysis.summary.text = 'Unable to generate summary at this time.';
+      warnings.push('Summary generation failed');
+    }
+  }
+
+  // Validate and sanitize response data
+  const response = {
+    id: crypto.randomUUID(),
+    summary: {
+      text: analysis.summary?.text || 'Summary unavailable',
+      key_facts: Array.isArray(analysis.summary?.keyFacts) ? analysis.summary.keyFacts : [],
+      missing_context: Array.isArray(analysis.summary?.missingContext) ? analysis.summary.missingContext : [],
+    },
+    bias_indicators: Array.isArray(analysis.biasIndicators)
+      ? analysis.biasIndicators.map(bi => ({
+          original_text: bi.originalText || '',
+          type: bi.type || 'unknown',
+          explanation: bi.explanation || '',
+        }))
+      : [],
+    is_political: Boolean(analysis.isPolitical),
+    model: analysis.model,
+    cached: false,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
 
-      // For other errors, try to provide partial results
-      warnings.push('Full analysis unavailable - showing partial results');
+  return response;
+}
+
+export async function analyzeArticle(req: Request, res: Response): Promise<void> {
+  const { url, canonicalUrl, content, title, source } = req.body;
 
-      // Try to extract basic summary from content if OpenAI fails
+  try {
+    // Concurrent requests for the same article share one analysis; the key
+    // is the canonical URL plus a hash of the text, so edits are re-analyzed
+    const cacheKey = getArticleCacheKey('analyze', { url, canonicalUrl, content });
+    const { value: analysis, status } = await cache.getOrLoad(
+      cacheKey,
+      () => runAnalysis(content, title, source),
+      // Only cache if no warnings (full successful analysis)
+      { ttlSeconds: CACHE_TTL, shouldCache: (analysis) => !analysis.warnings }
+    );
+
+    // Keep this version in the client's history, cached or not; an edited
+    // article reports what changed
+    let response: typeof analysis & { revision?: AnalysisRevisionInfo } = analysis;
+    if (!analysis.warnings) {
       try {
-        const basicSummary = extractBasicSummary(content, title);
-        analysis.summary.text = basicSummary.text;
-        analysis.summary.keyFacts = basicSummary.keyFacts;
-      } catch (summaryError) {
-        console.error('[Analyze] Basic summary extraction failed:', (summaryError as Error).message);
-        analysis.summary.text = 'Unable to generate summary at this time.';
-        warnings.push('Summary generation failed');
+        const revision = await recordRevision(canonicalizeUrl(url, canonicalUrl), {
+          title,
+          content,
+          analysis,
+          reanalysis: 'full',
+        });
+        response = { ...analysis, revision };
+      } catch (err) {
+        log.warn('Could not record revision', { error: err });
       }
     }
 
-    // Validate and sanitize response data
-    const response = {
-      id: crypto.randomUUID(),
-      summary: {
-        text: analysis.summary?.text || 'Summary unavailable',
-        key_facts: Array.isArray(analysis.summary?.keyFacts) ? analysis.summary.keyFacts : [],
-        missing_context: Array.isArray(analysis.summary?.missingContext) ? analysis.summary.missingContext : [],
-      },
-      bias_indicators: Array.isArray(analysis.biasIndicators)
-        ? analysis.biasIndicators.map(bi => ({
-            original_text: bi.originalText || '',
-            type: bi.type || 'unknown',
-            explanation: bi.explanation || '',
-          }))
-        : [],
-      is_political: Boolean(analysis.isPolitical),
-      cached: false,
-      warnings: warnings.length > 0 ? warnings : undefined,
-    };
-
-    // Only cache if no warnings (full successful analysis)
-    if (warnings.length === 0) {
-      await cache.set(cacheKey, response, CACHE_TTL);
+    if (status === 'miss') {
+      res.json(response);
+    } else {
+      log.info(`Cache ${status} for ${url}`);
+      res.json({ ...response, cached: true });
     }
-
-    res.json(response);
   } catch (error) {
     const errorMessage = (error as Error).message;
-    console.error('[Analyze] Error:', errorMessage);
+    log.error('Analysis failed', { error: errorMessage });
 
     // Determine appropriate status code based on error type
     let statusCode = 500;
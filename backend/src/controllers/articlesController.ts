@@ -0,0 +1,85 @@
+/**
+ * Articles Controller
+ * Server-side article fetching for callers that only have a URL
+ *
+ * The response is an article body POST /analyze and /evaluate accept as
+ * is (title, source, content, url, author), plus the byline, publish
+ * date and body links extracted from the page.
+ *
+ * GET /articles/revisions shows how an article changed since it was first
+ * analyzed (services/articleRevisions.ts).
+ */
+
+import { Request, Response } from 'express';
+import { fetchArticle, isFetchableUrl } from '../services/articleFetcher';
+import { getRevisionHistory } from '../services/articleRevisions';
+import { canonicalizeUrl } from '../services/canonicalUrl';
+import { sendFetchError } from '../middleware/articleFromUrl';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Articles');
+
+/**
+ * POST /api/v1/articles/fetch
+ * Download a page and extract its article
+ */
+export async function fetchArticleByUrl(req: Request, res: Response): Promise<void> {
+  const { url } = req.body || {};
+
+  if (!url || typeof url !== 'string') {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: 'Missing or invalid "url" field',
+    });
+    return;
+  }
+
+  if (!isFetchableUrl(url.trim())) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: '"url" must be a public http(s) address',
+    });
+    return;
+  }
+
+  try {
+    res.json(await fetchArticle(url.trim()));
+  } catch (error) {
+    log.warn('Fetch failed', { url, error });
+    sendFetchError(res, error);
+  }
+}
+
+/**
+ * GET /api/v1/articles/revisions?url=<url>
+ * Versions of an article analyzed so far, with what changed between them
+ */
+export async function getArticleRevisions(req: Request, res: Response): Promise<void> {
+  const { url } = req.query;
+
+  if (!url || typeof url !== 'string' || !/^https?:\/\//i.test(url.trim())) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: 'Missing or invalid "url" query parameter',
+    });
+    return;
+  }
+
+  try {
+    const history = await getRevisionHistory(canonicalizeUrl(url));
+    if (!history) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'No analysis recorded for this article',
+      });
+      return;
+    }
+    res.json(history);
+  } catch (error) {
+    log.error('Revision history failed', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to load article revisions',
+    });
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Claims Controller
+ * Read access to the claim store
+ *
+ * Evaluated claims carry a storedClaim.id (see POST /evaluate); it names
+ * the claim across every article that made it, however worded.
+ * GET /claims/search lets fact-checkers see what was already said about
+ * a topic before researching it again.
+ */
+
+import { Request, Response } from 'express';
+import { DOMAIN_CONFIGS } from '../config/domainConfigs';
+import { getClaimArticles, getStoredClaim, searchClaims } from '../services/claimStore';
+import { createLogger } from '../services/logger';
+import {
+  ClaimType,
+  Domain,
+  NON_VERIFIABLE_CLAIM_TYPES,
+  PARTIALLY_VERIFIABLE_CLAIM_TYPES,
+  VERIFIABLE_CLAIM_TYPES,
+} from '../types/claims';
+import { ConsensusLevel } from '../types/consensus';
+import { CONSENSUS_COLOR_MAP } from '../types/output';
+import { ClaimSearchQuery, StoredClaim } from '../types/claimStore';
+
+const log = createLogger('Claims');
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+const DOMAINS = Object.keys(DOMAIN_CONFIGS) as Domain[];
+const CLAIM_TYPES: ClaimType[] = [
+  ...VERIFIABLE_CLAIM_TYPES,
+  ...PARTIALLY_VERIFIABLE_CLAIM_TYPES,
+  ...NON_VERIFIABLE_CLAIM_TYPES,
+];
+const CONSENSUS_LEVELS = Object.keys(CONSENSUS_COLOR_MAP) as ConsensusLevel[];
+
+/**
+ * Parse a comma-separated filter, checking each value against the allowed ones
+ * @returns The values (undefined when absent), or an error message
+ */
+function parseFilter<T extends string>(
+  value: unknown,
+  name: string,
+  allowed: T[]
+): { values?: T[]; error?: string } {
+  if (value === undefined || value === '') return {};
+  if (typeof value !== 'string') return { error: `"${name}" must be a comma-separated list` };
+
+  const values = value.split(',').map((v) => v.trim()).filter(Boolean);
+  const invalid = values.filter((v) => !allowed.includes(v as T));
+  if (invalid.length > 0) {
+    return { error: `Unknown ${name} "${invalid[0]}". Expected one of: ${allowed.join(', ')}` };
+  }
+  return { values: values as T[] };
+}
+
+/**
+ * Format a stored claim for search results: its latest framing and citations
+ */
+function formatSearchHit(claim: StoredClaim): any {
+  const assessment = claim.assessment;
+  return {
+    id: claim.id,
+    text: claim.text,
+    type: claim.type,
+    domain: claim.domain,
+    articleCount: claim.articleCount,
+    firstSeenAt: claim.firstSeenAt,
+    lastSeenAt: claim.lastSeenAt,
+    consensus: assessment
+      ? {
+          level: assessment.consensus.level,
+          confidence: assessment.consensus.confidence,
+          framing: assessment.consensus.framingSentence,
+          assessedAt: assessment.assessedAt,
+        }
+      : null,
+    citations: (assessment?.evidence || []).map((e) => ({
+      title: e.citation.title,
+      authors: e.citation.authors,
+      publication: e.citation.publication,
+      year: e.citation.year,
+      url: e.citation.url,
+      doi: e.citation.doi,
+      tier: e.tier,
+      direction: e.direction,
+      retracted: !!e.citation.retraction,
+    })),
+  };
+}
+
+/**
+ * GET /api/v1/claims/search
+ * Previously evaluated claims matching ?q= and the domain, type and
+ * consensus filters (each comma-separated), best match first
+ */
+export async function searchStoredClaims(req: Request, res: Response): Promise<void> {
+  const { q } = req.query;
+  const limit = parseInt(String(req.query.limit || DEFAULT_SEARCH_LIMIT), 10);
+  const offset = parseInt(String(req.query.offset || '0'), 10);
+  const domain = parseFilter(req.query.domain, 'domain', DOMAINS);
+  const type = parseFilter(req.query.type, 'type', CLAIM_TYPES);
+  const consensus = parseFilter(req.query.consensus, 'consensus', CONSENSUS_LEVELS);
+
+  const error =
+    (q !== undefined && typeof q !== 'string' ? '"q" must be a string' : undefined) ||
+    (!Number.isFinite(limit) || limit < 1 ? '"limit" must be a positive integer' : undefined) ||
+    (!Number.isFinite(offset) || offset < 0 ? '"offset" must be zero or a positive integer' : undefined) ||
+    domain.error ||
+    type.error ||
+    consensus.error;
+
+  if (error) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: error,
+    });
+    return;
+  }
+
+  const query: ClaimSearchQuery = {
+    q: q as string | undefined,
+    domains: domain.values,
+    types: type.values,
+    consensusLevels: consensus.values,
+    limit: Math.min(limit, MAX_SEARCH_LIMIT),
+    offset,
+  };
+
+  try {
+    const result = await searchClaims(query);
+    res.json({
+      total: result.total,
+      limit: query.limit,
+      offset,
+      claims: result.claims.map(formatSearchHit),
+    });
+  } catch (error) {
+    log.error('Search failed', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to search claims',
+    });
+  }
+}
+
+/**
+ * GET /api/v1/claims/:id
+ * The stored claim with its article links, most recent first
+ */
+export async function getClaim(req: Request, res: Response): Promise<void> {
+  try {
+    const claim = await getStoredClaim(req.params.id);
+    if (!claim) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `No claim with id "${req.params.id}"`,
+      });
+      return;
+    }
+
+    res.json({ ...claim, articles: await getClaimArticles(claim.id) });
+  } catch (error) {
+    log.error('Lookup failed', { error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to load claim',
+    });
+  }
+}
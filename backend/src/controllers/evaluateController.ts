@@ -6,6 +6,7 @@
  *
  * Provides endpoints for:
  * - Full article evaluation through the complete pipeline
+ * - Streaming (SSE) evaluation with per-claim events
  * - Quick preview evaluation (no evidence search)
  * - Single claim evaluation
  */
@@ -17,30 +18,61 @@ import {
   runPipeline,
   runQuickPipeline,
   evaluateClaim,
+  pipelineLimiter,
   PipelineInput,
   PipelineOptions,
   PipelineResult,
+  PipelineSummary,
+  EvaluatedClaim,
 } from '../services/pipeline';
+import { createLogger } from '../services/logger';
 import { Article, ClassifiedClaim } from '../types/claims';
 import { OutputFormat } from '../types/output';
 
+const log = createLogger('Evaluate');
+const streamLog = createLogger('EvaluateStream');
+
 // Cache TTL: 30 minutes for evaluations
-const CACHE_TTL = 30 * 60;
+export const CACHE_TTL = 30 * 60;
+
+// After that, a result is still answered for 30 minutes while it is re-run
+export const CACHE_STALE_TTL = 30 * 60;
+
+// Suggested wait when the pipeline queue turns a request away
+const QUEUE_RETRY_AFTER_SECONDS = 30;
 
 /**
  * Generate cache key from article content
  */
-function getCacheKey(article: Article, options: Partial<PipelineOptions> = {}): string {
+export function getCacheKey(article: Article, options: Partial<PipelineOptions> = {}): string {
   const content = `${article.title}:${article.content.substring(0, 500)}:${JSON.stringify(options)}`;
   const hash = crypto.createHash('md5').update(content).digest('hex');
   return `evaluate:${hash}`;
 }
 
+/**
+ * Whether the pipeline queue turned the request away (full or timed out)
+ */
+function isQueueError(error: unknown): boolean {
+  return (error as Error).message.toLowerCase().includes('evaluation queue');
+}
+
+/**
+ * Answer 503 with Retry-After for a request the pipeline queue turned away
+ */
+function sendQueueBusy(res: Response): void {
+  res.setHeader('Retry-After', String(QUEUE_RETRY_AFTER_SECONDS));
+  res.status(503).json({
+    error: 'Too many evaluations in progress',
+    message: 'Please try again shortly',
+  });
+}
+
 /**
  * Validate article input
  */
-function validateArticleInput(body: any): { valid: boolean; error?: string; article?: Article } {
-  const { title, content, source, url, author } = body;
+export function validateArticleInput(body: any): { valid: boolean; error?: string; article?: Article } {
+  const { title, content, source, url, author, publishedAt } = body;
 
   if (!title || typeof title !== 'string' || title.trim().length === 0) {
     return { valid: false, error: 'Missing or invalid "title" field' };
@@ -54,12 +86,21 @@ function validateArticleInput(body: any): { valid: boolean; error?: string; arti
     return { valid: false, error: 'Missing or invalid "source" field' };
   }
 
+  let published: Date | undefined;
+  if (publishedAt !== undefined && publishedAt !== null && publishedAt !== '') {
+    published = typeof publishedAt === 'string' ? new Date(publishedAt.trim()) : undefined;
+    if (!published || isNaN(published.getTime())) {
+      return { valid: false, error: 'Invalid "publishedAt" field (expected an ISO 8601 date)' };
+    }
+  }
+
   const article: Article = {
     title: title.trim(),
     content: content.trim(),
     source: source.trim(),
     url: typeof url === 'string' ? url.trim() : undefined,
     author: typeof author === 'string' ? author.trim() : undefined,
+    publishedAt: published ? published.toISOString() : undefined,
   };
 
   return { valid: true, article };
@@ -68,7 +109,7 @@ function validateArticleInput(body: any): { valid: boolean; error?: string; arti
 /**
  * Validate pipeline options
  */
-function validateOptions(body: any): PipelineOptions {
+export function validateOptions(body: any): PipelineOptions {
   const options: PipelineOptions = {};
 
   if (typeof body.maxClaims === 'number' && body.maxClaims > 0 && body.maxClaims <= 20) {
@@ -88,6 +129,10 @@ function validateOptions(body: any): PipelineOptions {
     options.includeRawResults = body.includeRawResults;
   }
 
+  if (typeof body.useExpertPanel === 'boolean') {
+    options.useExpertPanel = body.useExpertPanel;
+  }
+
   if (typeof body.skipCache === 'boolean') {
     // skipCache is handled separately
   }
@@ -95,10 +140,74 @@ function validateOptions(body: any): PipelineOptions {
   return options;
 }
 
+/**
+ * Format the pipeline summary for API output
+ */
+function formatSummary(summary: PipelineSummary): any {
+  return {
+    totalClaims: summary.totalClaims,
+    claimsEvaluated: summary.claimsEvaluated,
+    claimsByType: summary.claimsByType,
+    claimsByDomain: summary.claimsByDomain,
+    consensusDistribution: summary.consensusLevelDistribution,
+    averageConfidence: summary.averageConfidence,
+    valuesQuestionsCount: summary.valuesQuestionsCount,
+    hasActiveDebate: summary.hasActiveDabate,
+  };
+}
+
+/**
+ * Format a single evaluated claim for API output
+ */
+function formatEvaluatedClaim(ec: EvaluatedClaim): any {
+  return {
+    id: ec.claim.id,
+    text: ec.claim.text,
+    type: ec.claim.type,
+    domain: ec.claim.domain,
+    isVerifiable: ec.claim.isVerifiable,
+    source: {
+      name: ec.claim.source.name,
+      role: ec.claim.source.role,
+      isExcluded: ec.claim.source.isExcludedFromExpertPool,
+      exclusionReason: ec.claim.source.exclusionReason,
+    },
+    consensus: {
+      level: ec.consensus.level,
+      confidence: ec.consensus.confidence,
+      framing: ec.consensus.framingSentence,
+    },
+    timeframe: ec.claim.timeframe,
+    referenceData: ec.consensus.referenceData,
+    evidence: {
+      total: ec.evidence.length,
+      supporting: ec.consensus.evidenceSummary.supporting,
+      opposing: ec.consensus.evidenceSummary.opposing,
+      supportRatio: ec.consensus.evidenceSummary.supportRatio,
+    },
+    experts: {
+      validated: ec.experts.validCount,
+      excluded: ec.experts.excludedCount,
+      excludedReasons: ec.experts.excludedPersons.map((p) => ({
+        name: p.name,
+        reason: p.reason,
+      })),
+    },
+    expertPanel: ec.output.rendered.expertPanel,
+    output: {
+      format: ec.output.format,
+      content: ec.output.content,
+      header: ec.output.rendered.header,
+    },
+    honestyCheck: ec.honestyCheck,
+    storedClaim: ec.storedClaim,
+  };
+}
+
 /**
  * Format response for API output
  */
-function formatResponse(result: PipelineResult, includeRaw: boolean = false): any {
+export function formatResponse(result: PipelineResult, includeRaw: boolean = false): any {
   const response: any = {
     id: crypto.randomUUID(),
 
@@ -107,67 +216,63 @@ function formatResponse(result: PipelineResult, includeRaw: boolean = false): an
       title: result.article.title,
       source: result.article.source,
       url: result.article.url,
+      publishedAt: result.article.publishedAt,
     },
 
     // Summary
-    summary: {
-      totalClaims: result.summary.totalClaims,
-      claimsEvaluated: result.summary.claimsEvaluated,
-      claimsByType: result.summary.claimsByType,
-      claimsByDomain: result.summary.claimsByDomain,
-      consensusDistribution: result.summary.consensusLevelDistribution,
-      averageConfidence: result.summary.averageConfidence,
-      valuesQuestionsCount: result.summary.valuesQuestionsCount,
-      hasActiveDebate: result.summary.hasActiveDabate,
-    },
+    summary: formatSummary(result.summary),
 
     // Article subjects (excluded from expert pool)
     articleSubjects: result.extractedClaims.articleSubjects,
 
     // Evaluated claims
-    claims: result.evaluatedClaims.map((ec) => ({
-      id: ec.claim.id,
-      text: ec.claim.text,
-      type: ec.claim.type,
-      domain: ec.claim.domain,
-      isVerifiable: ec.claim.isVerifiable,
-      source: {
-        name: ec.claim.source.name,
-        role: ec.claim.source.role,
-        isExcluded: ec.claim.source.isExcludedFromExpertPool,
-        exclusionReason: ec.claim.source.exclusionReason,
-      },
-      consensus: {
-        level: ec.consensus.level,
-        confidence: ec.consensus.confidence,
-        framing: ec.consensus.framingSentence,
-      },
-      evidence: {
-        total: ec.evidence.length,
-        supporting: ec.consensus.evidenceSummary.supporting,
-        opposing: ec.consensus.evidenceSummary.opposing,
-        supportRatio: ec.consensus.evidenceSummary.supportRatio,
-      },
-      experts: {
-        validated: ec.experts.validCount,
-        excluded: ec.experts.excludedCount,
-        excludedReasons: ec.experts.excludedPersons.map((p) => ({
-          name: p.name,
-          reason: p.reason,
-        })),
-      },
-      output: {
-        format: ec.output.format,
-        content: ec.output.content,
-        header: ec.output.rendered.header,
-      },
-      honestyCheck: ec.honestyCheck,
-    })),
+    claims: result.evaluatedClaims.map(formatEvaluatedClaim),
+
+    // Everyone cited or quoted in the article, validated as experts
+    experts: result.articleExperts
+      ? {
+          validated: result.articleExperts.validExperts.map((e) => ({
+            name: e.name,
+            credentials: e.credentials,
+            affiliation: e.affiliation,
+            qualityTier: e.qualityTier,
+          })),
+          excluded: result.articleExperts.excludedPersons.map((p) => ({
+            name: p.name,
+            reason: p.reason,
+            explanation: p.explanation,
+          })),
+        }
+      : undefined,
+
+    // Quotes with their speakers and the claims they bear on
+    quotes: result.quotes
+      ? {
+          method: result.quotes.method,
+          quotes: result.quotes.quotes,
+        }
+      : undefined,
+
+    // Expert types consulted (if the panel ran)
+    expertPanel: result.expertPanel
+      ? {
+          method: result.expertPanel.team.method,
+          experts: result.expertPanel.findings.map((f) => ({
+            type: f.expert.type,
+            whyNeeded: f.expert.whyNeeded,
+            sourcesFound: f.sources.length,
+            overallAssessment: f.overallAssessment,
+            methodologicalConcerns: f.methodologicalConcerns,
+            limitations: f.limitations,
+          })),
+        }
+      : undefined,
 
     // Metadata
     metadata: {
       processedAt: result.metadata.completedAt.toISOString(),
       processingTimeMs: result.metadata.processingTimeMs,
+      stageDurationsMs: result.metadata.stageDurationsMs,
       servicesUsed: result.metadata.servicesUsed,
       warnings: result.metadata.warnings.length > 0 ? result.metadata.warnings : undefined,
       errors: result.metadata.errors.length > 0 ? result.metadata.errors : undefined,
@@ -193,6 +298,7 @@ function formatResponse(result: PipelineResult, includeRaw: boolean = false): an
  * - source: string (required)
  * - url: string (optional)
  * - author: string (optional)
+ * - publishedAt: string (optional, ISO 8601; relative dates in claims are read against it)
  * - maxClaims: number (optional, default 5, max 20)
  * - maxSearchResults: number (optional, default 10, max 50)
  * - outputFormat: 'html' | 'markdown' | 'json' | 'text' (optional, default 'markdown')
@@ -200,7 +306,7 @@ function formatResponse(result: PipelineResult, includeRaw: boolean = false): an
  * - skipCache: boolean (optional, default false)
  */
 export async function evaluateArticle(req: Request, res: Response): Promise<void> {
-  console.log('[Evaluate] Full evaluation request received');
+  log.info('Full evaluation request received');
 
   // Validate article input
   const validation = validateArticleInput(req.body);
@@ -217,35 +323,49 @@ export async function evaluateArticle(req: Request, res: Response): Promise<void
   const skipCache = req.body.skipCache === true;
 
   try {
-    // Check cache first (unless skipCache)
     const cacheKey = getCacheKey(article, options);
-    if (!skipCache) {
-      const cached = await cache.get<any>(cacheKey);
-      if (cached) {
-        console.log(`[Evaluate] Cache hit for article: "${article.title}"`);
-        res.json({ ...cached, cached: true });
-        return;
+
+    const evaluate = async () => {
+      log.info(`Running full pipeline for: "${article.title}"`);
+
+      const input: PipelineInput = { article, options };
+      const response = formatResponse(await runPipeline(input), options.includeRawResults);
+      response.cached = false;
+      return response;
+    };
+    // Cache the result unless a claim failed
+    const isComplete = (response: any) => !response.metadata.errors;
+
+    if (skipCache) {
+      const response = await evaluate();
+      if (isComplete(response)) {
+        await cache.set(cacheKey, response, CACHE_TTL, CACHE_STALE_TTL);
       }
+      res.json(response);
+      return;
     }
 
-    console.log(`[Evaluate] Running full pipeline for: "${article.title}"`);
-
-    // Run the pipeline
-    const input: PipelineInput = { article, options };
-    const result = await runPipeline(input);
-
-    // Format response
-    const response = formatResponse(result, options.includeRawResults);
-    response.cached = false;
+    // Concurrent requests for the same article share one run; an outdated
+    // result is answered at once while it is re-evaluated in the background
+    const { value: response, status } = await cache.getOrLoad(cacheKey, evaluate, {
+      ttlSeconds: CACHE_TTL,
+      staleSeconds: CACHE_STALE_TTL,
+      shouldCache: isComplete,
+    });
 
-    // Cache the result (unless there were errors)
-    if (result.metadata.errors.length === 0) {
-      await cache.set(cacheKey, response, CACHE_TTL);
+    if (status === 'miss') {
+      res.json(response);
+    } else {
+      log.info(`Cache ${status} for article: "${article.title}"`);
+      res.json({ ...response, cached: true });
     }
-
-    res.json(response);
   } catch (error) {
-    console.error('[Evaluate] Pipeline error:', (error as Error).message);
+    log.error('Pipeline error', { error });
+
+    if (isQueueError(error)) {
+      sendQueueBusy(res);
+      return;
+    }
 
     // Determine appropriate status code
     let statusCode = 500;
@@ -270,6 +390,146 @@ export async function evaluateArticle(req: Request, res: Response): Promise<void
   }
 }
 
+/**
+ * POST /api/v1/evaluate/stream
+ *
+ * Full article evaluation streamed over Server-Sent Events.
+ * Emits one event per pipeline stage so clients can render claims
+ * as they finish instead of waiting for the whole pipeline:
+ *
+ * - claimsExtracted: { articleSubjects, totalClaims, claims: [{ id, text, type, domain }] }
+ * - evidenceGathered: { claimId, total, topSources } (one per claim)
+ * - claimEvaluated: same shape as an entry of `claims` in POST /evaluate (one per claim)
+ * - summary: { summary, metadata }
+ * - complete: { id, cached }
+ * - error: { message }
+ *
+ * Same request body as /evaluate
+ */
+export async function evaluateArticleStream(req: Request, res: Response): Promise<void> {
+  streamLog.info('Streaming evaluation request received');
+
+  // Validate article input
+  const validation = validateArticleInput(req.body);
+  if (!validation.valid || !validation.article) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: validation.error,
+    });
+    return;
+  }
+
+  const article = validation.article;
+  const options = validateOptions(req.body);
+  const skipCache = req.body.skipCache === true;
+
+  // Set up SSE
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  // The reader closing the side panel drops the connection: stop the
+  // pipeline rather than keep spending on a stream nobody reads
+  const disconnect = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      streamLog.info('Client disconnected, cancelling evaluation');
+      disconnect.abort();
+    }
+  });
+
+  const sendEvent = (event: string, data: any) => {
+    if (disconnect.signal.aborted) return;
+    res.write(`event: ${event}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    // Check cache first (unless skipCache) - replay the cached response as events
+    const cacheKey = getCacheKey(article, options);
+    if (!skipCache) {
+      const cached = await cache.get<any>(cacheKey);
+      if (cached) {
+        streamLog.info(`Cache hit for article: "${article.title}"`);
+        sendEvent('cached', { cached: true });
+        sendEvent('claimsExtracted', {
+          articleSubjects: cached.articleSubjects,
+          totalClaims: cached.summary.totalClaims,
+          claims: cached.claims.map((c: any) => ({ id: c.id, text: c.text, type: c.type, domain: c.domain })),
+        });
+        for (const claim of cached.claims) {
+          sendEvent('claimEvaluated', claim);
+        }
+        sendEvent('summary', { summary: cached.summary, metadata: cached.metadata, expertPanel: cached.expertPanel });
+        sendEvent('complete', { id: cached.id, cached: true });
+        res.end();
+        return;
+      }
+    }
+
+    streamLog.info(`Running full pipeline for: "${article.title}"`);
+    sendEvent('status', { message: 'Extracting claims...' });
+
+    const input: PipelineInput = {
+      article,
+      options,
+      signal: disconnect.signal,
+      handlers: {
+        onQueued: (position) => {
+          sendEvent('status', { message: `Waiting for a free slot (position ${position} in queue)...` });
+        },
+        onClaimsExtracted: (extracted, claimsToEvaluate) => {
+          sendEvent('claimsExtracted', {
+            articleSubjects: extracted.articleSubjects,
+            totalClaims: extracted.claims.length,
+            claims: claimsToEvaluate.map((c) => ({ id: c.id, text: c.text, type: c.type, domain: c.domain })),
+          });
+          if (claimsToEvaluate.length > 0) {
+            sendEvent('status', { message: 'Searching for evidence...' });
+          }
+        },
+        onEvidenceGathered: (claim, evidence) => {
+          sendEvent('evidenceGathered', {
+            claimId: claim.id,
+            total: evidence.length,
+            topSources: evidence.slice(0, 3).map((e) => ({
+              title: e.citation.title,
+              url: e.citation.url,
+              tier: e.tier,
+              direction: e.direction,
+            })),
+          });
+        },
+        onClaimEvaluated: (evaluated) => {
+          sendEvent('claimEvaluated', formatEvaluatedClaim(evaluated));
+        },
+      },
+    };
+    const result = await runPipeline(input);
+
+    // Same response shape as POST /evaluate, so both endpoints share the cache
+    const response = formatResponse(result, options.includeRawResults);
+    response.cached = false;
+
+    if (result.metadata.errors.length === 0) {
+      await cache.set(cacheKey, response, CACHE_TTL, CACHE_STALE_TTL);
+    }
+
+    sendEvent('summary', { summary: response.summary, metadata: response.metadata, expertPanel: response.expertPanel });
+    sendEvent('complete', { id: response.id, cached: false });
+  } catch (error) {
+    if (disconnect.signal.aborted) {
+      streamLog.info('Evaluation stopped after the client disconnected');
+    } else {
+      streamLog.error('Pipeline error', { error });
+      sendEvent('error', { message: (error as Error).message });
+    }
+  }
+
+  res.end();
+}
+
 /**
  * POST /api/v1/evaluate/quick
  *
@@ -279,7 +539,7 @@ export async function evaluateArticle(req: Request, res: Response): Promise<void
  * Same request body as /evaluate
  */
 export async function evaluateArticleQuick(req: Request, res: Response): Promise<void> {
-  console.log('[Evaluate] Quick evaluation request received');
+  log.info('Quick evaluation request received');
 
   // Validate article input
   const validation = validateArticleInput(req.body);
@@ -295,7 +555,7 @@ export async function evaluateArticleQuick(req: Request, res: Response): Promise
   const options = validateOptions(req.body);
 
   try {
-    console.log(`[Evaluate] Running quick pipeline for: "${article.title}"`);
+    log.info(`Running quick pipeline for: "${article.title}"`);
 
     // Run the quick pipeline (skips evidence search)
     const input: PipelineInput = { article, options };
@@ -308,7 +568,11 @@ export async function evaluateArticleQuick(req: Request, res: Response): Promise
 
     res.json(response);
   } catch (error) {
-    console.error('[Evaluate] Quick pipeline error:', (error as Error).message);
+    log.error('Quick pipeline error', { error });
+    if (isQueueError(error)) {
+      sendQueueBusy(res);
+      return;
+    }
     res.status(500).json({
       error: 'Quick evaluation failed',
       message: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
@@ -327,7 +591,7 @@ export async function evaluateArticleQuick(req: Request, res: Response): Promise
  * - outputFormat: 'html' | 'markdown' | 'json' | 'text' (optional)
  */
 export async function evaluateSingleClaim(req: Request, res: Response): Promise<void> {
-  console.log('[Evaluate] Single claim evaluation request received');
+  log.info('Single claim evaluation request received');
 
   const { claim, articleSubjects = [] } = req.body;
 
@@ -367,7 +631,7 @@ export async function evaluateSingleClaim(req: Request, res: Response): Promise<
   const options = validateOptions(req.body);
 
   try {
-    console.log(`[Evaluate] Evaluating single claim: "${fullClaim.text.substring(0, 50)}..."`);
+    log.info(`Evaluating single claim: "${fullClaim.text.substring(0, 50)}..."`);
 
     const result = await evaluateClaim(fullClaim, articleSubjects, options);
 
@@ -402,7 +666,11 @@ export async function evaluateSingleClaim(req: Request, res: Response): Promise<
       honestyCheck: result.honestyCheck,
     });
   } catch (error) {
-    console.error('[Evaluate] Single claim error:', (error as Error).message);
+    log.error('Single claim error', { error });
+    if (isQueueError(error)) {
+      sendQueueBusy(res);
+      return;
+    }
     res.status(500).json({
       error: 'Claim evaluation failed',
       message: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
@@ -422,8 +690,14 @@ export async function evaluateHealth(_req: Request, res: Response): Promise<void
     timestamp: new Date().toISOString(),
     capabilities: {
       fullEvaluation: true,
+      streamingEvaluation: true,
+      expertPanel: true,
       quickEvaluation: true,
       singleClaimEvaluation: true,
     },
+    pipeline: {
+      active: pipelineLimiter.active,
+      queued: pipelineLimiter.queued,
+    },
   });
 }
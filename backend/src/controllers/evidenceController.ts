@@ -1,10 +1,14 @@
 import { Request, Response } from 'express';
 import { openaiService } from '../services/openai';
-import { searchAcademic, searchExpertCommentary } from '../services/exa';
+import { searchAcademic, searchExpertCommentary } from '../services/searchProvider';
 import { verifyDOI } from '../services/crossref';
+import { checkRetraction } from '../services/retractionCheck';
 import cache from '../services/cache';
+import { createLogger } from '../services/logger';
 import crypto from 'crypto';
 
+const log = createLogger('Evidence');
+
 // Cache TTL: 24 hours
 const CACHE_TTL = 24 * 3600;
 
@@ -46,13 +50,13 @@ export async function getEvidence(req: Request, res: Response): Promise<void> {
     const cached = await cache.get<any>(cacheKey);
 
     if (cached) {
-      console.log(`[Evidence] Cache hit for topic: ${topic}`);
+      log.info(`Cache hit for topic: ${topic}`);
       res.json({ ...cached, cached: true });
       return;
     }
 
-    console.log(`[Evidence] Researching expert evidence for: "${topic}"`);
-    console.log(`[Evidence] Core argument: "${argument.substring(0, 100)}..."`);
+    log.info(`Researching expert evidence for: "${topic}"`);
+    log.info(`Core argument: "${argument.substring(0, 100)}..."`);
 
     // Build search queries for academic research
     const queries = buildResearchQueries(topic, argument);
@@ -60,7 +64,7 @@ export async function getEvidence(req: Request, res: Response): Promise<void> {
     // Search for academic papers (research studies, meta-analyses)
     const academicSearches = queries.slice(0, 3).map(q =>
       searchAcademic(q, 5).catch(err => {
-        console.log(`[Evidence] Academic search failed for "${q}":`, err.message);
+        log.info(`Academic search failed for "${q}"`, { error: err.message });
         return { results: [] };
       })
     );
@@ -68,7 +72,7 @@ export async function getEvidence(req: Request, res: Response): Promise<void> {
     // Search for expert commentary (policy analysis, expert opinions)
     const expertSearches = queries.slice(3).map(q =>
       searchExpertCommentary(q, 4).catch(err => {
-        console.log(`[Evidence] Expert search failed for "${q}":`, err.message);
+        log.info(`Expert search failed for "${q}"`, { error: err.message });
         return { results: [] };
       })
     );
@@ -96,7 +100,7 @@ export async function getEvidence(req: Request, res: Response): Promise<void> {
       return true;
     }).slice(0, 6);
 
-    console.log(`[Evidence] Found ${dedupeAcademic.length} academic, ${dedupeExpert.length} expert sources`);
+    log.info(`Found ${dedupeAcademic.length} academic, ${dedupeExpert.length} expert sources`);
 
     // Combine Exa results for GPT synthesis
     const exaResults = {
@@ -107,27 +111,40 @@ export async function getEvidence(req: Request, res: Response): Promise<void> {
     // Use GPT to synthesize what experts/research say
     const synthesis = await openaiService.synthesizeEvidence(topic, argument, exaResults);
 
-    // Verify DOIs for key studies
+    // Verify DOIs and check for retractions on key studies
     const studiesWithVerification = await Promise.all(
       (synthesis.keyStudies || []).map(async (study) => {
+        const retraction = await checkRetraction(study) || undefined;
         if (study.doi) {
           const isValid = await verifyDOI(study.doi);
-          return { ...study, doiVerified: isValid };
+          return { ...study, doiVerified: isValid, retraction };
         }
-        return { ...study, doiVerified: false };
+        return { ...study, doiVerified: false, retraction };
       })
     );
 
+    // Evidence items only carry a URL; check the ones that link to a DOI
+    const withRetractions = <T extends { url: string }>(items: T[]) =>
+      Promise.all(items.map(async (item) => ({
+        ...item,
+        retraction: await checkRetraction({ url: item.url }) || undefined,
+      })));
+    const [evidenceFor, evidenceAgainst] = await Promise.all([
+      withRetractions(synthesis.evidenceFor || []),
+      withRetractions(synthesis.evidenceAgainst || []),
+    ]);
+
     // Build response
     const response = {
       topic,
       coreQuestion: synthesis.coreQuestion,
       expertConsensus: synthesis.expertConsensus,
-      evidenceFor: synthesis.evidenceFor || [],
-      evidenceAgainst: synthesis.evidenceAgainst || [],
+      evidenceFor,
+      evidenceAgainst,
       keyStudies: studiesWithVerification,
       expertVoices: synthesis.expertVoices || [],
       bottomLine: synthesis.bottomLine,
+      model: synthesis.model,
       cached: false,
     };
 
@@ -136,7 +153,7 @@ export async function getEvidence(req: Request, res: Response): Promise<void> {
 
     res.json(response);
   } catch (error) {
-    console.error('[Evidence] Error:', (error as Error).message);
+    log.error('Evidence search failed', { error });
     res.status(500).json({
       error: 'Failed to get evidence',
       message: (error as Error).message,
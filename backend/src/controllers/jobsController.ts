@@ -0,0 +1,320 @@
+/**
+ * Jobs Controller
+ * Background evaluations for articles that take longer than a proxy allows
+ *
+ * POST /jobs/evaluate queues the same pipeline run as POST /evaluate and
+ * answers 202 with a job id; GET /jobs/:id reports progress and, once
+ * finished, the same response body POST /evaluate would have returned.
+ * POST /jobs/batch queues many articles at once; its result is a BatchReport.
+ */
+
+import { Request, Response } from 'express';
+import cache from '../services/cache';
+import { config } from '../config';
+import { runBatch, BatchItem, BatchReport } from '../services/batchEvaluator';
+import { isFetchableUrl } from '../services/articleFetcher';
+import { runPipeline, PipelineOptions } from '../services/pipeline';
+import {
+  cancelJob,
+  enqueueJob,
+  getJob,
+  registerJobHandler,
+  startJobWorker,
+  toJobView,
+  JobContext,
+} from '../services/jobQueue';
+import { getRequestContext } from '../services/requestContext';
+import { isValidWebhookUrl } from '../services/webhook';
+import { Article } from '../types/claims';
+import { Job, JobType } from '../types/job';
+import {
+  CACHE_TTL,
+  CACHE_STALE_TTL,
+  formatResponse,
+  getCacheKey,
+  validateArticleInput,
+  validateOptions,
+} from './evaluateController';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('Jobs');
+
+/**
+ * What an evaluate job stores to run later
+ */
+interface EvaluateJobInput {
+  article: Article;
+  options: PipelineOptions;
+  skipCache: boolean;
+}
+
+/**
+ * What a batch job stores to run later
+ */
+interface BatchJobInput {
+  items: BatchItem[];
+  options: PipelineOptions;
+  maxCost: number;
+}
+
+/**
+ * Run an evaluate job: the cache is checked first, like POST /evaluate
+ */
+async function runEvaluateJob(job: Job<EvaluateJobInput>, context: JobContext): Promise<any> {
+  const { article, options, skipCache } = job.input;
+
+  const cacheKey = getCacheKey(article, options);
+  if (!skipCache) {
+    const cached = await cache.get<any>(cacheKey);
+    if (cached) {
+      log.info(`Cache hit for job ${job.id}: "${article.title}"`);
+      return { ...cached, cached: true };
+    }
+  }
+
+  let claimsWithEvidence = 0;
+  let claimsEvaluated = 0;
+
+  const result = await runPipeline({
+    article,
+    options,
+    signal: context.signal,
+    handlers: {
+      onQueued: (position) => context.updateProgress({ stage: 'waitingForSlot', queuePosition: position }),
+      onStarted: () => context.updateProgress({ stage: 'extractingClaims', queuePosition: undefined }),
+      onClaimsExtracted: (_extracted, claimsToEvaluate) => {
+        context.updateProgress({ stage: 'gatheringEvidence', claimsTotal: claimsToEvaluate.length });
+      },
+      onEvidenceGathered: () => context.updateProgress({ claimsWithEvidence: ++claimsWithEvidence }),
+      onClaimEvaluated: () => context.updateProgress({ claimsEvaluated: ++claimsEvaluated }),
+    },
+  });
+
+  context.updateProgress({ stage: 'finalizing' });
+  const response = formatResponse(result, options.includeRawResults);
+  response.cached = false;
+
+  if (result.metadata.errors.length === 0) {
+    await cache.set(cacheKey, response, CACHE_TTL, CACHE_STALE_TTL);
+  }
+
+  return response;
+}
+
+/**
+ * Run a batch job
+ */
+async function runBatchJob(job: Job<BatchJobInput>, context: JobContext): Promise<BatchReport> {
+  const { items, options, maxCost } = job.input;
+
+  context.updateProgress({ stage: 'evaluatingArticles', articlesTotal: items.length, articlesDone: 0 });
+  const report = await runBatch(
+    items,
+    { pipeline: options, maxCost, concurrency: config.batch.articleConcurrency },
+    {
+      signal: context.signal,
+      onArticleDone: (done) => context.updateProgress({ articlesDone: done }),
+    }
+  );
+
+  context.updateProgress({ stage: 'finalizing', claimsEvaluated: report.totals.claimsEvaluated });
+  return report;
+}
+
+/**
+ * Register job handlers and start this process's worker
+ */
+export function startJobs(): void {
+  registerJobHandler('evaluate', runEvaluateJob);
+  registerJobHandler('batch', runBatchJob);
+  startJobWorker();
+}
+
+/**
+ * Load a job owned by the calling client
+ * Other clients' jobs look missing, so ids cannot be probed.
+ */
+async function getOwnJob(req: Request): Promise<Job | null> {
+  const job = await getJob(req.params.id);
+  const client = getRequestContext()?.client || 'internal';
+  return job && job.client === client ? job : null;
+}
+
+/**
+ * POST /api/v1/jobs/evaluate
+ * Queue a full evaluation
+ *
+ * Request body: same as POST /evaluate, plus
+ * - webhookUrl?: string (public http(s) URL that receives the finished job)
+ *
+ * Response (202): { id, status, statusUrl }
+ */
+export async function createEvaluateJob(req: Request, res: Response): Promise<void> {
+  const validation = validateArticleInput(req.body);
+  if (!validation.valid || !validation.article) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: validation.error,
+    });
+    return;
+  }
+
+  await queueJob<EvaluateJobInput>(req, res, 'evaluate', {
+    article: validation.article,
+    options: validateOptions(req.body),
+    skipCache: req.body.skipCache === true,
+  });
+}
+
+/**
+ * Validate the articles of a batch request
+ * Each entry is an article (as for POST /evaluate) or a URL, given as a
+ * string or as { url }.
+ */
+function validateBatchItems(articles: unknown): { valid: boolean; error?: string; items?: BatchItem[] } {
+  if (!Array.isArray(articles) || articles.length === 0) {
+    return { valid: false, error: '"articles" must be a non-empty array' };
+  }
+  if (articles.length > config.batch.maxArticles) {
+    return { valid: false, error: `A batch can have at most ${config.batch.maxArticles} articles` };
+  }
+
+  const items: BatchItem[] = [];
+  for (let i = 0; i < articles.length; i++) {
+    const entry = articles[i];
+    const url = typeof entry === 'string' ? entry : entry?.content === undefined ? entry?.url : undefined;
+
+    if (url !== undefined) {
+      if (!isFetchableUrl(url)) {
+        return { valid: false, error: `articles[${i}]: "url" must be a public http(s) URL` };
+      }
+      items.push({ url });
+      continue;
+    }
+
+    const validation = validateArticleInput(entry || {});
+    if (!validation.valid || !validation.article) {
+      return { valid: false, error: `articles[${i}]: ${validation.error}` };
+    }
+    items.push(validation.article);
+  }
+
+  return { valid: true, items };
+}
+
+/**
+ * POST /api/v1/jobs/batch
+ * Queue an evaluation of many articles
+ *
+ * Request body:
+ * - articles: (Article | string | { url })[] (required; URLs are fetched)
+ * - maxCost?: number (USD spending limit for the batch, default BATCH_MAX_COST)
+ * - pipeline options as for POST /evaluate (maxClaims, maxSearchResults, ...)
+ * - webhookUrl?: string
+ *
+ * Response (202): { id, status, statusUrl }; the finished job's result is a BatchReport
+ */
+export async function createBatchJob(req: Request, res: Response): Promise<void> {
+  const validation = validateBatchItems(req.body.articles);
+  if (!validation.valid || !validation.items) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: validation.error,
+    });
+    return;
+  }
+
+  const { maxCost = config.batch.defaultMaxCost } = req.body;
+  if (typeof maxCost !== 'number' || !(maxCost > 0)) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: '"maxCost" must be a positive number of USD',
+    });
+    return;
+  }
+
+  await queueJob<BatchJobInput>(req, res, 'batch', {
+    items: validation.items,
+    options: validateOptions(req.body),
+    maxCost,
+  });
+}
+
+/**
+ * Queue a job for the request and answer 202 with its status URL
+ * Validates the optional webhookUrl in the body.
+ */
+async function queueJob<TInput>(req: Request, res: Response, type: JobType, input: TInput): Promise<void> {
+  const { webhookUrl } = req.body;
+  if (webhookUrl !== undefined && !isValidWebhookUrl(webhookUrl)) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: '"webhookUrl" must be a public http(s) URL',
+    });
+    return;
+  }
+
+  try {
+    const job = await enqueueJob<TInput>(type, input, { webhookUrl });
+
+    const statusUrl = `${req.baseUrl}/${job.id}`;
+    res.status(202).location(statusUrl).json({ id: job.id, status: job.status, statusUrl });
+  } catch (error) {
+    log.error('Failed to queue job', { error });
+    res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'Could not queue the job - please try again',
+    });
+  }
+}
+
+/**
+ * GET /api/v1/jobs/:id
+ * Job status, progress and (once completed) the evaluation response
+ */
+export async function getJobStatus(req: Request, res: Response): Promise<void> {
+  try {
+    const job = await getOwnJob(req);
+    if (!job) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `No job with id "${req.params.id}"`,
+      });
+      return;
+    }
+
+    res.json(toJobView(job));
+  } catch (error) {
+    log.error('Failed to read job', { jobId: req.params.id, error });
+    res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'Could not read the job - please try again',
+    });
+  }
+}
+
+/**
+ * DELETE /api/v1/jobs/:id
+ * Cancel a queued or running job (finished jobs are returned unchanged)
+ */
+export async function cancelJobRequest(req: Request, res: Response): Promise<void> {
+  try {
+    const job = await getOwnJob(req);
+    if (!job) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `No job with id "${req.params.id}"`,
+      });
+      return;
+    }
+
+    const updated = await cancelJob(job.id);
+    res.json(toJobView(updated || job));
+  } catch (error) {
+    log.error('Failed to cancel job', { jobId: req.params.id, error });
+    res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'Could not cancel the job - please try again',
+    });
+  }
+}
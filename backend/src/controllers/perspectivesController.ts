@@ -1,9 +1,12 @@
 import { Request, Response } from 'express';
-import { searchNews } from '../services/exa';
+import { searchNews } from '../services/searchProvider';
 import { getSourceLean, Lean } from '../utils/sourceLean';
 import cache from '../services/cache';
+import { createLogger } from '../services/logger';
 import crypto from 'crypto';
 
+const log = createLogger('Perspectives');
+
 // Cache TTL: 6 hours
 const CACHE_TTL = 6 * 3600;
 
@@ -51,12 +54,12 @@ export async function getPerspectives(req: Request, res: Response): Promise<void
     const cached = await cache.get<any>(cacheKey);
 
     if (cached) {
-      console.log(`[Perspectives] Cache hit for topic: ${topic}`);
+      log.info(`Cache hit for topic: ${topic}`);
       res.json({ ...cached, cached: true });
       return;
     }
 
-    console.log(`[Perspectives] Searching perspectives for: "${topic}" (article lean: ${articleLean || 'unknown'})`);
+    log.info(`Searching perspectives for: "${topic}" (article lean: ${articleLean || 'unknown'})`);
 
     // Build search query from topic and keywords
     const searchQuery = `${topic} ${keywords.join(' ')}`;
@@ -96,7 +99,7 @@ export async function getPerspectives(req: Request, res: Response): Promise<void
 
     res.json(response);
   } catch (error) {
-    console.error('[Perspectives] Error:', (error as Error).message);
+    log.error('Perspective search failed', { error });
     res.status(500).json({
       error: 'Failed to get perspectives',
       message: (error as Error).message,
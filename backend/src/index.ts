@@ -4,22 +4,45 @@ import helmet from 'helmet';
 import { config } from './config';
 import routes from './routes';
 import { errorHandler } from './middleware/errorHandler';
+import { requestContext } from './services/requestContext';
+import { createLogger } from './services/logger';
+import { httpRequestDuration, httpRequests } from './services/metrics';
+import { startJobs } from './controllers/jobsController';
+
+const log = createLogger('HTTP');
 
 const app: Application = express();
 
 // Security middleware
 app.use(helmet());
 
-// CORS middleware
-app.use(cors());
+// CORS middleware (CORS_ORIGINS restricts browser callers; API keys still apply)
+app.use(cors({ origin: config.corsOrigins || true }));
 
 // Body parsing middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Request logging middleware
-app.use((req: Request, _res: Response, next: NextFunction) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
+// Per-request context (request ID for logs, endpoint and client for the cost ledger)
+app.use(requestContext);
+
+// Request logging middleware: one entry per request once it is answered,
+// counted in the metrics under its route pattern (/api/v1/jobs/:id)
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const startedAt = Date.now();
+  res.on('finish', () => {
+    const durationMs = Date.now() - startedAt;
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpRequestDuration.observe({ method: req.method, route }, durationMs / 1000);
+
+    const fields = { method: req.method, path: req.path, status: res.statusCode, durationMs };
+    if (res.statusCode >= 500) {
+      log.error(`${req.method} ${req.path} ${res.statusCode}`, fields);
+    } else {
+      log.info(`${req.method} ${req.path} ${res.statusCode}`, fields);
+    }
+  });
   next();
 });
 
@@ -37,9 +60,10 @@ app.use((_req: Request, res: Response) => {
 // Error handler (handles ZodError and other errors)
 app.use(errorHandler);
 
-// Start server
+// Start server (the banner only in LOG_FORMAT=text; JSON logs get one entry)
 app.listen(config.port, () => {
-  console.log(`
+  if (config.logging.format === 'text') {
+    console.log(`
 ╔═══════════════════════════════════════════════════════╗
 ║         ClearView News Backend Server                 ║
 ╠═══════════════════════════════════════════════════════╣
@@ -47,9 +71,17 @@ app.listen(config.port, () => {
 ║  Port: ${config.port.toString().padEnd(46)}║
 ║  Daily Cost Cap: $${config.dailyCostCap.toString().padEnd(35)}║
 ╚═══════════════════════════════════════════════════════╝
-  `);
-  console.log(`Health check available at: http://localhost:${config.port}/health`);
-  console.log(`API v1 available at: http://localhost:${config.port}/api/v1`);
+    `);
+  }
+  log.info(`Listening on port ${config.port}`, {
+    environment: config.environment,
+    dailyCostCap: config.dailyCostCap,
+    health: `http://localhost:${config.port}/health`,
+    api: `http://localhost:${config.port}/api/v1`,
+  });
+
+  // Background evaluation jobs (picks up jobs left by a previous run)
+  startJobs();
 });
 
 export default app;
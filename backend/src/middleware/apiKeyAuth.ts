@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { verifyApiKey } from '../services/apiKeys';
+import { getClientSpend } from '../services/costTracker';
+import { getRequestContext } from '../services/requestContext';
+import { createLogger } from '../services/logger';
+import { ApiKeyQuota, ApiKeyRecord } from '../types/apiKey';
+
+const log = createLogger('ApiKeyAuth');
+
+/**
+ * Read the key from X-API-Key or "Authorization: Bearer <key>"
+ */
+function readApiKey(req: Request): string | undefined {
+  const header = req.header('x-api-key');
+  if (header) {
+    return header.trim();
+  }
+
+  const authorization = req.header('authorization');
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Seconds until the UTC day (or month) rolls over
+ */
+function secondsUntilReset(period: 'day' | 'month'): number {
+  const now = new Date();
+  const reset = period === 'day'
+    ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+    : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.ceil((reset - now.getTime()) / 1000);
+}
+
+/**
+ * Check the caller's API key and quota
+ *
+ * On success the request context bills charges to the key and carries its
+ * quota, so budget reservations deep in the pipeline enforce it. Requests
+ * already over quota are refused up front with 429 and Retry-After.
+ * Disabled with API_KEYS_REQUIRED=false.
+ */
+export async function requireApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!config.apiKeys.required) {
+    next();
+    return;
+  }
+
+  const key = readApiKey(req);
+  if (!key) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Missing API key. Send it in the X-API-Key header.',
+    });
+    return;
+  }
+
+  let record;
+  try {
+    record = await verifyApiKey(key);
+  } catch (error) {
+    log.error('Key lookup failed', { error });
+    res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'API key verification is temporarily unavailable',
+    });
+    return;
+  }
+
+  if (!record) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Invalid or revoked API key',
+    });
+    return;
+  }
+
+  const context = getRequestContext();
+  if (context) {
+    context.client = record.id;
+    context.quota = record.quota;
+  }
+  res.locals.apiKey = record;
+
+  const spent = await getClientSpend(record.id);
+  const exceeded = quotaExceeded(record.quota, spent.daily, spent.monthly);
+  if (exceeded) {
+    const label = exceeded === 'day' ? 'daily' : 'monthly';
+    const limit = exceeded === 'day' ? record.quota.daily : record.quota.monthly;
+    res.setHeader('Retry-After', String(secondsUntilReset(exceeded)));
+    res.status(429).json({
+      error: 'Quota Exceeded',
+      message: `API key ${label} quota of $${limit} reached`,
+      quota: record.quota,
+      spent,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Allow only keys listed in ADMIN_API_KEYS (after requireApiKey)
+ * Guards operator endpoints that show every client's data. Open, like the
+ * rest of /api/v1, when API_KEYS_REQUIRED=false.
+ */
+export function requireAdminKey(_req: Request, res: Response, next: NextFunction): void {
+  if (!config.apiKeys.required) {
+    next();
+    return;
+  }
+
+  const record = res.locals.apiKey as ApiKeyRecord | undefined;
+  if (!record || !config.apiKeys.adminIds.includes(record.id)) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'This endpoint needs an API key listed in ADMIN_API_KEYS',
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * The period whose quota is used up, if any
+ */
+function quotaExceeded(quota: ApiKeyQuota, daily: number, monthly: number): 'day' | 'month' | null {
+  if (quota.monthly !== null && monthly >= quota.monthly) {
+    return 'month';
+  }
+  if (quota.daily !== null && daily >= quota.daily) {
+    return 'day';
+  }
+  return null;
+}
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { fetchArticle } from '../services/articleFetcher';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ArticleFetch');
+
+/**
+ * Answer a failed article fetch: 400 for addresses that are not allowed,
+ * 502 when the page could not be loaded, 422 when it held no article
+ */
+export function sendFetchError(res: Response, error: unknown): void {
+  const message = (error as Error).message;
+
+  if (/not allowed|public http/i.test(message)) {
+    res.status(400).json({ error: 'Bad Request', message });
+  } else if (/could not reach|answered|longer than|redirected too many/i.test(message)) {
+    res.status(502).json({ error: 'Bad Gateway', message: `Could not fetch article: ${message}` });
+  } else {
+    res.status(422).json({ error: 'Unprocessable Entity', message: `Could not extract article: ${message}` });
+  }
+}
+
+/**
+ * Fill in an article request from its URL when it has no content
+ *
+ * Lets /analyze and /evaluate be called with just { url }. Fields the
+ * request does give (title, source, author, publishedAt, canonicalUrl) are kept.
+ */
+export async function articleFromUrl(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const body = req.body || {};
+  const hasContent = typeof body.content === 'string' && body.content.trim().length > 0;
+  if (hasContent || typeof body.url !== 'string' || !body.url.trim()) {
+    next();
+    return;
+  }
+
+  try {
+    const article = await fetchArticle(body.url.trim());
+    req.body = {
+      ...body,
+      url: article.url,
+      title: body.title || article.title,
+      source: body.source || article.source,
+      author: body.author || article.author,
+      publishedAt: body.publishedAt || article.publishedAt,
+      canonicalUrl: body.canonicalUrl || article.canonicalUrl,
+      content: article.content,
+    };
+    next();
+  } catch (error) {
+    log.warn('Fetch failed', { url: body.url, error });
+    sendFetchError(res, error);
+  }
+}
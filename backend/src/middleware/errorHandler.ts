@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZodError } from 'zod';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ErrorHandler');
 
 export function errorHandler(
   err: Error,
@@ -7,8 +10,7 @@ export function errorHandler(
   res: Response,
   next: NextFunction
 ): void {
-  console.error('[Error Handler]', {
-    message: err.message,
+  log.error(err.message, {
     stack: process.env.NODE_ENV === 'development' ? err.stack : undefined,
     path: req.path,
     method: req.method,
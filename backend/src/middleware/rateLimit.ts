@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { takeToken } from '../services/rateLimiter';
+import { getRequestContext } from '../services/requestContext';
+import { RateLimitRoute } from '../types/rateLimit';
+
+/**
+ * Rate-limit a route group per client (RATE_LIMIT_<ROUTE>)
+ *
+ * The client is the API key id once requireApiKey has run, otherwise the
+ * IP. Refused requests get 429 with Retry-After; every response carries
+ * RateLimit-Limit and RateLimit-Remaining for the route's bucket.
+ */
+export function rateLimit(route: RateLimitRoute) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const rule = config.rateLimits[route];
+    if (!rule) {
+      next();
+      return;
+    }
+
+    const client = getRequestContext()?.client || req.ip || 'unknown';
+    const result = await takeToken(route, client, rule);
+
+    res.setHeader('RateLimit-Limit', String(rule.burst));
+    res.setHeader('RateLimit-Remaining', String(result.remaining));
+
+    if (!result.allowed) {
+      res.setHeader('Retry-After', String(result.retryAfterSeconds));
+      res.status(429).json({
+        error: 'Too Many Requests',
+        message: `Rate limit for ${route} exceeded (${rule.perMinute}/min). Try again in ${result.retryAfterSeconds}s.`,
+        retryAfter: result.retryAfterSeconds,
+      });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Evidence stance prompt - decides whether each search snippet supports,
+ * opposes, or is neutral/mixed with respect to a SPECIFIC claim.
+ * A snippet that "found that" the opposite of the claim opposes it.
+ */
+
+export const EVIDENCE_STANCE_PROMPT = `You are classifying the stance of research evidence toward a specific claim.
+
+CLAIM:
+{{claimText}}
+
+EVIDENCE SNIPPETS (numbered):
+{{snippets}}
+
+For EACH snippet, decide how its finding relates to the CLAIM (not to the topic in general):
+- "supports": the finding is consistent with the claim being true
+- "opposes": the finding contradicts the claim, or finds no effect where the claim asserts one
+- "mixed": the snippet reports findings in both directions
+- "neutral": the snippet is on-topic but does not bear on whether the claim is true
+
+Return JSON:
+{
+  "stances": [
+    {
+      "index": 0,
+      "direction": "supports" | "opposes" | "mixed" | "neutral",
+      "confidence": 0.0-1.0,
+      "rationale": "One short sentence explaining the stance"
+    }
+  ]
+}
+
+CRITICAL RULES:
+- Judge the snippet's FINDING against the CLAIM's assertion - words like "found that" or "significant" do not imply support
+- If the snippet is too short or vague to judge, use "neutral" with low confidence
+- Include exactly one entry per snippet, using the snippet's index
+- Output valid JSON only`;
+
+/**
+ * Generates the evidence stance prompt.
+ */
+export function generateEvidenceStancePrompt(
+  claimText: string,
+  snippets: { title: string; text: string }[]
+): string {
+  const formattedSnippets = snippets
+    .map((s, i) => `[${i}] ${s.title}\n${s.text}`)
+    .join('\n\n');
+
+  return EVIDENCE_STANCE_PROMPT
+    .replace('{{claimText}}', claimText)
+    .replace('{{snippets}}', formattedSnippets);
+}
+
+/**
+ * Expected response structure.
+ */
+export interface EvidenceStanceResponse {
+  stances: {
+    index: number;
+    direction: 'supports' | 'opposes' | 'mixed' | 'neutral';
+    confidence: number;
+    rationale: string;
+  }[];
+}
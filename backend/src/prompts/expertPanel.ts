@@ -0,0 +1,185 @@
+/**
+ * Expert panel prompts - assemble a team of 3-5 expert types for an
+ * article's claims, then have each expert analyze search results through
+ * their own disciplinary lens.
+ * Reference: EXPERT_EVALUATION_SPEC_V2.md Part 3.2-3.3
+ */
+
+export const EXPERT_IDENTIFICATION_PROMPT = `You are assembling a research team to fact-check claims in a news article.
+
+ARTICLE TITLE: {{title}}
+ARTICLE SUBJECT(S) TO EXCLUDE: {{articleSubjects}}
+
+CLAIMS TO EVALUATE:
+{{claims}}
+
+TASK: Identify 3-5 types of domain experts who would be needed to rigorously evaluate these claims from different disciplinary angles.
+
+For each expert type, specify:
+1. What kind of expert (be specific about sub-specialty)
+2. What they should search for
+3. Which databases/sources are most relevant to their field
+4. What types of evidence they should prioritize
+5. Why this expert perspective is needed
+
+THINK ABOUT:
+- Who studies this topic EMPIRICALLY?
+- Who would critique the METHODOLOGY of existing studies?
+- Who understands the POLICY/LEGAL context?
+- Who might have a DIFFERENT DISCIPLINARY LENS?
+- Is there a STATISTICIAN needed to evaluate study quality?
+
+Return JSON:
+{
+  "experts": [
+    {
+      "type": "criminologist specializing in deterrence research",
+      "searchFocus": "death penalty deterrence effect, capital punishment homicide rates",
+      "keyDatabases": ["Google Scholar", "Semantic Scholar", "NCJRS"],
+      "lookFor": "National Academy reports, meta-analyses, systematic reviews",
+      "whyNeeded": "To evaluate the causal claim that the death penalty does or doesn't deter crime"
+    }
+  ],
+  "articleSubjectsToExclude": ["Name of article subject"]
+}
+
+RULES:
+- Choose experts who would have EMPIRICAL RESEARCH on this topic
+- NOT politicians, advocates, or the article subjects
+- Each expert should bring a DIFFERENT disciplinary lens
+- Include at least one methodologist if claims cite studies
+- Be specific about sub-specialty (not just "economist" but "trade economist" or "labor economist")
+- searchFocus must be a short search query (under 15 words)
+- Output valid JSON only`;
+
+export const EXPERT_AGENT_PROMPT = `You are a {{expertType}} conducting a rigorous literature review.
+
+WHY YOUR PERSPECTIVE IS NEEDED: {{whyNeeded}}
+PRIORITIZE: {{lookFor}}
+
+CLAIMS TO EVALUATE:
+{{claims}}
+
+ARTICLE SUBJECTS TO EXCLUDE AS SOURCES: {{excludedSubjects}}
+
+SEARCH RESULTS (numbered):
+{{results}}
+
+YOUR TASK:
+1. Select the search results that are RELEVANT to the claims from your expert perspective
+2. For each selected result, state its key finding and whether it supports or opposes each claim it bears on
+3. Assess each claim: what does the evidence show, how confident are you (based on evidence quality), and why
+
+Return JSON:
+{
+  "sources": [
+    {
+      "index": 0,
+      "keyFinding": "One sentence summarizing the finding relevant to the claims",
+      "claimStances": [
+        { "claimId": "claim_1", "direction": "supports" | "opposes" | "mixed" | "neutral" }
+      ]
+    }
+  ],
+  "claimAssessments": [
+    {
+      "claimId": "claim_1",
+      "verdict": "supported" | "refuted" | "mixed" | "insufficient_evidence" | "inconclusive",
+      "confidence": "high" | "medium" | "low",
+      "reasoning": "Two sentences at most explaining the verdict from your discipline's view",
+      "keyEvidence": ["Short reference to the results that drove the verdict"]
+    }
+  ],
+  "overallAssessment": "One or two sentences",
+  "methodologicalConcerns": ["Concern about the quality of the available evidence"],
+  "limitations": ["What your discipline cannot speak to"]
+}
+
+CRITICAL RULES:
+- Use ONLY the numbered search results above - never cite a study that is not in the list
+- Exclude results authored by or quoting the article subjects
+- Use "insufficient_evidence" when the results do not address a claim, rather than guessing
+- "inconclusive" means the research exists but cannot settle the question
+- Include one claimAssessment per claim, using the claim's id
+- Output valid JSON only`;
+
+/**
+ * Format claims as an id-prefixed list
+ */
+function formatClaims(claims: { id: string; text: string }[]): string {
+  return claims.map((c) => `[${c.id}] ${c.text}`).join('\n');
+}
+
+/**
+ * Generates the expert identification prompt.
+ */
+export function generateExpertIdentificationPrompt(
+  title: string,
+  claims: { id: string; text: string }[],
+  articleSubjects: string[]
+): string {
+  return EXPERT_IDENTIFICATION_PROMPT
+    .replace('{{title}}', title)
+    .replace('{{articleSubjects}}', articleSubjects.join(', ') || 'None')
+    .replace('{{claims}}', formatClaims(claims));
+}
+
+/**
+ * Generates the expert agent prompt.
+ */
+export function generateExpertAgentPrompt(
+  expert: { type: string; whyNeeded: string; lookFor: string },
+  claims: { id: string; text: string }[],
+  excludedSubjects: string[],
+  results: { title: string; url: string; text: string }[]
+): string {
+  const formattedResults = results
+    .map((r, i) => `[${i}] ${r.title} (${r.url})\n${r.text}`)
+    .join('\n\n');
+
+  return EXPERT_AGENT_PROMPT
+    .replace('{{expertType}}', expert.type)
+    .replace('{{whyNeeded}}', expert.whyNeeded)
+    .replace('{{lookFor}}', expert.lookFor)
+    .replace('{{claims}}', formatClaims(claims))
+    .replace('{{excludedSubjects}}', excludedSubjects.join(', ') || 'None')
+    .replace('{{results}}', formattedResults);
+}
+
+/**
+ * Expected identification response structure.
+ */
+export interface ExpertIdentificationResponse {
+  experts: {
+    type: string;
+    searchFocus: string;
+    keyDatabases: string[];
+    lookFor: string;
+    whyNeeded: string;
+  }[];
+  articleSubjectsToExclude: string[];
+}
+
+/**
+ * Expected expert agent response structure.
+ */
+export interface ExpertAgentResponse {
+  sources: {
+    index: number;
+    keyFinding: string;
+    claimStances: {
+      claimId: string;
+      direction: 'supports' | 'opposes' | 'mixed' | 'neutral';
+    }[];
+  }[];
+  claimAssessments: {
+    claimId: string;
+    verdict: 'supported' | 'refuted' | 'mixed' | 'insufficient_evidence' | 'inconclusive';
+    confidence: 'high' | 'medium' | 'low';
+    reasoning: string;
+    keyEvidence: string[];
+  }[];
+  overallAssessment: string;
+  methodologicalConcerns: string[];
+  limitations: string[];
+}
@@ -0,0 +1,82 @@
+/**
+ * Quote attribution prompt - finds every person quoted in an article,
+ * directly or in reported speech, with their title and affiliation, and
+ * links each quote to the extracted claims it supports or disputes.
+ */
+
+export const QUOTE_ATTRIBUTION_PROMPT = `You are identifying every person quoted in a news article.
+
+ARTICLE TITLE: {{title}}
+
+ARTICLE:
+{{content}}
+
+CLAIMS EXTRACTED FROM THE ARTICLE:
+{{claims}}
+
+Find EVERY quote in the article:
+- "direct": words in quotation marks attributed to a person
+- "indirect": reported speech attributed to a person ("Smith said that...", "according to Smith...")
+
+For each quote give:
+1. The speaker's full name as it first appears in the article (resolve "he said", "Smith added" to the full name)
+2. The speaker's title or role and affiliation, exactly as the article describes them (omit if not given)
+3. Any degree or honorific given with the name ("Dr.", "PhD")
+4. Which of the claims above the quote supports or disputes, by claim id (none if it bears on no claim)
+
+Return JSON:
+{
+  "quotes": [
+    {
+      "text": "The quoted words, or the reported statement",
+      "kind": "direct" | "indirect",
+      "speaker": "Full Name",
+      "title": "professor of epidemiology",
+      "affiliation": "Johns Hopkins University",
+      "credentials": "Dr.",
+      "claims": [
+        { "claimId": "claim-1", "relation": "supports" | "disputes" }
+      ]
+    }
+  ]
+}
+
+CRITICAL RULES:
+- Only people - skip quotes attributed to organizations, documents or unnamed sources ("a spokesperson", "officials")
+- Do not invent titles or affiliations the article does not give
+- A quote supports a claim when it asserts or backs it, and disputes it when it contradicts or casts doubt on it
+- Keep each quote's text under 300 characters
+- Output valid JSON only`;
+
+/**
+ * Generates the quote attribution prompt.
+ */
+export function generateQuoteAttributionPrompt(
+  title: string,
+  content: string,
+  claims: { id: string; text: string }[]
+): string {
+  const formattedClaims = claims.length > 0
+    ? claims.map((c) => `[${c.id}] ${c.text}`).join('\n')
+    : '(none)';
+
+  return QUOTE_ATTRIBUTION_PROMPT
+    .replace('{{title}}', title)
+    .replace('{{content}}', content)
+    .replace('{{claims}}', formattedClaims);
+}
+
+/**
+ * Expected response structure.
+ */
+export interface QuoteAttributionResponse {
+  quotes: {
+    text: string;
+    kind: 'direct' | 'indirect';
+    speaker: string;
+    title?: string;
+    affiliation?: string;
+    credentials?: string;
+    claims?: { claimId: string; relation: 'supports' | 'disputes' }[];
+  }[];
+}
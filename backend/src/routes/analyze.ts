@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { validateRequest } from '../middleware/validation';
+import { articleFromUrl } from '../middleware/articleFromUrl';
 import { analyzeArticle } from '../controllers/analyzeController';
 
 const router = Router();
@@ -10,10 +11,13 @@ const AnalyzeRequestSchema = z.object({
   content: z.string().min(100, 'Article content must be at least 100 characters'),
   title: z.string().min(1, 'Title is required'),
   source: z.string().min(1, 'Source is required'),
+  // The page's <link rel="canonical">; URL variants of one article share its cache entry
+  canonicalUrl: z.string().url().optional(),
 });
 
 export type AnalyzeRequest = z.infer<typeof AnalyzeRequestSchema>;
 
-router.post('/', validateRequest(AnalyzeRequestSchema), analyzeArticle);
+// A request with only a url is filled in from the fetched page first
+router.post('/', articleFromUrl, validateRequest(AnalyzeRequestSchema), analyzeArticle);
 
 export default router;
@@ -4,6 +4,15 @@ import { openaiService } from '../services/openai';
 import { getFactGrounding } from '../services/factGrounding';
 import cache from '../services/cache';
 import crypto from 'crypto';
+import { canonicalizeUrl, getArticleCacheKey, hashContent } from '../services/canonicalUrl';
+import { diffText, getLatestRevision, mergeRevisionAnalysis, recordRevision } from '../services/articleRevisions';
+import { articleFromUrl } from '../middleware/articleFromUrl';
+import { createLogger } from '../services/logger';
+import { config } from '../config';
+import { getRequestContext } from '../services/requestContext';
+import { StoredRevision, TextDiff } from '../types/revision';
+
+const log = createLogger('AnalyzeStream');
 
 const router = Router();
 
@@ -12,18 +21,30 @@ const AnalyzeRequestSchema = z.object({
   content: z.string().min(100, 'Article content must be at least 100 characters'),
   title: z.string().min(1, 'Title is required'),
   source: z.string().min(1, 'Source is required'),
+  publishedAt: z.string().refine((value) => !isNaN(Date.parse(value)), 'publishedAt must be an ISO 8601 date').optional(),
+  canonicalUrl: z.string().url().optional(),
 });
 
 // Cache TTL: 1 hour
 const CACHE_TTL = 3600;
 
-function getCacheKey(url: string): string {
-  const hash = crypto.createHash('md5').update(url).digest('hex');
-  return `analyze:${hash}`;
+/**
+ * Send a cached analysis as the events a live one would produce
+ * (its revision and completion are sent by the caller)
+ */
+function replayCached(sendEvent: (event: string, data: any) => void, cached: any): void {
+  sendEvent('cached', { cached: true });
+  if (cached.bias_score) {
+    sendEvent('biasScore', cached.bias_score);
+  }
+  sendEvent('summary', { text: cached.summary.text });
+  sendEvent('keyFacts', { facts: cached.summary.key_facts });
+  sendEvent('missingContext', { items: cached.summary.missing_context });
+  sendEvent('biasIndicators', { indicators: cached.bias_indicators });
 }
 
 // SSE streaming endpoint
-router.post('/stream', async (req: Request, res: Response) => {
+router.post('/stream', articleFromUrl, async (req: Request, res: Response) => {
   // Validate request
   const validation = AnalyzeRequestSchema.safeParse(req.body);
   if (!validation.success) {
@@ -31,13 +52,12 @@ router.post('/stream', async (req: Request, res: Response) => {
     return;
   }
 
-  const { url, content, title, source } = validation.data;
+  const { url, content, title, source, publishedAt, canonicalUrl } = validation.data;
 
   // Set up SSE
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
   res.setHeader('Connection', 'keep-alive');
-  res.setHeader('Access-Control-Allow-Origin', '*');
   res.flushHeaders();
 
   const sendEvent = (event: string, data: any) => {
@@ -46,97 +66,130 @@ router.post('/stream', async (req: Request, res: Response) => {
   };
 
   try {
-    // Check cache
-    const cacheKey = getCacheKey(url);
-    const cached = await cache.get<any>(cacheKey);
-
-    if (cached) {
-      sendEvent('cached', { cached: true });
-      if (cached.bias_score) {
-        sendEvent('biasScore', cached.bias_score);
-      }
-      sendEvent('summary', { text: cached.summary.text });
-      sendEvent('keyFacts', { facts: cached.summary.key_facts });
-      sendEvent('missingContext', { items: cached.summary.missing_context });
-      sendEvent('biasIndicators', { indicators: cached.bias_indicators });
-      sendEvent('complete', {
-        id: cached.id,
-        is_political: cached.is_political,
-        political_lean: cached.political_lean || 'none',
-        cached: true
-      });
-      res.end();
-      return;
+    const articleUrl = canonicalizeUrl(url, canonicalUrl);
+
+    // An earlier version this client sent of an edited article: a small edit
+    // only has its added passages analyzed, merged into the earlier analysis
+    let previous: StoredRevision | null = null;
+    let diff: TextDiff | undefined;
+    try {
+      previous = await getLatestRevision(articleUrl);
+    } catch (err) {
+      log.warn('Could not read revisions', { error: err });
     }
-
-    const analysisId = crypto.randomUUID();
-    sendEvent('status', { message: 'Verifying facts...' });
-
-    // Get real-time fact grounding from Exa (parallel with nothing else yet)
-    const groundingContext = await getFactGrounding(title, content);
-
-    if (groundingContext) {
-      console.log('[AnalyzeStream] Got fact grounding, injecting into prompts');
+    if (previous && previous.contentHash !== hashContent(content)) {
+      diff = diffText(previous.content, content);
     }
+    const partial = !!(previous && diff && diff.changedShare <= config.articleRevisions.partialMaxChange);
+
+    // The first request for an article streams its analysis as it runs;
+    // requests for it that arrive meanwhile wait for it and get the result.
+    // Keyed by canonical URL and text, so an edited article is re-analyzed.
+    // A merged analysis rests on the client's own earlier version, so only
+    // that client is served it.
+    const articleKey = getArticleCacheKey('analyze', { url, canonicalUrl, content });
+    const client = getRequestContext()?.client || 'internal';
+    const cacheKey = partial
+      ? `${articleKey}:${crypto.createHash('md5').update(client).digest('hex')}`
+      : articleKey;
+    const { value: response, status } = await cache.getOrLoad(cacheKey, async () => {
+      const analysisId = crypto.randomUUID();
+
+      sendEvent('status', { message: 'Verifying facts...' });
+
+      // Fact grounding as of the publish date (parallel with nothing else yet)
+      const groundingContext = await getFactGrounding(title, content, publishedAt);
+
+      if (groundingContext) {
+        log.info('Got fact grounding, injecting into prompts');
+      }
 
-    sendEvent('status', { message: 'Analyzing...' });
-
-    // Run BOTH LLM calls in parallel, with grounding context
-    const quickPromise = openaiService.analyzeQuick(content, title, source, groundingContext);
-    const detailedPromise = openaiService.analyzeDetailed(content, title, source, groundingContext);
+      sendEvent('status', { message: partial ? 'Article was edited - analyzing changes...' : 'Analyzing...' });
+
+      // Run BOTH LLM calls in parallel, with grounding context; the detailed
+      // one sees only added passages of an edit (none if text was only removed)
+      const quickPromise = openaiService.analyzeQuick(content, title, source, groundingContext);
+      const detailedPromise = !partial
+        ? openaiService.analyzeDetailed(content, title, source, groundingContext)
+        : diff!.added.length > 0
+          ? openaiService.analyzeDetailed(diff!.added.join('\n\n'), title, source, groundingContext)
+          : null;
+
+      // As each completes, send its results
+      quickPromise.then(quickAnalysis => {
+        sendEvent('biasScore', quickAnalysis.biasScore);
+        sendEvent('summary', { text: quickAnalysis.summaryText });
+      });
 
-    // As each completes, send its results
-    quickPromise.then(quickAnalysis => {
-      sendEvent('biasScore', quickAnalysis.biasScore);
-      sendEvent('summary', { text: quickAnalysis.summaryText });
-    });
+      // Wait for both to complete
+      const [quickAnalysis, detailedAnalysis] = await Promise.all([quickPromise, detailedPromise]);
+
+      let detailed = {
+        key_facts: detailedAnalysis?.keyFacts || [],
+        missing_context: detailedAnalysis?.missingContext || [],
+        bias_indicators: (detailedAnalysis?.biasIndicators || []).map(bi => ({
+          original_text: bi.originalText,
+          type: bi.type,
+          explanation: bi.explanation,
+        })),
+      };
+      if (partial) {
+        detailed = mergeRevisionAnalysis(previous!.analysis, detailed, diff!, content);
+      }
 
-    // Wait for both to complete
-    const [quickAnalysis, detailedAnalysis] = await Promise.all([quickPromise, detailedPromise]);
-
-    // Send detailed results (quick already sent above)
-    sendEvent('keyFacts', { facts: detailedAnalysis.keyFacts });
-    sendEvent('missingContext', { items: detailedAnalysis.missingContext });
-    sendEvent('biasIndicators', {
-      indicators: detailedAnalysis.biasIndicators.map(bi => ({
-        original_text: bi.originalText,
-        type: bi.type,
-        explanation: bi.explanation,
-      })),
-    });
+      // Send detailed results (quick already sent above)
+      sendEvent('keyFacts', { facts: detailed.key_facts });
+      sendEvent('missingContext', { items: detailed.missing_context });
+      sendEvent('biasIndicators', { indicators: detailed.bias_indicators });
+
+      // Build complete response for caching
+      const response = {
+        id: analysisId,
+        bias_score: quickAnalysis.biasScore,
+        summary: {
+          text: quickAnalysis.summaryText,
+          key_facts: detailed.key_facts,
+          missing_context: detailed.missing_context,
+        },
+        bias_indicators: detailed.bias_indicators,
+        is_political: quickAnalysis.isPolitical,
+        political_lean: quickAnalysis.politicalLean,
+        models: { quick: quickAnalysis.model, detailed: detailedAnalysis?.model },
+        cached: false,
+      };
+      return response;
+    }, { ttlSeconds: CACHE_TTL });
+
+    if (status !== 'miss') {
+      replayCached(sendEvent, response);
+    }
 
-    // Build complete response for caching
-    const response = {
-      id: analysisId,
-      bias_score: quickAnalysis.biasScore,
-      summary: {
-        text: quickAnalysis.summaryText,
-        key_facts: detailedAnalysis.keyFacts,
-        missing_context: detailedAnalysis.missingContext,
-      },
-      bias_indicators: detailedAnalysis.biasIndicators.map(bi => ({
-        original_text: bi.originalText,
-        type: bi.type,
-        explanation: bi.explanation,
-      })),
-      is_political: quickAnalysis.isPolitical,
-      political_lean: quickAnalysis.politicalLean,
-      cached: false,
-    };
-
-    // Cache it
-    await cache.set(cacheKey, response, CACHE_TTL);
+    // Keep this version in the client's history, cached or not; an edited
+    // article reports what changed
+    try {
+      const revision = await recordRevision(articleUrl, {
+        title,
+        content,
+        analysis: { summary: response.summary, bias_indicators: response.bias_indicators, bias_score: response.bias_score },
+        reanalysis: partial ? 'partial' : 'full',
+        diff,
+      });
+      sendEvent('revision', revision);
+    } catch (err) {
+      log.warn('Could not record revision', { error: err });
+    }
 
     // Send complete event
     sendEvent('complete', {
-      id: analysisId,
-      is_political: quickAnalysis.isPolitical,
-      political_lean: quickAnalysis.politicalLean,
-      cached: false
+      id: response.id,
+      is_political: response.is_political,
+      political_lean: response.political_lean || 'none',
+      models: response.models,
+      cached: status !== 'miss'
     });
 
   } catch (error) {
-    console.error('[AnalyzeStream] Error:', error);
+    log.error('Analysis failed', { error });
     sendEvent('error', { message: (error as Error).message });
   }
 
@@ -0,0 +1,35 @@
+/**
+ * Article Routes
+ * Fetching and extracting articles by URL, and their revision history
+ */
+
+import { Router } from 'express';
+import { fetchArticleByUrl, getArticleRevisions } from '../controllers/articlesController';
+
+const router = Router();
+
+/**
+ * POST /api/v1/articles/fetch
+ * Download a URL and extract title, byline, publish date, body and links
+ *
+ * Request body:
+ * - url: string (public http(s) address)
+ *
+ * Response: { url, title, source, author?, publishedAt?, content, links, wordCount, fetchedAt }
+ * (pass it to POST /analyze or /evaluate unchanged)
+ */
+router.post('/fetch', fetchArticleByUrl);
+
+/**
+ * GET /api/v1/articles/revisions?url=<url>
+ * Versions of an article seen since it was first analyzed (any URL variant
+ * of it: tracking parameters, AMP and the like are ignored)
+ *
+ * Response: { url, revisions: [{ revision, contentHash, title, analyzedAt,
+ *   reanalysis, diff?: { added, removed, unchangedCount, changedShare },
+ *   changes?: { title?, addedClaims, removedClaims, addedBiasIndicators,
+ *   removedBiasIndicators, biasScore? } }] }, oldest first; 404 if none
+ */
+router.get('/revisions', getArticleRevisions);
+
+export default router;
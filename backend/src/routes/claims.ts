@@ -0,0 +1,23 @@
+/**
+ * Claim Routes
+ * Claims remembered across articles by the claim store
+ */
+
+import { Router } from 'express';
+import { getClaim, searchStoredClaims } from '../controllers/claimsController';
+
+const router = Router();
+
+/**
+ * GET /api/v1/claims/search?q=&domain=&type=&consensus=&limit=&offset=
+ * Previously evaluated claims with their consensus framing and citations
+ */
+router.get('/search', searchStoredClaims);
+
+/**
+ * GET /api/v1/claims/:id
+ * A stored claim, its latest assessment and every article it appeared in
+ */
+router.get('/:id', getClaim);
+
+export default router;
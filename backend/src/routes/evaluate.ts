@@ -8,10 +8,12 @@
 import { Router } from 'express';
 import {
   evaluateArticle,
+  evaluateArticleStream,
   evaluateArticleQuick,
   evaluateSingleClaim,
   evaluateHealth,
 } from '../controllers/evaluateController';
+import { articleFromUrl } from '../middleware/articleFromUrl';
 
 const router = Router();
 
@@ -29,12 +31,14 @@ router.get('/health', evaluateHealth);
  * - title: string (required)
  * - content: string (required)
  * - source: string (required)
- * - url?: string
+ * - url?: string (alone, the page is fetched and fills in the fields above)
  * - author?: string
+ * - publishedAt?: string (ISO 8601; "last year", "currently" etc. are read against it)
  * - maxClaims?: number (1-20, default 5)
  * - maxSearchResults?: number (1-50, default 10)
  * - outputFormat?: 'html' | 'markdown' | 'json' | 'text'
  * - includeRawResults?: boolean
+ * - useExpertPanel?: boolean (run per-expert-type research agents, default false)
  * - skipCache?: boolean
  *
  * Response:
@@ -43,9 +47,26 @@ router.get('/health', evaluateHealth);
  * - summary: { totalClaims, claimsEvaluated, ... }
  * - articleSubjects: string[]
  * - claims: EvaluatedClaim[]
- * - metadata: { processedAt, processingTimeMs, ... }
+ * - expertPanel?: { method, experts: [{ type, whyNeeded, overallAssessment, ... }] }
+ * - metadata: { processedAt, processingTimeMs, stageDurationsMs, ... }
  */
-router.post('/', evaluateArticle);
+router.post('/', articleFromUrl, evaluateArticle);
+
+/**
+ * POST /api/v1/evaluate/stream
+ * Full article evaluation streamed as Server-Sent Events
+ *
+ * Same request body as POST /evaluate
+ *
+ * Events (in order):
+ * - claimsExtracted: { articleSubjects, totalClaims, claims }
+ * - evidenceGathered: { claimId, total, topSources } (per claim, as searches finish)
+ * - claimEvaluated: EvaluatedClaim (per claim, same shape as POST /evaluate)
+ * - summary: { summary, metadata, expertPanel? }
+ * - complete: { id, cached }
+ * - error: { message } (on failure)
+ */
+router.post('/stream', articleFromUrl, evaluateArticleStream);
 
 /**
  * POST /api/v1/evaluate/quick
@@ -54,7 +75,7 @@ router.post('/', evaluateArticle);
  * Same request/response format as POST /evaluate
  * Response includes isQuickEvaluation: true
  */
-router.post('/quick', evaluateArticleQuick);
+router.post('/quick', articleFromUrl, evaluateArticleQuick);
 
 /**
  * POST /api/v1/evaluate/claim
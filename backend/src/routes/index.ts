@@ -1,14 +1,26 @@
 import { Router, Request, Response } from 'express';
-import { getCostStatus } from '../services/costTracker';
+import { config } from '../config';
+import { getCostStatus, getCostHistory, getCostCharges, getClientSpend } from '../services/costTracker';
+import { getCacheStats } from '../services/cache';
+import { METRICS_CONTENT_TYPE, renderMetrics } from '../services/metrics';
 import { lookupDOI } from '../services/crossref';
 import { searchNews, searchAcademic, isConfigured as isExaConfigured } from '../services/exa';
 import { openaiService } from '../services/openai';
-import { config } from '../config';
+import { getRequestContext } from '../services/requestContext';
+import { requireAdminKey, requireApiKey } from '../middleware/apiKeyAuth';
+import { rateLimit } from '../middleware/rateLimit';
+import { ApiKeyRecord, ApiKeyUsage } from '../types/apiKey';
 import analyzeRoutes from './analyze';
 import analyzeStreamRoutes from './analyzeStream';
 import perspectivesRoutes from './perspectives';
 import evidenceRoutes from './evidence';
 import evaluateRoutes from './evaluate';
+import jobRoutes from './jobs';
+import claimRoutes from './claims';
+import articleRoutes from './articles';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('API');
 
 const router = Router();
 
@@ -20,12 +32,90 @@ router.get('/health', (_req: Request, res: Response) => {
   });
 });
 
+// Prometheus metrics (outside /api/v1: scrapers send METRICS_TOKEN, not an API key)
+router.get('/metrics', (req: Request, res: Response) => {
+  if (config.metrics.token && req.get('authorization') !== `Bearer ${config.metrics.token}`) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Send METRICS_TOKEN as a bearer token',
+    });
+    return;
+  }
+  res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+});
+
 // API v1 routes
 const apiV1Router = Router();
 
-// Cost status endpoint (useful for monitoring)
-apiV1Router.get('/cost-status', (_req: Request, res: Response) => {
-  res.json(getCostStatus());
+// Every v1 endpoint needs an API key (X-API-Key) unless API_KEYS_REQUIRED=false
+apiV1Router.use(requireApiKey);
+
+// Per-client rate limit across all v1 endpoints (route limits come on top)
+apiV1Router.use(rateLimit('default'));
+
+// The caller's spend and remaining quota
+apiV1Router.get('/usage', async (_req: Request, res: Response) => {
+  const apiKey = res.locals.apiKey as ApiKeyRecord | undefined;
+  const client = apiKey?.id || getRequestContext()?.client || 'unknown';
+  const quota = apiKey?.quota || { daily: null, monthly: null };
+  const spent = await getClientSpend(client);
+  const now = new Date().toISOString();
+
+  const usage: ApiKeyUsage = {
+    client,
+    name: apiKey?.name,
+    date: now.slice(0, 10),
+    month: now.slice(0, 7),
+    spent,
+    quota,
+    remaining: {
+      daily: quota.daily === null ? null : Math.max(0, quota.daily - spent.daily),
+      monthly: quota.monthly === null ? null : Math.max(0, quota.monthly - spent.monthly),
+    },
+  };
+  res.json(usage);
+});
+
+// Cost status endpoint (useful for monitoring): today's total and breakdowns
+apiV1Router.get('/cost-status', async (_req: Request, res: Response) => {
+  res.json(await getCostStatus());
+});
+
+// Daily totals by provider for the last ?days=N days (default 7); admin keys only
+apiV1Router.get('/cost-status/history', requireAdminKey, async (req: Request, res: Response) => {
+  const days = parseInt(String(req.query.days || '7'), 10);
+
+  if (!Number.isFinite(days) || days < 1) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: '"days" must be a positive integer',
+    });
+    return;
+  }
+
+  res.json({ days: await getCostHistory(days) });
+});
+
+// Itemized charges of every client for one day, newest first (?limit=N,
+// default 100); admin keys only
+apiV1Router.get('/cost-status/history/:date', requireAdminKey, async (req: Request, res: Response) => {
+  const { date } = req.params;
+  const limit = parseInt(String(req.query.limit || '100'), 10);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !Number.isFinite(limit) || limit < 1) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: 'Expected a YYYY-MM-DD date and a positive "limit"',
+    });
+    return;
+  }
+
+  res.json({ date, charges: await getCostCharges(date, Math.min(limit, 1000)) });
+});
+
+// Cache hit/miss counters per key namespace for this process (useful for monitoring)
+apiV1Router.get('/cache-status', (_req: Request, res: Response) => {
+  res.json(getCacheStats());
 });
 
 // Test endpoint for DOI verification
@@ -44,7 +134,7 @@ apiV1Router.post('/test/verify-doi', async (req: Request, res: Response) => {
     const metadata = await lookupDOI(doi);
     res.json(metadata);
   } catch (error) {
-    console.error('[DOI Verify] Unexpected error:', (error as Error).message);
+    log.error('DOI verification failed', { error });
     res.status(500).json({
       error: 'Internal Server Error',
       message: 'Failed to verify DOI',
@@ -76,7 +166,7 @@ apiV1Router.post('/test/exa/news', async (req: Request, res: Response) => {
     const results = await searchNews(topic);
     res.json(results);
   } catch (error) {
-    console.error('[Exa News] Error:', (error as Error).message);
+    log.error('Exa news search failed', { error });
     res.status(500).json({
       error: 'Internal Server Error',
       message: 'Failed to search news',
@@ -108,7 +198,7 @@ apiV1Router.post('/test/exa/academic', async (req: Request, res: Response) => {
     const results = await searchAcademic(topic);
     res.json(results);
   } catch (error) {
-    console.error('[Exa Academic] Error:', (error as Error).message);
+    log.error('Exa academic search failed', { error });
     res.status(500).json({
       error: 'Internal Server Error',
       message: 'Failed to search academic papers',
@@ -128,23 +218,26 @@ apiV1Router.get('/test/openai', async (req: Request, res: Response) => {
     return;
   }
 
-  if (!config.openaiApiKey) {
+  if (!openaiService.isAvailable()) {
     res.status(503).json({
       error: 'Service Unavailable',
-      message: 'OpenAI API is not configured. Please set OPENAI_API_KEY environment variable.',
+      message: 'LLM provider is not configured. Set OPENAI_API_KEY, or LLM_PROVIDER=openai-compatible with LLM_BASE_URL.',
     });
     return;
   }
 
   try {
     const completion = await openaiService.complete(prompt);
+    const provider = openaiService.getProvider();
     res.json({
       prompt,
       completion,
-      model: config.openaiModel,
+      provider: provider.name,
+      model: provider.model,
+      capabilities: provider.capabilities,
     });
   } catch (error) {
-    console.error('[OpenAI Test] Error:', (error as Error).message);
+    log.error('OpenAI test completion failed', { error });
     res.status(500).json({
       error: 'Internal Server Error',
       message: (error as Error).message || 'Failed to complete prompt',
@@ -153,18 +246,25 @@ apiV1Router.get('/test/openai', async (req: Request, res: Response) => {
 });
 
 // Wire up feature routes
-apiV1Router.use('/analyze', analyzeRoutes);
-apiV1Router.use('/analyze', analyzeStreamRoutes);  // Adds /analyze/stream
-apiV1Router.use('/perspectives', perspectivesRoutes);
-apiV1Router.use('/evidence', evidenceRoutes);
-apiV1Router.use('/evaluate', evaluateRoutes);  // Wave 7: Full pipeline evaluation
+apiV1Router.use('/analyze', rateLimit('analyze'), analyzeRoutes);
+apiV1Router.use('/analyze', analyzeStreamRoutes);  // Adds /analyze/stream (limited above)
+apiV1Router.use('/perspectives', rateLimit('perspectives'), perspectivesRoutes);
+apiV1Router.use('/evidence', rateLimit('evidence'), evidenceRoutes);
+apiV1Router.use('/evaluate', rateLimit('evaluate'), evaluateRoutes);  // Wave 7: Full pipeline evaluation
+apiV1Router.use('/jobs', jobRoutes);  // Background evaluations
+apiV1Router.use('/claims', claimRoutes);  // Claims remembered across articles
+apiV1Router.use('/articles', rateLimit('articles'), articleRoutes);  // Fetch articles by URL, revision history
 
 // API index endpoint
 apiV1Router.get('/', (_req: Request, res: Response) => {
   res.json({
     message: 'ClearView News API v1',
     endpoints: [
+      'GET /api/v1/usage',
       'GET /api/v1/cost-status',
+      'GET /api/v1/cost-status/history?days=<n>',
+      'GET /api/v1/cost-status/history/:date',
+      'GET /api/v1/cache-status',
       'POST /api/v1/test/verify-doi',
       'POST /api/v1/test/exa/news',
       'POST /api/v1/test/exa/academic',
@@ -173,9 +273,18 @@ apiV1Router.get('/', (_req: Request, res: Response) => {
       'POST /api/v1/perspectives',
       'POST /api/v1/evidence',
       'POST /api/v1/evaluate',
+      'POST /api/v1/evaluate/stream',
       'POST /api/v1/evaluate/quick',
       'POST /api/v1/evaluate/claim',
       'GET /api/v1/evaluate/health',
+      'POST /api/v1/jobs/evaluate',
+      'POST /api/v1/jobs/batch',
+      'GET /api/v1/jobs/:id',
+      'DELETE /api/v1/jobs/:id',
+      'POST /api/v1/articles/fetch',
+      'GET /api/v1/articles/revisions?url=<string>',
+      'GET /api/v1/claims/search?q=<string>',
+      'GET /api/v1/claims/:id',
     ],
   });
 });
@@ -0,0 +1,39 @@
+/**
+ * Job Routes
+ * Background evaluations with polling, webhooks and cancellation
+ */
+
+import { Router } from 'express';
+import { createEvaluateJob, createBatchJob, getJobStatus, cancelJobRequest } from '../controllers/jobsController';
+import { rateLimit } from '../middleware/rateLimit';
+import { articleFromUrl } from '../middleware/articleFromUrl';
+
+const router = Router();
+
+/**
+ * POST /api/v1/jobs/evaluate
+ * Queue a full article evaluation (same body as POST /evaluate, plus webhookUrl)
+ * Counts against the evaluate rate limit; polling does not.
+ */
+router.post('/evaluate', rateLimit('evaluate'), articleFromUrl, createEvaluateJob);
+
+/**
+ * POST /api/v1/jobs/batch
+ * Queue an evaluation of many articles (text or URLs) with a shared
+ * evidence cache and a spending limit; the result is a combined report
+ */
+router.post('/batch', rateLimit('evaluate'), createBatchJob);
+
+/**
+ * GET /api/v1/jobs/:id
+ * Status, stage-level progress and, once completed, the evaluation response
+ */
+router.get('/:id', getJobStatus);
+
+/**
+ * DELETE /api/v1/jobs/:id
+ * Cancel a queued or running job
+ */
+router.delete('/:id', cancelJobRequest);
+
+export default router;
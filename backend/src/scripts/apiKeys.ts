@@ -0,0 +1,116 @@
+/**
+ * API key admin command
+ *
+ *   npm run api-keys -- create <name> [--daily <usd|none>] [--monthly <usd|none>]
+ *   npm run api-keys -- list
+ *   npm run api-keys -- quota <id> [--daily <usd|none>] [--monthly <usd|none>]
+ *   npm run api-keys -- revoke <id>
+ *
+ * In the Docker image: node dist/scripts/apiKeys.js <command> ...
+ * Needs the same REDIS_URL as the backend.
+ */
+
+import { parseQuota } from '../config';
+import { getClient } from '../services/cache';
+import { createApiKey, listApiKeys, revokeApiKey, setApiKeyQuota } from '../services/apiKeys';
+import { ApiKeyQuota, ApiKeyRecord } from '../types/apiKey';
+
+const USAGE = `Usage:
+  api-keys create <name> [--daily <usd|none>] [--monthly <usd|none>]
+  api-keys list
+  api-keys quota <id> [--daily <usd|none>] [--monthly <usd|none>]
+  api-keys revoke <id>`;
+
+/**
+ * Read --daily / --monthly flags; omitted flags are left out
+ */
+function parseQuotaFlags(args: string[]): Partial<ApiKeyQuota> {
+  const quota: Partial<ApiKeyQuota> = {};
+
+  for (let i = 0; i < args.length; i += 2) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if ((flag !== '--daily' && flag !== '--monthly') || value === undefined) {
+      throw new Error(`Unexpected argument "${flag}"\n${USAGE}`);
+    }
+
+    const amount = parseQuota(value, NaN);
+    if (amount !== null && Number.isNaN(amount)) {
+      throw new Error(`${flag} expects a dollar amount or "none", got "${value}"`);
+    }
+    quota[flag === '--daily' ? 'daily' : 'monthly'] = amount;
+  }
+
+  return quota;
+}
+
+function formatQuota(amount: number | null): string {
+  return amount === null ? 'unlimited' : `$${amount}`;
+}
+
+function formatRecord(record: ApiKeyRecord): string {
+  const status = record.revokedAt ? `revoked ${record.revokedAt}` : 'active';
+  return `${record.id}  ${record.prefix}…  ${record.name}  daily ${formatQuota(record.quota.daily)}, monthly ${formatQuota(record.quota.monthly)}  (${status})`;
+}
+
+async function run(args: string[]): Promise<void> {
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'create': {
+      const [name, ...flags] = rest;
+      if (!name || name.startsWith('--')) {
+        throw new Error(USAGE);
+      }
+      const { key, record } = await createApiKey(name, parseQuotaFlags(flags));
+      console.log(formatRecord(record));
+      console.log(`\nAPI key (shown once, store it now):\n${key}`);
+      return;
+    }
+
+    case 'list': {
+      const records = await listApiKeys();
+      console.log(records.length > 0 ? records.map(formatRecord).join('\n') : 'No API keys issued');
+      return;
+    }
+
+    case 'quota': {
+      const [id, ...flags] = rest;
+      if (!id) {
+        throw new Error(USAGE);
+      }
+      const record = await setApiKeyQuota(id, parseQuotaFlags(flags));
+      if (!record) {
+        throw new Error(`No API key with id "${id}"`);
+      }
+      console.log(formatRecord(record));
+      return;
+    }
+
+    case 'revoke': {
+      const [id] = rest;
+      if (!id) {
+        throw new Error(USAGE);
+      }
+      const record = await revokeApiKey(id);
+      if (!record) {
+        throw new Error(`No API key with id "${id}"`);
+      }
+      console.log(formatRecord(record));
+      return;
+    }
+
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+run(process.argv.slice(2))
+  .then(async () => {
+    await (await getClient())?.quit();
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error((error as Error).message);
+    process.exit(1);
+  });
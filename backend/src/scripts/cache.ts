@@ -0,0 +1,48 @@
+/**
+ * Cache admin command
+ *
+ *   npm run cache -- invalidate <namespace>
+ *
+ * Drops every "<namespace>:*" key from Redis, e.g. "evaluate" after a
+ * prompt change. Running servers keep their in-process copies until they
+ * expire (at most the namespace's TTL); restart them to drop those too.
+ *
+ * In the Docker image: node dist/scripts/cache.js <command> ...
+ * Needs the same REDIS_URL as the backend.
+ */
+
+import { getClient, invalidateNamespace } from '../services/cache';
+
+const USAGE = `Usage:
+  cache invalidate <namespace>    (e.g. evaluate, analyze, evidence, perspectives)`;
+
+async function run(args: string[]): Promise<void> {
+  const [command, namespace] = args;
+
+  switch (command) {
+    case 'invalidate': {
+      if (!namespace) {
+        throw new Error(USAGE);
+      }
+      if (!(await getClient())) {
+        throw new Error('Redis is unavailable; check REDIS_URL');
+      }
+      const removed = await invalidateNamespace(namespace);
+      console.log(`Removed ${removed.redis} "${namespace}" key(s) from Redis`);
+      return;
+    }
+
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+run(process.argv.slice(2))
+  .then(async () => {
+    await (await getClient())?.quit();
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error((error as Error).message);
+    process.exit(1);
+  });
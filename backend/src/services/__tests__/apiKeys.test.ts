@@ -0,0 +1,163 @@
+/**
+ * Tests for API Key Service
+ *
+ * Redis is replaced by a small in-memory fake
+ */
+
+import {
+  createApiKey,
+  hashApiKey,
+  listApiKeys,
+  revokeApiKey,
+  setApiKeyQuota,
+  verifyApiKey,
+} from '../apiKeys';
+import { getClient } from '../cache';
+import { config } from '../../config';
+
+jest.mock('../cache', () => ({
+  getClient: jest.fn(),
+}));
+
+const mockGetClient = getClient as jest.MockedFunction<typeof getClient>;
+
+// ═══════════════════════════════════════════════════════════════
+// FAKE REDIS
+// ═══════════════════════════════════════════════════════════════
+
+class FakeRedis {
+  strings = new Map<string, string>();
+  hashes = new Map<string, Record<string, string>>();
+
+  async get(key: string) {
+    return this.strings.get(key) ?? null;
+  }
+
+  async set(key: string, value: string) {
+    this.strings.set(key, value);
+    return 'OK';
+  }
+
+  async mget(...keys: string[]) {
+    return keys.map((k) => this.strings.get(k) ?? null);
+  }
+
+  async hget(key: string, field: string) {
+    return this.hashes.get(key)?.[field] ?? null;
+  }
+
+  async hset(key: string, field: string, value: string) {
+    this.hashes.set(key, { ...this.hashes.get(key), [field]: value });
+    return 1;
+  }
+
+  async hgetall(key: string) {
+    return { ...(this.hashes.get(key) || {}) };
+  }
+
+  multi() {
+    const ops: (() => Promise<unknown>)[] = [];
+    const chain: any = new Proxy({}, {
+      get: (_target, name: string) => {
+        if (name === 'exec') {
+          return async () => {
+            const results: [null, unknown][] = [];
+            for (const op of ops) results.push([null, await op()]);
+            return results;
+          };
+        }
+        return (...args: unknown[]) => {
+          ops.push(() => (this as any)[name](...args));
+          return chain;
+        };
+      },
+    });
+    return chain;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+describe('ApiKeys Service', () => {
+  let redis: FakeRedis;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    redis = new FakeRedis();
+    mockGetClient.mockResolvedValue(redis as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createApiKey', () => {
+    it('should store only the hash of the key', async () => {
+      const { key, record } = await createApiKey('chrome-extension');
+
+      expect(key).toMatch(/^cv_/);
+      expect(record.prefix).toBe(key.slice(0, 10));
+      expect(redis.strings.has(`apikey:${hashApiKey(key)}`)).toBe(true);
+      expect([...redis.strings.values()].join()).not.toContain(key);
+    });
+
+    it('should apply default quotas unless overridden', async () => {
+      const defaults = await createApiKey('a');
+      const custom = await createApiKey('b', { daily: 1, monthly: null });
+
+      expect(defaults.record.quota).toEqual({
+        daily: config.apiKeys.defaultDailyQuota,
+        monthly: config.apiKeys.defaultMonthlyQuota,
+      });
+      expect(custom.record.quota).toEqual({ daily: 1, monthly: null });
+    });
+
+    it('should fail without Redis', async () => {
+      mockGetClient.mockResolvedValue(null);
+
+      await expect(createApiKey('a')).rejects.toThrow('API key store unavailable');
+    });
+  });
+
+  describe('verifyApiKey', () => {
+    it('should return the record for a valid key', async () => {
+      const { key, record } = await createApiKey('chrome-extension');
+
+      expect(await verifyApiKey(key)).toEqual(record);
+    });
+
+    it('should reject unknown and malformed keys', async () => {
+      await createApiKey('chrome-extension');
+
+      expect(await verifyApiKey('cv_not-a-real-key')).toBeNull();
+      expect(await verifyApiKey('sk-something-else')).toBeNull();
+    });
+
+    it('should reject revoked keys but keep their records', async () => {
+      const { key, record } = await createApiKey('chrome-extension');
+
+      const revoked = await revokeApiKey(record.id);
+
+      expect(revoked?.revokedAt).toBeDefined();
+      expect(await verifyApiKey(key)).toBeNull();
+      expect((await listApiKeys()).map((r) => r.id)).toEqual([record.id]);
+    });
+  });
+
+  describe('admin', () => {
+    it('should update quotas in place', async () => {
+      const { key, record } = await createApiKey('chrome-extension', { daily: 1, monthly: 10 });
+
+      await setApiKeyQuota(record.id, { daily: null });
+
+      expect((await verifyApiKey(key))?.quota).toEqual({ daily: null, monthly: 10 });
+    });
+
+    it('should return null for unknown ids', async () => {
+      expect(await revokeApiKey('key_missing')).toBeNull();
+      expect(await setApiKeyQuota('key_missing', { daily: 1 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Tests for Article Revisions Service
+ *
+ * Most tests keep revisions in memory; one runs against a small Redis fake.
+ */
+
+import {
+  compareAnalyses,
+  diffText,
+  getLatestRevision,
+  getRevisionHistory,
+  mergeRevisionAnalysis,
+  recordRevision,
+  resetMemoryRevisions,
+  splitSentences,
+} from '../articleRevisions';
+import { getClient } from '../cache';
+import { runWithRequestContext } from '../requestContext';
+import { RevisionAnalysis } from '../../types/revision';
+
+jest.mock('../cache', () => ({
+  getClient: jest.fn(),
+}));
+
+jest.mock('../openai', () => ({
+  openaiService: {},
+}));
+
+const mockGetClient = getClient as jest.MockedFunction<typeof getClient>;
+
+const URL = 'https://news.example/2024/03/budget-vote';
+
+const ORIGINAL = [
+  'The city council approved the budget on Tuesday.',
+  'Spending on transit rises by 12 percent next year.',
+  'Critics called the plan a reckless giveaway to developers.',
+  'The mayor said the vote was a win for residents.',
+].join(' ');
+
+const EDITED = [
+  'The city council approved the budget on Tuesday.',
+  'Spending on transit rises by 12 percent next year.',
+  'The mayor said the vote was a win for residents.',
+  'Two council members voted against the plan.',
+].join(' ');
+
+function analysis(keyFacts: string[], indicators: string[] = [], score = 4): RevisionAnalysis {
+  return {
+    summary: { text: 'Council passes budget.', key_facts: keyFacts, missing_context: ['Prior year figures'] },
+    bias_indicators: indicators.map((text) => ({ original_text: text, type: 'loaded_language', explanation: 'Charged wording' })),
+    bias_score: { score, label: 'Some Bias', summary: '' },
+  };
+}
+
+describe('Article Revisions Service', () => {
+  beforeEach(() => {
+    mockGetClient.mockResolvedValue(null);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    resetMemoryRevisions();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('diffText', () => {
+    it('should split sentences at punctuation and paragraph breaks', () => {
+      expect(splitSentences('First one. "Second," he said. Third?\n\nFourth without a stop\nFifth.')).toEqual([
+        'First one.',
+        '"Second," he said.',
+        'Third?',
+        'Fourth without a stop',
+        'Fifth.',
+      ]);
+    });
+
+    it('should report added and removed sentences and the share changed', () => {
+      const diff = diffText(ORIGINAL, EDITED);
+
+      expect(diff.removed).toEqual(['Critics called the plan a reckless giveaway to developers.']);
+      expect(diff.added).toEqual(['Two council members voted against the plan.']);
+      expect(diff.unchangedCount).toBe(3);
+      expect(diff.changedShare).toBe(0.25);
+    });
+
+    it('should ignore whitespace and case-only differences', () => {
+      const diff = diffText(ORIGINAL, ORIGINAL.replace('The city', 'the  city'));
+      expect(diff).toEqual({ added: [], removed: [], unchangedCount: 4, changedShare: 0 });
+    });
+  });
+
+  describe('compareAnalyses', () => {
+    it('should list claims and bias indicators that came or went', () => {
+      const changes = compareAnalyses(
+        { title: 'Council passes budget', analysis: analysis(['Transit spending rises 12%', 'Critics oppose it'], ['reckless giveaway']) },
+        { title: 'Council passes budget, 7-2', analysis: analysis(['Transit spending rises 12%.', 'Two members voted no'], [], 3) }
+      );
+
+      expect(changes).toEqual({
+        title: { from: 'Council passes budget', to: 'Council passes budget, 7-2' },
+        addedClaims: ['Two members voted no'],
+        removedClaims: ['Critics oppose it'],
+        addedBiasIndicators: [],
+        removedBiasIndicators: [expect.objectContaining({ original_text: 'reckless giveaway' })],
+        biasScore: { from: 4, to: 3 },
+      });
+    });
+  });
+
+  describe('mergeRevisionAnalysis', () => {
+    it('should drop facts and indicators from removed text and add those of new passages', () => {
+      const previous = analysis(
+        ['Transit spending rises by 12 percent', 'Critics called the plan a giveaway to developers'],
+        ['reckless giveaway', 'a win for residents']
+      );
+      const passages = {
+        key_facts: ['Two council members voted against the plan'],
+        missing_context: ['prior year figures', 'Which members voted no'],
+        bias_indicators: [],
+      };
+
+      const merged = mergeRevisionAnalysis(previous, passages, diffText(ORIGINAL, EDITED), EDITED);
+
+      expect(merged.key_facts).toEqual(['Transit spending rises by 12 percent', 'Two council members voted against the plan']);
+      expect(merged.bias_indicators.map((bi) => bi.original_text)).toEqual(['a win for residents']);
+      expect(merged.missing_context).toEqual(['Prior year figures', 'Which members voted no']);
+    });
+  });
+
+  describe('recordRevision', () => {
+    it('should number new versions and replace the newest when its text is analyzed again', async () => {
+      const first = await recordRevision(URL, { title: 'Budget', content: ORIGINAL, analysis: analysis(['A']), reanalysis: 'full' });
+      const again = await recordRevision(URL, { title: 'Budget', content: ORIGINAL, analysis: analysis(['A']), reanalysis: 'full' });
+      const edited = await recordRevision(URL, {
+        title: 'Budget',
+        content: EDITED,
+        analysis: analysis(['A', 'B']),
+        reanalysis: 'partial',
+      });
+
+      expect(first).toMatchObject({ revision: 1, reanalysis: 'full' });
+      expect(first.changes).toBeUndefined();
+      expect(again.revision).toBe(1);
+      expect(edited).toMatchObject({ revision: 2, reanalysis: 'partial', changes: { addedClaims: ['B'], removedClaims: [] } });
+
+      const history = await getRevisionHistory(URL);
+      expect(history?.revisions.map((r) => r.revision)).toEqual([1, 2]);
+      expect(history?.revisions[1].diff?.added).toEqual(['Two council members voted against the plan.']);
+      expect(history?.revisions[1]).not.toHaveProperty('content');
+      expect((await getLatestRevision(URL))?.content).toBe(EDITED);
+      expect(await getRevisionHistory('https://news.example/other')).toBeNull();
+    });
+
+    it('should keep the newest ARTICLE_REVISIONS_MAX versions', async () => {
+      for (let i = 1; i <= 12; i++) {
+        await recordRevision(URL, { title: 'Budget', content: `${ORIGINAL} Update ${i}.`, analysis: analysis([]), reanalysis: 'full' });
+      }
+      const last = await recordRevision(URL, { title: 'Budget', content: EDITED, analysis: analysis([]), reanalysis: 'full' });
+
+      const history = await getRevisionHistory(URL);
+      expect(history?.revisions.map((r) => r.revision)).toEqual([4, 5, 6, 7, 8, 9, 10, 11, 12, 13]);
+      expect(last.firstAnalyzedAt).toBe(history?.revisions[0].analyzedAt);
+    });
+
+    it('should keep revisions in a Redis list', async () => {
+      const lists = new Map<string, string[]>();
+      const expiries = new Map<string, number>();
+      // Runs the save script's logic
+      const fakeRedis = {
+        lrange: jest.fn(async (key: string) => [...(lists.get(key) || [])]),
+        eval: jest.fn(async (_script: string, _keys: number, key: string, expected: number, value: string, replace: string, max: number, ttl: number) => {
+          const list = lists.get(key) || [];
+          const newest = list[list.length - 1];
+          if ((newest ? JSON.parse(newest).revision : 0) !== expected) return 0;
+          lists.set(key, replace === '1' ? [...list.slice(0, -1), value] : [...list, value].slice(-max));
+          expiries.set(key, ttl);
+          return 1;
+        }),
+      };
+      mockGetClient.mockResolvedValue(fakeRedis as any);
+
+      await recordRevision(URL, { title: 'Budget', content: ORIGINAL, analysis: analysis(['A']), reanalysis: 'full' });
+      await recordRevision(URL, { title: 'Budget', content: ORIGINAL, analysis: analysis(['A2']), reanalysis: 'full' });
+      await recordRevision(URL, { title: 'Budget', content: EDITED, analysis: analysis(['B']), reanalysis: 'full' });
+
+      const [key] = [...lists.keys()];
+      expect(key).toMatch(/^article:revisions:[0-9a-f]{32}$/);
+      expect(lists.get(key)).toHaveLength(2);
+      expect(expiries.get(key)).toBe(30 * 24 * 3600);
+      expect((await getRevisionHistory(URL))?.revisions[1].changes).toMatchObject({
+        addedClaims: ['B'],
+        removedClaims: ['A2'],
+      });
+    });
+
+    it('should give concurrent versions their own numbers', async () => {
+      await recordRevision(URL, { title: 'Budget', content: ORIGINAL, analysis: analysis(['A']), reanalysis: 'full' });
+
+      const recorded = await Promise.all([
+        recordRevision(URL, { title: 'Budget', content: EDITED, analysis: analysis(['B']), reanalysis: 'full' }),
+        recordRevision(URL, { title: 'Budget', content: `${EDITED} Updated.`, analysis: analysis(['C']), reanalysis: 'full' }),
+      ]);
+
+      expect(recorded.map((r) => r.revision).sort()).toEqual([2, 3]);
+      const history = await getRevisionHistory(URL);
+      expect(history?.revisions.map((r) => r.revision)).toEqual([1, 2, 3]);
+      expect(history?.revisions[2].diff?.removed).not.toContain('Critics called the plan a reckless giveaway to developers.');
+    });
+
+    it('should keep each client\'s versions apart', async () => {
+      const asClient = <T>(client: string, fn: () => Promise<T>) =>
+        runWithRequestContext({ requestId: client, endpoint: 'POST /api/v1/analyze/', client }, fn);
+
+      await asClient('key_a', () => recordRevision(URL, { title: 'Budget', content: ORIGINAL, analysis: analysis(['A']), reanalysis: 'full' }));
+      const forged = await asClient('key_b', () =>
+        recordRevision(URL, { title: 'Budget', content: EDITED, analysis: analysis(['B']), reanalysis: 'full' })
+      );
+
+      expect(forged.revision).toBe(1);
+      expect((await asClient('key_a', () => getRevisionHistory(URL)))?.revisions).toHaveLength(1);
+      expect((await asClient('key_a', () => getLatestRevision(URL)))?.content).toBe(ORIGINAL);
+      expect(await asClient('key_c', () => getRevisionHistory(URL))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Tests for Batch Evaluator
+ *
+ * The pipeline, article fetching and the daily cap are mocked; each fake
+ * run returns the claims registered for the article's title.
+ */
+
+import { runBatch, BatchItem } from '../batchEvaluator';
+import { runPipeline, PipelineInput, PipelineResult } from '../pipeline';
+import { fetchArticle } from '../articleFetcher';
+import { isOverBudget } from '../costTracker';
+import { getRequestContext, runWithRequestContext } from '../requestContext';
+import { Article, Domain } from '../../types/claims';
+import { ConsensusLevel } from '../../types/consensus';
+
+jest.mock('../pipeline', () => ({
+  runPipeline: jest.fn(),
+}));
+
+jest.mock('../articleFetcher', () => ({
+  fetchArticle: jest.fn(),
+}));
+
+jest.mock('../costTracker', () => ({
+  isOverBudget: jest.fn(() => false),
+}));
+
+jest.mock('../cache', () => ({
+  __esModule: true,
+  default: { get: jest.fn(async () => null), set: jest.fn() },
+}));
+
+const mockRunPipeline = runPipeline as jest.MockedFunction<typeof runPipeline>;
+const mockFetchArticle = fetchArticle as jest.MockedFunction<typeof fetchArticle>;
+const mockIsOverBudget = isOverBudget as jest.MockedFunction<typeof isOverBudget>;
+
+type FakeClaim = [text: string, domain: Domain, level: ConsensusLevel];
+
+function article(title: string, url?: string): Article {
+  return { title, source: 'Example News', content: `Body of ${title}`, ...(url && { url }) };
+}
+
+function pipelineResult(input: PipelineInput, claims: FakeClaim[], errors: string[] = []): PipelineResult {
+  const evaluatedClaims = claims.map(([text, domain, level], i) => ({
+    claim: { id: `c${i}`, text, type: 'empirical', domain },
+    consensus: { level, confidence: 'medium' },
+  })) as unknown as PipelineResult['evaluatedClaims'];
+
+  return {
+    article: input.article,
+    extractedClaims: { articleSubjects: [], claims: [] },
+    evaluatedClaims,
+    summary: {
+      totalClaims: claims.length,
+      claimsEvaluated: claims.length,
+      claimsByType: {},
+      claimsByDomain: {},
+      consensusLevelDistribution: {},
+      averageConfidence: 'medium',
+      valuesQuestionsCount: 0,
+      hasActiveDabate: false,
+    },
+    metadata: {
+      startedAt: new Date(),
+      completedAt: new Date(),
+      processingTimeMs: 1,
+      stageDurationsMs: { claimExtraction: 1 },
+      servicesUsed: [],
+      warnings: [],
+      errors,
+    },
+  };
+}
+
+/**
+ * Make the fake pipeline answer with these claims per article title
+ */
+function claimsByTitle(claims: Record<string, FakeClaim[]>): void {
+  mockRunPipeline.mockImplementation(async (input) => pipelineResult(input, claims[input.article.title] || []));
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+describe('Batch Evaluator', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockIsOverBudget.mockReturnValue(false);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report each article and roll claims up by domain and consensus level', async () => {
+    claimsByTitle({
+      A: [['Vaccines are safe', 'medicine', 'strong_consensus'], ['Minimum wage cuts jobs', 'economics', 'active_debate']],
+      B: [['Vaccines are safe.', 'medicine', 'strong_consensus']],
+    });
+
+    const report = await runBatch([article('A'), article('B')], { maxCost: 5 });
+
+    expect(report.totals).toMatchObject({ articles: 2, completed: 2, failed: 0, claimsEvaluated: 3, distinctClaims: 2 });
+    expect(report.articles[0]).toMatchObject({ index: 0, status: 'completed', title: 'A' });
+    expect(report.articles[0].summary?.claimsEvaluated).toBe(2);
+    expect(report.rollup.byDomain.medicine).toEqual({
+      claims: 2,
+      articles: 2,
+      consensusLevelDistribution: { strong_consensus: 2 },
+    });
+    expect(report.rollup.byConsensusLevel.active_debate).toEqual({
+      claims: 1,
+      articles: 1,
+      claimsByDomain: { economics: 1 },
+    });
+    expect(report.sharedClaims).toEqual([
+      { text: 'Vaccines are safe', domain: 'medicine', consensusLevel: 'strong_consensus', articles: [0, 1] },
+    ]);
+  });
+
+  it('should evaluate identical articles once', async () => {
+    claimsByTitle({ A: [['Claim', 'general', 'emerging_research']] });
+
+    const report = await runBatch(
+      [article('A', 'https://news.example/a'), { url: 'https://news.example/a' }, article('A'), article('A')],
+      { maxCost: 5 }
+    );
+
+    expect(mockRunPipeline).toHaveBeenCalledTimes(2);
+    expect(report.articles[1]).toMatchObject({ status: 'duplicate', duplicateOf: 0 });
+    expect(report.articles[3]).toMatchObject({ status: 'duplicate', duplicateOf: 2 });
+    expect(mockFetchArticle).not.toHaveBeenCalled();
+  });
+
+  it('should fetch articles given as URLs', async () => {
+    claimsByTitle({ Fetched: [['Claim', 'climate', 'strong_consensus']] });
+    mockFetchArticle.mockImplementation(async (url) => {
+      if (url.endsWith('/missing')) throw new Error('Page answered 404');
+      return { ...article('Fetched'), url, links: [], wordCount: 3, fetchedAt: new Date().toISOString() };
+    });
+
+    const items: BatchItem[] = [{ url: 'https://news.example/story' }, { url: 'https://news.example/missing' }];
+    const report = await runBatch(items, { maxCost: 5 });
+
+    expect(report.articles[0]).toMatchObject({ status: 'completed', title: 'Fetched', url: 'https://news.example/story' });
+    expect(report.articles[1]).toMatchObject({
+      status: 'failed',
+      errors: ['Could not fetch article: Page answered 404'],
+    });
+  });
+
+  it('should share one evidence cache across the batch', async () => {
+    claimsByTitle({});
+
+    await runBatch([article('A'), article('B')], { maxCost: 5 });
+
+    const [first, second] = mockRunPipeline.mock.calls.map(([input]) => input.evidenceCache);
+    expect(first).toBeDefined();
+    expect(second).toBe(first);
+  });
+
+  it('should skip the remaining articles once the batch limit is spent', async () => {
+    mockRunPipeline.mockImplementation(async (input) => {
+      // Each run is billed inside the batch's context
+      getRequestContext()!.budget!.spent += 0.6;
+      return pipelineResult(input, []);
+    });
+
+    const report = await runBatch([article('A'), article('B'), article('C')], { maxCost: 1 });
+
+    expect(mockRunPipeline).toHaveBeenCalledTimes(2);
+    expect(report.articles[2]).toMatchObject({ status: 'skipped', errors: ['Batch cost limit of $1.00 reached'] });
+    expect(report.cost).toEqual({ limit: 1, spent: 1.2, stoppedEarly: 'Batch cost limit of $1.00 reached' });
+  });
+
+  it('should stop when a run is refused by a budget', async () => {
+    mockRunPipeline.mockImplementation(async (input) =>
+      pipelineResult(input, [], ['Claim extraction failed: API key daily budget exceeded. Please try again tomorrow.'])
+    );
+
+    const report = await runBatch([article('A'), article('B')], { maxCost: 5 });
+
+    expect(report.articles[0].status).toBe('failed');
+    expect(report.articles[1].status).toBe('skipped');
+    expect(report.cost.stoppedEarly).toContain('API key daily budget exceeded');
+  });
+
+  it('should not start articles once the daily cap is reached', async () => {
+    mockIsOverBudget.mockReturnValue(true);
+
+    const report = await runBatch([article('A')], { maxCost: 5 });
+
+    expect(mockRunPipeline).not.toHaveBeenCalled();
+    expect(report.totals.skipped).toBe(1);
+    expect(report.cost.stoppedEarly).toBe('Daily cost cap reached');
+  });
+
+  it('should run as the calling client with the batch budget', async () => {
+    let seen: ReturnType<typeof getRequestContext>;
+    mockRunPipeline.mockImplementation(async (input) => {
+      seen = getRequestContext();
+      return pipelineResult(input, []);
+    });
+
+    const quota = { daily: 2, monthly: 20 };
+    await runWithRequestContext({ endpoint: 'JOB batch', client: 'key_abc', quota }, () =>
+      runBatch([article('A')], { maxCost: 3 })
+    );
+
+    expect(seen).toMatchObject({ client: 'key_abc', quota, budget: { limit: 3 } });
+  });
+
+  it('should reject when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(runBatch([article('A')], { maxCost: 5 }, { signal: controller.signal })).rejects.toThrow('Batch cancelled');
+    expect(mockRunPipeline).not.toHaveBeenCalled();
+  });
+
+  it('should report progress after every article', async () => {
+    claimsByTitle({});
+    const onArticleDone = jest.fn();
+
+    await runBatch([article('A'), article('B'), article('A')], { maxCost: 5, concurrency: 2 }, { onArticleDone });
+
+    expect(onArticleDone.mock.calls.map(([done]) => done)).toEqual([1, 2, 3]);
+    expect(onArticleDone).toHaveBeenLastCalledWith(3, 3);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Tests for Cache Service
+ *
+ * ioredis is replaced by a small in-memory fake; setting mockRedis.down
+ * makes every command fail, as when Redis goes away mid-run.
+ */
+
+import {
+  get,
+  getCacheStats,
+  getOrLoad,
+  invalidateNamespace,
+  resetMemoryCache,
+  set,
+} from '../cache';
+import { LruCache } from '../lruCache';
+
+const mockRedis = {
+  down: false,
+  strings: new Map<string, { value: string; expiresAt: number | null }>(),
+};
+
+jest.mock('ioredis', () => {
+  class FakeRedis {
+    private handlers = new Map<string, () => void>();
+
+    on(event: string, handler: () => void) {
+      this.handlers.set(event, handler);
+      return this;
+    }
+
+    async connect() {
+      this.handlers.get('ready')?.();
+    }
+
+    private check() {
+      if (mockRedis.down) throw new Error('Connection is closed.');
+    }
+
+    private live(key: string) {
+      const entry = mockRedis.strings.get(key);
+      if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        mockRedis.strings.delete(key);
+        return undefined;
+      }
+      return entry;
+    }
+
+    async get(key: string) {
+      this.check();
+      return this.live(key)?.value ?? null;
+    }
+
+    async pttl(key: string) {
+      this.check();
+      const entry = this.live(key);
+      if (!entry) return -2;
+      return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+    }
+
+    async set(key: string, value: string) {
+      this.check();
+      mockRedis.strings.set(key, { value, expiresAt: null });
+      return 'OK';
+    }
+
+    async setex(key: string, seconds: number, value: string) {
+      this.check();
+      mockRedis.strings.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+      return 'OK';
+    }
+
+    async del(...keys: string[]) {
+      this.check();
+      return keys.filter((key) => mockRedis.strings.delete(key)).length;
+    }
+
+    async scan(_cursor: string, _match: string, pattern: string) {
+      this.check();
+      const prefix = pattern.replace(/\*$/, '');
+      return ['0', [...mockRedis.strings.keys()].filter((key) => key.startsWith(prefix))];
+    }
+
+    multi() {
+      const ops: (() => Promise<unknown>)[] = [];
+      const chain = {
+        get: (key: string) => (ops.push(() => this.get(key)), chain),
+        pttl: (key: string) => (ops.push(() => this.pttl(key)), chain),
+        exec: async () => {
+          this.check();
+          return Promise.all(ops.map(async (op) => [null, await op()]));
+        },
+      };
+      return chain;
+    }
+  }
+
+  return { __esModule: true, default: FakeRedis };
+});
+
+/**
+ * A load that resolves when told to, to hold it in flight
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('Cache Service', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 2, 15);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockRedis.down = false;
+    mockRedis.strings.clear();
+    resetMemoryCache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('LruCache', () => {
+    it('should evict the least recently used entry and drop expired ones', () => {
+      const lru = new LruCache<string>(2);
+      lru.set('a', { value: '1', expiresAt: null, freshUntil: null });
+      lru.set('b', { value: '2', expiresAt: null, freshUntil: null });
+      lru.get('a');
+      lru.set('c', { value: '3', expiresAt: 100, freshUntil: 100 });
+
+      expect(lru.get('b')).toBeUndefined();
+      expect(lru.get('a')?.value).toBe('1');
+      expect(lru.get('c', 99)?.value).toBe('3');
+      expect(lru.get('c', 100)).toBeUndefined();
+      expect(lru.size).toBe(1);
+    });
+  });
+
+  describe('get and set', () => {
+    it('should read Redis into memory and answer from memory after that', async () => {
+      await set('analyze:1', { summary: 'cached' }, 60);
+      resetMemoryCache();
+
+      expect(await get('analyze:1')).toEqual({ summary: 'cached' });
+      expect(await get('analyze:1')).toEqual({ summary: 'cached' });
+      expect(await get('analyze:2')).toBeNull();
+      expect(getCacheStats().namespaces.analyze).toMatchObject({ redisHits: 1, memoryHits: 1, misses: 1 });
+    });
+
+    it('should keep answering from memory when Redis is down', async () => {
+      mockRedis.down = true;
+      await set('analyze:1', { summary: 'cached' }, 60);
+
+      expect(await get('analyze:1')).toEqual({ summary: 'cached' });
+
+      now += 61 * 1000;
+      expect(await get('analyze:1')).toBeNull();
+    });
+
+    it('should give each read its own copy', async () => {
+      await set('analyze:1', { tags: ['a'] }, 60);
+      const first = await get<{ tags: string[] }>('analyze:1');
+      first!.tags.push('b');
+
+      expect(await get('analyze:1')).toEqual({ tags: ['a'] });
+    });
+  });
+
+  describe('getOrLoad', () => {
+    it('should run one load for concurrent misses of the same key', async () => {
+      const pending = deferred<{ score: number }>();
+      const load = jest.fn(() => pending.promise);
+
+      const first = getOrLoad('evaluate:1', load, { ttlSeconds: 60 });
+      const second = getOrLoad('evaluate:1', load, { ttlSeconds: 60 });
+      pending.resolve({ score: 1 });
+      const results = await Promise.all([first, second]);
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(results.map((r) => r.status)).toEqual(['miss', 'shared']);
+      expect(results[1].value).toEqual(results[0].value);
+      expect(results[1].value).not.toBe(results[0].value);
+
+      expect(await getOrLoad('evaluate:1', load, { ttlSeconds: 60 })).toEqual({ value: { score: 1 }, status: 'hit' });
+      expect(getCacheStats()).toMatchObject({
+        inFlight: 0,
+        namespaces: { evaluate: { misses: 1, sharedLoads: 1, memoryHits: 1, sets: 1 } },
+      });
+    });
+
+    it('should not cache failed loads or values shouldCache rejects', async () => {
+      const pending = deferred<string>();
+      const failing = getOrLoad('evaluate:1', () => pending.promise);
+      const waiting = getOrLoad('evaluate:1', () => Promise.resolve('unused'));
+      pending.reject(new Error('LLM timeout'));
+
+      await expect(failing).rejects.toThrow('LLM timeout');
+      await expect(waiting).rejects.toThrow('LLM timeout');
+      expect(getCacheStats().namespaces.evaluate.loadErrors).toBe(1);
+
+      await getOrLoad('evaluate:1', async () => ({ errors: ['claim failed'] }), { shouldCache: (v) => !v.errors });
+      expect(await get('evaluate:1')).toBeNull();
+    });
+
+    it('should answer a stale value at once and refresh it in the background', async () => {
+      const options = { ttlSeconds: 60, staleSeconds: 60 };
+      await getOrLoad('evaluate:1', async () => 'v1', options);
+
+      now += 90 * 1000;
+      const refresh = deferred<string>();
+      const load = jest.fn(() => refresh.promise);
+
+      expect(await getOrLoad('evaluate:1', load, options)).toEqual({ value: 'v1', status: 'stale' });
+      expect(await getOrLoad('evaluate:1', load, options)).toEqual({ value: 'v1', status: 'stale' });
+      expect(load).toHaveBeenCalledTimes(1);
+
+      refresh.resolve('v2');
+      await refresh.promise;
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await getOrLoad('evaluate:1', load, options)).toEqual({ value: 'v2', status: 'hit' });
+    });
+
+    it('should work out freshness of values read from Redis', async () => {
+      const options = { ttlSeconds: 60, staleSeconds: 60 };
+      await getOrLoad('evaluate:1', async () => 'v1', options);
+      resetMemoryCache();
+      now += 90 * 1000;
+
+      const result = await getOrLoad('evaluate:1', async () => 'v2', options);
+      expect(result).toEqual({ value: 'v1', status: 'stale' });
+
+      now += 60 * 1000;
+      resetMemoryCache();
+      mockRedis.strings.clear();
+      expect((await getOrLoad('evaluate:1', async () => 'v3', options)).status).toBe('miss');
+    });
+  });
+
+  describe('invalidateNamespace', () => {
+    it('should drop a namespace from both tiers and keep others', async () => {
+      await set('evaluate:1', 'a', 60);
+      await set('evaluate:2', 'b', 60);
+      await set('analyze:1', 'c', 60);
+
+      expect(await invalidateNamespace('evaluate')).toEqual({ memory: 2, redis: 2 });
+      expect(await get('evaluate:1')).toBeNull();
+      expect(await get('analyze:1')).toBe('c');
+      expect([...mockRedis.strings.keys()]).toEqual(['analyze:1']);
+      expect(getCacheStats().namespaces.evaluate.invalidated).toBe(2);
+    });
+
+    it('should not store a load that started before the invalidation', async () => {
+      const pending = deferred<string>();
+      const result = getOrLoad('evaluate:1', () => pending.promise);
+
+      await invalidateNamespace('evaluate');
+      pending.resolve('outdated');
+
+      expect((await result).value).toBe('outdated');
+      expect(await get('evaluate:1')).toBeNull();
+    });
+
+    it('should reject namespaces that are not plain names', async () => {
+      await expect(invalidateNamespace('*')).rejects.toThrow('Invalid cache namespace "*"');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for Canonical URLs
+ */
+
+import { canonicalizeUrl, getArticleCacheKey, hashContent } from '../canonicalUrl';
+
+const STORY = 'https://example.com/news/story';
+const CONTENT = 'The council voted on Tuesday to expand the bus network.';
+
+describe('Canonical URLs', () => {
+  describe('canonicalizeUrl', () => {
+    it('should drop tracking parameters and keep the rest in order', () => {
+      expect(canonicalizeUrl(`${STORY}?utm_source=twitter&utm_medium=social&fbclid=abc`)).toBe(STORY);
+      expect(canonicalizeUrl(`${STORY}?page=2&id=7&gclid=x&ref=home`)).toBe(`${STORY}?id=7&page=2`);
+    });
+
+    it('should ignore scheme, www, case of the host, ports, fragments and trailing slashes', () => {
+      expect(canonicalizeUrl('http://WWW.Example.com:80/news/story/#comments')).toBe(STORY);
+      expect(canonicalizeUrl('https://example.com/')).toBe('https://example.com/');
+    });
+
+    it('should unwrap AMP viewers, caches and AMP pages', () => {
+      expect(canonicalizeUrl('https://www.google.com/amp/s/example.com/news/story')).toBe(STORY);
+      expect(canonicalizeUrl('https://example-com.cdn.ampproject.org/c/s/example.com/news/story?amp_js_v=0.1')).toBe(
+        `${STORY}?amp_js_v=0.1`
+      );
+      expect(canonicalizeUrl('https://example.com/news/story/amp/')).toBe(STORY);
+      expect(canonicalizeUrl('https://amp.example.com/news/story')).toBe(STORY);
+      expect(canonicalizeUrl('https://example.com/news/story.amp.html')).toBe('https://example.com/news/story.html');
+      expect(canonicalizeUrl(`${STORY}?outputType=amp`)).toBe(STORY);
+    });
+
+    it('should prefer the page\'s canonical link when it is an http(s) URL', () => {
+      expect(canonicalizeUrl('https://m.example.com/s/123?utm_source=x', 'https://example.com/news/story')).toBe(STORY);
+      expect(canonicalizeUrl(`${STORY}?utm_source=x`, 'javascript:alert(1)')).toBe(STORY);
+      expect(canonicalizeUrl(`${STORY}?utm_source=x`, 'not a url')).toBe(STORY);
+    });
+
+    it('should leave unparseable addresses as they are', () => {
+      expect(canonicalizeUrl('  not a url ')).toBe('not a url');
+    });
+  });
+
+  describe('getArticleCacheKey', () => {
+    it('should share a key between URL variants of the same text', () => {
+      const key = getArticleCacheKey('analyze', { url: STORY, content: CONTENT });
+
+      expect(key).toMatch(/^analyze:[0-9a-f]{32}:[0-9a-f]{32}$/);
+      expect(getArticleCacheKey('analyze', { url: `http://www.example.com/news/story?utm_campaign=x`, content: CONTENT })).toBe(key);
+      expect(getArticleCacheKey('analyze', { url: 'https://example.com/amp/1', canonicalUrl: STORY, content: `  ${CONTENT}\n` })).toBe(key);
+    });
+
+    it('should change when the article text is edited', () => {
+      const key = getArticleCacheKey('analyze', { url: STORY, content: CONTENT });
+
+      expect(getArticleCacheKey('analyze', { url: STORY, content: `${CONTENT} Correction: it was Wednesday.` })).not.toBe(key);
+      expect(hashContent('a  b\n c')).toBe(hashContent('a b c'));
+    });
+  });
+});
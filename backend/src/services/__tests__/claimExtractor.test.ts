@@ -15,11 +15,15 @@ import {
 import { openaiService } from '../openai';
 
 // Mock the OpenAI service to avoid actual API calls in tests
-jest.mock('../openai', () => ({
-  openaiService: {
-    complete: jest.fn(),
-  },
-}));
+jest.mock('../openai', () => {
+  const complete = jest.fn();
+  return {
+    openaiService: {
+      complete,
+      completeWithModel: jest.fn(async (prompt: string) => ({ content: await complete(prompt), model: 'gpt-5' })),
+    },
+  };
+});
 
 const mockComplete = openaiService.complete as jest.MockedFunction<typeof openaiService.complete>;
 
@@ -0,0 +1,367 @@
+/**
+ * Tests for Claim Store Service
+ *
+ * Most tests keep claims in memory; one runs against a small Redis fake.
+ * Embeddings are mocked as short hand-written vectors.
+ */
+
+import {
+  findClaimMatches,
+  getClaimArticles,
+  getStoredClaim,
+  isAssessmentFresh,
+  recordClaim,
+  resetMemoryClaimStore,
+  searchClaims,
+  tokenizeClaim,
+} from '../claimStore';
+import { getClient } from '../cache';
+import { openaiService } from '../openai';
+import { Article, ClassifiedClaim } from '../../types/claims';
+import { ConsensusAssessment } from '../../types/consensus';
+import { StoredAssessment } from '../../types/claimStore';
+
+jest.mock('../cache', () => ({
+  getClient: jest.fn(),
+}));
+
+jest.mock('../openai', () => ({
+  openaiService: {
+    isEmbeddingAvailable: jest.fn(() => false),
+    embed: jest.fn(),
+  },
+}));
+
+const mockGetClient = getClient as jest.MockedFunction<typeof getClient>;
+const mockEmbeddingAvailable = openaiService.isEmbeddingAvailable as jest.MockedFunction<typeof openaiService.isEmbeddingAvailable>;
+const mockEmbed = openaiService.embed as jest.MockedFunction<typeof openaiService.embed>;
+
+function claim(id: string, text: string): ClassifiedClaim {
+  return {
+    id,
+    text,
+    type: 'empirical',
+    isVerifiable: true,
+    verifiabilityReason: 'Measurable',
+    source: { name: 'Reporter', role: 'article_author', isExcludedFromExpertPool: false },
+    domain: 'medicine',
+  };
+}
+
+function article(n: number): Article {
+  return { title: `Story ${n}`, source: 'Example News', content: 'Body', url: `https://news.example/${n}` };
+}
+
+function assessment(daysAgo = 0): StoredAssessment {
+  return {
+    consensus: { level: 'strong_consensus' } as unknown as ConsensusAssessment,
+    evidence: [],
+    assessedAt: new Date(Date.now() - daysAgo * 24 * 3600 * 1000).toISOString(),
+  };
+}
+
+/**
+ * Store a claim as the pipeline would: look it up, then record it
+ */
+async function store(c: ClassifiedClaim, a: Article, stored?: StoredAssessment) {
+  const lookups = await findClaimMatches([c]);
+  return recordClaim(c, a, lookups.get(c.id), stored);
+}
+
+async function matchFor(text: string) {
+  return (await findClaimMatches([claim('x', text)])).get('x')?.match;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FAKE REDIS
+// ═══════════════════════════════════════════════════════════════
+
+class FakeRedis {
+  strings = new Map<string, string>();
+  sets = new Map<string, Set<string>>();
+  hashes = new Map<string, Map<string, string>>();
+  zsets = new Map<string, Map<string, number>>();
+
+  async get(key: string) {
+    return this.strings.get(key) ?? null;
+  }
+
+  async set(key: string, value: string, mode?: string) {
+    if (mode === 'NX' && this.strings.has(key)) return null;
+    this.strings.set(key, value);
+    return 'OK';
+  }
+
+  async mget(...keys: string[]) {
+    return keys.map((key) => this.strings.get(key) ?? null);
+  }
+
+  async sadd(key: string, member: string) {
+    if (!this.sets.has(key)) this.sets.set(key, new Set());
+    this.sets.get(key)!.add(member);
+    return 1;
+  }
+
+  async smembers(key: string) {
+    return [...(this.sets.get(key) || [])];
+  }
+
+  async hset(key: string, field: string, value: string) {
+    if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+    this.hashes.get(key)!.set(field, value);
+    return 1;
+  }
+
+  async hlen(key: string) {
+    return this.hashes.get(key)?.size ?? 0;
+  }
+
+  async hgetall(key: string) {
+    return Object.fromEntries(this.hashes.get(key) || []);
+  }
+
+  async zadd(key: string, score: number, member: string) {
+    if (!this.zsets.has(key)) this.zsets.set(key, new Map());
+    this.zsets.get(key)!.set(member, score);
+    return 1;
+  }
+
+  async zrevrange(key: string, start: number, stop: number) {
+    return [...(this.zsets.get(key) || [])]
+      .sort((a, b) => b[1] - a[1])
+      .slice(start, stop + 1)
+      .map(([member]) => member);
+  }
+
+  multi() {
+    const ops: (() => Promise<unknown>)[] = [];
+    const chain: any = new Proxy({}, {
+      get: (_target, name: string) => {
+        if (name === 'exec') {
+          return async () => {
+            const results: [null, unknown][] = [];
+            for (const op of ops) results.push([null, await op()]);
+            return results;
+          };
+        }
+        return (...args: unknown[]) => {
+          ops.push(() => (this as any)[name](...args));
+          return chain;
+        };
+      },
+    });
+    return chain;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+describe('Claim Store Service', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockGetClient.mockResolvedValue(null);
+    mockEmbeddingAvailable.mockReturnValue(false);
+    resetMemoryClaimStore();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('tokenizeClaim', () => {
+    it('should drop stopwords and plurals but keep numbers and negations', () => {
+      expect([...tokenizeClaim('the vaccines are not linked to 12% of cases')]).toEqual([
+        'vaccine', 'not', 'linked', '12%', 'case',
+      ]);
+    });
+  });
+
+  describe('matching', () => {
+    beforeEach(async () => {
+      await store(claim('c1', 'Vaccines cause autism in children'), article(1));
+      await store(claim('c2', 'Unemployment rose 5% in 2023'), article(1));
+    });
+
+    it('should match the same claim after normalization', async () => {
+      expect(await matchFor('vaccines cause autism in children.')).toMatchObject({ method: 'exact', similarity: 1 });
+    });
+
+    it('should match nearly the same words', async () => {
+      const match = await matchFor('A vaccine causes autism in children');
+      expect(match).toMatchObject({ method: 'lexical', similarity: 1 });
+      expect(match?.claim.text).toBe('Vaccines cause autism in children');
+    });
+
+    it('should not match a negated claim', async () => {
+      expect(await matchFor("Vaccines don't cause autism in children")).toBeUndefined();
+    });
+
+    it('should not match a claim stating other numbers', async () => {
+      expect(await matchFor('Unemployment rose 7% in 2023')).toBeUndefined();
+    });
+
+    it('should leave unrelated claims unmatched', async () => {
+      expect(await matchFor('Sea levels are rising')).toBeUndefined();
+    });
+  });
+
+  describe('embedding matches', () => {
+    const original = claim('c1', 'Minimum wage increases reduce employment for teenagers');
+
+    beforeEach(async () => {
+      mockEmbeddingAvailable.mockReturnValue(true);
+      mockEmbed.mockResolvedValueOnce([[1, 0, 0]]);
+      await store(original, article(1));
+    });
+
+    it('should match a differently worded claim with a close embedding', async () => {
+      mockEmbed.mockResolvedValueOnce([[0.99, 0.1, 0]]);
+
+      const match = await matchFor('Raising the minimum wage lowers teen employment');
+
+      expect(match?.method).toBe('embedding');
+      expect(match?.similarity).toBeGreaterThan(0.9);
+      expect(mockEmbed).toHaveBeenLastCalledWith(['Raising the minimum wage lowers teen employment']);
+    });
+
+    it('should not match a distant embedding', async () => {
+      mockEmbed.mockResolvedValueOnce([[0, 1, 0]]);
+
+      expect(await matchFor('Raising the minimum wage lowers teen employment')).toBeUndefined();
+    });
+
+    it('should not embed claims matched by their words', async () => {
+      mockEmbed.mockClear();
+
+      await matchFor('Minimum wage increase reduces employment for teenagers');
+
+      expect(mockEmbed).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to words when embedding fails', async () => {
+      mockEmbed.mockRejectedValueOnce(new Error('LLM daily budget exceeded'));
+
+      expect(await matchFor('Raising the minimum wage lowers teen employment')).toBeUndefined();
+    });
+  });
+
+  describe('recordClaim', () => {
+    it('should link every article a claim appears in', async () => {
+      const first = await store(claim('c1', 'Vaccines cause autism in children'), article(1), assessment());
+      await store(claim('c1', 'A vaccine causes autism in children'), article(2));
+      const again = await store(claim('c1', 'Vaccines cause autism in children'), article(2));
+
+      expect(first).toMatchObject({ matchedBy: 'new', reusedAssessment: false, articleCount: 1 });
+      expect(again).toMatchObject({ id: first.id, matchedBy: 'exact', reusedAssessment: true, articleCount: 2 });
+
+      // The latest wording per article is kept
+      const links = await getClaimArticles(first.id);
+      expect(links.map((l) => [l.articleKey, l.claimText]).sort()).toEqual([
+        ['https://news.example/1', 'Vaccines cause autism in children'],
+        ['https://news.example/2', 'Vaccines cause autism in children'],
+      ]);
+    });
+
+    it('should match a reworded claim exactly once it has been seen', async () => {
+      await store(claim('c1', 'Vaccines cause autism in children'), article(1));
+      await store(claim('c1', 'A vaccine causes autism in children'), article(2));
+
+      expect(await matchFor('A vaccine causes autism in children')).toMatchObject({ method: 'exact' });
+    });
+
+    it('should replace the stored assessment with a newer one', async () => {
+      const { id } = await store(claim('c1', 'Vaccines cause autism in children'), article(1), assessment(30));
+      const updated = assessment();
+
+      const ref = await store(claim('c1', 'Vaccines cause autism in children'), article(2), updated);
+
+      expect(ref).toMatchObject({ reusedAssessment: false, assessedAt: updated.assessedAt });
+      expect((await getStoredClaim(id))?.assessment).toEqual(updated);
+    });
+
+    it('should key articles without a URL by title and source', async () => {
+      const { id } = await store(claim('c1', 'Sea levels are rising'), { title: 'T', source: 'S', content: '' });
+
+      expect((await getClaimArticles(id))[0].articleKey).toMatch(/^article:[0-9a-f]{32}$/);
+    });
+  });
+
+  describe('searchClaims', () => {
+    const all = { limit: 20, offset: 0 };
+
+    beforeEach(async () => {
+      await store(claim('c1', 'Vaccines cause autism in children'), article(1), assessment());
+      await store({ ...claim('c2', 'Vaccines are tested for safety before approval'), type: 'historical' }, article(2));
+      await store({ ...claim('c3', 'Sea levels are rising faster'), domain: 'climate' }, article(3));
+    });
+
+    it('should find claims by their words, best match first', async () => {
+      const result = await searchClaims({ ...all, q: 'autism vaccines' });
+
+      expect(result.claims.map((c) => c.text)).toEqual([
+        'Vaccines cause autism in children',
+        'Vaccines are tested for safety before approval',
+      ]);
+      expect(result.total).toBe(2);
+    });
+
+    it('should require at least half of the query words', async () => {
+      const result = await searchClaims({ ...all, q: 'vaccines autism children rates' });
+
+      expect(result.claims.map((c) => c.text)).toEqual(['Vaccines cause autism in children']);
+    });
+
+    it('should list the most recent claims without a query', async () => {
+      await store(claim('c1', 'Vaccines cause autism in children'), article(4));
+
+      const result = await searchClaims({ ...all, q: 'the' });
+
+      expect(result.claims[0].text).toBe('Vaccines cause autism in children');
+      expect(result.total).toBe(3);
+    });
+
+    it('should filter by domain, type and consensus level', async () => {
+      expect((await searchClaims({ ...all, domains: ['climate'] })).claims.map((c) => c.id)).toHaveLength(1);
+      expect((await searchClaims({ ...all, types: ['historical'] })).claims[0].text).toMatch(/^Vaccines are tested/);
+      expect((await searchClaims({ ...all, consensusLevels: ['strong_consensus'] })).claims.map((c) => c.text)).toEqual([
+        'Vaccines cause autism in children',
+      ]);
+      expect((await searchClaims({ ...all, consensusLevels: ['active_debate'] })).total).toBe(0);
+    });
+
+    it('should page through results', async () => {
+      const result = await searchClaims({ q: 'vaccines', limit: 1, offset: 1 });
+
+      expect(result.total).toBe(2);
+      expect(result.claims).toHaveLength(1);
+    });
+  });
+
+  describe('isAssessmentFresh', () => {
+    it('should only accept assessments younger than CLAIM_FRESH_DAYS', () => {
+      expect(isAssessmentFresh(assessment(1))).toBe(true);
+      expect(isAssessmentFresh(assessment(30))).toBe(false);
+      expect(isAssessmentFresh(undefined)).toBe(false);
+    });
+  });
+
+  describe('with Redis', () => {
+    it('should store, match and link claims', async () => {
+      const redis = new FakeRedis();
+      mockGetClient.mockResolvedValue(redis as any);
+
+      const first = await store(claim('c1', 'Vaccines cause autism in children'), article(1), assessment());
+      const second = await store(claim('c1', 'A vaccine causes autism in children'), article(2));
+
+      expect(second).toMatchObject({ id: first.id, matchedBy: 'lexical', reusedAssessment: true, articleCount: 2 });
+      expect(await getStoredClaim(first.id)).toMatchObject({ text: 'Vaccines cause autism in children', articleCount: 2 });
+      expect(await getClaimArticles(first.id)).toHaveLength(2);
+      expect(redis.zsets.get('claims:recent')?.has(first.id)).toBe(true);
+      expect(await getStoredClaim('clm_missing')).toBeNull();
+      expect((await searchClaims({ limit: 10, offset: 0 })).claims.map((c) => c.id)).toEqual([first.id]);
+      expect((await searchClaims({ q: 'autism', limit: 10, offset: 0 })).total).toBe(1);
+    });
+  });
+});
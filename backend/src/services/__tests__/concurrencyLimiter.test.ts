@@ -0,0 +1,113 @@
+/**
+ * Tests for Concurrency Limiter
+ */
+
+import { ConcurrencyLimiter } from '../concurrencyLimiter';
+
+// ═══════════════════════════════════════════════════════════════
+// TEST HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * A task that finishes when finish() is called
+ */
+function deferredTask<T>(value: T) {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => { finish = resolve; });
+  const task = jest.fn(async () => {
+    await done;
+    return value;
+  });
+  return { task, finish };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  it('should run up to the limit at once and queue the rest', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 2, maxQueued: 10 });
+    const a = deferredTask('a');
+    const b = deferredTask('b');
+    const c = deferredTask('c');
+    const onQueued = jest.fn();
+
+    const results = [limiter.run(a.task), limiter.run(b.task), limiter.run(c.task, onQueued)];
+    await tick();
+
+    expect(limiter.active).toBe(2);
+    expect(limiter.queued).toBe(1);
+    expect(c.task).not.toHaveBeenCalled();
+    expect(onQueued).toHaveBeenCalledWith(1);
+
+    a.finish();
+    await tick();
+
+    expect(c.task).toHaveBeenCalled();
+    expect(limiter.active).toBe(2);
+
+    b.finish();
+    c.finish();
+    expect(await Promise.all(results)).toEqual(['a', 'b', 'c']);
+    expect(limiter.active).toBe(0);
+  });
+
+  it('should start queued tasks in order', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueued: 10 });
+    const order: string[] = [];
+    const first = deferredTask('first');
+
+    const runs = [
+      limiter.run(first.task),
+      limiter.run(async () => { order.push('second'); }),
+      limiter.run(async () => { order.push('third'); }),
+    ];
+    first.finish();
+    await Promise.all(runs);
+
+    expect(order).toEqual(['second', 'third']);
+  });
+
+  it('should free the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueued: 10 });
+
+    await expect(limiter.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+
+    expect(limiter.active).toBe(0);
+    expect(await limiter.run(async () => 'ok')).toBe('ok');
+  });
+
+  it('should reject when the queue is full', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueued: 1 });
+    const running = deferredTask('running');
+
+    const first = limiter.run(running.task);
+    const queued = limiter.run(async () => 'queued');
+
+    await expect(limiter.run(async () => 'rejected')).rejects.toThrow('queue is full');
+
+    running.finish();
+    expect(await first).toBe('running');
+    expect(await queued).toBe('queued');
+  });
+
+  it('should reject tasks that wait longer than the timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueued: 10, queueTimeoutMs: 1000 });
+      const running = deferredTask('running');
+      const waiting = jest.fn(async () => 'never');
+
+      limiter.run(running.task);
+      const timedOut = limiter.run(waiting);
+      jest.advanceTimersByTime(1000);
+
+      await expect(timedOut).rejects.toThrow('Timed out');
+      expect(limiter.queued).toBe(0);
+
+      running.finish();
+      expect(waiting).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -37,6 +37,8 @@ import {
   getConsensusLevelDescription,
   getFramingTemplate,
   FRAMING_TEMPLATES,
+  summarizeExpertVerdicts,
+  applyExpertPanelToLevel,
 } from '../consensusDetector';
 import {
   ConsensusLevel,
@@ -45,6 +47,8 @@ import {
   DEFAULT_CONSENSUS_THRESHOLDS,
 } from '../../types/consensus';
 import { ClaimType, Domain } from '../../types/claims';
+import { ExpertClaimVerdict, ExpertVerdict } from '../../types/expertPanel';
+import { ReferenceDataCheck } from '../../types/referenceData';
 import { EvidenceTier } from '../evidenceTier';
 
 // ═══════════════════════════════════════════════════════════════
@@ -98,6 +102,24 @@ function createEvidenceSet(
   return evidence;
 }
 
+/**
+ * Create a mock expert panel verdict
+ */
+function createVerdict(
+  verdict: ExpertVerdict,
+  confidence: 'high' | 'medium' | 'low' = 'high',
+  expertType: string = 'Epidemiologist'
+): ExpertClaimVerdict {
+  return {
+    expertType,
+    claimId: 'claim_1',
+    verdict,
+    confidence,
+    reasoning: `The evidence ${verdict === 'supported' ? 'supports' : 'does not support'} the claim.`,
+    keyEvidence: [],
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════
 // TESTS
 // ═══════════════════════════════════════════════════════════════
@@ -793,4 +815,193 @@ describe('Consensus Detector Service', () => {
       expect(basis.totalStudiesExamined).toBe(5);
     });
   });
+
+  describe('Expert Panel Verdicts', () => {
+    it('should count verdicts and find a majority', () => {
+      const summary = summarizeExpertVerdicts([
+        createVerdict('supported'),
+        createVerdict('supported'),
+        createVerdict('inconclusive'),
+      ]);
+
+      expect(summary.counts.supported).toBe(2);
+      expect(summary.counts.inconclusive).toBe(1);
+      expect(summary.majorityVerdict).toBe('supported');
+      expect(summary.hasDisagreement).toBe(false);
+    });
+
+    it('should report no majority when the panel is split', () => {
+      const summary = summarizeExpertVerdicts([
+        createVerdict('supported'),
+        createVerdict('mixed'),
+      ]);
+
+      expect(summary.majorityVerdict).toBeNull();
+    });
+
+    it('should detect confident opposite verdicts as disagreement', () => {
+      const summary = summarizeExpertVerdicts([
+        createVerdict('supported', 'high'),
+        createVerdict('refuted', 'medium'),
+      ]);
+
+      expect(summary.hasDisagreement).toBe(true);
+    });
+
+    it('should ignore low-confidence verdicts when detecting disagreement', () => {
+      const summary = summarizeExpertVerdicts([
+        createVerdict('supported', 'high'),
+        createVerdict('refuted', 'low'),
+      ]);
+
+      expect(summary.hasDisagreement).toBe(false);
+    });
+
+    it('should downgrade consensus to active debate when experts disagree', () => {
+      const panel = summarizeExpertVerdicts([
+        createVerdict('supported'),
+        createVerdict('refuted'),
+      ]);
+
+      expect(applyExpertPanelToLevel('strong_consensus', panel)).toBe('active_debate');
+      expect(applyExpertPanelToLevel('moderate_consensus', panel)).toBe('active_debate');
+      expect(applyExpertPanelToLevel('values_question', panel)).toBe('values_question');
+      expect(applyExpertPanelToLevel('insufficient_research', panel)).toBe('insufficient_research');
+    });
+
+    it('should attach the panel summary and caveats in assessConsensus', () => {
+      const assessment = assessConsensus({
+        claimText: 'Minimum wage increases reduce employment',
+        claimType: 'causal',
+        domain: 'economics',
+        evidence: createEvidenceSet(10, 0),
+        expertVerdicts: [
+          createVerdict('supported', 'high', 'Labor economist'),
+          createVerdict('refuted', 'high', 'Econometrician'),
+        ],
+      });
+
+      expect(assessment.level).toBe('active_debate');
+      expect(assessment.expertPanel?.verdicts).toHaveLength(2);
+      expect(assessment.caveats.some((c) => c.includes('Expert perspectives disagree'))).toBe(true);
+    });
+
+    it('should flag a panel majority that runs against the evidence', () => {
+      const assessment = assessConsensus({
+        claimText: 'Claim',
+        claimType: 'empirical',
+        domain: 'general',
+        evidence: createEvidenceSet(10, 0),
+        expertVerdicts: [createVerdict('refuted'), createVerdict('refuted', 'low')],
+      });
+
+      expect(assessment.level).toBe('strong_consensus');
+      expect(assessment.caveats.some((c) => c.includes('differs from the direction'))).toBe(true);
+    });
+
+    it('should leave assessments without panel verdicts unchanged', () => {
+      const assessment = assessConsensus({
+        claimText: 'Claim',
+        claimType: 'empirical',
+        domain: 'general',
+        evidence: createEvidenceSet(10, 0),
+      });
+
+      expect(assessment.expertPanel).toBeUndefined();
+      expect(assessment.level).toBe('strong_consensus');
+    });
+  });
+
+  describe('Retracted Evidence', () => {
+    const retract = (e: DirectedEvidence): DirectedEvidence => ({
+      ...e,
+      citation: { ...e.citation, retraction: { status: 'retracted', source: 'crossref' } },
+    });
+
+    it('should leave retracted works out of the evidence basis', () => {
+      const evidence = [retract(createMockEvidence('supports', 1)), ...createEvidenceSet(2, 0)];
+      const basis = buildEvidenceBasis(evidence);
+
+      expect(basis.metaAnalyses).toHaveLength(0);
+      expect(basis.peerReviewedStudies).toHaveLength(2);
+      expect(basis.totalQualityStudies).toBe(2);
+      expect(basis.totalStudiesExamined).toBe(3);
+    });
+
+    it('should not let retracted works drive the consensus level', () => {
+      const assessment = assessConsensus({
+        claimText: 'Vaccines cause autism',
+        claimType: 'causal',
+        domain: 'medicine',
+        evidence: [...createEvidenceSet(10, 0).map(retract), ...createEvidenceSet(0, 10)],
+      });
+
+      expect(assessment.evidenceSummary.supporting).toBe(0);
+      expect(assessment.flaggedEvidence).toHaveLength(10);
+    });
+
+    it('should keep expressions of concern but flag them', () => {
+      const questioned = createMockEvidence('supports', 2);
+      questioned.citation.retraction = { status: 'expression_of_concern', source: 'retraction_watch' };
+
+      const assessment = assessConsensus({
+        claimText: 'Claim',
+        claimType: 'empirical',
+        domain: 'general',
+        evidence: [questioned, ...createEvidenceSet(4, 0)],
+      });
+
+      expect(assessment.basis.peerReviewedStudies).toHaveLength(5);
+      expect(assessment.flaggedEvidence).toHaveLength(1);
+    });
+  });
+  describe('Reference Data', () => {
+    const check: ReferenceDataCheck = {
+      verdict: 'differs',
+      datasetId: 'us-unemployment',
+      datasetName: 'US unemployment rate',
+      source: 'Bureau of Labor Statistics',
+      measure: 'level',
+      unit: 'percent',
+      claimedValue: 5,
+      officialValue: 3.6,
+      difference: -1.4,
+      period: '2023',
+      periodInferred: true,
+      summary: 'Differs from official data by 1.4 percentage points: Bureau of Labor Statistics reports 3.6% for 2023, not 5%.',
+    };
+
+    it('should let official figures settle a statistical claim', () => {
+      const assessment = assessConsensus({
+        claimText: 'Unemployment is at 5%',
+        claimType: 'statistical',
+        domain: 'economics',
+        evidence: createEvidenceSet(6, 0),
+        referenceData: check,
+      });
+
+      expect(assessment.level).toBe('strong_consensus');
+      expect(assessment.evidenceSummary.supportRatio).toBe(0);
+      expect(assessment.confidence).toBe('medium');
+      expect(assessment.framingSentence).toBe(check.summary);
+      expect(assessment.referenceData).toBe(check);
+      expect(assessment.caveats).toEqual(expect.arrayContaining([
+        'Compared with US unemployment rate (Bureau of Labor Statistics)',
+        'The claim gives no period; it was compared with the latest figure (2023)',
+      ]));
+    });
+
+    it('should give high confidence to a match for a stated period', () => {
+      const assessment = assessConsensus({
+        claimText: 'Unemployment averaged 3.6% in 2023',
+        claimType: 'statistical',
+        domain: 'economics',
+        evidence: [],
+        referenceData: { ...check, verdict: 'matches', periodInferred: false },
+      });
+
+      expect(assessment.evidenceSummary.supportRatio).toBe(1);
+      expect(assessment.confidence).toBe('high');
+    });
+  });
 });
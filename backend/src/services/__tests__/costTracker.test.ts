@@ -0,0 +1,368 @@
+/**
+ * Tests for Cost Tracker Service
+ *
+ * Redis is replaced by a small in-memory fake implementing the commands the
+ * ledger uses; the Lua reservation script is emulated by eval().
+ */
+
+import {
+  trackCost,
+  reserveBudget,
+  releaseBudget,
+  resetDailyCost,
+  getCostStatus,
+  getCostHistory,
+  getCostCharges,
+  getDailyCost,
+  getClientSpend,
+  isOverBudget,
+} from '../costTracker';
+import { getClient } from '../cache';
+import { runWithRequestContext } from '../requestContext';
+import { config } from '../../config';
+
+jest.mock('../cache', () => ({
+  getClient: jest.fn(),
+}));
+
+const mockGetClient = getClient as jest.MockedFunction<typeof getClient>;
+
+// ═══════════════════════════════════════════════════════════════
+// FAKE REDIS
+// ═══════════════════════════════════════════════════════════════
+
+class FakeRedis {
+  strings = new Map<string, string>();
+  hashes = new Map<string, Record<string, string>>();
+  lists = new Map<string, string[]>();
+
+  async get(key: string) {
+    return this.strings.get(key) ?? null;
+  }
+
+  async incrbyfloat(key: string, by: number) {
+    const value = String(parseFloat(this.strings.get(key) || '0') + Number(by));
+    this.strings.set(key, value);
+    return value;
+  }
+
+  async hincrbyfloat(key: string, field: string, by: number) {
+    const hash = this.hashes.get(key) || {};
+    hash[field] = String(parseFloat(hash[field] || '0') + Number(by));
+    this.hashes.set(key, hash);
+    return hash[field];
+  }
+
+  async hincrby(key: string, field: string, by: number) {
+    return parseInt(await this.hincrbyfloat(key, field, by), 10);
+  }
+
+  async hget(key: string, field: string) {
+    return this.hashes.get(key)?.[field] ?? null;
+  }
+
+  async hgetall(key: string) {
+    return { ...(this.hashes.get(key) || {}) };
+  }
+
+  async lpush(key: string, value: string) {
+    const list = [value, ...(this.lists.get(key) || [])];
+    this.lists.set(key, list);
+    return list.length;
+  }
+
+  async ltrim(key: string, start: number, stop: number) {
+    this.lists.set(key, (this.lists.get(key) || []).slice(start, stop + 1));
+    return 'OK';
+  }
+
+  async lrange(key: string, start: number, stop: number) {
+    return (this.lists.get(key) || []).slice(start, stop + 1);
+  }
+
+  async expire() {
+    return 1;
+  }
+
+  async del(...keys: string[]) {
+    keys.forEach((k) => {
+      this.strings.delete(k);
+      this.hashes.delete(k);
+      this.lists.delete(k);
+    });
+    return keys.length;
+  }
+
+  // RESERVE_SCRIPT: refuse past the cap or the client's quotas, otherwise
+  // add to every total (no await between read and write - scripts run
+  // atomically in Redis)
+  async eval(_script: string, numKeys: number, ...rest: (string | number)[]) {
+    const [totalKey, dailyKey, monthlyKey] = rest.slice(0, numKeys) as string[];
+    const [amount, cap, , client, dailyQuota, monthlyQuota] = rest.slice(numKeys);
+    const over = (current: number, limit: unknown) =>
+      Number(limit) >= 0 && (current >= Number(limit) || current + Number(amount) > Number(limit));
+    const field = (key: string) => parseFloat(this.hashes.get(key)?.[String(client)] || '0');
+
+    const total = parseFloat(this.strings.get(totalKey) || '0');
+    if (over(total, cap)) {
+      return [1, String(total)];
+    }
+    if (numKeys === 3) {
+      if (over(field(dailyKey), dailyQuota)) {
+        return [2, String(total)];
+      }
+      if (over(field(monthlyKey), monthlyQuota)) {
+        return [3, String(total)];
+      }
+      this.hashes.set(dailyKey, { ...this.hashes.get(dailyKey), [String(client)]: String(field(dailyKey) + Number(amount)) });
+      this.hashes.set(monthlyKey, { ...this.hashes.get(monthlyKey), [String(client)]: String(field(monthlyKey) + Number(amount)) });
+    }
+    this.strings.set(totalKey, String(total + Number(amount)));
+    return [0, String(total + Number(amount))];
+  }
+
+  multi() {
+    const ops: (() => Promise<unknown>)[] = [];
+    const chain: any = new Proxy({}, {
+      get: (_target, name: string) => {
+        if (name === 'exec') {
+          return async () => {
+            const results: [null, unknown][] = [];
+            for (const op of ops) results.push([null, await op()]);
+            return results;
+          };
+        }
+        return (...args: unknown[]) => {
+          ops.push(() => (this as any)[name](...args));
+          return chain;
+        };
+      },
+    });
+    return chain;
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Run as a request made with an API key
+ */
+function asClient<T>(client: string, quota: { daily: number | null; monthly: number | null }, fn: () => T): T {
+  return runWithRequestContext({ endpoint: 'POST /api/v1/evaluate/', client, quota }, fn);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+describe('CostTracker Service', () => {
+  let redis: FakeRedis;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    redis = new FakeRedis();
+    mockGetClient.mockResolvedValue(redis as any);
+    await resetDailyCost();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('with Redis', () => {
+    it('should break charges down by provider, operation and model', async () => {
+      await trackCost(0.02, { provider: 'openai', operation: 'extractClaims', model: 'gpt-5' });
+      await trackCost(0.01, { provider: 'openai', operation: 'analyzeQuick', model: 'gpt-5-mini' });
+      await trackCost(0.006, { provider: 'exa', operation: 'searchAcademic' });
+
+      const status = await getCostStatus();
+
+      expect(status.storage).toBe('redis');
+      expect(status.totalCost).toBeCloseTo(0.036);
+      expect(status.breakdown.provider.openai).toEqual({ cost: expect.closeTo(0.03), calls: 2 });
+      expect(status.breakdown.provider.exa.calls).toBe(1);
+      expect(status.breakdown.model).toEqual({
+        'gpt-5': { cost: 0.02, calls: 1 },
+        'gpt-5-mini': { cost: 0.01, calls: 1 },
+      });
+      expect(status.breakdown.operation.searchAcademic.cost).toBeCloseTo(0.006);
+    });
+
+    it('should attribute charges to the request endpoint and client', async () => {
+      await runWithRequestContext({ endpoint: 'POST /api/v1/evaluate/', client: '10.0.0.7' }, () =>
+        trackCost(0.05, { provider: 'openai', operation: 'extractClaims', model: 'gpt-5' })
+      );
+      await trackCost(0.01, { provider: 'exa', operation: 'searchNews' });
+
+      const status = await getCostStatus();
+      expect(status.breakdown.endpoint['POST /api/v1/evaluate/'].cost).toBe(0.05);
+      expect(status.breakdown.client['10.0.0.7'].calls).toBe(1);
+      expect(status.breakdown.client.internal.calls).toBe(1);
+    });
+
+    it('should share totals between instances through Redis', async () => {
+      await redis.incrbyfloat(`cost:${today()}:total`, 12.5);
+
+      const status = await getCostStatus();
+      expect(status.totalCost).toBe(12.5);
+      expect(getDailyCost()).toBe(12.5);
+    });
+
+    it('should keep itemized charges newest first', async () => {
+      await trackCost(0.01, { provider: 'crossref', operation: 'lookupDOI' });
+      await trackCost(0.02, { provider: 'openai', operation: 'complete', model: 'gpt-5' });
+
+      const charges = await getCostCharges(today(), 10);
+
+      expect(charges.map((c) => c.operation)).toEqual(['complete', 'lookupDOI']);
+      expect(charges[0]).toMatchObject({ amount: 0.02, model: 'gpt-5', endpoint: 'internal', client: 'internal' });
+      expect(await getCostCharges(today(), 1)).toHaveLength(1);
+    });
+
+    it('should report daily history newest first', async () => {
+      const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+      await redis.incrbyfloat(`cost:${yesterday}:total`, 3);
+      await redis.hincrbyfloat(`cost:${yesterday}:provider`, 'openai', 3);
+      await redis.hincrby(`cost:${yesterday}:provider:calls`, 'openai', 40);
+      await trackCost(1, { provider: 'exa', operation: 'searchNews' });
+
+      const history = await getCostHistory(3);
+
+      expect(history.map((d) => d.date)).toEqual([today(), yesterday, expect.any(String)]);
+      expect(history[0].byProvider.exa).toEqual({ cost: 1, calls: 1 });
+      expect(history[1]).toEqual({ date: yesterday, totalCost: 3, byProvider: { openai: { cost: 3, calls: 40 } } });
+      expect(history[2].totalCost).toBe(0);
+    });
+  });
+
+  describe('budget reservations', () => {
+    it('should let only one of two concurrent reservations through when both do not fit', async () => {
+      const half = config.dailyCostCap * 0.6;
+
+      const results = await Promise.all([reserveBudget(half), reserveBudget(half)]);
+
+      expect(results.map((r) => r.ok).sort()).toEqual([false, true]);
+      expect(parseFloat((await redis.get(`cost:${today()}:total`))!)).toBeCloseTo(half);
+    });
+
+    it('should settle a reservation at the actual cost', async () => {
+      expect(await reserveBudget(1)).toEqual({ ok: true });
+      await trackCost(0.25, { provider: 'openai', operation: 'complete', model: 'gpt-5' }, 1);
+
+      expect((await getCostStatus()).totalCost).toBeCloseTo(0.25);
+    });
+
+    it('should hand back reservations that were not spent', async () => {
+      await reserveBudget(2);
+      await releaseBudget(2);
+
+      expect((await getCostStatus()).totalCost).toBe(0);
+    });
+
+    it('should refuse reservations once the cap is reached', async () => {
+      await trackCost(config.dailyCostCap, { provider: 'openai', operation: 'complete', model: 'gpt-5' });
+
+      expect(isOverBudget()).toBe(true);
+      expect(await reserveBudget(0)).toEqual({ ok: false, limit: 'daily' });
+    });
+  });
+
+  describe('API key quotas', () => {
+    it('should refuse reservations past the key\'s daily quota', async () => {
+      const quota = { daily: 1, monthly: null };
+
+      expect(await asClient('key_a', quota, () => reserveBudget(0.8))).toEqual({ ok: true });
+      expect(await asClient('key_a', quota, () => reserveBudget(0.3))).toEqual({ ok: false, limit: 'clientDaily' });
+      // Other keys have their own quota
+      expect(await asClient('key_b', quota, () => reserveBudget(0.3))).toEqual({ ok: true });
+    });
+
+    it('should refuse reservations past the key\'s monthly quota', async () => {
+      const month = today().slice(0, 7);
+      await redis.hincrbyfloat(`cost:${month}:client:total`, 'key_a', 9.5);
+
+      const result = await asClient('key_a', { daily: null, monthly: 10 }, () => reserveBudget(1));
+
+      expect(result).toEqual({ ok: false, limit: 'clientMonthly' });
+    });
+
+    it('should count settled and released amounts against the key', async () => {
+      await asClient('key_a', { daily: 5, monthly: 50 }, async () => {
+        await reserveBudget(1);
+        await trackCost(0.4, { provider: 'openai', operation: 'complete', model: 'gpt-5' }, 1);
+        await reserveBudget(2);
+        await releaseBudget(2);
+        await trackCost(0.1, { provider: 'exa', operation: 'searchNews' });
+      });
+
+      const spend = await getClientSpend('key_a');
+
+      expect(spend.daily).toBeCloseTo(0.5);
+      expect(spend.monthly).toBeCloseTo(0.5);
+    });
+
+    it('should not meter internal work against any client', async () => {
+      await reserveBudget(1);
+
+      expect(await getClientSpend('internal')).toEqual({ daily: 0, monthly: 0 });
+    });
+  });
+
+  describe('batch budgets', () => {
+    it('should refuse reservations past the batch limit', async () => {
+      const budget = { limit: 1, spent: 0 };
+      const inBatch = <T>(fn: () => T) =>
+        runWithRequestContext({ endpoint: 'JOB batch', client: 'key_a', budget }, fn);
+
+      expect(await inBatch(() => reserveBudget(0.7))).toEqual({ ok: true });
+      expect(await inBatch(() => reserveBudget(0.5))).toEqual({ ok: false, limit: 'batch' });
+      // Outside the batch only the daily cap applies
+      expect(await reserveBudget(0.5)).toEqual({ ok: true });
+    });
+
+    it('should count settled, released and unreserved charges toward the batch', async () => {
+      const budget = { limit: 5, spent: 0 };
+      await runWithRequestContext({ endpoint: 'JOB batch', client: 'internal', budget }, async () => {
+        await reserveBudget(1);
+        await trackCost(0.4, { provider: 'openai', operation: 'complete', model: 'gpt-5' }, 1);
+        await reserveBudget(2);
+        await releaseBudget(2);
+        await trackCost(0.1, { provider: 'exa', operation: 'academic' });
+      });
+
+      expect(budget.spent).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('without Redis', () => {
+    beforeEach(() => {
+      mockGetClient.mockResolvedValue(null);
+    });
+
+    it('should fall back to an in-process ledger', async () => {
+      expect(await reserveBudget(0.5)).toEqual({ ok: true });
+      await trackCost(0.1, { provider: 'openai', operation: 'complete', model: 'gpt-5' }, 0.5);
+      await trackCost(0.2, { provider: 'exa', operation: 'searchNews' });
+
+      const status = await getCostStatus();
+
+      expect(status.storage).toBe('memory');
+      expect(status.totalCost).toBeCloseTo(0.3);
+      expect(status.breakdown.provider.exa).toEqual({ cost: 0.2, calls: 1 });
+      expect((await getCostCharges()).map((c) => c.provider)).toEqual(['exa', 'openai']);
+      expect((await getCostHistory(2))[1].totalCost).toBe(0);
+    });
+
+    it('should enforce key quotas in process', async () => {
+      const quota = { daily: 1, monthly: null };
+
+      expect(await asClient('key_a', quota, () => reserveBudget(0.6))).toEqual({ ok: true });
+      expect(await asClient('key_a', quota, () => reserveBudget(0.6))).toEqual({ ok: false, limit: 'clientDaily' });
+      expect((await getClientSpend('key_a')).daily).toBeCloseTo(0.6);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for Evidence Cache
+ */
+
+import { EvidenceCache, normalizeClaimText } from '../evidenceCache';
+import cache from '../cache';
+import { DirectedEvidence } from '../../types/consensus';
+
+jest.mock('../cache', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), set: jest.fn() },
+}));
+
+const mockCacheGet = cache.get as jest.MockedFunction<typeof cache.get>;
+const mockCacheSet = cache.set as jest.MockedFunction<typeof cache.set>;
+
+function evidence(title: string): DirectedEvidence[] {
+  return [
+    {
+      citation: { title, authors: [], publication: 'Journal', year: 2024, url: `https://example.com/${title}`, finding: '' },
+      tier: 2,
+      category: 'peer_reviewed',
+      direction: 'supports',
+      keyFinding: '',
+    },
+  ];
+}
+
+describe('Evidence Cache', () => {
+  beforeEach(() => {
+    mockCacheGet.mockResolvedValue(null);
+    mockCacheSet.mockResolvedValue(undefined);
+  });
+
+  describe('normalizeClaimText', () => {
+    it('should ignore case, punctuation and spacing', () => {
+      expect(normalizeClaimText('  Vaccines are SAFE. ')).toBe(normalizeClaimText('vaccines  are safe'));
+      expect(normalizeClaimText('"Crime fell," police said')).toBe('crime fell police said');
+    });
+
+    it('should keep numbers intact', () => {
+      expect(normalizeClaimText('Inflation hit 3.5% in 2024.')).toBe('inflation hit 3.5% in 2024');
+    });
+  });
+
+  describe('getOrGather', () => {
+    it('should search once for the same claim, even at the same time', async () => {
+      const evidenceCache = new EvidenceCache();
+      const gather = jest.fn(async () => evidence('study'));
+
+      const [a, b] = await Promise.all([
+        evidenceCache.getOrGather('Vaccines are safe.', '10:true', gather),
+        evidenceCache.getOrGather('vaccines are safe', '10:true', gather),
+      ]);
+
+      expect(gather).toHaveBeenCalledTimes(1);
+      expect(a).toEqual(b);
+      expect(a).not.toBe(b);
+      expect(evidenceCache.misses).toBe(1);
+      expect(evidenceCache.hits).toBe(1);
+      expect(mockCacheSet).toHaveBeenCalledWith(expect.stringMatching(/^evidence:/), evidence('study'), 3600);
+    });
+
+    it('should search again when the settings differ', async () => {
+      const evidenceCache = new EvidenceCache();
+      const gather = jest.fn(async () => evidence('study'));
+
+      await evidenceCache.getOrGather('Claim', '10:true', gather);
+      await evidenceCache.getOrGather('Claim', '20:true', gather);
+
+      expect(gather).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reuse evidence kept in Redis', async () => {
+      mockCacheGet.mockResolvedValue(evidence('cached'));
+      const evidenceCache = new EvidenceCache();
+      const gather = jest.fn(async () => evidence('fresh'));
+
+      const result = await evidenceCache.getOrGather('Claim', '10:true', gather);
+
+      expect(gather).not.toHaveBeenCalled();
+      expect(result[0].citation.title).toBe('cached');
+      expect(evidenceCache.hits).toBe(1);
+    });
+
+    it('should not keep failed searches', async () => {
+      const evidenceCache = new EvidenceCache();
+      const gather = jest.fn()
+        .mockRejectedValueOnce(new Error('Search down'))
+        .mockResolvedValueOnce(evidence('retry'));
+
+      await expect(evidenceCache.getOrGather('Claim', '10:true', gather)).rejects.toThrow('Search down');
+      const result = await evidenceCache.getOrGather('Claim', '10:true', gather);
+
+      expect(result[0].citation.title).toBe('retry');
+      expect(mockCacheSet).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Tests for Expert Panel Service
+ *
+ * Reference: EXPERT_EVALUATION_SPEC_V2.md Part 3.2-3.3
+ */
+
+import {
+  identifyExpertTeam,
+  buildFallbackExpertTeam,
+  buildExpertQueries,
+  runExpertAgent,
+  runExpertPanel,
+  getVerdictsForClaim,
+  getEvidenceForClaim,
+} from '../expertPanel';
+import { Article, ClassifiedClaim } from '../../types/claims';
+import { ExpertType } from '../../types/expertPanel';
+import { openaiService } from '../openai';
+import { searchAcademic } from '../searchProvider';
+
+jest.mock('../openai', () => ({
+  openaiService: {
+    identifyExpertTypes: jest.fn(),
+    analyzeAsExpert: jest.fn(),
+  },
+}));
+
+jest.mock('../searchProvider', () => ({
+  searchAcademic: jest.fn(),
+}));
+
+const mockIdentify = openaiService.identifyExpertTypes as jest.MockedFunction<
+  typeof openaiService.identifyExpertTypes
+>;
+const mockAnalyze = openaiService.analyzeAsExpert as jest.MockedFunction<
+  typeof openaiService.analyzeAsExpert
+>;
+const mockSearch = searchAcademic as jest.MockedFunction<typeof searchAcademic>;
+
+// ═══════════════════════════════════════════════════════════════
+// TEST HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+const article: Article = {
+  title: 'Governor halts executions',
+  source: 'Test News',
+  content: 'The death penalty does not deter crime, the governor said.',
+};
+
+function createClaim(overrides: Partial<ClassifiedClaim> = {}): ClassifiedClaim {
+  return {
+    id: 'claim_1',
+    text: 'The death penalty does not deter crime',
+    type: 'causal',
+    isVerifiable: true,
+    verifiabilityReason: 'Causal claims can be evaluated with research',
+    source: {
+      name: 'Gavin Newsom',
+      role: 'article_subject',
+      isExcludedFromExpertPool: true,
+    },
+    domain: 'criminology',
+    ...overrides,
+  };
+}
+
+function createExpert(overrides: Partial<ExpertType> = {}): ExpertType {
+  return {
+    type: 'criminologist specializing in deterrence research',
+    searchFocus: 'death penalty deterrence effect',
+    keyDatabases: ['Google Scholar'],
+    lookFor: 'meta-analyses, systematic reviews',
+    whyNeeded: 'To evaluate the deterrence claim',
+    ...overrides,
+  };
+}
+
+function createAgentResponse(
+  overrides: Partial<Awaited<ReturnType<typeof openaiService.analyzeAsExpert>>> = {}
+) {
+  return {
+    sources: [
+      {
+        index: 0,
+        keyFinding: 'Existing studies cannot determine the effect on homicide',
+        claimStances: [{ claimId: 'claim_1', direction: 'neutral' as const }],
+      },
+    ],
+    claimAssessments: [
+      {
+        claimId: 'claim_1',
+        verdict: 'inconclusive' as const,
+        confidence: 'high' as const,
+        reasoning: 'The research cannot settle the question',
+        keyEvidence: ['NRC 2012'],
+      },
+    ],
+    overallAssessment: 'Evidence is inconclusive',
+    methodologicalConcerns: [],
+    limitations: [],
+    model: 'gpt-5-mini',
+    ...overrides,
+  };
+}
+
+const searchResults = {
+  results: [
+    {
+      title: 'Deterrence and the Death Penalty',
+      url: 'https://nap.nationalacademies.org/catalog/13363',
+      snippet: 'Research to date is not informative about deterrence',
+      publishedDate: '2012-04-18',
+    },
+    {
+      title: 'Uses and Abuses of Empirical Evidence',
+      url: 'https://www.nber.org/papers/w11982',
+      snippet: 'Estimates of deterrence are fragile',
+      publishedDate: '2006-01-01',
+    },
+  ],
+};
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+describe('ExpertPanel Service', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockSearch.mockResolvedValue(searchResults);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('identifyExpertTeam', () => {
+    it('should use the LLM-identified expert types', async () => {
+      mockIdentify.mockResolvedValueOnce({
+        experts: [
+          createExpert(),
+          createExpert({ type: 'economist studying fiscal policy', searchFocus: 'death penalty cost' }),
+          createExpert({ type: 'statistician', searchFocus: 'deterrence methodology critique' }),
+        ],
+        articleSubjectsToExclude: ['Governor Newsom'],
+        model: 'gpt-5',
+      });
+
+      const team = await identifyExpertTeam(article, [createClaim()], ['Gavin Newsom']);
+
+      expect(team.method).toBe('llm');
+      expect(team.model).toBe('gpt-5');
+      expect(team.experts).toHaveLength(3);
+      expect(team.articleSubjectsToExclude).toEqual(['Gavin Newsom', 'Governor Newsom']);
+    });
+
+    it('should cap the team at five expert types', async () => {
+      mockIdentify.mockResolvedValueOnce({
+        experts: Array.from({ length: 8 }, (_, i) => createExpert({ type: `expert ${i}` })),
+        articleSubjectsToExclude: [],
+        model: 'gpt-5',
+      });
+
+      const team = await identifyExpertTeam(article, [createClaim()], []);
+      expect(team.experts).toHaveLength(5);
+    });
+
+    it('should drop expert types without a search focus', async () => {
+      mockIdentify.mockResolvedValueOnce({
+        experts: [createExpert({ searchFocus: '' }), createExpert({ type: 'legal scholar' })],
+        articleSubjectsToExclude: [],
+        model: 'gpt-5',
+      });
+
+      const team = await identifyExpertTeam(article, [createClaim()], []);
+      expect(team.experts.map((e) => e.type)).toEqual(['legal scholar']);
+    });
+
+    it('should fall back to domain configs when the LLM fails', async () => {
+      mockIdentify.mockRejectedValueOnce(new Error('OpenAI unavailable'));
+
+      const team = await identifyExpertTeam(article, [createClaim()], ['Gavin Newsom']);
+
+      expect(team.method).toBe('domain_config');
+      expect(team.experts.length).toBeGreaterThan(0);
+      expect(team.articleSubjectsToExclude).toEqual(['Gavin Newsom']);
+    });
+  });
+
+  describe('buildFallbackExpertTeam', () => {
+    it('should create one expert type per distinct domain', () => {
+      const team = buildFallbackExpertTeam(
+        [
+          createClaim(),
+          createClaim({ id: 'claim_2', domain: 'criminology' }),
+          createClaim({ id: 'claim_3', domain: 'economics' }),
+        ],
+        []
+      );
+
+      expect(team.experts).toHaveLength(2);
+      expect(team.experts.every((e) => e.searchFocus.length > 0)).toBe(true);
+    });
+  });
+
+  describe('buildExpertQueries', () => {
+    it('should search the focus and the first prioritized evidence type', () => {
+      expect(buildExpertQueries(createExpert())).toEqual([
+        'death penalty deterrence effect',
+        'death penalty deterrence effect meta-analyses',
+      ]);
+    });
+
+    it('should search the focus alone when nothing is prioritized', () => {
+      expect(buildExpertQueries(createExpert({ lookFor: '' }))).toEqual([
+        'death penalty deterrence effect',
+      ]);
+    });
+  });
+
+  describe('runExpertAgent', () => {
+    it('should build sources from the search results the agent selected', async () => {
+      mockAnalyze.mockResolvedValueOnce(createAgentResponse());
+
+      const findings = await runExpertAgent(createExpert(), [createClaim()], ['Gavin Newsom']);
+
+      expect(findings.sources).toHaveLength(1);
+      expect(findings.sources[0].url).toBe('https://nap.nationalacademies.org/catalog/13363');
+      expect(findings.sources[0].year).toBe(2012);
+      expect(findings.verdicts).toEqual([
+        expect.objectContaining({
+          expertType: 'criminologist specializing in deterrence research',
+          claimId: 'claim_1',
+          verdict: 'inconclusive',
+        }),
+      ]);
+    });
+
+    it('should ignore sources that do not match a search result', async () => {
+      mockAnalyze.mockResolvedValueOnce(
+        createAgentResponse({
+          sources: [
+            { index: 42, keyFinding: 'Invented study', claimStances: [{ claimId: 'claim_1', direction: 'supports' }] },
+          ],
+        })
+      );
+
+      const findings = await runExpertAgent(createExpert(), [createClaim()], []);
+      expect(findings.sources).toEqual([]);
+    });
+
+    it('should ignore verdicts for unknown claims or with invalid values', async () => {
+      mockAnalyze.mockResolvedValueOnce(
+        createAgentResponse({
+          claimAssessments: [
+            { claimId: 'claim_99', verdict: 'supported', confidence: 'high', reasoning: '', keyEvidence: [] },
+            { claimId: 'claim_1', verdict: 'probably' as any, confidence: 'high', reasoning: '', keyEvidence: [] },
+          ],
+        })
+      );
+
+      const findings = await runExpertAgent(createExpert(), [createClaim()], []);
+      expect(findings.verdicts).toEqual([]);
+    });
+
+    it('should not send results about article subjects to the agent', async () => {
+      mockSearch.mockResolvedValue({
+        results: [
+          ...searchResults.results,
+          { title: 'Gavin Newsom explains his moratorium', url: 'https://news.example.com/op-ed', snippet: 'Op-ed' },
+        ],
+      });
+      mockAnalyze.mockResolvedValueOnce(createAgentResponse());
+
+      await runExpertAgent(createExpert(), [createClaim()], ['Gavin Newsom']);
+
+      const sentResults = mockAnalyze.mock.calls[0][3];
+      expect(sentResults.map((r) => r.url)).not.toContain('https://news.example.com/op-ed');
+    });
+
+    it('should dedupe results returned by several queries', async () => {
+      mockAnalyze.mockResolvedValueOnce(createAgentResponse());
+
+      await runExpertAgent(createExpert(), [createClaim()], []);
+
+      expect(mockSearch).toHaveBeenCalledTimes(2);
+      expect(mockAnalyze.mock.calls[0][3]).toHaveLength(2);
+    });
+  });
+
+  describe('runExpertPanel', () => {
+    it('should keep findings from agents that succeed when others fail', async () => {
+      mockIdentify.mockResolvedValueOnce({
+        experts: [createExpert(), createExpert({ type: 'statistician' })],
+        articleSubjectsToExclude: [],
+        model: 'gpt-5',
+      });
+      mockAnalyze
+        .mockResolvedValueOnce(createAgentResponse())
+        .mockRejectedValueOnce(new Error('Timeout'));
+
+      const panel = await runExpertPanel(article, [createClaim()], []);
+
+      expect(panel.team.experts).toHaveLength(2);
+      expect(panel.findings).toHaveLength(1);
+    });
+  });
+
+  describe('per-claim views', () => {
+    it('should collect verdicts and deduped evidence for a claim', async () => {
+      mockIdentify.mockResolvedValueOnce({
+        experts: [createExpert(), createExpert({ type: 'statistician' })],
+        articleSubjectsToExclude: [],
+        model: 'gpt-5',
+      });
+      mockAnalyze
+        .mockResolvedValueOnce(createAgentResponse())
+        .mockResolvedValueOnce(
+          createAgentResponse({
+            sources: [
+              { index: 0, keyFinding: 'Same study', claimStances: [{ claimId: 'claim_1', direction: 'opposes' }] },
+              { index: 1, keyFinding: 'Fragile estimates', claimStances: [{ claimId: 'claim_1', direction: 'mixed' }] },
+            ],
+          })
+        );
+
+      const panel = await runExpertPanel(article, [createClaim()], []);
+
+      expect(getVerdictsForClaim(panel, 'claim_1')).toHaveLength(2);
+      expect(getVerdictsForClaim(panel, 'claim_2')).toEqual([]);
+
+      const evidence = getEvidenceForClaim(panel, 'claim_1');
+      expect(evidence).toHaveLength(2);
+      // First expert to cite a source wins
+      expect(evidence[0].direction).toBe('neutral');
+      expect(evidence[0].directionMethod).toBe('llm');
+      expect(evidence[0].directionRationale).toContain('criminologist');
+      expect(evidence[1].direction).toBe('mixed');
+    });
+  });
+});
@@ -704,6 +704,70 @@ describe('Expert Validator Service', () => {
         expect(result.validCount).toBe(1);
         expect(result.excludedPersons[0].reason).toBe('article_subject');
       });
+
+      it('should rank experts on looked-up citation metrics', () => {
+        const persons: PersonMention[] = [
+          {
+            name: 'Daniel Nagin',
+            title: 'Professor of Public Policy',
+            credentials: 'PhD in Economics',
+            affiliation: 'Carnegie Mellon University',
+          },
+        ];
+        const metrics = new Map([
+          ['Daniel Nagin', { hIndex: 85, totalCitations: 40000, relevantPublicationCount: 120 }],
+        ]);
+
+        const result = validateExperts(persons, [], 'criminology', metrics);
+
+        expect(result.validExperts[0].qualityTier).toBe('top');
+        expect(result.validExperts[0].validation.qualityIndicators.hIndex).toBe(85);
+      });
+    });
+
+    describe('validateExpert with quality indicators', () => {
+      const person: PersonMention = {
+        name: 'Jane Roe',
+        title: 'Senior Analyst',
+        credentials: 'PhD in Economics',
+        affiliation: 'Federal Reserve Bank',
+      };
+
+      it('should use looked-up publications instead of the title heuristic', () => {
+        const result = validateExpert({
+          person,
+          articleSubjects: [],
+          claimDomain: 'economics',
+          qualityIndicators: { relevantPublicationCount: 14, hIndex: 12 },
+        });
+
+        expect(result.hasRelevantPublications).toBe(true);
+        expect(result.publicationsFound).toBe(14);
+        expect(result.isValidExpert).toBe(true);
+      });
+
+      it('should not credit publications when the lookup found none in the domain', () => {
+        const result = validateExpert({
+          person,
+          articleSubjects: [],
+          claimDomain: 'economics',
+          qualityIndicators: { relevantPublicationCount: 0 },
+        });
+
+        expect(result.hasRelevantPublications).toBe(false);
+      });
+
+      it('should use a confirmed research institution over the name patterns', () => {
+        const result = validateExpert({
+          person,
+          articleSubjects: [],
+          claimDomain: 'economics',
+          qualityIndicators: { isResearchInstitution: true },
+        });
+
+        // "Federal Reserve Bank" matches no research-institution pattern
+        expect(result.isAtResearchInstitution).toBe(true);
+      });
     });
   });
 
@@ -0,0 +1,354 @@
+/**
+ * Tests for Job Queue Service
+ *
+ * Most tests run without Redis (jobs kept in memory); recovery uses a
+ * small in-memory Redis fake.
+ */
+
+import {
+  cancelJob,
+  enqueueJob,
+  getJob,
+  recoverStaleJobs,
+  registerJobHandler,
+  startJobWorker,
+  stopJobWorker,
+  toJobView,
+} from '../jobQueue';
+import { getClient } from '../cache';
+import { getRequestContext, runWithRequestContext } from '../requestContext';
+import { deliverWebhook } from '../webhook';
+import { config } from '../../config';
+import { Job } from '../../types/job';
+
+jest.mock('../cache', () => ({
+  getClient: jest.fn(),
+}));
+
+jest.mock('../webhook', () => ({
+  deliverWebhook: jest.fn(),
+}));
+
+const mockGetClient = getClient as jest.MockedFunction<typeof getClient>;
+const mockDeliverWebhook = deliverWebhook as jest.MockedFunction<typeof deliverWebhook>;
+
+// ═══════════════════════════════════════════════════════════════
+// FAKE REDIS
+// ═══════════════════════════════════════════════════════════════
+
+class FakeRedis {
+  strings = new Map<string, string>();
+  lists = new Map<string, string[]>();
+
+  async get(key: string) {
+    return this.strings.get(key) ?? null;
+  }
+
+  async set(key: string, value: string) {
+    this.strings.set(key, value);
+    return 'OK';
+  }
+
+  async exists(key: string) {
+    return this.strings.has(key) ? 1 : 0;
+  }
+
+  async lpush(key: string, value: string) {
+    const list = this.lists.get(key) || [];
+    list.unshift(value);
+    this.lists.set(key, list);
+    return list.length;
+  }
+
+  async rpoplpush(source: string, destination: string) {
+    const value = this.lists.get(source)?.pop();
+    if (value === undefined) return null;
+    await this.lpush(destination, value);
+    return value;
+  }
+
+  async lrem(key: string, _count: number, value: string) {
+    const list = this.lists.get(key) || [];
+    const kept = list.filter((v) => v !== value);
+    this.lists.set(key, kept);
+    return list.length - kept.length;
+  }
+
+  async lrange(key: string) {
+    return [...(this.lists.get(key) || [])];
+  }
+
+  multi() {
+    const ops: (() => Promise<unknown>)[] = [];
+    const chain: any = new Proxy({}, {
+      get: (_target, name: string) => {
+        if (name === 'exec') {
+          return async () => {
+            const results: [null, unknown][] = [];
+            for (const op of ops) results.push([null, await op()]);
+            return results;
+          };
+        }
+        return (...args: unknown[]) => {
+          ops.push(() => (this as any)[name](...args));
+          return chain;
+        };
+      },
+    });
+    return chain;
+  }
+}
+
+/**
+ * Poll until a job reaches a status
+ */
+async function waitForStatus(id: string, status: Job['status']): Promise<Job> {
+  for (let i = 0; i < 200; i++) {
+    const job = await getJob(id);
+    if (job?.status === status) return job;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} never reached ${status}`);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+describe('Job Queue Service', () => {
+  const originalPollInterval = config.jobs.pollIntervalMs;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockGetClient.mockResolvedValue(null);
+    mockDeliverWebhook.mockResolvedValue({ delivered: true, attempts: 1, responseStatus: 200 });
+    config.jobs.pollIntervalMs = 5;
+  });
+
+  afterEach(() => {
+    stopJobWorker();
+    config.jobs.pollIntervalMs = originalPollInterval;
+    jest.restoreAllMocks();
+  });
+
+  describe('running jobs', () => {
+    it('should run a queued job and store its result', async () => {
+      registerJobHandler<{ n: number }, { doubled: number }>('evaluate', async (job, context) => {
+        context.updateProgress({ stage: 'gatheringEvidence', claimsTotal: 2 });
+        return { doubled: job.input.n * 2 };
+      });
+
+      const job = await enqueueJob('evaluate', { n: 21 });
+      expect(job.status).toBe('queued');
+
+      startJobWorker();
+      const done = await waitForStatus(job.id, 'completed');
+
+      expect(done.result).toEqual({ doubled: 42 });
+      expect(done.attempts).toBe(1);
+      expect(done.progress.stage).toBe('done');
+      expect(done.progress.claimsTotal).toBe(2);
+      expect(done.completedAt).toBeDefined();
+    });
+
+    it('should record a failed job', async () => {
+      registerJobHandler('evaluate', async () => {
+        throw new Error('Pipeline exploded');
+      });
+
+      const job = await enqueueJob('evaluate', {});
+      startJobWorker();
+      const failed = await waitForStatus(job.id, 'failed');
+
+      expect(failed.error).toBe('Pipeline exploded');
+      expect(failed.result).toBeUndefined();
+    });
+
+    it('should run the handler as the client that queued the job', async () => {
+      let seen: unknown;
+      registerJobHandler('evaluate', async () => {
+        seen = getRequestContext();
+        return null;
+      });
+
+      const quota = { daily: 1, monthly: 10 };
+      const job = await runWithRequestContext({ endpoint: 'POST /jobs/evaluate', client: 'key_abc', quota }, () =>
+        enqueueJob('evaluate', {})
+      );
+      expect(job.client).toBe('key_abc');
+
+      startJobWorker();
+      await waitForStatus(job.id, 'completed');
+
+      expect(seen).toMatchObject({ client: 'key_abc', quota });
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should cancel a job that has not started', async () => {
+      const handler = jest.fn(async () => null);
+      registerJobHandler('evaluate', handler);
+
+      const job = await enqueueJob('evaluate', {});
+      const cancelled = await cancelJob(job.id);
+
+      expect(cancelled?.status).toBe('cancelled');
+      startJobWorker();
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(handler).not.toHaveBeenCalled();
+      expect((await getJob(job.id))?.status).toBe('cancelled');
+    });
+
+    it('should abort a running job', async () => {
+      let started!: () => void;
+      const running = new Promise<void>((resolve) => (started = resolve));
+
+      registerJobHandler('evaluate', (_job, context) => {
+        started();
+        return new Promise((_resolve, reject) => {
+          context.signal.addEventListener('abort', () => reject(new Error('Pipeline cancelled')));
+        });
+      });
+
+      const job = await enqueueJob('evaluate', {});
+      startJobWorker();
+      await running;
+
+      const requested = await cancelJob(job.id);
+      expect(requested?.cancelRequestedAt).toBeDefined();
+
+      const cancelled = await waitForStatus(job.id, 'cancelled');
+      expect(cancelled.error).toBeUndefined();
+      expect(cancelled.cancelRequestedAt).toBeDefined();
+    });
+
+    it('should leave finished jobs unchanged', async () => {
+      registerJobHandler('evaluate', async () => 'ok');
+
+      const job = await enqueueJob('evaluate', {});
+      startJobWorker();
+      await waitForStatus(job.id, 'completed');
+
+      expect((await cancelJob(job.id))?.status).toBe('completed');
+      expect(await cancelJob('job_missing')).toBeNull();
+    });
+  });
+
+  describe('webhooks', () => {
+    it('should deliver the finished job to its webhook', async () => {
+      registerJobHandler('evaluate', async () => ({ score: 80 }));
+
+      const job = await enqueueJob('evaluate', { secret: 'article text' }, { webhookUrl: 'https://example.com/hook' });
+      startJobWorker();
+      await waitForStatus(job.id, 'completed');
+
+      // The delivery is recorded after the job is saved as completed
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const done = await getJob(job.id);
+
+      expect(mockDeliverWebhook).toHaveBeenCalledWith(
+        'https://example.com/hook',
+        'job.completed',
+        { job: expect.objectContaining({ id: job.id, status: 'completed', result: { score: 80 } }) }
+      );
+      const payload = mockDeliverWebhook.mock.calls[0][2] as { job: Record<string, unknown> };
+      expect(payload.job.input).toBeUndefined();
+      expect(payload.job.client).toBeUndefined();
+      expect(done?.webhook).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+    });
+
+    it('should record a failed delivery', async () => {
+      mockDeliverWebhook.mockResolvedValue({ delivered: false, attempts: 3, responseStatus: 500, error: 'Receiver answered 500' });
+      registerJobHandler('evaluate', async () => null);
+
+      const job = await enqueueJob('evaluate', {}, { webhookUrl: 'https://example.com/hook' });
+      startJobWorker();
+      await waitForStatus(job.id, 'completed');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect((await getJob(job.id))?.webhook).toMatchObject({
+        status: 'failed',
+        attempts: 3,
+        lastError: 'Receiver answered 500',
+      });
+    });
+  });
+
+  describe('toJobView', () => {
+    it('should hide the input, quota and client', async () => {
+      const job = await enqueueJob('evaluate', { article: 'text' });
+      const view = toJobView(job);
+
+      expect(view).not.toHaveProperty('input');
+      expect(view).not.toHaveProperty('quota');
+      expect(view).not.toHaveProperty('client');
+      expect(view.id).toBe(job.id);
+      await cancelJob(job.id);
+    });
+  });
+
+  describe('recoverStaleJobs (Redis)', () => {
+    let redis: FakeRedis;
+
+    beforeEach(() => {
+      redis = new FakeRedis();
+      mockGetClient.mockResolvedValue(redis as any);
+    });
+
+    it('should re-queue a running job whose worker stopped', async () => {
+      const job = await enqueueJob('evaluate', {});
+      const stale: Job = {
+        ...job,
+        status: 'running',
+        attempts: 1,
+        heartbeatAt: new Date(Date.now() - 5 * 60_000).toISOString(),
+      };
+      await redis.set(`job:${job.id}`, JSON.stringify(stale));
+      await redis.rpoplpush('jobs:pending', 'jobs:processing');
+
+      expect(await recoverStaleJobs()).toEqual([job.id]);
+      expect(await redis.lrange('jobs:pending')).toEqual([job.id]);
+      expect(await redis.lrange('jobs:processing')).toEqual([]);
+      expect((await getJob(job.id))?.status).toBe('queued');
+    });
+
+    it('should leave jobs with a recent heartbeat alone', async () => {
+      const job = await enqueueJob('evaluate', {});
+      await redis.set(`job:${job.id}`, JSON.stringify({ ...job, status: 'running', heartbeatAt: new Date().toISOString() }));
+      await redis.rpoplpush('jobs:pending', 'jobs:processing');
+
+      expect(await recoverStaleJobs()).toEqual([]);
+      expect(await redis.lrange('jobs:processing')).toEqual([job.id]);
+    });
+
+    it('should finish a recovered job on the next worker', async () => {
+      registerJobHandler('evaluate', async (current) => current.attempts);
+
+      const job = await enqueueJob('evaluate', {});
+      await redis.set(
+        `job:${job.id}`,
+        JSON.stringify({ ...job, status: 'running', attempts: 1, heartbeatAt: new Date(0).toISOString() })
+      );
+      await redis.rpoplpush('jobs:pending', 'jobs:processing');
+
+      startJobWorker();
+      const done = await waitForStatus(job.id, 'completed');
+
+      expect(done.result).toBe(2);
+      expect(await redis.lrange('jobs:processing')).toEqual([]);
+    });
+
+    it('should fail a job interrupted too many times', async () => {
+      registerJobHandler('evaluate', async () => 'never');
+
+      const job = await enqueueJob('evaluate', {});
+      await redis.set(`job:${job.id}`, JSON.stringify({ ...job, attempts: config.jobs.maxAttempts }));
+
+      startJobWorker();
+      const failed = await waitForStatus(job.id, 'failed');
+
+      expect(failed.error).toBe('Job was interrupted too many times');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for LLM Provider Service
+ *
+ * The openai SDK is mocked; no network calls
+ */
+
+import OpenAI from 'openai';
+import {
+  OpenAIResponsesProvider,
+  OpenAICompatibleProvider,
+  createLLMProvider,
+  estimateCost,
+} from '../llmProvider';
+import { OpenAIService } from '../openai';
+import { trackCost } from '../costTracker';
+import { LLMProvider } from '../../types/llm';
+
+const mockChatCreate = jest.fn();
+const mockResponsesCreate = jest.fn();
+
+jest.mock('openai', () =>
+  jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: (...args: unknown[]) => mockChatCreate(...args) } },
+    responses: { create: (...args: unknown[]) => mockResponsesCreate(...args) },
+  }))
+);
+
+jest.mock('../costTracker', () => ({
+  trackCost: jest.fn(),
+  isOverBudget: jest.fn(() => false),
+  isNearBudget: jest.fn(() => false),
+  reserveBudget: jest.fn(async () => ({ ok: true })),
+  releaseBudget: jest.fn(async () => {}),
+  budgetExceededMessage: jest.fn(() => 'Daily cost budget exceeded. Please try again tomorrow.'),
+}));
+
+const baseConfig = {
+  provider: 'openai',
+  baseUrl: '',
+  apiKey: 'sk-test',
+  model: 'gpt-5-mini',
+  jsonMode: true,
+  streaming: false,
+  priceInput: undefined as number | undefined,
+  priceOutput: undefined as number | undefined,
+  routes: {},
+  budgetDowngradeAt: 0.8,
+  embeddingModel: '',
+  embeddingPrice: undefined as number | undefined,
+};
+
+describe('LLMProvider Service', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createLLMProvider', () => {
+    it('should build the OpenAI provider with table pricing', () => {
+      const provider = createLLMProvider(baseConfig);
+
+      expect(provider.name).toBe('openai');
+      expect(provider.pricing).toEqual({ input: 0.30, output: 1.20 });
+      expect(provider.capabilities.streaming).toBe(true);
+    });
+
+    it('should build an OpenAI-compatible provider at the configured base URL', () => {
+      const provider = createLLMProvider({
+        ...baseConfig,
+        provider: 'openai-compatible',
+        baseUrl: 'http://localhost:8000/v1',
+        model: 'llama-3.1-8b-instruct',
+      });
+
+      expect(provider.name).toBe('openai-compatible');
+      expect(provider.baseUrl).toBe('http://localhost:8000/v1');
+      expect(provider.pricing).toEqual({ input: 0, output: 0 });
+      expect(OpenAI).toHaveBeenCalledWith({ apiKey: 'sk-test', baseURL: 'http://localhost:8000/v1' });
+    });
+
+    it('should apply configured pricing overrides', () => {
+      const provider = createLLMProvider({
+        ...baseConfig,
+        provider: 'openai-compatible',
+        baseUrl: 'https://api.vendor.test/v1',
+        priceInput: 0.6,
+      });
+
+      expect(provider.pricing).toEqual({ input: 0.6, output: 0 });
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => createLLMProvider({ ...baseConfig, provider: 'carrier-pigeon' })).toThrow('Unknown LLM_PROVIDER');
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should map chat completion responses and usage', async () => {
+      mockChatCreate.mockResolvedValueOnce({
+        model: 'llama-3.1-8b-instruct',
+        choices: [{ message: { content: '{"ok":true}' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 30 },
+      });
+      const provider = new OpenAICompatibleProvider({ model: 'llama', baseUrl: 'http://localhost:8000/v1' });
+
+      const response = await provider.generate({ messages: [{ role: 'user', content: 'Hi' }], json: true });
+
+      expect(response).toEqual({ content: '{"ok":true}', inputTokens: 120, outputTokens: 30, model: 'llama-3.1-8b-instruct' });
+      expect(mockChatCreate.mock.calls[0][0].response_format).toEqual({ type: 'json_object' });
+    });
+
+    it('should ask for JSON in the prompt when the server has no JSON mode', async () => {
+      mockChatCreate.mockResolvedValueOnce({ choices: [{ message: { content: '{}' } }] });
+      const provider = new OpenAICompatibleProvider({
+        model: 'llama',
+        baseUrl: 'http://localhost:8080/v1',
+        capabilities: { jsonMode: false },
+      });
+
+      await provider.generate({
+        messages: [{ role: 'system', content: 'You are a news analyst.' }, { role: 'user', content: 'Hi' }],
+        json: true,
+      });
+
+      const request = mockChatCreate.mock.calls[0][0];
+      expect(request.response_format).toBeUndefined();
+      expect(request.messages[0].content).toContain('valid JSON object');
+    });
+
+    it('should refuse to run without a base URL', async () => {
+      const provider = new OpenAICompatibleProvider({ model: 'llama' });
+
+      expect(provider.isConfigured()).toBe(false);
+      await expect(provider.generate({ messages: [] })).rejects.toThrow('LLM_BASE_URL');
+    });
+  });
+
+  describe('OpenAIResponsesProvider', () => {
+    it('should only request JSON format when asked', async () => {
+      mockResponsesCreate.mockResolvedValue({ output_text: 'text', usage: { input_tokens: 1, output_tokens: 2 } });
+      const provider = new OpenAIResponsesProvider({ model: 'gpt-5', apiKey: 'sk-test' });
+
+      await provider.generate({ messages: [{ role: 'user', content: 'Hi' }] });
+      await provider.generate({ messages: [{ role: 'user', content: 'Hi' }], json: true });
+
+      expect(mockResponsesCreate.mock.calls[0][0].text).toBeUndefined();
+      expect(mockResponsesCreate.mock.calls[1][0].text).toEqual({ format: { type: 'json_object' } });
+    });
+  });
+
+  describe('OpenAIService with an injected provider', () => {
+    function createProvider(content: string): LLMProvider {
+      return {
+        name: 'fake',
+        model: 'fake-model',
+        capabilities: { jsonMode: true, streaming: false },
+        pricing: { input: 1, output: 2 },
+        isConfigured: () => true,
+        generate: jest.fn(async () => ({ content, inputTokens: 1_000_000, outputTokens: 500_000, model: 'fake-model' })),
+      };
+    }
+
+    it('should run analysis prompts through the provider and track its pricing', async () => {
+      const provider = createProvider('{"biasScore":{"score":3,"label":"Some Bias","summary":"s"},"summaryText":"t"}');
+      const service = new OpenAIService(provider);
+
+      const result = await service.analyzeQuick('content', 'title', 'source');
+
+      expect(result.biasScore.score).toBe(3);
+      expect(provider.generate).toHaveBeenCalledWith(expect.objectContaining({ json: true }));
+      expect(trackCost).toHaveBeenCalledWith(
+        estimateCost(provider.pricing, 1_000_000, 500_000),
+        { provider: 'fake', operation: 'analyzeQuick', model: 'fake-model' },
+        expect.any(Number)
+      );
+      expect(estimateCost(provider.pricing, 1_000_000, 500_000)).toBe(2);
+    });
+
+    it('should send free-text completions without JSON mode', async () => {
+      const provider = createProvider('plain text');
+      const service = new OpenAIService(provider);
+
+      expect(await service.complete('prompt')).toBe('plain text');
+      expect(provider.generate).toHaveBeenCalledWith({ messages: [{ role: 'user', content: 'prompt' }], json: false });
+    });
+
+    it('should fail fast when the provider is not configured', async () => {
+      const service = new OpenAIService({ ...createProvider('{}'), isConfigured: () => false });
+
+      expect(service.isAvailable()).toBe(false);
+      await expect(service.complete('prompt')).rejects.toThrow('not configured');
+    });
+  });
+});
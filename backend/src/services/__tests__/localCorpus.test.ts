@@ -0,0 +1,74 @@
+/**
+ * Tests for Local Corpus Search Provider
+ */
+
+import { searchCorpus, scoreDocument, setCorpus, localCorpusProvider, CorpusDocument } from '../localCorpus';
+
+const documents: CorpusDocument[] = [
+  {
+    title: 'Minimum Wages and Employment: A Case Study',
+    url: 'https://corpus.test/card-krueger',
+    text: 'We compare employment growth at fast-food restaurants in New Jersey and Pennsylvania.',
+    type: 'research',
+    publishedDate: '1994-09-01',
+  },
+  {
+    title: 'City raises minimum wage to $15',
+    url: 'https://corpus.test/news-wage',
+    text: 'The council voted to raise the minimum wage over three years.',
+    type: 'news',
+  },
+  {
+    title: 'Economists weigh in on the wage debate',
+    url: 'https://corpus.test/commentary',
+    text: 'Labor economists disagree about employment effects of a minimum wage increase.',
+    type: 'commentary',
+  },
+  {
+    title: 'Untyped reference on employment statistics',
+    url: 'https://corpus.test/reference',
+    text: 'Employment statistics by state.',
+  },
+];
+
+describe('LocalCorpus Provider', () => {
+  beforeEach(() => {
+    setCorpus(documents);
+  });
+
+  afterEach(() => {
+    setCorpus(null);
+  });
+
+  it('should weight title matches above text matches', () => {
+    const terms = ['minimum', 'wage'];
+    expect(scoreDocument(documents[1], terms)).toBeGreaterThan(scoreDocument(documents[2], terms));
+  });
+
+  it('should only return document types suited to the operation', () => {
+    const academic = searchCorpus('academic', 'minimum wage employment', 10);
+    const commentary = searchCorpus('expertCommentary', 'minimum wage employment', 10);
+
+    expect(academic.results.map((r) => r.url)).toEqual([
+      'https://corpus.test/card-krueger',
+      'https://corpus.test/reference',
+    ]);
+    expect(commentary.results.map((r) => r.url)).not.toContain('https://corpus.test/card-krueger');
+  });
+
+  it('should return nothing when no terms match', () => {
+    expect(searchCorpus('factCheck', 'quantum chromodynamics', 10).results).toEqual([]);
+  });
+
+  it('should ignore stop words in the query', () => {
+    expect(searchCorpus('news', 'the of and', 10).results).toEqual([]);
+  });
+
+  it('should report itself configured once a corpus is loaded', async () => {
+    expect(localCorpusProvider.isConfigured()).toBe(true);
+
+    const response = await localCorpusProvider.academic!('employment', 1);
+    expect(response.results).toHaveLength(1);
+    expect(response.results[0].publishedDate).toBe('1994-09-01');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for Logger
+ *
+ * Entries are read back from the console spies they are written to.
+ */
+
+import { Request, Response } from 'express';
+import { config } from '../../config';
+import { createLogger, redact } from '../logger';
+import { getRequestContext, requestContext, runWithRequestContext } from '../requestContext';
+
+describe('Logger', () => {
+  const original = { ...config.logging };
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(Date.prototype, 'toISOString').mockReturnValue('2024-03-15T12:00:00.000Z');
+  });
+
+  afterEach(() => {
+    config.logging.level = original.level;
+    config.logging.format = original.format;
+    jest.restoreAllMocks();
+  });
+
+  function lastEntry(spy: jest.SpyInstance): Record<string, unknown> {
+    return JSON.parse(spy.mock.calls[spy.mock.calls.length - 1][0]);
+  }
+
+  describe('entries', () => {
+    it('should write one JSON object per entry with the request ID', () => {
+      const log = createLogger('Pipeline');
+
+      runWithRequestContext({ requestId: 'req-1', endpoint: 'POST /api/v1/evaluate/', client: '10.0.0.1' }, () => {
+        log.info('Extracted 3 claims', { claims: 3 });
+      });
+
+      expect(lastEntry(logSpy)).toEqual({
+        time: '2024-03-15T12:00:00.000Z',
+        level: 'info',
+        component: 'Pipeline',
+        msg: 'Extracted 3 claims',
+        requestId: 'req-1',
+        claims: 3,
+      });
+    });
+
+    it('should write warnings and errors to their streams and log errors as their message', () => {
+      const log = createLogger('Search');
+      log.warn('exa search failed', { error: new Error('timeout') });
+      log.error('All providers failed', { level: 'fatal' });
+
+      expect(lastEntry(warnSpy)).toMatchObject({ level: 'warn', error: 'timeout' });
+      expect(lastEntry(errorSpy)).toMatchObject({ level: 'error', msg: 'All providers failed' });
+      expect(lastEntry(errorSpy)).not.toHaveProperty('requestId');
+    });
+
+    it('should drop entries below LOG_LEVEL', () => {
+      config.logging.level = 'warn';
+      const log = createLogger('Cache');
+      log.debug('debug');
+      log.info('info');
+      log.warn('warn');
+
+      expect(logSpy).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write a readable line in text format', () => {
+      config.logging.format = 'text';
+      runWithRequestContext({ requestId: 'req-2', endpoint: 'GET /', client: 'ip' }, () => {
+        createLogger('Cache').warn('Error getting key', { key: 'analyze:1', attempts: 2 });
+      });
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        '[2024-03-15T12:00:00.000Z] WARN [Cache] Error getting key key=analyze:1 attempts=2 req=req-2'
+      );
+    });
+  });
+
+  describe('redaction', () => {
+    it('should replace article text and credentials in fields', () => {
+      expect(
+        redact({
+          title: 'Budget vote',
+          content: 'The full article text',
+          headers: { 'x-api-key': 'cv_secret', authorization: 'Bearer abc' },
+          apiKeyId: 'key_1a2b',
+          inputTokens: 1200,
+        })
+      ).toEqual({
+        title: 'Budget vote',
+        content: '[redacted 21 chars]',
+        headers: { 'x-api-key': '[redacted]', authorization: '[redacted]' },
+        apiKeyId: 'key_1a2b',
+        inputTokens: 1200,
+      });
+    });
+
+    it('should mask key-shaped strings in messages and cut long values', () => {
+      const log = createLogger('OpenAI');
+      log.error('Auth failed for sk-proj-abcdefghijklmnop1234', { note: 'x'.repeat(1500) });
+
+      const entry = lastEntry(errorSpy);
+      expect(entry.msg).toBe('Auth failed for [redacted]');
+      expect(entry.note).toMatch(/^x{1000}… \(1500 chars\)$/);
+      expect(redact('sent cv_AbCdEfGhIjKlMnOpQrStUv and Bearer eyJhbGciOi.x')).toBe('sent [redacted] and [redacted]');
+    });
+
+    it('should not let fields replace the entry keys', () => {
+      createLogger('Jobs').info('Job finished', { level: 'error', msg: 'spoofed' });
+      expect(lastEntry(logSpy)).toMatchObject({ level: 'info', msg: 'Job finished' });
+    });
+  });
+
+  describe('request IDs', () => {
+    function handle(header?: string): { requestId?: string; responseHeader?: string } {
+      const headers: Record<string, string> = {};
+      const req = { method: 'GET', baseUrl: '', path: '/', ip: '10.0.0.1', get: () => header } as unknown as Request;
+      const res = { setHeader: (name: string, value: string) => (headers[name] = value) } as unknown as Response;
+      let requestId: string | undefined;
+      requestContext(req, res, () => {
+        requestId = getRequestContext()?.requestId;
+      });
+      return { requestId, responseHeader: headers['X-Request-ID'] };
+    }
+
+    it('should keep a valid X-Request-ID and echo it', () => {
+      expect(handle('trace-42')).toEqual({ requestId: 'trace-42', responseHeader: 'trace-42' });
+    });
+
+    it('should make a new ID when none or an invalid one is sent', () => {
+      const missing = handle();
+      const invalid = handle('bad id\nwith newline');
+
+      expect(missing.requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(invalid.requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(invalid.responseHeader).toBe(invalid.requestId);
+      expect(missing.requestId).not.toBe(invalid.requestId);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for Metrics
+ *
+ * Cache statistics are fixed by a mock; searches run on fake providers.
+ */
+
+import { counter, histogram, renderMetrics, resetMetrics } from '../metrics';
+import { configureSearchProviders, registerSearchProvider, search } from '../searchProvider';
+import { CacheStats } from '../../types/cache';
+
+const mockCacheStats: CacheStats = {
+  redisConnected: false,
+  memory: { entries: 12, maxEntries: 500 },
+  inFlight: 0,
+  namespaces: {},
+};
+
+jest.mock('../cache', () => ({
+  getCacheStats: () => mockCacheStats,
+}));
+
+describe('Metrics', () => {
+  const requests = counter('test_requests_total', 'Test requests');
+  const latency = histogram('test_latency_seconds', 'Test latency', [0.1, 1]);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetMetrics();
+    mockCacheStats.namespaces = {};
+    configureSearchProviders(null);
+    jest.restoreAllMocks();
+  });
+
+  function linesOf(name: string): string[] {
+    return renderMetrics().split('\n').filter((line) => line.startsWith(name));
+  }
+
+  describe('exposition', () => {
+    it('should write HELP and TYPE lines and one line per label set', () => {
+      requests.inc({ route: '/health', status: '200' });
+      requests.inc({ status: '200', route: '/health' });
+      requests.inc({ route: '/metrics', status: '401' }, 3);
+
+      const output = renderMetrics();
+      expect(output).toContain('# HELP test_requests_total Test requests\n# TYPE test_requests_total counter\n');
+      expect(linesOf('test_requests_total')).toEqual([
+        'test_requests_total{route="/health",status="200"} 2',
+        'test_requests_total{route="/metrics",status="401"} 3',
+      ]);
+    });
+
+    it('should escape label values', () => {
+      requests.inc({ route: 'a "quoted"\\path\nnext' });
+      expect(linesOf('test_requests_total')).toEqual(['test_requests_total{route="a \\"quoted\\"\\\\path\\nnext"} 1']);
+    });
+
+    it('should write cumulative histogram buckets, sum and count', () => {
+      latency.observe({ stage: 'evidence' }, 0.05);
+      latency.observe({ stage: 'evidence' }, 0.5);
+      latency.observe({ stage: 'evidence' }, 4);
+
+      expect(linesOf('test_latency_seconds')).toEqual([
+        'test_latency_seconds_bucket{stage="evidence",le="0.1"} 1',
+        'test_latency_seconds_bucket{stage="evidence",le="1"} 2',
+        'test_latency_seconds_bucket{stage="evidence",le="+Inf"} 3',
+        'test_latency_seconds_sum{stage="evidence"} 4.55',
+        'test_latency_seconds_count{stage="evidence"} 3',
+      ]);
+    });
+
+    it('should drop recorded values on reset', () => {
+      requests.inc();
+      resetMetrics();
+      expect(linesOf('test_requests_total')).toEqual([]);
+    });
+  });
+
+  describe('cache', () => {
+    it('should report hits by tier and the hit ratio per namespace', () => {
+      mockCacheStats.namespaces = {
+        analyze: { memoryHits: 6, redisHits: 2, staleHits: 1, misses: 1, sharedLoads: 1, loadErrors: 0, sets: 1, invalidated: 0 },
+        idle: { memoryHits: 0, redisHits: 0, staleHits: 0, misses: 0, sharedLoads: 0, loadErrors: 0, sets: 0, invalidated: 0 },
+      };
+
+      expect(linesOf('clearview_cache_hits_total{namespace="analyze"')).toEqual([
+        'clearview_cache_hits_total{namespace="analyze",tier="memory"} 6',
+        'clearview_cache_hits_total{namespace="analyze",tier="redis"} 2',
+      ]);
+      expect(linesOf('clearview_cache_hit_ratio{')).toEqual(['clearview_cache_hit_ratio{namespace="analyze"} 0.8']);
+      expect(linesOf('clearview_cache_memory_entries ')).toEqual(['clearview_cache_memory_entries 12']);
+      expect(linesOf('clearview_cache_redis_connected ')).toEqual(['clearview_cache_redis_connected 0']);
+    });
+  });
+
+  describe('search', () => {
+    it('should count each provider\'s searches by outcome', async () => {
+      registerSearchProvider({
+        name: 'working',
+        isConfigured: () => true,
+        academic: async () => ({ results: [{ title: 'Study', url: 'https://working.test/1', snippet: '' }] }),
+      });
+      registerSearchProvider({
+        name: 'broken',
+        isConfigured: () => true,
+        academic: async () => {
+          throw new Error('timeout');
+        },
+      });
+      configureSearchProviders({ default: ['working', 'broken'] });
+
+      await search('academic', 'minimum wage employment', 5);
+      await search('academic', 'minimum wage employment', 5);
+
+      expect(linesOf('clearview_search_requests_total{')).toEqual([
+        'clearview_search_requests_total{provider="working",operation="academic",outcome="success"} 2',
+        'clearview_search_requests_total{provider="broken",operation="academic",outcome="failure"} 2',
+      ]);
+    });
+  });
+});
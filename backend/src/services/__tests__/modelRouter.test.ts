@@ -0,0 +1,202 @@
+/**
+ * Tests for Model Router Service
+ *
+ * Uses fake providers; no network calls
+ */
+
+import { getModelRoute, ModelRouter } from '../modelRouter';
+import { OpenAIService } from '../openai';
+import { isNearBudget, releaseBudget, reserveBudget, trackCost } from '../costTracker';
+import { LLMProvider } from '../../types/llm';
+
+jest.mock('../costTracker', () => ({
+  trackCost: jest.fn(),
+  isOverBudget: jest.fn(() => false),
+  isNearBudget: jest.fn(() => false),
+  reserveBudget: jest.fn(async () => ({ ok: true })),
+  releaseBudget: jest.fn(async () => {}),
+  budgetExceededMessage: jest.fn(() => 'Daily cost budget exceeded. Please try again tomorrow.'),
+}));
+
+const mockIsNearBudget = isNearBudget as jest.MockedFunction<typeof isNearBudget>;
+const mockReserveBudget = reserveBudget as jest.MockedFunction<typeof reserveBudget>;
+
+// ═══════════════════════════════════════════════════════════════
+// TEST HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+const PRICES: Record<string, number> = { 'gpt-5': 2, 'gpt-5-mini': 0.3, 'gpt-5-nano': 0.1 };
+
+const llmConfig = {
+  provider: 'openai',
+  baseUrl: '',
+  apiKey: 'sk-test',
+  model: 'gpt-5',
+  jsonMode: true,
+  streaming: false,
+  priceInput: undefined,
+  priceOutput: undefined,
+  routes: {},
+  budgetDowngradeAt: 0.8,
+  embeddingModel: '',
+  embeddingPrice: undefined,
+};
+
+/**
+ * Fake provider whose generate() can be scripted per model
+ */
+function createProvider(
+  model: string,
+  behaviour: Record<string, () => Promise<string>> = {}
+): LLMProvider {
+  return {
+    name: 'fake',
+    model,
+    capabilities: { jsonMode: true, streaming: false },
+    pricing: { input: PRICES[model] ?? 1, output: PRICES[model] ?? 1 },
+    isConfigured: () => true,
+    generate: jest.fn(async () => ({
+      content: behaviour[model] ? await behaviour[model]() : `{"from":"${model}"}`,
+      inputTokens: 100,
+      outputTokens: 50,
+      model,
+    })),
+    withModel: (other: string) => createProvider(other, behaviour),
+  };
+}
+
+function apiError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+describe('ModelRouter Service', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockIsNearBudget.mockReturnValue(false);
+    mockReserveBudget.mockResolvedValue({ ok: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getModelRoute', () => {
+    it('should send light operations to the small models on OpenAI', () => {
+      expect(getModelRoute('analyzeQuick', llmConfig)).toEqual(['gpt-5-mini', 'gpt-5-nano']);
+      expect(getModelRoute('stanceClassification', llmConfig)).toEqual(['gpt-5-mini', 'gpt-5-nano']);
+    });
+
+    it('should run heavy operations on the configured model with a cheaper fallback', () => {
+      expect(getModelRoute('extractClaims', llmConfig)).toEqual(['gpt-5', 'gpt-5-mini']);
+      expect(getModelRoute('extractClaims', { ...llmConfig, model: 'gpt-5-mini' })).toEqual(['gpt-5-mini']);
+    });
+
+    it('should prefer configured chains', () => {
+      const routes = { evidenceSynthesis: ['gpt-4o', 'gpt-4o-mini'] };
+      expect(getModelRoute('evidenceSynthesis', { ...llmConfig, routes })).toEqual(['gpt-4o', 'gpt-4o-mini']);
+    });
+
+    it('should only use the configured model on other providers', () => {
+      const compatible = { ...llmConfig, provider: 'openai-compatible', model: 'Qwen/Qwen2.5-7B-Instruct' };
+      expect(getModelRoute('analyzeQuick', compatible)).toEqual(['Qwen/Qwen2.5-7B-Instruct']);
+    });
+  });
+
+  describe('ModelRouter', () => {
+    it('should resolve each model in the chain to a provider', () => {
+      const router = new ModelRouter(createProvider('gpt-5'), () => ['gpt-5', 'gpt-5-mini']);
+      expect(router.getCandidates('analyzeDetailed').map((p) => p.model)).toEqual(['gpt-5', 'gpt-5-mini']);
+    });
+
+    it('should start on cheaper models near the budget', () => {
+      const router = new ModelRouter(createProvider('gpt-5'), () => ['gpt-5', 'gpt-5-mini', 'gpt-5-nano']);
+      expect(router.getCandidates('analyzeDetailed', true).map((p) => p.model)).toEqual(['gpt-5-mini', 'gpt-5-nano']);
+    });
+
+    it('should keep the chain near the budget when nothing is cheaper', () => {
+      const router = new ModelRouter(createProvider('gpt-5-nano'), () => ['gpt-5-nano']);
+      expect(router.getCandidates('analyzeQuick', true).map((p) => p.model)).toEqual(['gpt-5-nano']);
+    });
+
+    it('should fall back to the base provider when it cannot switch models', () => {
+      const base = { ...createProvider('local-model'), withModel: undefined };
+      const router = new ModelRouter(base, () => ['gpt-5-mini']);
+      expect(router.getCandidates('analyzeQuick')).toEqual([base]);
+    });
+  });
+
+  describe('OpenAIService routing', () => {
+    it('should record the model that produced each result', async () => {
+      const base = createProvider('gpt-5');
+      const service = new OpenAIService(base, new ModelRouter(base, () => ['gpt-5-mini']));
+
+      const result = await service.classifyEvidenceStance('Claim', [{ title: 't', text: 'x' }]);
+      expect(result.model).toBe('gpt-5-mini');
+    });
+
+    it('should move to the next model when the primary fails', async () => {
+      const base = createProvider('gpt-5', {
+        'gpt-5': () => Promise.reject(apiError(400, 'context length exceeded')),
+      });
+      const service = new OpenAIService(base, new ModelRouter(base, () => ['gpt-5', 'gpt-5-mini']));
+
+      const { content, model } = await service.completeWithModel('prompt', 'extractClaims');
+
+      expect(model).toBe('gpt-5-mini');
+      expect(content).toBe('{"from":"gpt-5-mini"}');
+      // Only the successful call is billed, at the fallback's price
+      expect(trackCost).toHaveBeenCalledTimes(1);
+      expect(trackCost).toHaveBeenCalledWith(
+        (100 / 1_000_000) * 0.3 + (50 / 1_000_000) * 0.3,
+        { provider: 'fake', operation: 'extractClaims', model: 'gpt-5-mini' },
+        expect.any(Number)
+      );
+      // The failed model's reservation is handed back
+      expect(releaseBudget).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not call the model when the budget reservation is refused', async () => {
+      mockReserveBudget.mockResolvedValue({ ok: false, limit: 'daily' });
+      const base = createProvider('gpt-5');
+      const service = new OpenAIService(base, new ModelRouter(base, () => ['gpt-5']));
+
+      await expect(service.complete('prompt')).rejects.toThrow('Daily cost budget exceeded');
+      expect(base.generate).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back on authentication errors', async () => {
+      const base = createProvider('gpt-5', {
+        'gpt-5': () => Promise.reject(apiError(401, 'invalid key')),
+      });
+      const service = new OpenAIService(base, new ModelRouter(base, () => ['gpt-5', 'gpt-5-mini']));
+
+      await expect(service.complete('prompt')).rejects.toThrow('invalid key');
+    });
+
+    it('should throw the last error when every model fails', async () => {
+      const base = createProvider('gpt-5', {
+        'gpt-5': () => Promise.reject(apiError(400, 'primary failed')),
+        'gpt-5-mini': () => Promise.reject(apiError(400, 'fallback failed')),
+      });
+      const service = new OpenAIService(base, new ModelRouter(base, () => ['gpt-5', 'gpt-5-mini']));
+
+      await expect(service.complete('prompt')).rejects.toThrow('fallback failed');
+    });
+
+    it('should use the cheaper model when close to the budget', async () => {
+      mockIsNearBudget.mockReturnValue(true);
+      const base = createProvider('gpt-5');
+      const service = new OpenAIService(base, new ModelRouter(base, () => ['gpt-5', 'gpt-5-mini']));
+
+      const { model } = await service.completeWithModel('prompt', 'analyzeDetailed');
+      expect(model).toBe('gpt-5-mini');
+      expect(service.getModelsFor('analyzeDetailed')).toEqual(['gpt-5-mini']);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Tests for OpenAlex Service
+ *
+ * Reference: EXPERT_EVALUATION_SPEC_V2.md (data sources: OpenAlex)
+ */
+
+import {
+  extractDOI,
+  titleSimilarity,
+  lookupWork,
+  getSourceTypeForWork,
+  applyWorkToEvidence,
+  enrichEvidence,
+  lookupInstitution,
+  isResearchInstitutionRecord,
+  confirmResearchInstitution,
+  OpenAlexWork,
+} from '../openAlex';
+import { DirectedEvidence } from '../../types/consensus';
+import * as cache from '../cache';
+
+jest.mock('../cache', () => ({
+  get: jest.fn(async () => null),
+  set: jest.fn(async () => true),
+}));
+
+const mockCacheGet = cache.get as jest.MockedFunction<typeof cache.get>;
+const mockCacheSet = cache.set as jest.MockedFunction<typeof cache.set>;
+
+// ═══════════════════════════════════════════════════════════════
+// TEST HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+const workRecord = {
+  id: 'https://openalex.org/W2100000001',
+  display_name: 'Statins for the Primary Prevention of Cardiovascular Disease',
+  doi: 'https://doi.org/10.1002/14651858.CD004816.pub5',
+  publication_year: 2013,
+  type: 'article',
+  cited_by_count: 1520,
+  authorships: [
+    {
+      author: { display_name: 'Fiona Taylor' },
+      institutions: [{ display_name: 'London School of Hygiene & Tropical Medicine' }],
+    },
+    {
+      author: { display_name: 'Shah Ebrahim' },
+      institutions: [{ display_name: 'London School of Hygiene & Tropical Medicine' }],
+    },
+  ],
+  primary_location: { source: { display_name: 'Cochrane Database of Systematic Reviews', type: 'journal' } },
+  open_access: { is_oa: true, oa_url: 'https://europepmc.org/articles/pmc6481400' },
+};
+
+function mockFetchResponse(body: unknown, status: number = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? 'Not Found' : 'Error',
+    json: async () => body,
+  } as Response;
+}
+
+function createWork(overrides: Partial<OpenAlexWork> = {}): OpenAlexWork {
+  return {
+    id: 'https://openalex.org/W1',
+    title: 'Minimum wage effects on employment',
+    authors: ['David Card', 'Alan Krueger'],
+    institutions: ['Princeton University'],
+    venue: 'American Economic Review',
+    venueType: 'journal',
+    type: 'article',
+    citedByCount: 4200,
+    isOpenAccess: false,
+    ...overrides,
+  };
+}
+
+function createEvidence(overrides: Partial<DirectedEvidence> = {}): DirectedEvidence {
+  return {
+    citation: {
+      title: 'Minimum wage effects on employment',
+      authors: [],
+      publication: 'example.org',
+      year: 1994,
+      url: 'https://example.org/card-krueger',
+    },
+    tier: 4,
+    category: 'unknown',
+    direction: 'neutral',
+    keyFinding: 'No employment loss',
+    ...overrides,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+describe('OpenAlex Service', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('extractDOI', () => {
+    it('should extract DOIs from doi.org and publisher URLs', () => {
+      expect(extractDOI('https://doi.org/10.1257/aer.84.4.772')).toBe('10.1257/aer.84.4.772');
+      expect(extractDOI('https://www.nejm.org/doi/full/10.1056/NEJMoa2034577?query=x')).toBe('10.1056/nejmoa2034577');
+    });
+
+    it('should return undefined when there is no DOI', () => {
+      expect(extractDOI('https://www.nber.org/papers/w11982')).toBeUndefined();
+    });
+  });
+
+  describe('titleSimilarity', () => {
+    it('should score identical titles as 1 regardless of case and punctuation', () => {
+      expect(titleSimilarity('Statins: A Review', 'statins a review')).toBe(1);
+    });
+
+    it('should score unrelated titles low', () => {
+      expect(titleSimilarity('Statins for prevention', 'Minimum wage and employment')).toBeLessThan(0.2);
+    });
+  });
+
+  describe('lookupWork', () => {
+    it('should resolve a work by DOI', async () => {
+      fetchMock.mockResolvedValueOnce(mockFetchResponse(workRecord));
+
+      const work = await lookupWork({ doi: '10.1002/14651858.CD004816.pub5' });
+
+      expect(fetchMock.mock.calls[0][0]).toContain('/works/doi:');
+      expect(work?.authors).toEqual(['Fiona Taylor', 'Shah Ebrahim']);
+      expect(work?.institutions).toEqual(['London School of Hygiene & Tropical Medicine']);
+      expect(work?.venue).toBe('Cochrane Database of Systematic Reviews');
+      expect(work?.citedByCount).toBe(1520);
+      expect(work?.isOpenAccess).toBe(true);
+      expect(work?.doi).toBe('10.1002/14651858.cd004816.pub5');
+    });
+
+    it('should only accept title search hits for the same work', async () => {
+      fetchMock.mockResolvedValueOnce(mockFetchResponse({
+        results: [{ ...workRecord, display_name: 'A different paper about statins' }],
+      }));
+
+      const work = await lookupWork({ title: 'Statins for the Primary Prevention of Cardiovascular Disease' });
+      expect(work).toBeNull();
+    });
+
+    it('should fall back to a title search when the DOI is unknown', async () => {
+      fetchMock
+        .mockResolvedValueOnce(mockFetchResponse({}, 404))
+        .mockResolvedValueOnce(mockFetchResponse({ results: [workRecord] }));
+
+      const work = await lookupWork({
+        doi: '10.9999/unknown',
+        title: 'Statins for the primary prevention of cardiovascular disease',
+      });
+
+      expect(work?.id).toBe('https://openalex.org/W2100000001');
+    });
+
+    it('should cache results, including misses', async () => {
+      fetchMock.mockResolvedValueOnce(mockFetchResponse({}, 404));
+
+      await lookupWork({ doi: '10.9999/unknown' });
+
+      expect(mockCacheSet).toHaveBeenCalledWith('openalex:work:doi:10.9999/unknown', { work: null }, expect.any(Number));
+    });
+
+    it('should serve cached results without calling the API', async () => {
+      mockCacheGet.mockResolvedValueOnce({ work: createWork() });
+
+      const work = await lookupWork({ doi: '10.1257/aer.84.4.772' });
+
+      expect(work?.venue).toBe('American Economic Review');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should return null without caching when the API fails', async () => {
+      fetchMock.mockResolvedValueOnce(mockFetchResponse({}, 503));
+
+      expect(await lookupWork({ doi: '10.1257/aer.84.4.772' })).toBeNull();
+      expect(mockCacheSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSourceTypeForWork', () => {
+    it('should map journal articles to peer reviewed and repository works to preprints', () => {
+      expect(getSourceTypeForWork(createWork())).toBe('peer_reviewed');
+      expect(getSourceTypeForWork(createWork({ type: 'preprint', venueType: 'repository' }))).toBe('preprint');
+      expect(getSourceTypeForWork(createWork({ type: 'book-chapter', venueType: 'book series' }))).toBeUndefined();
+    });
+  });
+
+  describe('applyWorkToEvidence', () => {
+    it('should fill in authors, venue, citation count and open access status', () => {
+      const enriched = applyWorkToEvidence(createEvidence(), createWork({ isOpenAccess: true }));
+
+      expect(enriched.citation.authors).toEqual(['David Card', 'Alan Krueger']);
+      expect(enriched.citation.publication).toBe('American Economic Review');
+      expect(enriched.citation.citationCount).toBe(4200);
+      expect(enriched.citation.isOpenAccess).toBe(true);
+      expect(enriched.citation.openAlexId).toBe('https://openalex.org/W1');
+    });
+
+    it('should upgrade journal articles found on unrecognized hosts', () => {
+      const enriched = applyWorkToEvidence(createEvidence(), createWork());
+      expect(enriched.tier).toBe(2);
+      expect(enriched.category).toBe('peer_reviewed');
+    });
+
+    it('should downgrade works that turn out to be preprints', () => {
+      const enriched = applyWorkToEvidence(
+        createEvidence({ tier: 2, category: 'peer_reviewed' }),
+        createWork({ type: 'preprint', venueType: 'repository' })
+      );
+      expect(enriched.tier).toBe(3);
+    });
+
+    it('should keep tier 1 classifications from the title', () => {
+      const evidence = createEvidence({
+        citation: { ...createEvidence().citation, title: 'A meta-analysis of minimum wage studies' },
+        tier: 1,
+        category: 'meta_analysis',
+      });
+
+      const enriched = applyWorkToEvidence(evidence, createWork());
+      expect(enriched.tier).toBe(1);
+      expect(enriched.category).toBe('meta_analysis');
+    });
+  });
+
+  describe('enrichEvidence', () => {
+    it('should leave unresolved evidence unchanged', async () => {
+      fetchMock.mockResolvedValue(mockFetchResponse({ results: [] }));
+      const evidence = [createEvidence()];
+
+      expect(await enrichEvidence(evidence)).toEqual(evidence);
+    });
+  });
+
+  describe('institutions', () => {
+    it('should parse the best institution match', async () => {
+      fetchMock.mockResolvedValueOnce(mockFetchResponse({
+        results: [{ id: 'https://openalex.org/I136199984', display_name: 'Harvard University', type: 'education', country_code: 'US', works_count: 500000 }],
+      }));
+
+      const institution = await lookupInstitution('Harvard');
+
+      expect(institution?.displayName).toBe('Harvard University');
+      expect(institution?.type).toBe('education');
+    });
+
+    it('should skip search hits whose name does not match the affiliation', async () => {
+      fetchMock.mockResolvedValueOnce(mockFetchResponse({
+        results: [
+          { id: 'I1', display_name: 'Brookings Institution', type: 'nonprofit', works_count: 400 },
+          { id: 'I2', display_name: 'Massachusetts Institute of Technology', display_name_acronyms: ['MIT'], type: 'education', works_count: 300000 },
+        ],
+      }));
+      expect((await lookupInstitution('MIT'))?.displayName).toBe('Massachusetts Institute of Technology');
+
+      fetchMock.mockResolvedValueOnce(mockFetchResponse({
+        results: [{ id: 'I3', display_name: 'Center for Strategic Consulting', type: 'company', works_count: 3 }],
+      }));
+      expect(await confirmResearchInstitution('Riverside Policy Consulting')).toBeNull();
+    });
+
+    it('should match an affiliation that names a department of the institution', async () => {
+      fetchMock.mockResolvedValueOnce(mockFetchResponse({
+        results: [{ id: 'I4', display_name: 'Stanford University', type: 'education', works_count: 400000 }],
+      }));
+      expect(await confirmResearchInstitution('Department of Economics, Stanford University')).toBe(true);
+    });
+
+    it('should treat education, facility and large research producers as research institutions', () => {
+      const base = { id: 'I1', displayName: 'X', worksCount: 0 };
+      expect(isResearchInstitutionRecord({ ...base, type: 'education' })).toBe(true);
+      expect(isResearchInstitutionRecord({ ...base, type: 'facility' })).toBe(true);
+      expect(isResearchInstitutionRecord({ ...base, type: 'government', worksCount: 25000 })).toBe(true);
+      expect(isResearchInstitutionRecord({ ...base, type: 'nonprofit', worksCount: 12 })).toBe(false);
+      expect(isResearchInstitutionRecord({ ...base, type: 'company', worksCount: 25000 })).toBe(false);
+    });
+
+    it('should return null for unknown affiliations', async () => {
+      fetchMock.mockResolvedValueOnce(mockFetchResponse({ results: [] }));
+      expect(await confirmResearchInstitution('Bob\'s Consulting LLC')).toBeNull();
+    });
+  });
+});
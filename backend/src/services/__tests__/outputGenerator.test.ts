@@ -23,6 +23,7 @@ import {
   generateEvidenceSummary,
   generateDebateSection,
   generateEmergingTrends,
+  generateExpertPanelSection,
   generateValuesContent,
   generateWarnings,
   generateSourcesList,
@@ -48,6 +49,7 @@ import {
   EvidenceBasis,
   DebatePosition,
 } from '../../types/consensus';
+import { summarizeExpertVerdicts } from '../consensusDetector';
 import { Domain, ClaimType } from '../../types/claims';
 import { EvidenceTier } from '../evidenceTier';
 import {
@@ -559,6 +561,53 @@ describe('Output Generator Service', () => {
     });
   });
 
+  describe('Expert Panel Generation', () => {
+    const panelAssessment = (): ConsensusAssessment => ({
+      ...createMockAssessment('strong_consensus'),
+      expertPanel: summarizeExpertVerdicts([
+        {
+          expertType: 'Labor economist',
+          claimId: 'claim_1',
+          verdict: 'supported',
+          confidence: 'high',
+          reasoning: 'Most minimum wage studies find small effects.',
+          keyEvidence: [],
+        },
+        {
+          expertType: 'Econometrician',
+          claimId: 'claim_1',
+          verdict: 'supported',
+          confidence: 'medium',
+          reasoning: 'Identification strategies are sound.',
+          keyEvidence: [],
+        },
+      ]),
+    });
+
+    it('should NOT generate an expert panel without panel verdicts', () => {
+      const assessment = createMockAssessment('strong_consensus');
+      expect(generateExpertPanelSection(assessment)).toBeUndefined();
+    });
+
+    it('should label each expert verdict and summarize agreement', () => {
+      const section = generateExpertPanelSection(panelAssessment());
+
+      expect(section?.verdicts).toHaveLength(2);
+      expect(section?.verdicts[0].verdictLabel).toBe('Supported');
+      expect(section?.hasDisagreement).toBe(false);
+      expect(section?.summaryText).toContain('2 of 2');
+    });
+
+    it('should render the expert panel in every format', () => {
+      const output = renderClaimOutput(panelAssessment(), 'Test claim');
+
+      expect(output.expertPanel).toBeDefined();
+      expect(generateMarkdownOutput(output)).toContain('### Expert Panel');
+      expect(generateTextOutput(output)).toContain('EXPERT PANEL:');
+      expect(generateHtmlOutput(output)).toContain('class="expert-panel"');
+    });
+  });
+
   // ───────────────────────────────────────────────────────────────
   // 8. VALUES CONTENT GENERATION
   // ───────────────────────────────────────────────────────────────
@@ -613,6 +662,22 @@ describe('Output Generator Service', () => {
       const types = warnings.map((w) => w.type);
       expect(types).toContain('values_note');
     });
+
+    it('should flag retracted and questioned studies', () => {
+      const assessment = {
+        ...createMockAssessment('strong_consensus'),
+        flaggedEvidence: [
+          { ...createMockCitation('Retracted Study'), retraction: { status: 'retracted' as const, source: 'crossref' as const, date: '2010-02-02' } },
+          { ...createMockCitation('Questioned Study'), retraction: { status: 'expression_of_concern' as const, source: 'retraction_watch' as const } },
+        ],
+      };
+      const warnings = generateWarnings(assessment);
+
+      const retracted = warnings.find((w) => w.text.includes('Retracted Study'));
+      expect(retracted?.text).toContain('retracted (2010)');
+      expect(retracted?.severity).toBe('warning');
+      expect(warnings.find((w) => w.text.includes('Questioned Study'))?.text).toContain('expression of concern');
+    });
   });
 
   // ───────────────────────────────────────────────────────────────
@@ -32,6 +32,9 @@ import {
 } from '../pipeline';
 import { Article, ClassifiedClaim, Domain, ClaimType } from '../../types/claims';
 import { ConsensusLevel } from '../../types/consensus';
+import * as claimExtractor from '../claimExtractor';
+import * as claimStore from '../claimStore';
+import * as searchProvider from '../searchProvider';
 
 // Increase timeout for tests that may call external APIs
 jest.setTimeout(120000);
@@ -92,6 +95,9 @@ describe('Pipeline Input Validation', () => {
       expect(DEFAULT_PIPELINE_OPTIONS.outputFormat).toBe('markdown');
       expect(DEFAULT_PIPELINE_OPTIONS.skipEvidenceSearch).toBe(false);
       expect(DEFAULT_PIPELINE_OPTIONS.includeRawResults).toBe(false);
+      expect(DEFAULT_PIPELINE_OPTIONS.useClaimStore).toBe(true);
+      expect(DEFAULT_PIPELINE_OPTIONS.useQuoteAttribution).toBe(true);
+      expect(DEFAULT_PIPELINE_OPTIONS.useReferenceData).toBe(true);
     });
   });
 
@@ -333,6 +339,9 @@ describe('Full Pipeline Flow', () => {
     expect(result.metadata.startedAt).toBeInstanceOf(Date);
     expect(result.metadata.completedAt).toBeInstanceOf(Date);
     expect(result.metadata.processingTimeMs).toBeGreaterThanOrEqual(0);
+    expect(result.metadata.stageDurationsMs.claimExtraction).toBeGreaterThanOrEqual(0);
+    expect(result.metadata.stageDurationsMs.claimExtraction).toBeLessThanOrEqual(result.metadata.processingTimeMs);
+    expect(result.metadata.stageDurationsMs.evidence).toBeGreaterThanOrEqual(0);
     expect(Array.isArray(result.metadata.servicesUsed)).toBe(true);
     expect(result.metadata.servicesUsed.length).toBeGreaterThan(0);
   });
@@ -634,3 +643,272 @@ describe('Edge Cases', () => {
     expect(result).toBeDefined();
   });
 });
+
+// ═══════════════════════════════════════════════════════════════
+// 11. PROGRESS HANDLERS (STREAMING)
+// ═══════════════════════════════════════════════════════════════
+
+describe('Progress Handlers', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function mockExtractedClaims(claims: ClassifiedClaim[]) {
+    jest.spyOn(claimExtractor, 'extractClaims').mockResolvedValueOnce({
+      articleSubjects: ['Senator John Doe'],
+      claims,
+    });
+  }
+
+  it('should report each stage for every claim', async () => {
+    mockExtractedClaims([
+      createMockClaim({ id: 'claim_1' }),
+      createMockClaim({ id: 'claim_2', text: 'Sea levels have risen', type: 'empirical' }),
+    ]);
+
+    const events: string[] = [];
+    const result = await runPipeline({
+      article: createMockArticle(),
+      options: { skipEvidenceSearch: true },
+      handlers: {
+        onClaimsExtracted: (extracted, toEvaluate) => {
+          events.push(`extracted:${extracted.claims.length}:${toEvaluate.length}`);
+        },
+        onEvidenceGathered: (claim, evidence) => {
+          events.push(`evidence:${claim.id}:${evidence.length}`);
+        },
+        onClaimEvaluated: (evaluated) => {
+          events.push(`evaluated:${evaluated.claim.id}`);
+        },
+      },
+    });
+
+    expect(events).toEqual([
+      'extracted:2:2',
+      'evidence:claim_1:1',
+      'evaluated:claim_1',
+      'evidence:claim_2:1',
+      'evaluated:claim_2',
+    ]);
+    expect(result.evaluatedClaims.map((ec) => ec.claim.id)).toEqual(['claim_1', 'claim_2']);
+  });
+
+  it('should only report claims within maxClaims', async () => {
+    mockExtractedClaims([
+      createMockClaim({ id: 'claim_1' }),
+      createMockClaim({ id: 'claim_2' }),
+      createMockClaim({ id: 'claim_3' }),
+    ]);
+
+    const evaluatedIds: string[] = [];
+    let toEvaluateCount = 0;
+    await runPipeline({
+      article: createMockArticle(),
+      options: { skipEvidenceSearch: true, maxClaims: 2 },
+      handlers: {
+        onClaimsExtracted: (_extracted, toEvaluate) => {
+          toEvaluateCount = toEvaluate.length;
+        },
+        onClaimEvaluated: (evaluated) => {
+          evaluatedIds.push(evaluated.claim.id);
+        },
+      },
+    });
+
+    expect(toEvaluateCount).toBe(2);
+    expect(evaluatedIds).toEqual(['claim_1', 'claim_2']);
+  });
+
+  it('should not fail the pipeline when a handler throws', async () => {
+    mockExtractedClaims([createMockClaim({ id: 'claim_1' })]);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await runPipeline({
+      article: createMockArticle(),
+      options: { skipEvidenceSearch: true },
+      handlers: {
+        onClaimEvaluated: () => {
+          throw new Error('client disconnected');
+        },
+      },
+    });
+
+    expect(result.evaluatedClaims).toHaveLength(1);
+    expect(result.metadata.errors).toHaveLength(0);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// 12. CLAIM STORE
+// ═══════════════════════════════════════════════════════════════
+
+describe('Claim Store', () => {
+  const searchOptions: PipelineOptions = { useScholarMetrics: false, useOpenAlex: false, checkRetractions: false };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(searchProvider, 'isSearchAvailable').mockReturnValue(true);
+    jest.spyOn(searchProvider, 'getSearchProviders').mockReturnValue([]);
+    jest.spyOn(searchProvider, 'searchAcademic').mockResolvedValue({ results: [] } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reuse a fresh stored assessment instead of searching', async () => {
+    const known = createMockClaim({ id: 'claim_1' });
+    const fresh = createMockClaim({ id: 'claim_2', text: 'Sea levels have risen', type: 'empirical' });
+    jest.spyOn(claimExtractor, 'extractClaims').mockResolvedValueOnce({ articleSubjects: [], claims: [known, fresh] });
+
+    const previous = await evaluateClaim(known, [], { skipEvidenceSearch: true });
+    const assessment = { consensus: previous.consensus, evidence: previous.evidence, assessedAt: new Date().toISOString() };
+    const storedClaim = { id: 'clm_1', text: known.text, normalizedText: '', type: known.type, domain: known.domain, assessment, articleCount: 3, firstSeenAt: '', lastSeenAt: '' };
+    jest.spyOn(claimStore, 'findClaimMatches').mockResolvedValue(new Map([
+      ['claim_1', { match: { claim: storedClaim, method: 'exact' as const, similarity: 1 } }],
+      ['claim_2', {}],
+    ]));
+    const record = jest.spyOn(claimStore, 'recordClaim').mockImplementation(async (claim, _article, _lookup, stored) => ({
+      id: claim.id === 'claim_1' ? 'clm_1' : 'clm_2',
+      matchedBy: claim.id === 'claim_1' ? 'exact' : 'new',
+      reusedAssessment: !stored,
+      articleCount: 1,
+    }));
+
+    const result = await runPipeline({ article: createMockArticle(), options: searchOptions });
+
+    expect(result.metadata.servicesUsed).toContain('claimStore');
+    expect(result.evaluatedClaims[0].consensus).toEqual(previous.consensus);
+    expect(result.evaluatedClaims[0].storedClaim).toMatchObject({ id: 'clm_1', reusedAssessment: true });
+    expect(result.evaluatedClaims[1].storedClaim).toMatchObject({ id: 'clm_2', reusedAssessment: false });
+    // Only the new claim was searched (two queries) and given a new assessment
+    expect(searchProvider.searchAcademic).toHaveBeenCalledTimes(2);
+    expect(record.mock.calls[0][3]).toBeUndefined();
+    expect(record.mock.calls[1][3]).toMatchObject({ consensus: result.evaluatedClaims[1].consensus });
+  });
+
+  it('should carry on when the claim store fails', async () => {
+    jest.spyOn(claimExtractor, 'extractClaims').mockResolvedValueOnce({ articleSubjects: [], claims: [createMockClaim()] });
+    jest.spyOn(claimStore, 'findClaimMatches').mockRejectedValue(new Error('Redis down'));
+    jest.spyOn(claimStore, 'recordClaim').mockRejectedValue(new Error('Redis down'));
+
+    const result = await runPipeline({ article: createMockArticle(), options: searchOptions });
+
+    expect(result.evaluatedClaims).toHaveLength(1);
+    expect(result.metadata.warnings).toEqual(expect.arrayContaining([
+      'Claim store lookup failed: Redis down',
+      'Claim store update failed for claim "claim_1": Redis down',
+    ]));
+  });
+
+  it('should not use the store without evidence search', async () => {
+    jest.spyOn(claimExtractor, 'extractClaims').mockResolvedValueOnce({ articleSubjects: [], claims: [createMockClaim()] });
+    const find = jest.spyOn(claimStore, 'findClaimMatches');
+
+    const result = await runPipeline({ article: createMockArticle(), options: { skipEvidenceSearch: true } });
+
+    expect(find).not.toHaveBeenCalled();
+    expect(result.evaluatedClaims[0].storedClaim).toBeUndefined();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// 13. QUOTE ATTRIBUTION
+// ═══════════════════════════════════════════════════════════════
+
+describe('Quote Attribution', () => {
+  const article = createMockArticle({
+    content: [
+      '"Warming since 1950 is mostly caused by human activities," said Maria Lopez, a professor of atmospheric science at Stanford University.',
+      'Tom Becker, a spokesperson for the Energy Alliance, said human activities are not causing global warming.',
+      'Heating bills rose sharply last winter, according to Ruth Hale, an economist.',
+    ].join('\n'),
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(claimExtractor, 'extractClaims').mockResolvedValueOnce({ articleSubjects: [], claims: [createMockClaim()] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should validate people quoted on a claim alongside its source', async () => {
+    const result = await runPipeline({ article, options: { skipEvidenceSearch: true } });
+
+    expect(result.metadata.servicesUsed).toContain('quoteExtractor');
+    expect(result.quotes?.method).toBe('heuristic');
+    expect(result.quotes?.quotes.map((q) => [q.speaker, q.claims])).toEqual([
+      ['Maria Lopez', [{ claimId: 'claim_1', relation: 'supports' }]],
+      ['Tom Becker', [{ claimId: 'claim_1', relation: 'disputes' }]],
+      ['Ruth Hale', []],
+    ]);
+
+    const experts = result.evaluatedClaims[0].experts;
+    expect(experts.totalProcessed).toBe(3);
+    expect(experts.excludedPersons).toContainEqual(
+      expect.objectContaining({ name: 'Tom Becker', reason: 'corporate_spokesperson' })
+    );
+  });
+
+  it('should validate everyone quoted in the article once', async () => {
+    const result = await runPipeline({ article, options: { skipEvidenceSearch: true } });
+
+    const names = [
+      ...result.articleExperts!.validExperts.map((e) => e.name),
+      ...result.articleExperts!.excludedPersons.map((p) => p.name),
+    ];
+    expect(names.sort()).toEqual(['Dr. Jane Smith', 'Maria Lopez', 'Ruth Hale', 'Tom Becker']);
+    expect(result.articleExperts!.totalProcessed).toBe(4);
+  });
+
+  it('should only use claim sources when disabled', async () => {
+    const result = await runPipeline({ article, options: { skipEvidenceSearch: true, useQuoteAttribution: false } });
+
+    expect(result.quotes).toBeUndefined();
+    expect(result.evaluatedClaims[0].experts.totalProcessed).toBe(1);
+    expect(result.articleExperts!.totalProcessed).toBe(1);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// 14. CLAIM TIMEFRAMES
+// ═══════════════════════════════════════════════════════════════
+
+describe('Claim Timeframes', () => {
+  const searchOptions: PipelineOptions = { useScholarMetrics: false, useOpenAlex: false, checkRetractions: false };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(searchProvider, 'isSearchAvailable').mockReturnValue(true);
+    jest.spyOn(searchProvider, 'getSearchProviders').mockReturnValue([]);
+    jest.spyOn(searchProvider, 'searchAcademic').mockResolvedValue({ results: [] } as any);
+    jest.spyOn(claimExtractor, 'extractClaims').mockResolvedValueOnce({
+      articleSubjects: [],
+      claims: [createMockClaim({ text: 'Unemployment fell last year', type: 'empirical', domain: 'economics' })],
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should resolve claims against the publish date and search within their window', async () => {
+    const result = await runPipeline({
+      article: createMockArticle({ publishedAt: '2024-03-15T09:00:00Z' }),
+      options: searchOptions,
+    });
+
+    expect(result.evaluatedClaims[0].claim.timeframe).toMatchObject({
+      referenceDate: '2024-03-15',
+      referenceDateSource: 'published',
+      resolvedText: 'Unemployment fell in 2023',
+    });
+    expect(searchProvider.searchAcademic).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.any(Number),
+      { startPublishedDate: '2023-01-01' }
+    );
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for Public HTTP
+ *
+ * DNS answers come from a mock; http.request is replaced where a response
+ * is needed, so nothing leaves the machine.
+ */
+
+import { EventEmitter } from 'events';
+import http from 'http';
+import { Readable } from 'stream';
+import { lookup } from 'dns/promises';
+import { assertPublicUrl, publicLookup, requestPublicUrl } from '../publicHttp';
+
+jest.mock('dns/promises', () => ({
+  lookup: jest.fn(),
+}));
+
+const mockLookup = lookup as unknown as jest.Mock;
+
+const PUBLIC = [{ address: '93.184.216.34', family: 4 }];
+
+describe('Public HTTP', () => {
+  afterEach(() => {
+    mockLookup.mockReset();
+    jest.restoreAllMocks();
+  });
+
+  describe('publicLookup', () => {
+    function resolve(options: { all?: boolean }): Promise<unknown[]> {
+      return new Promise((done) => publicLookup('news.example.com', options, (...args) => done(args)));
+    }
+
+    it('should answer with the checked addresses', async () => {
+      mockLookup.mockResolvedValue(PUBLIC);
+
+      expect(await resolve({ all: true })).toEqual([null, PUBLIC]);
+      expect(await resolve({})).toEqual([null, '93.184.216.34', 4]);
+    });
+
+    it('should refuse hosts with a private address', async () => {
+      mockLookup.mockResolvedValue([...PUBLIC, { address: '169.254.169.254', family: 4 }]);
+
+      const [error] = await resolve({ all: true });
+      expect((error as Error).message).toBe('URL resolves to an address that is not allowed');
+    });
+  });
+
+  describe('requestPublicUrl', () => {
+    it('should refuse a host that resolves to a private address once checked (DNS rebinding)', async () => {
+      mockLookup.mockResolvedValueOnce(PUBLIC).mockResolvedValueOnce([{ address: '127.0.0.1', family: 4 }]);
+
+      await assertPublicUrl('http://rebind.example.com/');
+      await expect(requestPublicUrl('http://rebind.example.com/')).rejects.toThrow('not allowed');
+    });
+
+    it('should refuse private and non-http URLs without connecting', async () => {
+      const request = jest.spyOn(http, 'request');
+
+      await expect(requestPublicUrl('http://127.0.0.1:6379/')).rejects.toThrow('public http(s) address');
+      await expect(requestPublicUrl('file:///etc/passwd')).rejects.toThrow('public http(s) address');
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should connect through the checking lookup and answer with a Response', async () => {
+      let options: http.RequestOptions | undefined;
+      let sent: unknown;
+      jest.spyOn(http, 'request').mockImplementation(((_url: URL, opts: http.RequestOptions, onResponse: (res: unknown) => void) => {
+        options = opts;
+        const request = Object.assign(new EventEmitter(), {
+          end: (body?: string) => {
+            sent = body;
+            onResponse(Object.assign(Readable.from([Buffer.from('accepted')]), {
+              statusCode: 202,
+              statusMessage: 'Accepted',
+              headers: { 'content-type': 'text/plain', 'set-cookie': ['a=1', 'b=2'] },
+            }));
+          },
+        });
+        return request;
+      }) as unknown as typeof http.request);
+
+      const response = await requestPublicUrl('http://hooks.example.com/job', { method: 'POST', body: '{"id":1}' });
+
+      expect(options).toMatchObject({ method: 'POST', lookup: publicLookup, agent: false });
+      expect(sent).toBe('{"id":1}');
+      expect(response.status).toBe(202);
+      expect(response.headers.get('set-cookie')).toBe('a=1, b=2');
+      expect(await response.text()).toBe('accepted');
+    });
+  });
+});
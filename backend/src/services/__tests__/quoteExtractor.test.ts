@@ -0,0 +1,239 @@
+/**
+ * Tests for Quote Extractor Service
+ *
+ * Reference: EXPERT_EVALUATION_SPEC.md Part 7
+ */
+
+import {
+  extractQuotes,
+  extractQuotesHeuristically,
+  getQuotedPersons,
+  linkQuotesToClaims,
+  parseAppositive,
+} from '../quoteExtractor';
+import { Article, ClassifiedClaim } from '../../types/claims';
+import { openaiService } from '../openai';
+import { isOverBudget } from '../costTracker';
+import { isLLMConfigured } from '../llmProvider';
+
+jest.mock('../llmProvider', () => ({
+  isLLMConfigured: jest.fn(() => true),
+}));
+
+jest.mock('../openai', () => ({
+  openaiService: {
+    attributeQuotes: jest.fn(),
+  },
+}));
+
+jest.mock('../costTracker', () => ({
+  isOverBudget: jest.fn(() => false),
+}));
+
+const mockAttribute = openaiService.attributeQuotes as jest.MockedFunction<typeof openaiService.attributeQuotes>;
+const mockIsOverBudget = isOverBudget as jest.MockedFunction<typeof isOverBudget>;
+const mockIsLLMConfigured = isLLMConfigured as jest.MockedFunction<typeof isLLMConfigured>;
+
+const STORY = [
+  'The city expanded its bike lane network last year.',
+  '“Traffic deaths fell by a third after the lanes opened,” said Maria Lopez, a professor of civil engineering at Portland State University.',
+  '“We have never seen a drop like this,” she added.',
+  'Tom Becker, a spokesperson for the Drivers Alliance, said traffic deaths did not fall after the bike lanes opened.',
+  'In March Dr. Alan Reyes told reporters: "The data on injuries is still incomplete."',
+  'Lopez said the numbers held up in every district.',
+  'Critics said that the program was rushed.',
+  'Parking revenue fell sharply, according to Sen. Ruth Hale.',
+].join('\n');
+
+function claim(id: string, text: string, sourceName = 'Reporter'): ClassifiedClaim {
+  return {
+    id,
+    text,
+    type: 'empirical',
+    isVerifiable: true,
+    verifiabilityReason: 'Measurable',
+    source: { name: sourceName, role: 'article_author', isExcludedFromExpertPool: false },
+    domain: 'general',
+  };
+}
+
+const article: Article = { title: 'Bike lanes', source: 'Example News', content: STORY };
+
+describe('QuoteExtractor Service', () => {
+  beforeEach(() => {
+    mockAttribute.mockReset();
+    mockIsOverBudget.mockReturnValue(false);
+    mockIsLLMConfigured.mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseAppositive', () => {
+    it('should split title and affiliation at the institution', () => {
+      expect(parseAppositive('a professor of civil engineering at Portland State University')).toEqual({
+        title: 'professor of civil engineering',
+        affiliation: 'Portland State University',
+      });
+      expect(parseAppositive('the spokesperson for the Drivers Alliance')).toEqual({
+        title: 'spokesperson',
+        affiliation: 'Drivers Alliance',
+      });
+      expect(parseAppositive('an economist')).toEqual({ title: 'economist' });
+    });
+  });
+
+  describe('extractQuotesHeuristically', () => {
+    const quotes = extractQuotesHeuristically(STORY);
+    const bySpeaker = (name: string) => quotes.filter((q) => q.speaker === name);
+
+    it('should attribute direct quotes with title and affiliation', () => {
+      const [first] = bySpeaker('Maria Lopez');
+      expect(first).toMatchObject({
+        text: 'Traffic deaths fell by a third after the lanes opened',
+        kind: 'direct',
+        title: 'professor of civil engineering',
+        affiliation: 'Portland State University',
+      });
+    });
+
+    it('should resolve pronouns and surnames to the speaker named earlier', () => {
+      expect(bySpeaker('Maria Lopez').map((q) => q.text)).toEqual([
+        'Traffic deaths fell by a third after the lanes opened',
+        'We have never seen a drop like this',
+        'the numbers held up in every district',
+      ]);
+    });
+
+    it('should attribute indirect quotes', () => {
+      expect(bySpeaker('Tom Becker')).toEqual([
+        expect.objectContaining({
+          kind: 'indirect',
+          text: 'traffic deaths did not fall after the bike lanes opened',
+          title: 'spokesperson',
+          affiliation: 'Drivers Alliance',
+        }),
+      ]);
+      expect(bySpeaker('Ruth Hale')).toEqual([
+        expect.objectContaining({ kind: 'indirect', text: 'Parking revenue fell sharply', title: 'Senator' }),
+      ]);
+    });
+
+    it('should strip sentence openers and keep honorifics as credentials', () => {
+      expect(bySpeaker('Alan Reyes')).toEqual([
+        expect.objectContaining({ text: 'The data on injuries is still incomplete', credentials: 'Dr.' }),
+      ]);
+    });
+
+    it('should drop quotes without a named speaker', () => {
+      expect(quotes.map((q) => q.speaker)).not.toContain('Critics');
+      expect(quotes).toHaveLength(6);
+    });
+
+    it('should scan long text without sentence breaks in linear time', () => {
+      // Took ~4s before match lengths were bounded
+      const started = Date.now();
+      expect(extractQuotesHeuristically('Word, '.repeat(16_000))).toEqual([]);
+      expect(Date.now() - started).toBeLessThan(1500);
+    });
+  });
+
+  describe('linkQuotesToClaims', () => {
+    it('should link supporting and disputing quotes by shared wording', () => {
+      const claims = [
+        claim('c1', 'Traffic deaths fell by a third after the bike lanes opened'),
+        claim('c2', 'The city spent $4 million on parking garages'),
+      ];
+      const linked = linkQuotesToClaims(extractQuotesHeuristically(STORY), claims);
+
+      const lopez = linked.find((q) => q.speaker === 'Maria Lopez')!;
+      expect(lopez.claims).toEqual([{ claimId: 'c1', relation: 'supports' }]);
+
+      const becker = linked.find((q) => q.speaker === 'Tom Becker')!;
+      expect(becker.claims).toEqual([{ claimId: 'c1', relation: 'disputes' }]);
+
+      expect(linked.every((q) => q.claims.every((link) => link.claimId !== 'c2'))).toBe(true);
+    });
+  });
+
+  describe('extractQuotes', () => {
+    const claims = [claim('c1', 'Traffic deaths fell by a third after the bike lanes opened')];
+
+    it('should use the LLM attribution and drop invalid entries', async () => {
+      mockAttribute.mockResolvedValue({
+        quotes: [
+          {
+            text: 'Deaths fell by a third',
+            kind: 'direct',
+            speaker: 'Maria Lopez',
+            title: 'professor',
+            affiliation: 'Portland State University',
+            claims: [
+              { claimId: 'c1', relation: 'supports' },
+              { claimId: 'unknown', relation: 'supports' },
+            ],
+          },
+          { text: 'No speaker', kind: 'direct', speaker: '' },
+          { text: 'Odd kind', kind: 'paraphrase' as 'direct', speaker: 'Tom Becker', claims: [{ claimId: 'c1', relation: 'maybe' as 'supports' }] },
+        ],
+        model: 'gpt-5-mini',
+      });
+
+      const result = await extractQuotes(article, claims);
+
+      expect(result.method).toBe('llm');
+      expect(result.model).toBe('gpt-5-mini');
+      expect(result.quotes).toEqual([
+        {
+          text: 'Deaths fell by a third',
+          kind: 'direct',
+          speaker: 'Maria Lopez',
+          title: 'professor',
+          affiliation: 'Portland State University',
+          claims: [{ claimId: 'c1', relation: 'supports' }],
+        },
+        { text: 'Odd kind', kind: 'direct', speaker: 'Tom Becker', claims: [] },
+      ]);
+    });
+
+    it('should fall back to heuristics when the LLM fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockAttribute.mockRejectedValue(new Error('timeout'));
+
+      const result = await extractQuotes(article, claims);
+
+      expect(result.method).toBe('heuristic');
+      expect(result.quotes.find((q) => q.speaker === 'Maria Lopez')?.claims).toEqual([
+        { claimId: 'c1', relation: 'supports' },
+      ]);
+    });
+
+    it('should skip the LLM when over budget or asked to', async () => {
+      mockIsOverBudget.mockReturnValue(true);
+      expect((await extractQuotes(article, claims)).method).toBe('heuristic');
+
+      mockIsOverBudget.mockReturnValue(false);
+      expect((await extractQuotes(article, claims, { useLLM: false })).method).toBe('heuristic');
+      expect(mockAttribute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getQuotedPersons', () => {
+    it('should return one mention per speaker with their first quote', () => {
+      const quotes = linkQuotesToClaims(extractQuotesHeuristically(STORY), [
+        claim('c1', 'Traffic deaths fell by a third after the bike lanes opened'),
+      ]);
+
+      const everyone = getQuotedPersons(quotes);
+      expect(everyone.map((p) => p.name)).toEqual(['Maria Lopez', 'Tom Becker', 'Alan Reyes', 'Ruth Hale']);
+      expect(everyone[0]).toMatchObject({
+        quote: 'Traffic deaths fell by a third after the lanes opened',
+        title: 'professor of civil engineering',
+        affiliation: 'Portland State University',
+      });
+
+      expect(getQuotedPersons(quotes, 'c1').map((p) => p.name)).toEqual(['Maria Lopez', 'Tom Becker']);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for Rate Limiter Service
+ *
+ * Redis is mocked; the token bucket math is tested on the in-process
+ * fallback, and the Redis path on how it reads the script's reply.
+ */
+
+import { takeToken, resetLocalBuckets } from '../rateLimiter';
+import { getClient } from '../cache';
+import { parseRateLimit } from '../../config';
+
+jest.mock('../cache', () => ({
+  getClient: jest.fn(),
+}));
+
+const mockGetClient = getClient as jest.MockedFunction<typeof getClient>;
+
+const RULE = { perMinute: 6, burst: 2 };
+
+describe('RateLimiter Service', () => {
+  let now: number;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    mockGetClient.mockResolvedValue(null);
+    resetLocalBuckets();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('without Redis', () => {
+    it('should allow a burst and then refuse', async () => {
+      expect((await takeToken('evaluate', 'key_a', RULE)).allowed).toBe(true);
+      expect((await takeToken('evaluate', 'key_a', RULE)).allowed).toBe(true);
+
+      const refused = await takeToken('evaluate', 'key_a', RULE);
+
+      expect(refused).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 10 });
+    });
+
+    it('should refill at the configured rate', async () => {
+      await takeToken('evaluate', 'key_a', RULE);
+      await takeToken('evaluate', 'key_a', RULE);
+
+      now += 10_000;
+
+      expect((await takeToken('evaluate', 'key_a', RULE)).allowed).toBe(true);
+      expect((await takeToken('evaluate', 'key_a', RULE)).allowed).toBe(false);
+    });
+
+    it('should never hold more than the burst', async () => {
+      now += 60 * 60_000;
+
+      const result = await takeToken('evaluate', 'key_a', RULE);
+
+      expect(result.remaining).toBe(1);
+    });
+
+    it('should keep separate buckets per client and route', async () => {
+      await takeToken('evaluate', 'key_a', RULE);
+      await takeToken('evaluate', 'key_a', RULE);
+
+      expect((await takeToken('evaluate', 'key_b', RULE)).allowed).toBe(true);
+      expect((await takeToken('analyze', 'key_a', RULE)).allowed).toBe(true);
+    });
+  });
+
+  describe('with Redis', () => {
+    it('should run the bucket script and report its result', async () => {
+      const redis = { eval: jest.fn(async () => [0, '0.4']) };
+      mockGetClient.mockResolvedValue(redis as any);
+
+      const result = await takeToken('evaluate', 'key_a', RULE);
+
+      expect(result).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 6 });
+      expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'ratelimit:evaluate:key_a', 2, RULE.perMinute / 60_000, now, 21);
+    });
+
+    it('should count locally when the script fails', async () => {
+      mockGetClient.mockResolvedValue({ eval: jest.fn(async () => { throw new Error('NOSCRIPT'); }) } as any);
+
+      expect((await takeToken('evaluate', 'key_a', RULE)).allowed).toBe(true);
+    });
+  });
+
+  describe('parseRateLimit', () => {
+    const fallback = { perMinute: 1, burst: 1 };
+
+    it('should read a rate with an optional burst', () => {
+      expect(parseRateLimit('5', fallback)).toEqual({ perMinute: 5, burst: 5 });
+      expect(parseRateLimit('5:10', fallback)).toEqual({ perMinute: 5, burst: 10 });
+    });
+
+    it('should disable the limit with 0 or none', () => {
+      expect(parseRateLimit('0', fallback)).toBeNull();
+      expect(parseRateLimit('none', fallback)).toBeNull();
+    });
+
+    it('should use the fallback for unset or invalid values', () => {
+      expect(parseRateLimit(undefined, fallback)).toBe(fallback);
+      expect(parseRateLimit('fast', fallback)).toBe(fallback);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Tests for Reference Data Service
+ *
+ * Datasets are loaded from fixtures/referenceData (labor.json, crime.csv)
+ */
+
+import path from 'path';
+import {
+  checkStatisticalClaim,
+  extractPeriods,
+  extractStatistic,
+  isReferenceDataAvailable,
+  loadReferenceDatasets,
+  parseReferenceCsv,
+  setReferenceDatasets,
+} from '../referenceData';
+import { ClassifiedClaim } from '../../types/claims';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'referenceData');
+
+function claim(text: string, type: ClassifiedClaim['type'] = 'statistical'): ClassifiedClaim {
+  return {
+    id: 'c1',
+    text,
+    type,
+    isVerifiable: true,
+    verifiabilityReason: 'Published figure',
+    source: { name: 'Reporter', role: 'article_author', isExcludedFromExpertPool: false },
+    domain: 'economics',
+  };
+}
+
+describe('ReferenceData Service', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    setReferenceDatasets(loadReferenceDatasets(FIXTURES));
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    setReferenceDatasets(null);
+  });
+
+  describe('loadReferenceDatasets', () => {
+    it('should load JSON and CSV datasets and skip invalid ones', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const datasets = loadReferenceDatasets(FIXTURES);
+
+      expect(datasets.map((d) => d.id).sort()).toEqual([
+        'us-homicide-rate',
+        'us-homicides',
+        'us-median-income',
+        'us-unemployment-rate',
+      ]);
+      expect(JSON.parse(warn.mock.calls[0][0])).toMatchObject({
+        level: 'warn',
+        msg: expect.stringContaining('Skipping dataset "broken"'),
+      });
+      expect(isReferenceDataAvailable()).toBe(true);
+      warn.mockRestore();
+    });
+
+    it('should read CSV metadata from the first row of each dataset', () => {
+      const [dataset] = parseReferenceCsv([
+        'dataset,name,source,unit,keywords,tolerance,period,value',
+        'jobs,Payrolls,BLS,count,payrolls;jobs added,0.1,2023,"3,013,000"',
+        'jobs,,,,,,2022,"4,500,000"',
+      ].join('\n'));
+
+      expect(dataset).toEqual({
+        id: 'jobs',
+        name: 'Payrolls',
+        source: 'BLS',
+        unit: 'count',
+        keywords: ['payrolls', 'jobs added'],
+        tolerance: 0.1,
+        observations: [
+          { period: '2023', value: 3013000 },
+          { period: '2022', value: 4500000 },
+        ],
+      });
+    });
+  });
+
+  describe('extractStatistic', () => {
+    it('should read levels with their unit and rounding', () => {
+      expect(extractStatistic('Unemployment was 3.5% in July 2023')).toMatchObject({
+        measure: 'level',
+        value: 3.5,
+        unit: 'percent',
+        precision: 0.05,
+        period: '2023-07',
+      });
+      expect(extractStatistic('Median household income reached $80 thousand in 2023')).toMatchObject({
+        value: 80000,
+        unit: 'usd',
+        precision: 500,
+        period: '2023',
+      });
+      expect(extractStatistic('There were 6.3 murders per 100,000 residents')).toMatchObject({
+        unit: 'per_100k',
+        value: 6.3,
+      });
+    });
+
+    it('should sign changes by direction', () => {
+      expect(extractStatistic('Homicides fell nearly 9% in 2023')).toMatchObject({
+        measure: 'change',
+        value: -9,
+        unit: 'percent',
+      });
+      expect(extractStatistic('A 2 percentage point rise in unemployment since 2021')).toMatchObject({
+        measure: 'change',
+        value: 2,
+        unit: 'percentage_points',
+        basePeriod: '2021',
+      });
+    });
+
+    it('should not take years or ordinals as the figure', () => {
+      expect(extractStatistic('In 2023 there were 19,252 murders')).toMatchObject({
+        unit: 'count',
+        value: 19252,
+        period: '2023',
+      });
+      expect(extractStatistic('The 3rd quarter report came out in 2023')).toBeNull();
+    });
+  });
+
+  describe('extractPeriods', () => {
+    it('should read ranges, quarters and months', () => {
+      expect(extractPeriods('from 2019 to 2023')).toEqual({ basePeriod: '2019', period: '2023' });
+      expect(extractPeriods('in the second quarter of 2023')).toEqual({ period: '2023-Q2', basePeriod: undefined });
+      expect(extractPeriods('since 2020, reaching a peak in March 2022')).toEqual({ period: '2022-03', basePeriod: '2020' });
+      expect(extractPeriods('recently')).toEqual({ period: undefined, basePeriod: undefined });
+    });
+  });
+
+  describe('checkStatisticalClaim', () => {
+    it('should match a level within tolerance', () => {
+      const check = checkStatisticalClaim(claim('The unemployment rate was 3.5% in July 2023'));
+
+      expect(check).toMatchObject({
+        verdict: 'matches',
+        datasetId: 'us-unemployment-rate',
+        officialValue: 3.5,
+        period: '2023-07',
+        periodInferred: false,
+      });
+      expect(check!.summary).toBe('Matches official data: Bureau of Labor Statistics reports 3.5% for July 2023.');
+    });
+
+    it('should report how far a level differs', () => {
+      const check = checkStatisticalClaim(claim('Unemployment hit 5% in 2023'));
+
+      expect(check).toMatchObject({ verdict: 'differs', officialValue: 3.6, difference: -1.4 });
+      expect(check!.summary).toBe(
+        'Differs from official data by 1.4 percentage points: Bureau of Labor Statistics reports 3.6% for 2023, not 5%.'
+      );
+    });
+
+    it('should compare with the latest figure when the claim gives no period', () => {
+      expect(checkStatisticalClaim(claim('The jobless rate is 3.8%'))).toMatchObject({
+        verdict: 'matches',
+        period: '2023-08',
+        periodInferred: true,
+      });
+    });
+
+    it('should compare changes with the previous period and check direction', () => {
+      const fall = checkStatisticalClaim(claim('Murders fell 9% in 2023'));
+      expect(fall).toMatchObject({ verdict: 'matches', basePeriod: '2022', period: '2023' });
+      expect(fall!.officialValue).toBeCloseTo(-9, 2);
+      expect(fall!.summary).toContain('a fall of 9% from 2022 to 2023');
+
+      const rise = checkStatisticalClaim(claim('Murders rose 9% in 2023'));
+      expect(rise).toMatchObject({ verdict: 'differs' });
+      expect(rise!.summary).toContain('not a rise of 9%');
+    });
+
+    it('should prefer the dataset with the longest keyword', () => {
+      expect(checkStatisticalClaim(claim('The murder rate was 5.7 per 100,000 in 2023'))).toMatchObject({
+        verdict: 'matches',
+        datasetId: 'us-homicide-rate',
+      });
+    });
+
+    it('should apply a dataset tolerance', () => {
+      expect(checkStatisticalClaim(claim('Median household income was $78,000 in 2023'))).toMatchObject({
+        verdict: 'differs',
+        datasetId: 'us-median-income',
+      });
+    });
+
+    it('should return null when no dataset covers the claim', () => {
+      expect(checkStatisticalClaim(claim('Unemployment was 3.6% in 2023', 'empirical'))).toBeNull();
+      expect(checkStatisticalClaim(claim('Inflation was 3.4% in 2023'))).toBeNull();
+      expect(checkStatisticalClaim(claim('Unemployment was 4% in 2015'))).toBeNull();
+      expect(checkStatisticalClaim(claim('Unemployment is very low'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for Retraction Check Service
+ *
+ * Local index tests run against fixtures/retractions.csv; CrossRef is mocked
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  parseCsv,
+  importRetractionWatchCsv,
+  clearLocalRetractions,
+  checkLocalRetraction,
+  parseCrossRefNotices,
+  checkCrossRefRetraction,
+  checkRetraction,
+  annotateRetractions,
+  isRetracted,
+} from '../retractionCheck';
+import { DirectedEvidence } from '../../types/consensus';
+import * as cache from '../cache';
+
+jest.mock('../cache', () => ({
+  get: jest.fn(async () => null),
+  set: jest.fn(async () => true),
+  getClient: jest.fn(async () => null),
+}));
+
+const mockCacheSet = cache.set as jest.MockedFunction<typeof cache.set>;
+
+const fixtureCsv = fs.readFileSync(path.join(__dirname, 'fixtures', 'retractions.csv'), 'utf8');
+
+function mockFetchResponse(body: unknown, status: number = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? 'Not Found' : 'Error',
+    json: async () => body,
+  } as Response;
+}
+
+function createEvidence(url: string, title: string = 'Some study'): DirectedEvidence {
+  return {
+    citation: { title, authors: [], publication: 'Journal', year: 2020, url },
+    tier: 2,
+    category: 'peer_reviewed',
+    direction: 'supports',
+    keyFinding: 'A finding',
+  };
+}
+
+describe('RetractionCheck Service', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    clearLocalRetractions();
+    importRetractionWatchCsv(fixtureCsv);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseCsv', () => {
+    it('should handle quoted fields with commas, escaped quotes and CRLF', () => {
+      expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\r\n')).toEqual([
+        ['a', 'b, c', 'say "hi"'],
+        ['1', '2', '3'],
+      ]);
+    });
+  });
+
+  describe('local Retraction Watch index', () => {
+    it('should find retractions by original paper DOI', () => {
+      const notice = checkLocalRetraction({ doi: 'https://doi.org/10.1016/S0140-6736(97)11096-0' });
+
+      expect(notice).toEqual({
+        status: 'retracted',
+        source: 'retraction_watch',
+        date: '2010-02-02',
+        noticeDoi: '10.1016/s0140-6736(10)60175-4',
+        reason: 'Falsification/Fabrication of Data;+Misconduct by Author;',
+      });
+    });
+
+    it('should find notices by title when there is no DOI', () => {
+      const notice = checkLocalRetraction({ title: 'A study with "quoted" words in the title' });
+      expect(notice?.status).toBe('expression_of_concern');
+    });
+
+    it('should ignore corrections', () => {
+      expect(checkLocalRetraction({ doi: '10.1234/example.2020.8' })).toBeNull();
+    });
+
+    it('should clear notices for reinstated papers', () => {
+      expect(checkLocalRetraction({ doi: '10.1234/example.2018.9' })).toBeNull();
+    });
+
+    it('should reject CSVs without the required columns', () => {
+      expect(() => importRetractionWatchCsv('Title,Journal\nX,Y\n')).toThrow('RetractionNature');
+    });
+  });
+
+  describe('parseCrossRefNotices', () => {
+    const doi = '10.1000/original';
+
+    it('should read notices whose update-to points at the work', () => {
+      const notices = parseCrossRefNotices(doi, null, [
+        {
+          DOI: '10.1000/notice',
+          'update-to': [{ DOI: '10.1000/ORIGINAL', type: 'retraction', updated: { 'date-parts': [[2022, 3, 9]] } }],
+        },
+        { DOI: '10.1000/other', 'update-to': [{ DOI: '10.1000/unrelated', type: 'retraction' }] },
+      ]);
+
+      expect(notices).toEqual([
+        { status: 'retracted', source: 'crossref', date: '2022-03-09', noticeDoi: '10.1000/notice' },
+      ]);
+    });
+
+    it('should read updated-by and relation entries on the work', () => {
+      const notices = parseCrossRefNotices(doi, {
+        'updated-by': [{ DOI: '10.1000/eoc', type: 'expression_of_concern' }],
+        relation: { 'is-retracted-by': [{ id: '10.1000/ret', 'id-type': 'doi' }] },
+      }, []);
+
+      expect(notices.map((n) => n.status)).toEqual(['expression_of_concern', 'retracted']);
+    });
+
+    it('should ignore corrections', () => {
+      expect(parseCrossRefNotices(doi, { 'updated-by': [{ DOI: '10.1000/c', type: 'correction' }] }, [])).toEqual([]);
+    });
+  });
+
+  describe('checkCrossRefRetraction', () => {
+    it('should prefer a retraction over an expression of concern and cache it', async () => {
+      fetchMock
+        .mockResolvedValueOnce(mockFetchResponse({
+          message: { 'updated-by': [{ DOI: '10.1000/eoc', type: 'expression_of_concern' }] },
+        }))
+        .mockResolvedValueOnce(mockFetchResponse({
+          message: { items: [{ DOI: '10.1000/ret', 'update-to': [{ DOI: '10.1000/original', type: 'retraction' }] }] },
+        }));
+
+      const notice = await checkCrossRefRetraction('10.1000/original');
+
+      expect(notice?.status).toBe('retracted');
+      expect(mockCacheSet).toHaveBeenCalledWith('retraction:10.1000/original', { notice }, expect.any(Number));
+    });
+
+    it('should return null without caching when CrossRef fails', async () => {
+      fetchMock.mockResolvedValue(mockFetchResponse({}, 503));
+
+      expect(await checkCrossRefRetraction('10.1000/original')).toBeNull();
+      expect(mockCacheSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkRetraction', () => {
+    it('should not call CrossRef for works retracted in the local index', async () => {
+      const notice = await checkRetraction({ url: 'https://doi.org/10.1016/j.ijantimicag.2020.105949' });
+
+      expect(notice?.status).toBe('retracted');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should only check the local index when offline', async () => {
+      expect(await checkRetraction({ doi: '10.1000/unknown' }, { online: false })).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('annotateRetractions', () => {
+    it('should attach notices to the affected evidence only', async () => {
+      const evidence = [
+        createEvidence('https://www.thelancet.com/journals/lancet/article/PIIS0140-6736(97)11096-0/fulltext'),
+        createEvidence('https://doi.org/10.1016/S0140-6736(97)11096-0'),
+      ];
+
+      const annotated = await annotateRetractions(evidence, { online: false });
+
+      expect(annotated[0].citation.retraction).toBeUndefined();
+      expect(isRetracted(annotated[1].citation)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for Search Provider Service
+ *
+ * Uses fake providers registered under test names; no network calls
+ */
+
+import {
+  registerSearchProvider,
+  configureSearchProviders,
+  getSearchProviders,
+  isSearchAvailable,
+  mergeResults,
+  search,
+  searchAcademic,
+} from '../searchProvider';
+import { SearchProvider, SearchResult } from '../../types/search';
+
+// ═══════════════════════════════════════════════════════════════
+// TEST HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+function result(url: string): SearchResult {
+  return { title: url, url, snippet: `Snippet for ${url}` };
+}
+
+function createProvider(name: string, overrides: Partial<SearchProvider> = {}): SearchProvider {
+  return {
+    name,
+    isConfigured: () => true,
+    academic: jest.fn(async () => ({ results: [result(`https://${name}.test/1`), result(`https://${name}.test/2`)] })),
+    ...overrides,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════
+
+describe('SearchProvider Service', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    configureSearchProviders(null);
+  });
+
+  describe('getSearchProviders', () => {
+    it('should use per-operation lists over the default', () => {
+      registerSearchProvider(createProvider('alpha'));
+      registerSearchProvider(createProvider('beta', { news: jest.fn() }));
+      configureSearchProviders({ default: ['beta'], academic: ['alpha', 'beta'] });
+
+      expect(getSearchProviders('academic').map((p) => p.name)).toEqual(['alpha', 'beta']);
+      expect(getSearchProviders('news').map((p) => p.name)).toEqual(['beta']);
+    });
+
+    it('should skip providers that are unconfigured, unknown or lack the operation', () => {
+      registerSearchProvider(createProvider('alpha'));
+      registerSearchProvider(createProvider('offline', { isConfigured: () => false }));
+      configureSearchProviders({ default: ['offline', 'missing', 'alpha'] });
+
+      expect(getSearchProviders('academic').map((p) => p.name)).toEqual(['alpha']);
+      expect(isSearchAvailable('factCheck')).toBe(false);
+    });
+  });
+
+  describe('mergeResults', () => {
+    it('should interleave providers by rank and drop duplicate URLs', () => {
+      const merged = mergeResults(
+        [
+          [result('a1'), result('shared'), result('a3')],
+          [result('shared'), result('b2')],
+        ],
+        4
+      );
+
+      expect(merged.map((r) => r.url)).toEqual(['a1', 'shared', 'b2', 'a3']);
+    });
+  });
+
+  describe('search', () => {
+    it('should combine results from every configured provider', async () => {
+      registerSearchProvider(createProvider('alpha'));
+      registerSearchProvider(createProvider('beta'));
+      configureSearchProviders({ default: ['alpha', 'beta'] });
+
+      const response = await searchAcademic('minimum wage', 3);
+
+      expect(response.results.map((r) => r.url)).toEqual([
+        'https://alpha.test/1',
+        'https://beta.test/1',
+        'https://alpha.test/2',
+      ]);
+      expect(response.results[1].provider).toBe('beta');
+    });
+
+    it('should keep results from providers that succeed when another fails', async () => {
+      registerSearchProvider(createProvider('alpha'));
+      registerSearchProvider(createProvider('broken', { academic: jest.fn().mockRejectedValue(new Error('503')) }));
+      configureSearchProviders({ default: ['broken', 'alpha'] });
+
+      const response = await search('academic', 'minimum wage', 10);
+      expect(response.results).toHaveLength(2);
+    });
+
+    it('should throw when every provider fails', async () => {
+      registerSearchProvider(createProvider('broken', { academic: jest.fn().mockRejectedValue(new Error('503')) }));
+      configureSearchProviders({ default: ['broken'] });
+
+      await expect(search('academic', 'minimum wage', 10)).rejects.toThrow('503');
+    });
+
+    it('should pass date bounds to providers and drop results published outside them', async () => {
+      const academic = jest.fn(async () => ({
+        results: [
+          { ...result('https://alpha.test/old'), publishedDate: '2019-06-01' },
+          { ...result('https://alpha.test/new'), publishedDate: '2023-06-01T00:00:00Z' },
+          result('https://alpha.test/undated'),
+        ],
+      }));
+      registerSearchProvider(createProvider('alpha', { academic }));
+      configureSearchProviders({ default: ['alpha'] });
+
+      const options = { startPublishedDate: '2023-01-01', endPublishedDate: '2023-12-31' };
+      const response = await searchAcademic('minimum wage', 10, options);
+
+      expect(academic).toHaveBeenCalledWith('minimum wage', 10, options);
+      expect(response.results.map((r) => r.url)).toEqual(['https://alpha.test/new', 'https://alpha.test/undated']);
+    });
+
+    it('should throw when no provider can serve the operation', async () => {
+      configureSearchProviders({ default: [] });
+
+      await expect(search('news', 'minimum wage', 10)).rejects.toThrow('No search provider configured for news search');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for Semantic Scholar Service
+ *
+ * Reference: EXPERT_EVALUATION_SPEC.md Part 7
+ *
+ * Runs offline against the fixture-backed client in fixtures/semanticScholar.json
+ */
+
+import {
+  lookupAuthor,
+  getQualityIndicators,
+  toQualityIndicators,
+  namesMatch,
+  affiliationsMatch,
+  selectAuthor,
+  createFixtureClient,
+  setClient,
+  SemanticScholarClient,
+  SemanticScholarFixtures,
+} from '../semanticScholar';
+import * as cache from '../cache';
+import fixtures from './fixtures/semanticScholar.json';
+
+jest.mock('../cache', () => ({
+  get: jest.fn(async () => null),
+  set: jest.fn(async () => true),
+}));
+
+const mockCacheGet = cache.get as jest.MockedFunction<typeof cache.get>;
+const mockCacheSet = cache.set as jest.MockedFunction<typeof cache.set>;
+
+describe('SemanticScholar Service', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    setClient(createFixtureClient(fixtures as SemanticScholarFixtures));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setClient(null);
+  });
+
+  describe('namesMatch', () => {
+    it('should match the same name ignoring honorifics and case', () => {
+      expect(namesMatch('Dr. Esther Duflo', 'Esther Duflo')).toBe(true);
+      expect(namesMatch('esther duflo', 'Esther Duflo')).toBe(true);
+    });
+
+    it('should match initials against full first names', () => {
+      expect(namesMatch('E. Duflo', 'Esther Duflo')).toBe(true);
+      expect(namesMatch('Esther Duflo', 'E Duflo')).toBe(true);
+    });
+
+    it('should not match different family or first names', () => {
+      expect(namesMatch('Esther Banerjee', 'Esther Duflo')).toBe(false);
+      expect(namesMatch('Emma Duflo', 'Esther Duflo')).toBe(false);
+    });
+  });
+
+  describe('affiliationsMatch', () => {
+    it('should match on distinctive affiliation words', () => {
+      expect(affiliationsMatch('Stanford', ['Stanford University'])).toBe(true);
+      expect(affiliationsMatch('MIT', ['MIT Department of Economics'])).toBe(true);
+    });
+
+    it('should not match on generic words alone', () => {
+      expect(affiliationsMatch('University of Chicago', ['Stanford University'])).toBe(false);
+    });
+  });
+
+  describe('selectAuthor', () => {
+    const smiths = fixtures.authors.filter((a) => a.name === 'John Smith');
+
+    it('should disambiguate same-name authors by affiliation', () => {
+      const match = selectAuthor({ name: 'John Smith', affiliation: 'University of Oxford' }, smiths);
+      expect(match?.authorId).toBe('2203302');
+    });
+
+    it('should return null for ambiguous names without affiliation', () => {
+      expect(selectAuthor({ name: 'John Smith' }, smiths)).toBeNull();
+    });
+
+    it('should accept a single name match even without affiliation data', () => {
+      const candidates = fixtures.authors.filter((a) => a.name === 'Maria Gonzalez');
+      const match = selectAuthor({ name: 'Maria Gonzalez', affiliation: 'Harvard' }, candidates);
+      expect(match?.authorId).toBe('3300417');
+    });
+  });
+
+  describe('lookupAuthor', () => {
+    it('should resolve a mention to an author with papers', async () => {
+      const author = await lookupAuthor({ name: 'Esther Duflo', affiliation: 'MIT' });
+
+      expect(author?.authorId).toBe('1741101');
+      expect(author?.hIndex).toBe(112);
+      expect(author?.citationCount).toBe(98500);
+      expect(author?.topPapers).toHaveLength(3);
+    });
+
+    it('should cache found authors', async () => {
+      await lookupAuthor({ name: 'Esther Duflo', affiliation: 'MIT' });
+
+      expect(mockCacheSet).toHaveBeenCalledWith(
+        's2author:esther duflo|mit',
+        expect.objectContaining({ author: expect.objectContaining({ authorId: '1741101' }) }),
+        expect.any(Number)
+      );
+    });
+
+    it('should serve cached results without calling the API', async () => {
+      const client: SemanticScholarClient = {
+        searchAuthors: jest.fn(),
+        getAuthorPapers: jest.fn(),
+      };
+      setClient(client);
+      mockCacheGet.mockResolvedValueOnce({ author: null });
+
+      const author = await lookupAuthor({ name: 'Esther Duflo' });
+
+      expect(author).toBeNull();
+      expect(client.searchAuthors).not.toHaveBeenCalled();
+    });
+
+    it('should cache negative results for unknown people', async () => {
+      const author = await lookupAuthor({ name: 'Nobody Inparticular' });
+
+      expect(author).toBeNull();
+      expect(mockCacheSet).toHaveBeenCalledWith(
+        expect.stringContaining('s2author:'),
+        { author: null },
+        expect.any(Number)
+      );
+    });
+
+    it('should not look up bare surnames', async () => {
+      expect(await lookupAuthor({ name: 'Duflo' })).toBeNull();
+      expect(mockCacheGet).not.toHaveBeenCalled();
+    });
+
+    it('should return null without caching when the API fails', async () => {
+      setClient({
+        searchAuthors: jest.fn().mockRejectedValue(new Error('Semantic Scholar API error: 429')),
+        getAuthorPapers: jest.fn(),
+      });
+
+      expect(await lookupAuthor({ name: 'Esther Duflo' })).toBeNull();
+      expect(mockCacheSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toQualityIndicators', () => {
+    it('should map citation metrics', async () => {
+      const author = await lookupAuthor({ name: 'Esther Duflo', affiliation: 'MIT' });
+      const indicators = toQualityIndicators(author!);
+
+      expect(indicators.hIndex).toBe(112);
+      expect(indicators.totalCitations).toBe(98500);
+      expect(indicators.relevantPublicationCount).toBe(412);
+      expect(indicators.yearsInField).toBe(new Date().getFullYear() - 2011);
+    });
+
+    it('should count only in-domain papers when a domain is given', async () => {
+      const author = await lookupAuthor({ name: 'John Smith', affiliation: 'Stanford' });
+      const indicators = toQualityIndicators(author!, 'medicine');
+
+      // Sleep/cardiovascular health and statin treatment papers; not urban planning
+      expect(indicators.relevantPublicationCount).toBe(2);
+    });
+  });
+
+  describe('getQualityIndicators', () => {
+    it('should return null for people who cannot be resolved', async () => {
+      expect(await getQualityIndicators({ name: 'John Smith' })).toBeNull();
+    });
+  });
+});
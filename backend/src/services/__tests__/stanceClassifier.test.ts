@@ -0,0 +1,190 @@
+/**
+ * Tests for Stance Classifier Service
+ *
+ * Reference: EXPERT_EVALUATION_SPEC.md Part 6
+ */
+
+import {
+  classifyEvidenceStances,
+  classifyStanceHeuristically,
+  isLLMStanceAvailable,
+} from '../stanceClassifier';
+import { DirectedEvidence } from '../../types/consensus';
+import { openaiService } from '../openai';
+import { isOverBudget } from '../costTracker';
+import { isLLMConfigured } from '../llmProvider';
+
+jest.mock('../llmProvider', () => ({
+  isLLMConfigured: jest.fn(() => true),
+}));
+
+jest.mock('../openai', () => ({
+  openaiService: {
+    classifyEvidenceStance: jest.fn(),
+  },
+}));
+
+jest.mock('../costTracker', () => ({
+  isOverBudget: jest.fn(() => false),
+}));
+
+const mockClassify = openaiService.classifyEvidenceStance as jest.MockedFunction<
+  typeof openaiService.classifyEvidenceStance
+>;
+const mockIsOverBudget = isOverBudget as jest.MockedFunction<typeof isOverBudget>;
+const mockIsLLMConfigured = isLLMConfigured as jest.MockedFunction<typeof isLLMConfigured>;
+
+function createEvidence(keyFinding: string, overrides: Partial<DirectedEvidence> = {}): DirectedEvidence {
+  return {
+    citation: {
+      title: 'Study title',
+      authors: [],
+      publication: 'journal.org',
+      year: 2022,
+      url: `https://journal.org/${encodeURIComponent(keyFinding.substring(0, 10))}`,
+    },
+    tier: 2,
+    category: 'peer_reviewed',
+    direction: 'neutral',
+    keyFinding,
+    ...overrides,
+  };
+}
+
+describe('StanceClassifier Service', () => {
+  beforeEach(() => {
+    mockIsOverBudget.mockReturnValue(false);
+  });
+
+  describe('classifyStanceHeuristically', () => {
+    it('should detect mixed findings', () => {
+      const result = classifyStanceHeuristically('Studies report mixed results on this question');
+      expect(result.direction).toBe('mixed');
+      expect(result.method).toBe('heuristic');
+    });
+
+    it('should detect null findings as opposing', () => {
+      const result = classifyStanceHeuristically('The trial found no significant effect on outcomes');
+      expect(result.direction).toBe('opposes');
+    });
+
+    it('should detect positive findings as supporting', () => {
+      const result = classifyStanceHeuristically('Researchers found that rates increased');
+      expect(result.direction).toBe('supports');
+    });
+
+    it('should default to neutral with low confidence', () => {
+      const result = classifyStanceHeuristically('An overview of the policy landscape');
+      expect(result.direction).toBe('neutral');
+      expect(result.confidence).toBeLessThan(0.3);
+    });
+  });
+
+  describe('isLLMStanceAvailable', () => {
+    it('should be available with a configured provider and budget remaining', () => {
+      expect(isLLMStanceAvailable()).toBe(true);
+    });
+
+    it('should be unavailable when over budget', () => {
+      mockIsOverBudget.mockReturnValue(true);
+      expect(isLLMStanceAvailable()).toBe(false);
+    });
+
+    it('should be unavailable when no LLM provider is configured', () => {
+      mockIsLLMConfigured.mockReturnValueOnce(false);
+      expect(isLLMStanceAvailable()).toBe(false);
+    });
+  });
+
+  describe('classifyEvidenceStances', () => {
+    it('should return empty evidence without calling the LLM', async () => {
+      const result = await classifyEvidenceStances('Claim', []);
+      expect(result).toEqual([]);
+      expect(mockClassify).not.toHaveBeenCalled();
+    });
+
+    it('should judge snippets against the claim in one batched call', async () => {
+      mockClassify.mockResolvedValueOnce({
+        stances: [
+          { index: 0, direction: 'opposes', confidence: 0.9, rationale: 'Finds no deterrent effect' },
+          { index: 1, direction: 'supports', confidence: 0.7, rationale: 'Reports lower homicide rates' },
+        ],
+        model: 'gpt-5-mini',
+      });
+
+      const evidence = [
+        createEvidence('The study found that executions had no measurable deterrent effect'),
+        createEvidence('States with capital punishment saw lower homicide rates'),
+      ];
+
+      const result = await classifyEvidenceStances('The death penalty deters crime', evidence);
+
+      expect(mockClassify).toHaveBeenCalledTimes(1);
+      expect(mockClassify.mock.calls[0][0]).toBe('The death penalty deters crime');
+      expect(mockClassify.mock.calls[0][1]).toHaveLength(2);
+
+      // "found that" would be 'supports' heuristically; the LLM reads the finding
+      expect(result[0].direction).toBe('opposes');
+      expect(result[0].directionConfidence).toBe(0.9);
+      expect(result[0].directionRationale).toBe('Finds no deterrent effect');
+      expect(result[0].directionMethod).toBe('llm');
+      expect(result[0].directionModel).toBe('gpt-5-mini');
+      expect(result[1].direction).toBe('supports');
+    });
+
+    it('should fall back to heuristics for snippets the LLM skipped', async () => {
+      mockClassify.mockResolvedValueOnce({
+        stances: [
+          { index: 0, direction: 'supports', confidence: 0.8, rationale: 'Consistent with claim' },
+          { index: 1, direction: 'bogus' as any, confidence: 0.8, rationale: 'Invalid' },
+        ],
+        model: 'gpt-5-mini',
+      });
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await classifyEvidenceStances('Claim', [
+        createEvidence('First snippet'),
+        createEvidence('Mixed evidence on this topic'),
+      ]);
+
+      expect(result[0].directionMethod).toBe('llm');
+      expect(result[1].directionMethod).toBe('heuristic');
+      expect(result[1].directionModel).toBeUndefined();
+      expect(result[1].direction).toBe('mixed');
+    });
+
+    it('should clamp confidence into 0-1', async () => {
+      mockClassify.mockResolvedValueOnce({
+        stances: [{ index: 0, direction: 'supports', confidence: 7, rationale: '' }],
+        model: 'gpt-5-mini',
+      });
+
+      const result = await classifyEvidenceStances('Claim', [createEvidence('Snippet')]);
+      expect(result[0].directionConfidence).toBe(1);
+    });
+
+    it('should fall back to heuristics when the LLM call fails', async () => {
+      mockClassify.mockRejectedValueOnce(new Error('OpenAI unavailable'));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await classifyEvidenceStances('Claim', [
+        createEvidence('The evidence shows no effect'),
+      ]);
+
+      expect(result[0].direction).toBe('opposes');
+      expect(result[0].directionMethod).toBe('heuristic');
+    });
+
+    it('should not call the LLM when over budget', async () => {
+      mockIsOverBudget.mockReturnValue(true);
+
+      const result = await classifyEvidenceStances('Claim', [
+        createEvidence('Researchers found that it works'),
+      ]);
+
+      expect(mockClassify).not.toHaveBeenCalled();
+      expect(result[0].direction).toBe('supports');
+      expect(result[0].directionMethod).toBe('heuristic');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for Timeframe Service
+ *
+ * Claims are resolved against a fixed publish date (Friday, March 15, 2024)
+ */
+
+import {
+  annotateTimeframes,
+  filterEvidenceByTimeframe,
+  getReferenceDate,
+  getResolvedClaimText,
+  getSearchOptions,
+  isPublishedWithin,
+  resolveTimeframe,
+} from '../timeframe';
+import { DirectedEvidence } from '../../types/consensus';
+
+const PUBLISHED = { date: new Date(Date.UTC(2024, 2, 15)), source: 'published' as const };
+
+function evidence(year: number): DirectedEvidence {
+  return {
+    citation: { title: `Study ${year}`, authors: [], publication: 'Journal', year, url: `https://example.org/${year}` },
+    tier: 2,
+    category: 'study',
+    direction: 'supports',
+    keyFinding: 'Finding',
+  };
+}
+
+describe('Timeframe Service', () => {
+  describe('getReferenceDate', () => {
+    it('should use the publish date, falling back to now', () => {
+      const now = new Date('2026-01-02T10:00:00Z');
+
+      expect(getReferenceDate({ publishedAt: '2024-03-15T18:30:00-04:00' }, now)).toEqual({
+        date: new Date('2024-03-15T00:00:00Z'),
+        source: 'published',
+      });
+      expect(getReferenceDate({}, now)).toEqual({ date: new Date('2026-01-02T00:00:00Z'), source: 'analysis' });
+      expect(getReferenceDate({ publishedAt: 'not a date' }, now).source).toBe('analysis');
+    });
+  });
+
+  describe('resolveTimeframe', () => {
+    it('should resolve relative years and months against the reference date', () => {
+      const lastYear = resolveTimeframe('Unemployment fell last year', PUBLISHED);
+      expect(lastYear).toMatchObject({
+        referenceDate: '2024-03-15',
+        referenceDateSource: 'published',
+        start: '2023-01-01',
+        end: '2023-12-31',
+        resolvedText: 'Unemployment fell in 2023',
+        evidenceFrom: '2023-01-01',
+      });
+      expect(lastYear!.evidenceUntil).toBeUndefined();
+
+      expect(resolveTimeframe('Two months ago, prices jumped', PUBLISHED)!.resolvedText)
+        .toBe('in January 2024, prices jumped');
+      expect(resolveTimeframe("Last year's budget was cut", PUBLISHED)!.resolvedText)
+        .toBe("2023's budget was cut");
+      expect(resolveTimeframe('Sales peaked in November', PUBLISHED)).toMatchObject({
+        start: '2023-11-01',
+        end: '2023-11-30',
+        resolvedText: 'Sales peaked in November 2023',
+      });
+    });
+
+    it('should resolve rolling windows up to the reference date', () => {
+      expect(resolveTimeframe('Crime rose in the past two years', PUBLISHED)).toMatchObject({
+        start: '2022-03-15',
+        end: '2024-03-15',
+        resolvedText: 'Crime rose between March 2022 and March 2024',
+      });
+    });
+
+    it('should bound present-state claims to the year before the reference date', () => {
+      const adverb = resolveTimeframe('Inflation is 3% today', PUBLISHED);
+      expect(adverb).toMatchObject({
+        resolvedText: 'Inflation is 3% as of March 2024',
+        evidenceFrom: '2023-03-15',
+        evidenceUntil: '2024-03-15',
+      });
+
+      expect(resolveTimeframe('The current secretary of state is Antony Blinken.', PUBLISHED)!.resolvedText)
+        .toBe('The current secretary of state is Antony Blinken (as of March 2024)');
+    });
+
+    it('should run "since" up to the reference date and keep absolute dates as written', () => {
+      expect(resolveTimeframe('Prices have doubled since 2019', PUBLISHED)).toMatchObject({
+        start: '2019-01-01',
+        end: '2024-03-15',
+        resolvedText: 'Prices have doubled since 2019',
+        evidenceFrom: '2019-01-01',
+      });
+      expect(resolveTimeframe('GDP grew 2% in Q2 2023', PUBLISHED)).toMatchObject({
+        start: '2023-04-01',
+        end: '2023-06-30',
+      });
+    });
+
+    it('should leave the evidence window open for predictions', () => {
+      const forecast = resolveTimeframe('Rates will fall next year', PUBLISHED);
+      expect(forecast).toMatchObject({ start: '2025-01-01', resolvedText: 'Rates will fall in 2025' });
+      expect(getSearchOptions(forecast!)).toEqual({});
+    });
+
+    it('should return null when the claim mentions no time', () => {
+      expect(resolveTimeframe('Vaccines do not cause autism', PUBLISHED)).toBeNull();
+      expect(resolveTimeframe('Officials may consider the plan', PUBLISHED)).toBeNull();
+    });
+  });
+
+  describe('annotateTimeframes', () => {
+    it('should resolve claims against the article and keep existing timeframes', () => {
+      const existing = resolveTimeframe('Unemployment fell last year', { date: new Date(Date.UTC(2020, 0, 1)), source: 'published' })!;
+      const claims: { text: string; timeframe?: typeof existing }[] = [
+        { text: 'Unemployment fell last year' },
+        { text: 'Wages rose last year', timeframe: existing },
+        { text: 'Vaccines do not cause autism' },
+      ];
+
+      annotateTimeframes(claims, { publishedAt: '2024-03-15' });
+
+      expect(getResolvedClaimText(claims[0])).toBe('Unemployment fell in 2023');
+      expect(claims[1].timeframe).toBe(existing);
+      expect(claims[2].timeframe).toBeUndefined();
+      expect(getResolvedClaimText(claims[2])).toBe('Vaccines do not cause autism');
+    });
+  });
+
+  describe('evidence window', () => {
+    it('should check publish dates against search bounds', () => {
+      const options = { startPublishedDate: '2023-01-01', endPublishedDate: '2023-12-31' };
+
+      expect(isPublishedWithin('2023-05-01T12:00:00Z', options)).toBe(true);
+      expect(isPublishedWithin('2022-12-31', options)).toBe(false);
+      expect(isPublishedWithin('2024-01-01', options)).toBe(false);
+      expect(isPublishedWithin(undefined, options)).toBe(true);
+      expect(isPublishedWithin('2019', options)).toBe(true);
+    });
+
+    it('should drop evidence from outside the window by year and keep undated evidence', () => {
+      const timeframe = resolveTimeframe('Inflation is 3% today', PUBLISHED)!;
+      const kept = filterEvidenceByTimeframe([evidence(2021), evidence(2023), evidence(2024), evidence(2025), evidence(0)], timeframe);
+
+      expect(kept.map((e) => e.citation.year)).toEqual([2023, 2024, 0]);
+      expect(filterEvidenceByTimeframe([evidence(2001)], undefined)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for Webhook Service
+ *
+ * Requests go to a mock of requestPublicUrl; address checks are real.
+ */
+
+import { lookup } from 'dns/promises';
+import { deliverWebhook, isValidWebhookUrl } from '../webhook';
+import { requestPublicUrl } from '../publicHttp';
+
+jest.mock('dns/promises', () => ({
+  lookup: jest.fn(),
+}));
+
+jest.mock('../publicHttp', () => ({
+  ...jest.requireActual('../publicHttp'),
+  requestPublicUrl: jest.fn(),
+}));
+
+const mockLookup = lookup as unknown as jest.Mock;
+const mockRequest = requestPublicUrl as jest.Mock;
+
+describe('Webhook Service', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mockRequest.mockReset();
+    mockLookup.mockReset();
+    jest.restoreAllMocks();
+  });
+
+  describe('isValidWebhookUrl', () => {
+    it('should accept public http(s) URLs only', () => {
+      expect(isValidWebhookUrl('https://hooks.example.com/clearview')).toBe(true);
+      expect(isValidWebhookUrl('http://127.0.0.1:6379/')).toBe(false);
+      expect(isValidWebhookUrl('http://169.254.169.254/latest/meta-data')).toBe(false);
+      expect(isValidWebhookUrl('http://redis.internal/')).toBe(false);
+      expect(isValidWebhookUrl('ftp://hooks.example.com/')).toBe(false);
+    });
+  });
+
+  describe('deliverWebhook', () => {
+    const options = { backoffMs: 1, secret: '' };
+
+    it('should POST the payload and report delivery', async () => {
+      mockRequest.mockResolvedValue(new Response('ok', { status: 200 }));
+
+      const result = await deliverWebhook('https://hooks.example.com/x', 'job.completed', { id: 'job_1' }, options);
+
+      expect(result).toEqual({ delivered: true, attempts: 1, responseStatus: 200 });
+      expect(mockRequest).toHaveBeenCalledWith(
+        'https://hooks.example.com/x',
+        expect.objectContaining({ method: 'POST', body: '{"id":"job_1"}' })
+      );
+    });
+
+    it('should retry server errors', async () => {
+      mockRequest
+        .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+      const result = await deliverWebhook('https://hooks.example.com/x', 'job.completed', {}, options);
+
+      expect(result).toMatchObject({ delivered: true, attempts: 2 });
+    });
+
+    it('should not follow redirects', async () => {
+      mockRequest.mockResolvedValue(new Response(null, { status: 302, headers: { Location: 'http://127.0.0.1/' } }));
+
+      const result = await deliverWebhook('https://hooks.example.com/x', 'job.completed', {}, options);
+
+      expect(result).toEqual({ delivered: false, attempts: 1, responseStatus: 302, error: 'Receiver answered 302' });
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up at once on hosts that resolve to private addresses', async () => {
+      const actual = jest.requireActual('../publicHttp');
+      mockRequest.mockImplementation(actual.requestPublicUrl);
+      mockLookup.mockResolvedValue([{ address: '10.0.0.7', family: 4 }]);
+
+      const result = await deliverWebhook('https://rebind.example.com/x', 'job.completed', {}, options);
+
+      expect(result).toEqual({ delivered: false, attempts: 1, error: 'URL resolves to an address that is not allowed' });
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * API Key Service
+ * Issues, verifies and revokes the keys that callers send on /api/v1
+ *
+ * Keys live in Redis so every replica sees the same set:
+ *
+ *   apikey:{sha256}   JSON ApiKeyRecord
+ *   apikeys           hash of key id -> sha256 (for listing and revoking)
+ *
+ * Only the hash of a key is stored; the key itself is returned once, by
+ * createApiKey(). Issue keys with the admin command (src/scripts/apiKeys.ts).
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { config } from '../config';
+import { getClient } from './cache';
+import { createLogger } from './logger';
+import { ApiKeyQuota, ApiKeyRecord } from '../types/apiKey';
+
+const log = createLogger('ApiKeys');
+
+const KEY_PREFIX = 'cv_';
+const INDEX_KEY = 'apikeys';
+
+/**
+ * Characters of the key kept on the record for display
+ */
+const DISPLAY_PREFIX_LENGTH = 10;
+
+function recordKey(hash: string): string {
+  return `apikey:${hash}`;
+}
+
+/**
+ * SHA-256 of a key, hex
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Get Redis or fail: keys cannot be issued or checked without it
+ */
+async function requireClient() {
+  const client = await getClient();
+  if (!client) {
+    throw new Error('API key store unavailable (Redis is not connected)');
+  }
+  return client;
+}
+
+async function getRecordById(id: string): Promise<{ hash: string; record: ApiKeyRecord } | null> {
+  const client = await requireClient();
+  const hash = await client.hget(INDEX_KEY, id);
+  if (!hash) {
+    return null;
+  }
+
+  const stored = await client.get(recordKey(hash));
+  return stored ? { hash, record: JSON.parse(stored) as ApiKeyRecord } : null;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ADMIN
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Issue a new key
+ * @param name - Who the key is for
+ * @param quota - Overrides for API_KEY_DAILY_QUOTA / API_KEY_MONTHLY_QUOTA
+ * @returns The key (shown only now) and its stored record
+ */
+export async function createApiKey(
+  name: string,
+  quota: Partial<ApiKeyQuota> = {}
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const client = await requireClient();
+  const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+  const hash = hashApiKey(key);
+
+  const record: ApiKeyRecord = {
+    id: `key_${randomBytes(6).toString('hex')}`,
+    name,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    quota: {
+      daily: quota.daily !== undefined ? quota.daily : config.apiKeys.defaultDailyQuota,
+      monthly: quota.monthly !== undefined ? quota.monthly : config.apiKeys.defaultMonthlyQuota,
+    },
+    createdAt: new Date().toISOString(),
+  };
+
+  await client.multi().set(recordKey(hash), JSON.stringify(record)).hset(INDEX_KEY, record.id, hash).exec();
+  log.info(`Created key ${record.id} (${record.name})`);
+
+  return { key, record };
+}
+
+/**
+ * List every issued key, oldest first (revoked keys included)
+ */
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  const client = await requireClient();
+  const hashes = Object.values(await client.hgetall(INDEX_KEY));
+  if (hashes.length === 0) {
+    return [];
+  }
+
+  const stored = await client.mget(...hashes.map(recordKey));
+  return stored
+    .filter((entry): entry is string => !!entry)
+    .map((entry) => JSON.parse(entry) as ApiKeyRecord)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Revoke a key; the record is kept so its charges stay attributable
+ * @returns The updated record, or null if no key has that id
+ */
+export async function revokeApiKey(id: string): Promise<ApiKeyRecord | null> {
+  const found = await getRecordById(id);
+  if (!found) {
+    return null;
+  }
+
+  const record: ApiKeyRecord = { ...found.record, revokedAt: found.record.revokedAt || new Date().toISOString() };
+  const client = await requireClient();
+  await client.set(recordKey(found.hash), JSON.stringify(record));
+  log.info(`Revoked key ${id}`);
+
+  return record;
+}
+
+/**
+ * Change a key's quotas
+ * @returns The updated record, or null if no key has that id
+ */
+export async function setApiKeyQuota(id: string, quota: Partial<ApiKeyQuota>): Promise<ApiKeyRecord | null> {
+  const found = await getRecordById(id);
+  if (!found) {
+    return null;
+  }
+
+  const record: ApiKeyRecord = { ...found.record, quota: { ...found.record.quota, ...quota } };
+  const client = await requireClient();
+  await client.set(recordKey(found.hash), JSON.stringify(record));
+
+  return record;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// VERIFICATION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Look up the record for a key sent by a caller
+ * @returns The record, or null if the key is unknown or revoked
+ * @throws If the key store is unavailable
+ */
+export async function verifyApiKey(key: string): Promise<ApiKeyRecord | null> {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const client = await requireClient();
+  const stored = await client.get(recordKey(hashApiKey(key)));
+  if (!stored) {
+    return null;
+  }
+
+  const record = JSON.parse(stored) as ApiKeyRecord;
+  return record.revokedAt ? null : record;
+}
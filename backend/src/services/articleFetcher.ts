@@ -0,0 +1,557 @@
+/**
+ * Article Fetcher
+ * Downloads a news page and extracts the article from it
+ *
+ * Used by POST /articles/fetch, by /analyze and /evaluate when a request
+ * gives only a URL, and by batch evaluations. Extraction follows the
+ * readability approach: paragraphs score their parent and grandparent
+ * elements (more text and commas score higher, class names like "comment"
+ * or "sidebar" lower, link-heavy blocks lower), and the best-scoring block
+ * plus similar siblings is taken as the article body. Title, byline,
+ * publish date and canonical URL come from meta/link tags and JSON-LD.
+ *
+ * Only public http(s) addresses are fetched: every host, including each
+ * redirect target, is resolved and refused if any address is private, and
+ * the connection is made to the address that was checked (publicHttp.ts).
+ * Downloads stop at ARTICLE_FETCH_MAX_BYTES and ARTICLE_FETCH_TIMEOUT_MS.
+ */
+
+import { TextDecoder } from 'util';
+import { config } from '../config';
+import { assertPublicUrl, requestPublicUrl } from './publicHttp';
+import { ArticleLink, FetchedArticle } from '../types/article';
+
+export { isFetchableUrl, isPrivateAddress } from './publicHttp';
+
+const USER_AGENT = 'ClearView-News/1.0 (+article evaluation)';
+
+/**
+ * Shortest paragraph text treated as article body
+ */
+const MIN_PARAGRAPH_LENGTH = 40;
+
+/**
+ * Shortest article text worth evaluating
+ */
+const MIN_CONTENT_LENGTH = 200;
+
+/**
+ * Most body links returned per article
+ */
+const MAX_LINKS = 200;
+
+// ═══════════════════════════════════════════════════════════════
+// HTML PARSING
+// ═══════════════════════════════════════════════════════════════
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: (HtmlElement | string)[];
+  parent?: HtmlElement;
+}
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+/**
+ * Tags that end an open <p> (browsers close it implicitly)
+ */
+const CLOSES_PARAGRAPH = new Set([
+  'p', 'div', 'section', 'article', 'aside', 'ul', 'ol', 'table', 'blockquote', 'pre', 'figure',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'footer', 'nav', 'form',
+]);
+
+/**
+ * Elements never part of an article body
+ */
+const REMOVED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'nav', 'aside', 'footer', 'form', 'button', 'select',
+]);
+
+/**
+ * Class or id of blocks that are rarely the article (comments, promos, menus)
+ */
+const UNLIKELY_CANDIDATE = /comment|footer|sidebar|related|share|social|promo|newsletter|subscribe|cookie|popup|advert|sponsor|outbrain|taboola|menu|breadcrumb|masthead|disqus|banner/i;
+const MAYBE_CANDIDATE = /article|body|content|main|story|column/i;
+
+const POSITIVE_CLASS = /article|body|content|entry|hentry|main|page|post|story|text|blog/i;
+const NEGATIVE_CLASS = /comment|footer|footnote|meta|nav|related|share|sidebar|sponsor|promo|widget|tags|byline|caption/i;
+
+/**
+ * Decode the HTML entities that commonly appear in article text
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', mdash: '—', ndash: '–', hellip: '…',
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, doubled, single, bare] of source.matchAll(/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attrs[name.toLowerCase()] = decodeEntities(doubled ?? single ?? bare ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Build a lenient element tree: unknown closing tags are ignored and
+ * unclosed elements end with their parent, as in a browser
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [] };
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, ' ');
+
+  let current = root;
+  for (const [token, closing, rawTag, rawAttrs] of cleaned.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9-]*)([^>]*)>|[^<]+|</g)) {
+    if (!rawTag) {
+      current.children.push(token);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      let open: HtmlElement | undefined = current;
+      while (open && open.tag !== tag) open = open.parent;
+      if (open?.parent) current = open.parent;
+      continue;
+    }
+
+    if (CLOSES_PARAGRAPH.has(tag)) {
+      let open: HtmlElement | undefined = current;
+      while (open && open.tag !== 'p' && !CLOSES_PARAGRAPH.has(open.tag)) open = open.parent;
+      if (open?.tag === 'p' && open.parent) current = open.parent;
+    }
+
+    const element: HtmlElement = { tag, attrs: parseAttributes(rawAttrs), children: [], parent: current };
+    current.children.push(element);
+    if (!VOID_TAGS.has(tag) && !rawAttrs.trim().endsWith('/')) {
+      current = element;
+    }
+  }
+  return root;
+}
+
+function* walk(element: HtmlElement): Generator<HtmlElement> {
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    yield child;
+    yield* walk(child);
+  }
+}
+
+function textOf(node: HtmlElement | string): string {
+  const raw = typeof node === 'string' ? node : node.children.map(textOf).join(node.tag === 'br' ? '\n' : ' ');
+  return decodeEntities(raw).replace(/\s+/g, ' ').trim();
+}
+
+function classAndId(element: HtmlElement): string {
+  return `${element.attrs.class || ''} ${element.attrs.id || ''}`;
+}
+
+/**
+ * Share of an element's text that is link text
+ */
+function linkDensity(element: HtmlElement): number {
+  const length = textOf(element).length;
+  if (length === 0) return 0;
+  let linkLength = 0;
+  for (const el of walk(element)) {
+    if (el.tag === 'a') linkLength += textOf(el).length;
+  }
+  return Math.min(1, linkLength / length);
+}
+
+/**
+ * Drop elements that are never (or rarely) part of the article
+ */
+function removeBoilerplate(element: HtmlElement): void {
+  element.children = element.children.filter((child) => {
+    if (typeof child === 'string') return true;
+    if (REMOVED_TAGS.has(child.tag) || child.attrs.hidden !== undefined || child.attrs['aria-hidden'] === 'true') {
+      return false;
+    }
+    const names = classAndId(child);
+    if (
+      child.tag !== 'body' && child.tag !== 'article' && child.tag !== 'main' &&
+      UNLIKELY_CANDIDATE.test(names) && !MAYBE_CANDIDATE.test(names)
+    ) {
+      return false;
+    }
+    removeBoilerplate(child);
+    return true;
+  });
+}
+
+function initialScore(element: HtmlElement): number {
+  const names = classAndId(element);
+  let score = (POSITIVE_CLASS.test(names) ? 25 : 0) - (NEGATIVE_CLASS.test(names) ? 25 : 0);
+  if (['div', 'article', 'section', 'main'].includes(element.tag)) score += 5;
+  if (['pre', 'td', 'blockquote'].includes(element.tag)) score += 3;
+  if (['ol', 'ul', 'dl', 'li', 'form'].includes(element.tag)) score -= 3;
+  if (/^h[1-6]$|^th$/.test(element.tag)) score -= 5;
+  return score;
+}
+
+/**
+ * The element(s) holding the article body, best first in document order
+ */
+function findContentBlocks(body: HtmlElement): HtmlElement[] {
+  const scores = new Map<HtmlElement, number>();
+  const addScore = (element: HtmlElement | undefined, amount: number) => {
+    if (!element || element.tag === '#root') return;
+    scores.set(element, (scores.get(element) ?? initialScore(element)) + amount);
+  };
+
+  for (const el of walk(body)) {
+    if (el.tag !== 'p' && el.tag !== 'pre') continue;
+    const text = textOf(el);
+    if (text.length < 25) continue;
+    const commas = text.split(',').length - 1;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+    addScore(el.parent, score);
+    addScore(el.parent?.parent, score / 2);
+  }
+
+  let top: HtmlElement | undefined;
+  let topScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    scores.set(element, adjusted);
+    if (adjusted > topScore) {
+      top = element;
+      topScore = adjusted;
+    }
+  }
+  if (!top) return [];
+
+  // Siblings that look like more of the article (split layouts, pull quotes)
+  const threshold = Math.max(10, topScore * 0.2);
+  return (top.parent?.children || [top]).filter((sibling): sibling is HtmlElement => {
+    if (typeof sibling === 'string') return false;
+    if (sibling === top) return true;
+    if ((scores.get(sibling) ?? 0) >= threshold) return true;
+    if (sibling.tag === 'p') {
+      const text = textOf(sibling);
+      return text.length > 80 && linkDensity(sibling) < 0.25;
+    }
+    return false;
+  });
+}
+
+/**
+ * Paragraph texts inside these blocks, in order
+ */
+function collectParagraphs(blocks: HtmlElement[]): string[] {
+  const paragraphs: string[] = [];
+  for (const block of blocks) {
+    const elements = block.tag === 'p' ? [block] : [...walk(block)];
+    for (const el of elements) {
+      if (!['p', 'pre', 'blockquote'].includes(el.tag)) continue;
+      // Paragraphs in blockquotes are taken on their own
+      if (el.tag === 'blockquote' && [...walk(el)].some((child) => child.tag === 'p')) continue;
+      const text = textOf(el);
+      if (text.length >= MIN_PARAGRAPH_LENGTH && linkDensity(el) < 0.5) {
+        paragraphs.push(text);
+      }
+    }
+  }
+  return paragraphs;
+}
+
+function collectLinks(blocks: HtmlElement[], pageUrl: string): ArticleLink[] {
+  const pageHost = new URL(pageUrl).hostname.replace(/^www\./, '');
+  const links = new Map<string, ArticleLink>();
+
+  for (const block of blocks) {
+    for (const el of [block, ...walk(block)]) {
+      if (el.tag !== 'a' || !el.attrs.href || links.size >= MAX_LINKS) continue;
+      let url: URL;
+      try {
+        url = new URL(el.attrs.href, pageUrl);
+      } catch {
+        continue;
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+      url.hash = '';
+      if (url.href === pageUrl || links.has(url.href)) continue;
+
+      links.set(url.href, {
+        url: url.href,
+        text: textOf(el),
+        external: url.hostname.replace(/^www\./, '') !== pageHost,
+      });
+    }
+  }
+  return [...links.values()];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// METADATA
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Content of the first <meta> tag with one of these names (property, name or itemprop)
+ */
+function getMeta(root: HtmlElement, ...keys: string[]): string | undefined {
+  const metas = [...walk(root)].filter((el) => el.tag === 'meta');
+  for (const key of keys) {
+    for (const meta of metas) {
+      const name = (meta.attrs.property || meta.attrs.name || meta.attrs.itemprop || '').toLowerCase();
+      const content = meta.attrs.content?.trim();
+      if (name === key && content) return content;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Objects of the page's JSON-LD blocks (including @graph members)
+ */
+function readJsonLd(html: string): Record<string, any>[] {
+  const objects: Record<string, any>[] = [];
+  const blocks = html.matchAll(/<script[^>]+type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+  for (const [, json] of blocks) {
+    try {
+      const parsed = JSON.parse(json.trim());
+      for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+        if (item && typeof item === 'object') {
+          objects.push(item, ...(Array.isArray(item['@graph']) ? item['@graph'] : []));
+        }
+      }
+    } catch {
+      // Malformed JSON-LD is common; the meta tags usually cover it
+    }
+  }
+  return objects.filter((o) => o && typeof o === 'object');
+}
+
+/**
+ * The JSON-LD object describing the article, if any
+ */
+function findJsonLdArticle(objects: Record<string, any>[]): Record<string, any> | undefined {
+  return objects.find((o) => {
+    const types = ([] as string[]).concat(o['@type'] || []);
+    return types.some((t) => /Article|Posting|Report/i.test(t));
+  });
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const time = Date.parse(value.trim());
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+function findPublishedAt(root: HtmlElement, ldArticle: Record<string, any> | undefined): string | undefined {
+  const fromMeta = getMeta(
+    root,
+    'article:published_time', 'datepublished', 'og:published_time', 'publishdate', 'pubdate',
+    'parsely-pub-date', 'sailthru.date', 'dc.date.issued', 'dc.date', 'date'
+  );
+  const time = [...walk(root)].find((el) => el.tag === 'time' && el.attrs.datetime && (el.attrs.pubdate !== undefined || el.attrs.itemprop === 'datePublished'))
+    || [...walk(root)].find((el) => el.tag === 'time' && el.attrs.datetime);
+
+  return toIsoDate(fromMeta) || toIsoDate(ldArticle?.datePublished) || toIsoDate(time?.attrs.datetime);
+}
+
+/**
+ * The page's <link rel="canonical">, resolved against its address
+ */
+function findCanonicalUrl(root: HtmlElement, pageUrl: string): string | undefined {
+  const link = [...walk(root)].find((el) => el.tag === 'link' && /(^|\s)canonical(\s|$)/i.test(el.attrs.rel || '') && el.attrs.href);
+  if (!link) return undefined;
+  try {
+    const resolved = new URL(decodeEntities(link.attrs.href.trim()), pageUrl);
+    return /^https?:$/.test(resolved.protocol) ? resolved.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function findByline(root: HtmlElement, ldArticle: Record<string, any> | undefined): string | undefined {
+  const isName = (value: string | undefined): value is string => !!value && !/^https?:\/\//i.test(value) && value.length < 120;
+  const clean = (value: string) => value.replace(/^by\s+/i, '').trim();
+
+  const fromMeta = getMeta(root, 'author', 'article:author', 'parsely-author', 'dc.creator');
+  if (isName(fromMeta)) return clean(fromMeta);
+
+  const ldAuthors = ([] as any[])
+    .concat(ldArticle?.author || [])
+    .map((a) => (typeof a === 'string' ? a : a?.name))
+    .filter((name): name is string => typeof name === 'string' && name.trim().length > 0);
+  if (ldAuthors.length > 0) return ldAuthors.join(', ');
+
+  for (const el of walk(root)) {
+    if (el.attrs.rel === 'author' || el.attrs.itemprop === 'author' || /\bbyline\b|\bauthor\b/i.test(classAndId(el))) {
+      const text = textOf(el);
+      if (isName(text) && text.length > 2) return clean(text);
+    }
+  }
+  return undefined;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EXTRACTION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Pull an article out of a page's HTML
+ * @param html - The page
+ * @param url - Where it was fetched from (source name, link resolution)
+ * @throws If the page has no usable article text
+ */
+export function extractArticle(html: string, url: string): FetchedArticle {
+  const root = parseHtml(html);
+  const ldArticle = findJsonLdArticle(readJsonLd(html));
+
+  const title = getMeta(root, 'og:title', 'twitter:title')
+    || (typeof ldArticle?.headline === 'string' ? ldArticle.headline.trim() : '')
+    || textOf([...walk(root)].find((el) => el.tag === 'title') || '');
+  const source = getMeta(root, 'og:site_name', 'application-name') || new URL(url).hostname.replace(/^www\./, '');
+  const author = findByline(root, ldArticle);
+  const publishedAt = findPublishedAt(root, ldArticle);
+  const canonicalUrl = findCanonicalUrl(root, url);
+
+  removeBoilerplate(root);
+  const body = [...walk(root)].find((el) => el.tag === 'body') || root;
+
+  let blocks = findContentBlocks(body);
+  let paragraphs = collectParagraphs(blocks);
+  if (paragraphs.join('\n\n').length < MIN_CONTENT_LENGTH) {
+    // No single block holds the article: take every paragraph on the page
+    blocks = [body];
+    paragraphs = collectParagraphs(blocks);
+  }
+  const content = paragraphs.join('\n\n');
+
+  if (!title) {
+    throw new Error('Page has no title');
+  }
+  if (content.length < MIN_CONTENT_LENGTH) {
+    throw new Error('No article text found on the page');
+  }
+
+  return {
+    title,
+    source,
+    content,
+    url,
+    ...(author && { author }),
+    ...(publishedAt && { publishedAt }),
+    ...(canonicalUrl && { canonicalUrl }),
+    links: collectLinks(blocks, url),
+    wordCount: content.split(/\s+/).length,
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FETCHING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Read a response body, giving up past maxBytes
+ */
+async function readBody(response: Response, maxBytes: number): Promise<string> {
+  if (Number(response.headers.get('content-length') || 0) > maxBytes) {
+    throw new Error('Page is too large');
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw new Error('Page is too large');
+      }
+      chunks.push(value);
+    }
+  }
+
+  const charset = response.headers.get('content-type')?.match(/charset=["']?([\w-]+)/i)?.[1];
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset || 'utf-8');
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+  return decoder.decode(Buffer.concat(chunks));
+}
+
+/**
+ * Request a page, checking every redirect target before following it
+ */
+async function requestPage(url: string, signal: AbortSignal): Promise<{ response: Response; url: string }> {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(current);
+
+    const response = await requestPublicUrl(current, {
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+      signal,
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: current };
+    }
+    // Release the connection the redirect's body holds
+    await response.body?.cancel();
+    if (redirects >= config.articleFetch.maxRedirects) {
+      throw new Error('Page redirected too many times');
+    }
+    current = new URL(location, current).href;
+  }
+}
+
+/**
+ * Download and extract an article
+ * @throws If the URL is not allowed, the download fails or no article text is found
+ */
+export async function fetchArticle(url: string): Promise<FetchedArticle> {
+  const { timeoutMs, maxBytes } = config.articleFetch;
+  const signal = AbortSignal.timeout(timeoutMs);
+
+  try {
+    const { response, url: finalUrl } = await requestPage(url, signal);
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Page answered ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!/html/i.test(contentType)) {
+      await response.body?.cancel();
+      throw new Error(`Not an HTML page (${contentType || 'unknown type'})`);
+    }
+
+    return extractArticle(await readBody(response, maxBytes), finalUrl);
+  } catch (error) {
+    if ((error as Error).name === 'TimeoutError' || signal.aborted) {
+      throw new Error(`Page took longer than ${Math.round(timeoutMs / 1000)}s to load`);
+    }
+    // Connection errors (ECONNREFUSED, certificate errors...) carry a code
+    if ((error as NodeJS.ErrnoException).code) {
+      throw new Error(`Could not reach the page: ${(error as Error).message}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,422 @@
+/**
+ * Article Revisions Service
+ * Versions of an article that was edited after it was first analyzed
+ *
+ * Publishers change headlines and add or remove paragraphs without notice.
+ * The analysis cache is keyed by canonical URL and content hash, so an
+ * edited article misses the cache; this service keeps the versions seen
+ * under its canonical URL, diffs their text sentence by sentence and
+ * reports which claims and bias indicators came or went.
+ *
+ * When an edit is small (ARTICLE_REVISIONS_PARTIAL_MAX_CHANGE), the stream
+ * endpoint analyzes only the added passages and merges the result into
+ * the previous analysis (mergeRevisionAnalysis).
+ *
+ *   article:revisions:{md5 of client + canonical URL}   list of JSON StoredRevision, oldest first
+ *
+ * Article text comes from the caller, so each client (API key) has its own
+ * history: one client's versions can neither show up in another's history
+ * nor become the base another's edit is diffed and merged against.
+ * Versions are appended with a compare-and-set on the newest revision
+ * number, so concurrent analyses never share a number.
+ *
+ * The newest ARTICLE_REVISIONS_MAX versions are kept for
+ * ARTICLE_REVISIONS_RETENTION_DAYS after the last one. Without Redis they
+ * are kept in this process.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+import { getClient } from './cache';
+import { hashContent } from './canonicalUrl';
+import { tokenizeClaim } from './claimStore';
+import { normalizeClaimText } from './evidenceCache';
+import { createLogger } from './logger';
+import { getRequestContext } from './requestContext';
+import {
+  AnalysisBiasIndicator,
+  AnalysisRevisionInfo,
+  ArticleRevision,
+  RevisionAnalysis,
+  RevisionChanges,
+  RevisionHistory,
+  StoredRevision,
+  TextDiff,
+} from '../types/revision';
+
+const log = createLogger('Revisions');
+
+/**
+ * Share of a claim's words a removed sentence must contain for the claim to be dropped
+ */
+const MIN_REMOVED_OVERLAP = 0.5;
+
+/**
+ * Tries at recording a revision when concurrent analyses keep adding one first
+ */
+const MAX_RECORD_ATTEMPTS = 3;
+
+/**
+ * Save ARGV[2] as the newest revision if the newest stored one is still
+ * revision ARGV[1] (0 = none): replacing it when ARGV[3] is '1', else
+ * appending and keeping the newest ARGV[4]. Refreshes the TTL (ARGV[5]).
+ * Returns 1 when saved, 0 when another revision got there first.
+ */
+const SAVE_REVISION_SCRIPT = `
+local newest = redis.call('LINDEX', KEYS[1], -1)
+local revision = newest and cjson.decode(newest).revision or 0
+if revision ~= tonumber(ARGV[1]) then
+  return 0
+end
+if ARGV[3] == '1' then
+  redis.call('LSET', KEYS[1], -1, ARGV[2])
+else
+  redis.call('RPUSH', KEYS[1], ARGV[2])
+  redis.call('LTRIM', KEYS[1], -tonumber(ARGV[4]), -1)
+end
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+return 1
+`;
+
+// Without Redis (keyed like Redis)
+const memoryRevisions = new Map<string, StoredRevision[]>();
+
+/**
+ * Key of the calling client's versions of an article
+ */
+function revisionsKey(canonicalUrl: string): string {
+  const client = getRequestContext()?.client || 'internal';
+  return `article:revisions:${crypto.createHash('md5').update(`${client}\n${canonicalUrl}`).digest('hex')}`;
+}
+
+/**
+ * Reset in-memory revisions (for testing)
+ */
+export function resetMemoryRevisions(): void {
+  memoryRevisions.clear();
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TEXT DIFF
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Split article text into sentences (paragraph breaks always end one)
+ */
+export function splitSentences(content: string): string[] {
+  return content
+    .split(/\n\s*\n|\r?\n/)
+    .flatMap((paragraph) => paragraph.replace(/\s+/g, ' ').trim().split(/(?<=[.!?]["”’)]?)\s+(?=["“‘(]?[A-Z0-9])/))
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function sentenceKey(sentence: string): string {
+  return sentence.toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Sentences added and removed between two versions of an article
+ * (longest common subsequence of sentences, so moved text counts as both)
+ */
+export function diffText(older: string, newer: string): TextDiff {
+  const a = splitSentences(older);
+  const b = splitSentences(newer);
+  const aKeys = a.map(sentenceKey);
+  const bKeys = b.map(sentenceKey);
+
+  // lengths[i][j]: LCS of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = aKeys[i] === bKeys[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (aKeys[i] === bKeys[j]) {
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  removed.push(...a.slice(i));
+  added.push(...b.slice(j));
+
+  const unchangedCount = lengths[0][0];
+  const total = a.length + b.length;
+  return {
+    added,
+    removed,
+    unchangedCount,
+    changedShare: total === 0 ? 0 : (added.length + removed.length) / total,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ANALYSIS CHANGES
+// ═══════════════════════════════════════════════════════════════
+
+function indicatorKey(indicator: AnalysisBiasIndicator): string {
+  return `${indicator.type}|${normalizeClaimText(indicator.original_text)}`;
+}
+
+/**
+ * Items of `next` not in `previous` and the reverse, compared by key
+ */
+function setDifference<T>(previous: T[], next: T[], key: (item: T) => string): { added: T[]; removed: T[] } {
+  const previousKeys = new Set(previous.map(key));
+  const nextKeys = new Set(next.map(key));
+  return {
+    added: next.filter((item) => !previousKeys.has(key(item))),
+    removed: previous.filter((item) => !nextKeys.has(key(item))),
+  };
+}
+
+/**
+ * Claims (key facts) and bias indicators that came or went between two analyses
+ */
+export function compareAnalyses(
+  previous: { title: string; analysis: RevisionAnalysis },
+  next: { title: string; analysis: RevisionAnalysis }
+): RevisionChanges {
+  const claims = setDifference(previous.analysis.summary.key_facts, next.analysis.summary.key_facts, normalizeClaimText);
+  const indicators = setDifference(previous.analysis.bias_indicators, next.analysis.bias_indicators, indicatorKey);
+
+  const changes: RevisionChanges = {
+    addedClaims: claims.added,
+    removedClaims: claims.removed,
+    addedBiasIndicators: indicators.added,
+    removedBiasIndicators: indicators.removed,
+  };
+  if (previous.title.trim() !== next.title.trim()) {
+    changes.title = { from: previous.title, to: next.title };
+  }
+  const from = previous.analysis.bias_score?.score;
+  const to = next.analysis.bias_score?.score;
+  if (from !== undefined && to !== undefined && from !== to) {
+    changes.biasScore = { from, to };
+  }
+  return changes;
+}
+
+/**
+ * Items in order without repeats, compared by key
+ */
+function unique<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Share of a claim's words that a sentence contains
+ */
+function overlap(claimTokens: Set<string>, sentence: string): number {
+  if (claimTokens.size === 0) return 0;
+  const sentenceTokens = tokenizeClaim(normalizeClaimText(sentence));
+  let shared = 0;
+  for (const token of claimTokens) {
+    if (sentenceTokens.has(token)) shared++;
+  }
+  return shared / claimTokens.size;
+}
+
+/**
+ * The previous analysis updated with an analysis of the changed passages only
+ * - Key facts drawn from removed sentences (closer to one of them than to
+ *   any sentence still in the article) are dropped; the passages' are added
+ * - Bias indicators are kept while their quoted text is still in the article
+ * - Missing context is kept and extended
+ *
+ * @param passages - Analysis of the added sentences (empty when text was only removed)
+ */
+export function mergeRevisionAnalysis(
+  previous: RevisionAnalysis,
+  passages: { key_facts: string[]; missing_context: string[]; bias_indicators: AnalysisBiasIndicator[] },
+  diff: TextDiff,
+  content: string
+): { key_facts: string[]; missing_context: string[]; bias_indicators: AnalysisBiasIndicator[] } {
+  const current = splitSentences(content);
+  const keptFacts = previous.summary.key_facts.filter((fact) => {
+    const tokens = tokenizeClaim(normalizeClaimText(fact));
+    const removedOverlap = Math.max(0, ...diff.removed.map((sentence) => overlap(tokens, sentence)));
+    if (removedOverlap < MIN_REMOVED_OVERLAP) return true;
+    return Math.max(0, ...current.map((sentence) => overlap(tokens, sentence))) >= removedOverlap;
+  });
+
+  const normalizedContent = normalizeClaimText(content);
+  const keptIndicators = previous.bias_indicators.filter((indicator) =>
+    normalizedContent.includes(normalizeClaimText(indicator.original_text))
+  );
+
+  return {
+    key_facts: unique([...keptFacts, ...passages.key_facts], normalizeClaimText),
+    missing_context: unique([...previous.summary.missing_context, ...passages.missing_context], normalizeClaimText),
+    bias_indicators: unique([...keptIndicators, ...passages.bias_indicators], indicatorKey),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════════
+
+async function loadRevisions(key: string): Promise<StoredRevision[]> {
+  const client = await getClient();
+  if (client) {
+    const items = await client.lrange(key, 0, -1);
+    return items.map((item) => JSON.parse(item) as StoredRevision);
+  }
+  return memoryRevisions.get(key) || [];
+}
+
+/**
+ * Save a revision if the newest stored one is still `expectedRevision`:
+ * replaces the newest when `replace` is set, else appended (dropping the
+ * oldest beyond ARTICLE_REVISIONS_MAX)
+ * @returns false when another revision was saved since they were loaded
+ */
+async function saveRevision(key: string, revision: StoredRevision, replace: boolean, expectedRevision: number): Promise<boolean> {
+  const { maxStored, retentionDays } = config.articleRevisions;
+  const client = await getClient();
+  if (client) {
+    const saved = await client.eval(
+      SAVE_REVISION_SCRIPT,
+      1,
+      key,
+      expectedRevision,
+      JSON.stringify(revision),
+      replace ? '1' : '0',
+      maxStored,
+      retentionDays * 24 * 3600
+    );
+    return saved === 1;
+  }
+  const revisions = memoryRevisions.get(key) || [];
+  if ((revisions[revisions.length - 1]?.revision || 0) !== expectedRevision) {
+    return false;
+  }
+  if (replace) {
+    revisions[revisions.length - 1] = revision;
+  } else {
+    revisions.push(revision);
+  }
+  memoryRevisions.set(key, revisions.slice(-maxStored));
+  return true;
+}
+
+function toArticleRevision(stored: StoredRevision): ArticleRevision {
+  const { content: _content, analysis: _analysis, ...revision } = stored;
+  return revision;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * The newest version the calling client stored for an article, to diff an
+ * incoming one against
+ * @param canonicalUrl - From canonicalizeUrl()
+ */
+export async function getLatestRevision(canonicalUrl: string): Promise<StoredRevision | null> {
+  const revisions = await loadRevisions(revisionsKey(canonicalUrl));
+  return revisions[revisions.length - 1] || null;
+}
+
+/**
+ * Record an analyzed version of an article in the calling client's history
+ * The same text as the newest revision (re-analyzed after the cache
+ * expired) replaces it; other text becomes the next revision, with its
+ * diff and the changes from the previous analysis.
+ *
+ * @param canonicalUrl - From canonicalizeUrl()
+ * @param entry.diff - Against the newest revision, if the caller already computed it
+ * @returns What the analysis response reports about the revision
+ * @throws If concurrent analyses kept recording revisions first
+ */
+export async function recordRevision(
+  canonicalUrl: string,
+  entry: {
+    title: string;
+    content: string;
+    analysis: RevisionAnalysis;
+    reanalysis: 'full' | 'partial';
+    diff?: TextDiff;
+  }
+): Promise<AnalysisRevisionInfo> {
+  const key = revisionsKey(canonicalUrl);
+  const contentHash = hashContent(entry.content);
+
+  for (let attempt = 1; attempt <= MAX_RECORD_ATTEMPTS; attempt++) {
+    const revisions = await loadRevisions(key);
+    const latest = revisions[revisions.length - 1];
+    const analyzedAt = new Date().toISOString();
+
+    let stored: StoredRevision;
+    const replace = latest?.contentHash === contentHash;
+    if (replace) {
+      stored = { ...latest, title: entry.title, analyzedAt, analysis: entry.analysis };
+    } else {
+      stored = {
+        revision: (latest?.revision || 0) + 1,
+        contentHash,
+        title: entry.title,
+        analyzedAt,
+        reanalysis: latest ? entry.reanalysis : 'full',
+        content: entry.content,
+        analysis: entry.analysis,
+      };
+      if (latest) {
+        // The caller's diff is against the revision it saw, which a retry no longer is
+        stored.diff = (attempt === 1 && entry.diff) || diffText(latest.content, entry.content);
+        stored.changes = compareAnalyses(latest, stored);
+      }
+    }
+
+    if (!(await saveRevision(key, stored, replace, latest?.revision || 0))) {
+      log.debug(`${canonicalUrl} gained a revision while recording, retrying`);
+      continue;
+    }
+    if (stored.diff && stored.changes && !replace) {
+      log.info(
+        `${canonicalUrl} revision ${stored.revision}: ` +
+          `+${stored.diff.added.length}/-${stored.diff.removed.length} sentences, ` +
+          `+${stored.changes.addedClaims.length}/-${stored.changes.removedClaims.length} claims`
+      );
+    }
+    const first = replace || revisions.length < config.articleRevisions.maxStored ? revisions[0] : revisions[1];
+    return {
+      revision: stored.revision,
+      firstAnalyzedAt: (first || stored).analyzedAt,
+      reanalysis: stored.reanalysis,
+      changes: stored.changes,
+    };
+  }
+
+  throw new Error('Article revisions changed too often to record this one');
+}
+
+/**
+ * Every version of an article the calling client stored, oldest first,
+ * without their text
+ * @returns null when none was recorded
+ */
+export async function getRevisionHistory(canonicalUrl: string): Promise<RevisionHistory | null> {
+  const revisions = await loadRevisions(revisionsKey(canonicalUrl));
+  if (revisions.length === 0) {
+    return null;
+  }
+  return { url: canonicalUrl, revisions: revisions.map(toArticleRevision) };
+}
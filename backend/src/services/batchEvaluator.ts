@@ -0,0 +1,409 @@
+/**
+ * Batch Evaluator
+ * Runs the evaluation pipeline over many articles (e.g. a day's front pages)
+ *
+ * Articles can be given as text or as URLs (fetched first). Across the batch:
+ * - identical articles are evaluated once
+ * - one evidence cache is shared, so a claim made by several articles is
+ *   searched once
+ * - spending counts toward the batch's limit as well as the daily cap and
+ *   the caller's quota; once a limit is reached the remaining articles are
+ *   skipped
+ *
+ * The report has each article's PipelineSummary and a rollup of all claims
+ * by domain and consensus level.
+ */
+
+import crypto from 'crypto';
+import { runPipeline, PipelineInput, PipelineOptions, PipelineResult, PipelineSummary } from './pipeline';
+import { fetchArticle } from './articleFetcher';
+import { EvidenceCache, normalizeClaimText } from './evidenceCache';
+import { isOverBudget } from './costTracker';
+import { getRequestContext, runWithRequestContext } from './requestContext';
+import { createLogger } from './logger';
+import { Article, ClaimType, Domain } from '../types/claims';
+import { ConfidenceLevel, ConsensusLevel } from '../types/consensus';
+import { CostBudget } from '../types/cost';
+
+const log = createLogger('Batch');
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * An article to evaluate, or the URL to fetch it from
+ */
+export type BatchItem = Article | { url: string };
+
+export interface BatchOptions {
+  /** Options for every article's pipeline run */
+  pipeline?: PipelineOptions;
+  /** Spending limit for the whole batch, USD */
+  maxCost: number;
+  /** Articles evaluated at once */
+  concurrency?: number;
+}
+
+export interface BatchRunHooks {
+  /** Stops the batch; it then rejects with "Batch cancelled" */
+  signal?: AbortSignal;
+  /** Called as each article finishes, whatever its status */
+  onArticleDone?: (done: number, total: number) => void;
+}
+
+/**
+ * - completed: evaluated
+ * - failed: could not be fetched or evaluated
+ * - skipped: not started because a cost limit was reached
+ * - duplicate: same article as an earlier item (see duplicateOf)
+ */
+export type BatchArticleStatus = 'completed' | 'failed' | 'skipped' | 'duplicate';
+
+/**
+ * One evaluated claim, as counted in the rollup
+ */
+export interface BatchClaim {
+  text: string;
+  type: ClaimType;
+  domain: Domain;
+  consensusLevel: ConsensusLevel;
+  confidence: ConfidenceLevel;
+}
+
+export interface BatchArticleReport {
+  /** Position in the request */
+  index: number;
+  status: BatchArticleStatus;
+  title?: string;
+  source?: string;
+  url?: string;
+  /** Earlier item with the same article */
+  duplicateOf?: number;
+  summary?: PipelineSummary;
+  claims?: BatchClaim[];
+  warnings?: string[];
+  /** Why the article failed or was skipped, or errors from a partial run */
+  errors?: string[];
+  processingTimeMs?: number;
+}
+
+/**
+ * Claims in one domain across the batch
+ */
+export interface BatchDomainRollup {
+  claims: number;
+  /** Articles with at least one claim in the domain */
+  articles: number;
+  consensusLevelDistribution: Record<string, number>;
+}
+
+/**
+ * Claims at one consensus level across the batch
+ */
+export interface BatchConsensusRollup {
+  claims: number;
+  articles: number;
+  claimsByDomain: Record<string, number>;
+}
+
+/**
+ * A claim made by more than one article
+ */
+export interface SharedClaim {
+  text: string;
+  domain: Domain;
+  consensusLevel: ConsensusLevel;
+  /** Indexes of the articles making it */
+  articles: number[];
+}
+
+export interface BatchReport {
+  totals: {
+    articles: number;
+    completed: number;
+    failed: number;
+    skipped: number;
+    duplicates: number;
+    claimsEvaluated: number;
+    /** Claims after merging the same claim made by several articles */
+    distinctClaims: number;
+  };
+  rollup: {
+    byDomain: Record<string, BatchDomainRollup>;
+    byConsensusLevel: Record<string, BatchConsensusRollup>;
+  };
+  sharedClaims: SharedClaim[];
+  articles: BatchArticleReport[];
+  cost: {
+    limit: number;
+    spent: number;
+    /** Why the remaining articles were skipped */
+    stoppedEarly?: string;
+  };
+  /** Claim evidence searched, and reused from another article or an earlier run */
+  evidence: {
+    searched: number;
+    reused: number;
+  };
+  startedAt: string;
+  completedAt: string;
+  processingTimeMs: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Retries when the pipeline queue turns an article away
+ */
+const QUEUE_RETRIES = 3;
+const QUEUE_RETRY_DELAY_MS = 5_000;
+
+export function isArticleItem(item: BatchItem): item is Article {
+  return typeof (item as Article).content === 'string';
+}
+
+/**
+ * Key under which identical items are merged: the URL, else the text
+ */
+function itemKey(item: BatchItem): string {
+  if (item.url) {
+    return `url:${item.url.trim()}`;
+  }
+  const article = item as Article;
+  return `text:${crypto.createHash('md5').update(`${article.title}\n${article.content}`).digest('hex')}`;
+}
+
+function isBudgetError(message: string): boolean {
+  return /budget exceeded/i.test(message);
+}
+
+/**
+ * Run the pipeline, waiting and retrying if its queue is full
+ */
+async function runWhenSlotFree(input: PipelineInput): Promise<PipelineResult> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runPipeline(input);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (attempt >= QUEUE_RETRIES || !message.toLowerCase().includes('evaluation queue')) {
+        throw error;
+      }
+      log.warn(`Pipeline busy, retrying "${input.article.title}" in ${QUEUE_RETRY_DELAY_MS}ms`);
+      await new Promise((resolve) => setTimeout(resolve, QUEUE_RETRY_DELAY_MS));
+    }
+  }
+}
+
+function toBatchClaims(result: PipelineResult): BatchClaim[] {
+  return result.evaluatedClaims.map((evaluated) => ({
+    text: evaluated.claim.text,
+    type: evaluated.claim.type,
+    domain: evaluated.claim.domain,
+    consensusLevel: evaluated.consensus.level,
+    confidence: evaluated.consensus.confidence,
+  }));
+}
+
+/**
+ * Roll the evaluated articles' claims up by domain and consensus level
+ */
+function buildRollup(reports: BatchArticleReport[]): Pick<BatchReport, 'rollup' | 'sharedClaims'> & { distinctClaims: number } {
+  const byDomain: Record<string, BatchDomainRollup> = {};
+  const byConsensusLevel: Record<string, BatchConsensusRollup> = {};
+  const domainArticles = new Map<string, Set<number>>();
+  const levelArticles = new Map<string, Set<number>>();
+  const distinct = new Map<string, SharedClaim>();
+
+  for (const report of reports) {
+    for (const claim of report.claims || []) {
+      const domain = (byDomain[claim.domain] ||= { claims: 0, articles: 0, consensusLevelDistribution: {} });
+      domain.claims++;
+      domain.consensusLevelDistribution[claim.consensusLevel] = (domain.consensusLevelDistribution[claim.consensusLevel] || 0) + 1;
+
+      const level = (byConsensusLevel[claim.consensusLevel] ||= { claims: 0, articles: 0, claimsByDomain: {} });
+      level.claims++;
+      level.claimsByDomain[claim.domain] = (level.claimsByDomain[claim.domain] || 0) + 1;
+
+      if (!domainArticles.has(claim.domain)) domainArticles.set(claim.domain, new Set());
+      domainArticles.get(claim.domain)!.add(report.index);
+      if (!levelArticles.has(claim.consensusLevel)) levelArticles.set(claim.consensusLevel, new Set());
+      levelArticles.get(claim.consensusLevel)!.add(report.index);
+
+      const key = normalizeClaimText(claim.text);
+      const existing = distinct.get(key);
+      if (existing) {
+        if (!existing.articles.includes(report.index)) existing.articles.push(report.index);
+      } else {
+        distinct.set(key, { text: claim.text, domain: claim.domain, consensusLevel: claim.consensusLevel, articles: [report.index] });
+      }
+    }
+  }
+
+  for (const [domain, articles] of domainArticles) byDomain[domain].articles = articles.size;
+  for (const [level, articles] of levelArticles) byConsensusLevel[level].articles = articles.size;
+
+  return {
+    rollup: { byDomain, byConsensusLevel },
+    sharedClaims: [...distinct.values()]
+      .filter((claim) => claim.articles.length > 1)
+      .sort((a, b) => b.articles.length - a.articles.length),
+    distinctClaims: distinct.size,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// MAIN
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Evaluate a batch of articles
+ * Runs as the calling client, with the batch's spending limit added.
+ * @throws "Batch cancelled" if the signal is aborted
+ */
+export async function runBatch(items: BatchItem[], options: BatchOptions, hooks: BatchRunHooks = {}): Promise<BatchReport> {
+  const startedAt = new Date();
+  const budget: CostBudget = { limit: options.maxCost, spent: 0 };
+  const evidenceCache = new EvidenceCache();
+  const parent = getRequestContext();
+
+  const reports: BatchArticleReport[] = items.map((item, index) => ({
+    index,
+    status: 'skipped',
+    url: item.url,
+    ...(isArticleItem(item) && { title: item.title, source: item.source }),
+  }));
+
+  // Identical items are evaluated once
+  const firstByKey = new Map<string, number>();
+  items.forEach((item, index) => {
+    const key = itemKey(item);
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, index);
+    } else {
+      reports[index].status = 'duplicate';
+      reports[index].duplicateOf = first;
+    }
+  });
+
+  let stoppedBy: string | undefined;
+  const stopReason = (): string | undefined => {
+    if (stoppedBy) return stoppedBy;
+    if (budget.spent >= budget.limit) return `Batch cost limit of $${budget.limit.toFixed(2)} reached`;
+    if (isOverBudget()) return 'Daily cost cap reached';
+    return undefined;
+  };
+
+  const evaluateItem = async (index: number): Promise<void> => {
+    const report = reports[index];
+    const stop = stopReason();
+    if (stop) {
+      stoppedBy = stop;
+      report.errors = [stop];
+      return;
+    }
+
+    const started = Date.now();
+    const item = items[index];
+    let article: Article;
+    try {
+      article = isArticleItem(item) ? item : await fetchArticle(item.url);
+    } catch (error) {
+      report.status = 'failed';
+      report.errors = [`Could not fetch article: ${(error as Error).message}`];
+      return;
+    }
+    Object.assign(report, { title: article.title, source: article.source });
+
+    try {
+      const result = await runWhenSlotFree({ article, options: options.pipeline, signal: hooks.signal, evidenceCache });
+      const errors = result.metadata.errors;
+
+      // No claims at all means the run failed (e.g. claim extraction refused by budget)
+      report.status = errors.length > 0 && result.evaluatedClaims.length === 0 ? 'failed' : 'completed';
+      report.summary = result.summary;
+      report.claims = toBatchClaims(result);
+      report.warnings = result.metadata.warnings.length > 0 ? result.metadata.warnings : undefined;
+      report.errors = errors.length > 0 ? errors : undefined;
+      stoppedBy ||= errors.find(isBudgetError);
+    } catch (error) {
+      if (hooks.signal?.aborted) throw error;
+      const message = (error as Error).message;
+      report.status = 'failed';
+      report.errors = [message];
+      if (isBudgetError(message)) stoppedBy ||= message;
+    } finally {
+      report.processingTimeMs = Date.now() - started;
+    }
+  };
+
+  const evaluateAll = async (): Promise<void> => {
+    let next = 0;
+    let done = 0;
+    const worker = async (): Promise<void> => {
+      while (next < items.length) {
+        if (hooks.signal?.aborted) {
+          throw new Error('Batch cancelled');
+        }
+        const index = next++;
+        if (reports[index].status !== 'duplicate') {
+          await evaluateItem(index);
+        }
+        hooks.onArticleDone?.(++done, items.length);
+      }
+    };
+
+    const workers = Math.max(1, Math.min(options.concurrency ?? 1, items.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+  };
+
+  log.info(`Evaluating ${items.length} articles (limit $${budget.limit.toFixed(2)})`);
+  await runWithRequestContext(
+    {
+      requestId: parent?.requestId,
+      endpoint: parent?.endpoint || 'BATCH',
+      client: parent?.client || 'internal',
+      quota: parent?.quota,
+      budget,
+    },
+    evaluateAll
+  );
+
+  const { rollup, sharedClaims, distinctClaims } = buildRollup(reports);
+  const count = (status: BatchArticleStatus) => reports.filter((r) => r.status === status).length;
+  const completedAt = new Date();
+
+  const report: BatchReport = {
+    totals: {
+      articles: items.length,
+      completed: count('completed'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      duplicates: count('duplicate'),
+      claimsEvaluated: reports.reduce((sum, r) => sum + (r.claims?.length || 0), 0),
+      distinctClaims,
+    },
+    rollup,
+    sharedClaims,
+    articles: reports,
+    cost: {
+      limit: budget.limit,
+      spent: Math.round(Math.max(0, budget.spent) * 10_000) / 10_000,
+      ...(stoppedBy && { stoppedEarly: stoppedBy }),
+    },
+    evidence: { searched: evidenceCache.misses, reused: evidenceCache.hits },
+    startedAt: startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    processingTimeMs: completedAt.getTime() - startedAt.getTime(),
+  };
+
+  log.info(
+    `Done: ${report.totals.completed} completed, ${report.totals.failed} failed, ` +
+    `${report.totals.skipped} skipped, $${report.cost.spent} spent`
+  );
+  return report;
+}
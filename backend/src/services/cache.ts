@@ -1,4 +1,21 @@
+/**
+ * Cache Service
+ * Two tiers: an in-process LRU in front of Redis
+ *
+ * Reads try memory first, then Redis; writes go to both. When Redis is down
+ * the in-process tier still answers, so a repeat request does not rerun its
+ * LLM calls. getOrLoad adds single-flight loading (concurrent misses for a
+ * key share one load) and stale-while-revalidate. Keys are namespaced by
+ * their prefix ("evaluate:...") for invalidation and hit/miss counters.
+ */
+
 import Redis from 'ioredis';
+import { config } from '../config';
+import { LruCache } from './lruCache';
+import { createLogger } from './logger';
+import { CacheLoadOptions, CacheLoadResult, CacheNamespaceStats, CacheStats } from '../types/cache';
+
+const log = createLogger('Cache');
 
 const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
 
@@ -10,56 +27,60 @@ function createRedisClient(): Redis {
     maxRetriesPerRequest: 3,
     retryStrategy(times: number): number | null {
       if (times > 10) {
-        console.warn('[Cache] Max reconnection attempts reached. Redis unavailable.');
+        log.warn('Max reconnection attempts reached. Redis unavailable.');
         return null;
       }
       const delay = Math.min(times * 100, 3000);
-      console.log(`[Cache] Reconnecting to Redis in ${delay}ms (attempt ${times})`);
+      log.info(`Reconnecting to Redis in ${delay}ms (attempt ${times})`);
       return delay;
     },
     lazyConnect: true,
   });
 
   client.on('connect', () => {
-    console.log('[Cache] Connected to Redis');
+    log.info('Connected to Redis');
     connected = true;
   });
 
   client.on('ready', () => {
-    console.log('[Cache] Redis ready');
+    log.info('Redis ready');
     connected = true;
   });
 
   client.on('error', (err: Error) => {
-    console.warn('[Cache] Redis error:', err.message);
+    log.warn('Redis error', { error: err.message });
     connected = false;
   });
 
   client.on('close', () => {
-    console.log('[Cache] Redis connection closed');
+    log.info('Redis connection closed');
     connected = false;
   });
 
   client.on('reconnecting', () => {
-    console.log('[Cache] Reconnecting to Redis...');
+    log.info('Reconnecting to Redis...');
   });
 
   client.on('end', () => {
-    console.log('[Cache] Redis connection ended');
+    log.info('Redis connection ended');
     connected = false;
   });
 
   return client;
 }
 
-async function getClient(): Promise<Redis | null> {
+/**
+ * Get the shared Redis client for commands beyond get/set (counters, lists)
+ * @returns The client, or null if Redis is unavailable
+ */
+export async function getClient(): Promise<Redis | null> {
   if (!redis) {
     redis = createRedisClient();
     try {
       await redis.connect();
     } catch (err) {
-      console.warn('[Cache] Failed to connect to Redis:', (err as Error).message);
-      console.warn('[Cache] Running without cache - data will not be persisted');
+      log.warn('Failed to connect to Redis', { error: err });
+      log.warn('Running without cache - data will not be persisted');
       connected = false;
       return null;
     }
@@ -67,49 +88,207 @@ async function getClient(): Promise<Redis | null> {
   return connected ? redis : null;
 }
 
+// ═══════════════════════════════════════════════════════════════
+// TWO TIERS
+// ═══════════════════════════════════════════════════════════════
+
+// Values are kept as JSON in both tiers, so every read gets its own copy
+const memory = new LruCache<string>(config.cache.memoryMaxEntries);
+const inFlight = new Map<string, Promise<unknown>>();
+const namespaceStats = new Map<string, CacheNamespaceStats>();
+// Bumped by invalidateNamespace so loads started before it are not stored
+const generations = new Map<string, number>();
+
+interface CachedValue<T> {
+  value: T;
+  fresh: boolean;
+}
+
 /**
- * Get a value from the cache
- * @param key - The cache key
- * @returns The cached value or null if not found or Redis unavailable
+ * The key up to its first ":" ("evaluate:ab12..." -> "evaluate")
  */
-export async function get<T>(key: string): Promise<T | null> {
+function namespaceOf(key: string): string {
+  const colon = key.indexOf(':');
+  return colon === -1 ? key : key.slice(0, colon);
+}
+
+function statsFor(key: string): CacheNamespaceStats {
+  const namespace = namespaceOf(key);
+  let stats = namespaceStats.get(namespace);
+  if (!stats) {
+    stats = { memoryHits: 0, redisHits: 0, staleHits: 0, misses: 0, sharedLoads: 0, loadErrors: 0, sets: 0, invalidated: 0 };
+    namespaceStats.set(namespace, stats);
+  }
+  return stats;
+}
+
+/**
+ * Read a key from memory, then Redis (copying it into memory)
+ * @param staleSeconds - The stale window the value was written with
+ */
+async function read<T>(key: string, staleSeconds: number): Promise<CachedValue<T> | null> {
+  const now = Date.now();
+  const entry = memory.get(key, now);
+  if (entry) {
+    statsFor(key).memoryHits++;
+    return { value: JSON.parse(entry.value) as T, fresh: entry.freshUntil === null || entry.freshUntil > now };
+  }
+
   try {
     const client = await getClient();
     if (!client) {
       return null;
     }
-    const value = await client.get(key);
-    if (value === null) {
+    const [[, value], [, ttlMs]] = (await client.multi().get(key).pttl(key).exec()) as [Error | null, unknown][];
+    if (typeof value !== 'string') {
       return null;
     }
-    return JSON.parse(value) as T;
+
+    // pttl is -1 for keys without a TTL
+    const remaining = typeof ttlMs === 'number' && ttlMs > 0 ? ttlMs : null;
+    const expiresAt = remaining === null ? null : now + remaining;
+    const freshUntil = expiresAt === null ? null : expiresAt - staleSeconds * 1000;
+    memory.set(key, { value, expiresAt, freshUntil });
+    statsFor(key).redisHits++;
+    return { value: JSON.parse(value) as T, fresh: freshUntil === null || freshUntil > now };
   } catch (err) {
-    console.warn('[Cache] Error getting key:', key, (err as Error).message);
+    log.warn('Error getting key', { key, error: err });
     return null;
   }
 }
 
 /**
- * Set a value in the cache
- * @param key - The cache key
- * @param value - The value to cache (will be JSON serialized)
- * @param ttlSeconds - Optional TTL in seconds
+ * Write a key to both tiers; Redis keeps it for the TTL plus the stale window
  */
-export async function set(key: string, value: any, ttlSeconds?: number): Promise<void> {
+async function write(key: string, value: any, ttlSeconds?: number, staleSeconds: number = 0): Promise<void> {
+  const serialized = JSON.stringify(value);
+  if (serialized === undefined) {
+    return;
+  }
+  const now = Date.now();
+  const hasTtl = ttlSeconds !== undefined && ttlSeconds > 0;
+  memory.set(key, {
+    value: serialized,
+    expiresAt: hasTtl ? now + (ttlSeconds + staleSeconds) * 1000 : null,
+    freshUntil: hasTtl ? now + ttlSeconds * 1000 : null,
+  });
+  statsFor(key).sets++;
+
   try {
     const client = await getClient();
     if (!client) {
       return;
     }
-    const serialized = JSON.stringify(value);
-    if (ttlSeconds !== undefined && ttlSeconds > 0) {
-      await client.setex(key, ttlSeconds, serialized);
+    if (hasTtl) {
+      await client.setex(key, ttlSeconds + staleSeconds, serialized);
     } else {
       await client.set(key, serialized);
     }
   } catch (err) {
-    console.warn('[Cache] Error setting key:', key, (err as Error).message);
+    log.warn('Error setting key', { key, error: err });
+  }
+}
+
+/**
+ * Run a load for a key, shared by every caller that misses while it runs
+ */
+function startLoad<T>(key: string, load: () => Promise<T>, options: CacheLoadOptions<T>, generation: number): Promise<T> {
+  const namespace = namespaceOf(key);
+
+  const pending: Promise<T> = Promise.resolve()
+    .then(load)
+    .then(async (value) => {
+      const invalidated = (generations.get(namespace) || 0) !== generation;
+      if (!invalidated && (!options.shouldCache || options.shouldCache(value))) {
+        await write(key, value, options.ttlSeconds, options.staleSeconds);
+      }
+      return value;
+    })
+    .catch((err) => {
+      statsFor(key).loadErrors++;
+      throw err;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === pending) {
+        inFlight.delete(key);
+      }
+    });
+
+  inFlight.set(key, pending);
+  return pending;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Get a value from the cache (memory first, then Redis)
+ * Values within a stale window (see getOrLoad) are returned too.
+ * @param key - The cache key
+ * @returns The cached value or null if not found
+ */
+export async function get<T>(key: string): Promise<T | null> {
+  const cached = await read<T>(key, 0);
+  if (!cached) {
+    statsFor(key).misses++;
+    return null;
+  }
+  return cached.value;
+}
+
+/**
+ * Set a value in the cache
+ * @param key - The cache key
+ * @param value - The value to cache (will be JSON serialized)
+ * @param ttlSeconds - Optional TTL in seconds
+ * @param staleSeconds - Stale window, for keys also read with getOrLoad
+ */
+export async function set(key: string, value: any, ttlSeconds?: number, staleSeconds?: number): Promise<void> {
+  await write(key, value, ttlSeconds, staleSeconds);
+}
+
+/**
+ * Get a value, loading it on a miss
+ *
+ * Callers that miss while a load for the key is running wait for that load
+ * instead of starting their own. A value past its TTL but within its stale
+ * window is returned at once while one background load refreshes it.
+ * Failed loads are not cached; every caller waiting on one gets its error.
+ *
+ * @param key - The cache key
+ * @param load - Produces the value (e.g. runs the analysis)
+ * @param options - TTL, stale window and which values to keep
+ */
+export async function getOrLoad<T>(
+  key: string,
+  load: () => Promise<T>,
+  options: CacheLoadOptions<T> = {}
+): Promise<CacheLoadResult<T>> {
+  // Taken before reading, so an invalidation during the read still applies
+  const generation = generations.get(namespaceOf(key)) || 0;
+  const cached = await read<T>(key, options.staleSeconds || 0);
+  if (cached?.fresh) {
+    return { value: cached.value, status: 'hit' };
   }
+  if (cached) {
+    statsFor(key).staleHits++;
+    if (!inFlight.has(key)) {
+      startLoad(key, load, options, generation).catch((err) => {
+        log.warn('Background refresh failed for key', { key, error: err });
+      });
+    }
+    return { value: cached.value, status: 'stale' };
+  }
+
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) {
+    statsFor(key).sharedLoads++;
+    return { value: structuredClone(await pending), status: 'shared' };
+  }
+
+  statsFor(key).misses++;
+  return { value: await startLoad(key, load, options, generation), status: 'miss' };
 }
 
 /**
@@ -117,6 +296,7 @@ export async function set(key: string, value: any, ttlSeconds?: number): Promise
  * @param key - The cache key to delete
  */
 async function del(key: string): Promise<void> {
+  memory.delete(key);
   try {
     const client = await getClient();
     if (!client) {
@@ -124,8 +304,74 @@ async function del(key: string): Promise<void> {
     }
     await client.del(key);
   } catch (err) {
-    console.warn('[Cache] Error deleting key:', key, (err as Error).message);
+    log.warn('Error deleting key', { key, error: err });
+  }
+}
+
+/**
+ * Drop every key in a namespace ("evaluate" drops all "evaluate:*" keys),
+ * e.g. after a prompt change makes cached results outdated
+ *
+ * Loads already running for the namespace finish but are not stored. Other
+ * server processes keep their in-process copies until those expire.
+ *
+ * @returns Keys removed from each tier
+ */
+export async function invalidateNamespace(namespace: string): Promise<{ memory: number; redis: number }> {
+  if (!/^[\w-]+$/.test(namespace)) {
+    throw new Error(`Invalid cache namespace "${namespace}"`);
+  }
+  const prefix = `${namespace}:`;
+
+  generations.set(namespace, (generations.get(namespace) || 0) + 1);
+  for (const key of Array.from(inFlight.keys())) {
+    if (key.startsWith(prefix)) {
+      inFlight.delete(key);
+    }
+  }
+  const removed = { memory: memory.deletePrefix(prefix), redis: 0 };
+
+  try {
+    const client = await getClient();
+    if (client) {
+      let cursor = '0';
+      do {
+        const [next, keys] = await client.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', 500);
+        cursor = next;
+        if (keys.length > 0) {
+          removed.redis += await client.del(...keys);
+        }
+      } while (cursor !== '0');
+    }
+  } catch (err) {
+    log.warn('Error invalidating namespace', { namespace, error: err });
   }
+
+  statsFor(namespace).invalidated += Math.max(removed.memory, removed.redis);
+  log.info(`Invalidated "${namespace}": ${removed.memory} in memory, ${removed.redis} in Redis`);
+  return removed;
+}
+
+/**
+ * Hit/miss counters per namespace since the process started
+ */
+export function getCacheStats(): CacheStats {
+  return {
+    redisConnected: connected,
+    memory: { entries: memory.size, maxEntries: memory.capacity },
+    inFlight: inFlight.size,
+    namespaces: Object.fromEntries(Array.from(namespaceStats, ([namespace, stats]) => [namespace, { ...stats }])),
+  };
+}
+
+/**
+ * Empty the in-process tier and reset counters (tests)
+ */
+export function resetMemoryCache(): void {
+  memory.clear();
+  inFlight.clear();
+  namespaceStats.clear();
+  generations.clear();
 }
 
 /**
@@ -143,6 +389,10 @@ export { del as delete };
 export default {
   get,
   set,
+  getOrLoad,
   delete: del,
+  invalidateNamespace,
+  getCacheStats,
   isConnected,
+  getClient,
 };
@@ -0,0 +1,132 @@
+/**
+ * Canonical URLs
+ * One address per article, however it was reached
+ *
+ * The same article is shared as many URLs: with utm_* and click-id
+ * parameters, through Google's AMP viewer or the AMP cache, as an /amp page,
+ * with or without "www." and a trailing slash. Cache keys built from the
+ * canonical URL (plus a hash of the article text, so an edited article gets
+ * a new key) let those variants share one analysis.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Query parameters that only track where a click came from
+ */
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'twclid', 'ttclid', 'li_fat_id', 'yclid',
+  'mc_cid', 'mc_eid', 'igshid', 'igsh', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'oly_anon_id', 'oly_enc_id',
+  'vero_id', 'wickedid', 'ref', 'ref_src', 'ref_url', 'cmpid', 'ocid', 'smid', 'smtyp', 's_cid', 'sr_share',
+  'ito', 'ncid', 'guccounter', 'guce_referrer', 'guce_referrer_sig',
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_', 'hsa_', 'ns_', 'at_'];
+
+/**
+ * Whether a query parameter tracks the click or selects the AMP version
+ * (?amp, ?amp=1, ?outputType=amp)
+ */
+function isDroppedParam(name: string, value: string): boolean {
+  const lower = name.toLowerCase();
+  if (lower === 'amp' || (/^output(type)?$/.test(lower) && value.toLowerCase() === 'amp')) {
+    return true;
+  }
+  return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some((prefix) => lower.startsWith(prefix));
+}
+
+/**
+ * The publisher's page behind an AMP viewer or AMP cache address
+ * - https://www.google.com/amp/s/example.com/story -> https://example.com/story
+ * - https://example-com.cdn.ampproject.org/c/s/example.com/story -> https://example.com/story
+ */
+function unwrapAmpViewer(url: URL): URL {
+  const viewer = /(^|\.)google\.[a-z.]+$/.test(url.hostname) && url.pathname.match(/^\/amp\/(s\/)?(.+)$/);
+  const cache = url.hostname.endsWith('.cdn.ampproject.org') && url.pathname.match(/^\/[a-z]\/(s\/)?(.+)$/);
+  const match = viewer || cache;
+  if (!match) {
+    return url;
+  }
+  try {
+    return new URL(`${match[1] ? 'https' : 'http'}://${match[2]}${url.search}`);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Drop the AMP markers publishers put in their own addresses:
+ * amp. hosts, /amp paths and .amp.html pages
+ */
+function stripAmpPath(url: URL): void {
+  url.hostname = url.hostname.replace(/^amp\./, '');
+  url.pathname = url.pathname
+    .replace(/\/amp(\/|\.html)?$/i, '')
+    .replace(/^\/amp\//i, '/')
+    .replace(/\.amp(\.html?)$/i, '$1')
+    .replace(/\.amp$/i, '') || '/';
+}
+
+/**
+ * Normalize an article address so trivial variants compare equal
+ *
+ * @param url - The address the article was read at
+ * @param canonicalUrl - The page's <link rel="canonical">, used instead when valid
+ * @returns The canonical URL, or the input trimmed if it cannot be parsed
+ */
+export function canonicalizeUrl(url: string, canonicalUrl?: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL((canonicalUrl && /^https?:\/\//i.test(canonicalUrl.trim()) ? canonicalUrl : url).trim());
+  } catch {
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      return url.trim();
+    }
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return url.trim();
+  }
+
+  parsed = unwrapAmpViewer(parsed);
+  stripAmpPath(parsed);
+
+  parsed.protocol = 'https:';
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+  parsed.port = '';
+  parsed.hash = '';
+  parsed.username = '';
+  parsed.password = '';
+
+  const kept = [...parsed.searchParams]
+    .filter(([name, value]) => !isDroppedParam(name, value))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  parsed.search = new URLSearchParams(kept).toString();
+
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Hash of an article's text, ignoring whitespace differences
+ */
+export function hashContent(content: string): string {
+  const normalized = content.replace(/\s+/g, ' ').trim();
+  return crypto.createHash('md5').update(normalized).digest('hex');
+}
+
+/**
+ * Cache key for an article's analysis: canonical URL plus content hash
+ * @param namespace - Key prefix ("analyze")
+ */
+export function getArticleCacheKey(
+  namespace: string,
+  article: { url: string; canonicalUrl?: string; content: string }
+): string {
+  const urlHash = crypto.createHash('md5').update(canonicalizeUrl(article.url, article.canonicalUrl)).digest('hex');
+  return `${namespace}:${urlHash}:${hashContent(article.content)}`;
+}
@@ -6,6 +6,7 @@
  */
 
 import { openaiService } from './openai';
+import { createLogger } from './logger';
 import {
   Article,
   ExtractedClaims,
@@ -18,6 +19,8 @@ import {
   PARTIALLY_VERIFIABLE_CLAIM_TYPES,
 } from '../types/claims';
 
+const log = createLogger('ClaimExtractor');
+
 /**
  * Claim extraction prompt based on EXPERT_EVALUATION_SPEC.md
  */
@@ -27,6 +30,7 @@ You are extracting factual claims from a news article for fact-checking.
 ARTICLE:
 Title: {title}
 Source: {source}
+Published: {published}
 Content: {content}
 
 INSTRUCTIONS:
@@ -34,7 +38,8 @@ INSTRUCTIONS:
 1. Extract each discrete factual claim (not opinions, rhetoric, or values statements)
 
 2. For each claim, determine:
-   - The exact claim text
+   - The exact claim text (keep time expressions such as "last year" or "currently"
+     as written; they are resolved against the publish date)
    - Claim type: empirical, causal, statistical, historical, scientific_consensus,
      predictive, comparative, effectiveness, values, aesthetic, definitional, unfalsifiable
    - Who made this claim (name and role)
@@ -212,14 +217,15 @@ export async function extractClaims(article: Article): Promise<ExtractedClaims>
   const prompt = CLAIM_EXTRACTION_PROMPT
     .replace('{title}', article.title)
     .replace('{source}', article.source)
+    .replace('{published}', article.publishedAt || 'unknown')
     .replace('{content}', article.content);
 
   try {
     // Call OpenAI to extract claims
-    const response = await openaiService.complete(prompt);
+    const { content, model } = await openaiService.completeWithModel(prompt, 'extractClaims');
 
     // Parse the response
-    const result = parseClaimsResponse(response);
+    const result: ExtractedClaims = { ...parseClaimsResponse(content), model };
 
     // Post-process: ensure article subjects from title are included
     const titleWords = article.title.split(/\s+/);
@@ -268,7 +274,7 @@ export async function extractClaims(article: Article): Promise<ExtractedClaims>
 
     return result;
   } catch (error) {
-    console.error('[ClaimExtractor] Error extracting claims:', error);
+    log.error('Error extracting claims', { error });
     // Return empty result on error
     return { articleSubjects: [], claims: [] };
   }
@@ -0,0 +1,540 @@
+/**
+ * Claim Store Service
+ * Durable record of every claim evaluated, shared across articles
+ *
+ * A newly extracted claim is matched to a stored one when it has the same
+ * normalized text, nearly the same words, or (with LLM_EMBEDDING_MODEL) an
+ * embedding close enough to a stored claim sharing some of its words.
+ * Claims that differ in negation or in the numbers they state never match.
+ * A match with a fresh assessment (CLAIM_FRESH_DAYS) is reused by the
+ * pipeline instead of searching again.
+ *
+ *   claim:{id}              JSON StoredClaim
+ *   claim:{id}:embedding    JSON vector
+ *   claim:{id}:articles     hash articleKey -> JSON ClaimArticleLink
+ *   claims:text:{hash}      id of the claim for a normalized wording
+ *   claims:token:{token}    ids of claims containing the word
+ *   claims:recent           ids by last seen (ms)
+ *
+ * Claims do not expire. Without Redis they are kept in this process.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+import { getClient } from './cache';
+import { normalizeClaimText } from './evidenceCache';
+import { openaiService } from './openai';
+import { getResolvedClaimText } from './timeframe';
+import { createLogger } from './logger';
+import { Article, ClassifiedClaim } from '../types/claims';
+import {
+  ClaimArticleLink,
+  ClaimMatch,
+  ClaimMatchMethod,
+  ClaimSearchQuery,
+  ClaimSearchResult,
+  StoredAssessment,
+  StoredClaim,
+  StoredClaimRef,
+} from '../types/claimStore';
+
+const log = createLogger('ClaimStore');
+
+const RECENT_KEY = 'claims:recent';
+
+/**
+ * Stored claims compared in full per lookup (most shared words first)
+ */
+const MAX_CANDIDATES = 50;
+
+/**
+ * Word overlap a candidate needs before embeddings are compared
+ */
+const MIN_EMBEDDING_OVERLAP = 0.2;
+
+/**
+ * Stored claims a search filters and ranks at most
+ */
+const MAX_SEARCH_SCAN = 1000;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'in', 'on', 'at', 'to', 'for', 'by', 'with', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'has', 'have', 'had', 'do', 'does', 'did',
+  'that', 'this', 'these', 'those', 'it', 'its', 'their', 'there', 'than', 'which', 'who', 'whom',
+  'will', 'would', 'can', 'could', 'may', 'might', 'should', 'shall', 'said', 'says', 'according',
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'neither', 'nor', 'without', 'cannot']);
+
+/**
+ * What findClaimMatches learned about a claim, passed back to recordClaim
+ */
+export interface ClaimLookup {
+  match?: ClaimMatch;
+  /** The claim's embedding, stored with it if it is new */
+  embedding?: number[];
+}
+
+// Without Redis
+const memoryClaims = new Map<string, StoredClaim>();
+const memoryEmbeddings = new Map<string, number[]>();
+const memoryLinks = new Map<string, Map<string, ClaimArticleLink>>();
+const memoryTextIndex = new Map<string, string>();
+const memoryTokenIndex = new Map<string, Set<string>>();
+
+function claimKey(id: string): string {
+  return `claim:${id}`;
+}
+
+function embeddingKey(id: string): string {
+  return `claim:${id}:embedding`;
+}
+
+function articlesKey(id: string): string {
+  return `claim:${id}:articles`;
+}
+
+function textKey(normalizedText: string): string {
+  return `claims:text:${crypto.createHash('sha1').update(normalizedText).digest('hex')}`;
+}
+
+function tokenKey(token: string): string {
+  return `claims:token:${token}`;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// SIMILARITY
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Content words of normalized claim text, lightly stemmed
+ * Numbers and negations are kept; they decide whether claims can match.
+ */
+export function tokenizeClaim(normalizedText: string): Set<string> {
+  const tokens = new Set<string>();
+  for (const word of normalizedText.split(' ')) {
+    if (!word || STOPWORDS.has(word) || (word.length < 2 && !/\d/.test(word))) continue;
+    tokens.add(word.length > 3 && /[a-z]s$/.test(word) && !word.endsWith('ss') ? word.slice(0, -1) : word);
+  }
+  return tokens;
+}
+
+/**
+ * Whether tokenized text contains a negation ("not", "no", "never"...)
+ */
+export function isNegated(tokens: Set<string>): boolean {
+  return [...tokens].some((t) => NEGATIONS.has(t));
+}
+
+/**
+ * Claims can only match if both or neither are negated and they state the same numbers
+ */
+function isCompatible(a: Set<string>, b: Set<string>): boolean {
+  const numbers = (tokens: Set<string>) => [...tokens].filter((t) => /\d/.test(t)).sort().join(' ');
+  return isNegated(a) === isNegated(b) && numbers(a) === numbers(b);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Whether a stored assessment is recent enough to reuse
+ */
+export function isAssessmentFresh(assessment: StoredAssessment | undefined, now: number = Date.now()): boolean {
+  if (!assessment) return false;
+  return now - Date.parse(assessment.assessedAt) < config.claimStore.freshDays * 24 * 3600 * 1000;
+}
+
+/**
+ * Key an article is linked under: its URL, else a hash of title and source
+ */
+export function getArticleKey(article: Article): string {
+  if (article.url) return article.url;
+  return `article:${crypto.createHash('md5').update(`${article.title}\n${article.source}`).digest('hex')}`;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════════
+
+async function loadClaims(ids: string[]): Promise<StoredClaim[]> {
+  if (ids.length === 0) return [];
+  const client = await getClient();
+  if (client) {
+    const stored = await client.mget(...ids.map(claimKey));
+    return stored.filter((s): s is string => !!s).map((s) => JSON.parse(s) as StoredClaim);
+  }
+  return ids.map((id) => memoryClaims.get(id)).filter((c): c is StoredClaim => !!c);
+}
+
+async function loadEmbeddings(ids: string[]): Promise<Map<string, number[]>> {
+  const embeddings = new Map<string, number[]>();
+  if (ids.length === 0) return embeddings;
+
+  const client = await getClient();
+  if (client) {
+    const stored = await client.mget(...ids.map(embeddingKey));
+    stored.forEach((s, i) => s && embeddings.set(ids[i], JSON.parse(s)));
+    return embeddings;
+  }
+  for (const id of ids) {
+    const embedding = memoryEmbeddings.get(id);
+    if (embedding) embeddings.set(id, embedding);
+  }
+  return embeddings;
+}
+
+async function idForText(normalizedText: string): Promise<string | null> {
+  const client = await getClient();
+  if (client) {
+    return client.get(textKey(normalizedText));
+  }
+  return memoryTextIndex.get(textKey(normalizedText)) ?? null;
+}
+
+/**
+ * Point a wording at a claim unless it already points at one
+ * @returns The claim the wording already belonged to, or null if it is now `id`'s
+ */
+async function claimText(normalizedText: string, id: string): Promise<string | null> {
+  const key = textKey(normalizedText);
+  const client = await getClient();
+  if (client) {
+    const set = await client.set(key, id, 'NX');
+    return set ? null : client.get(key);
+  }
+  const existing = memoryTextIndex.get(key);
+  if (existing) return existing;
+  memoryTextIndex.set(key, id);
+  return null;
+}
+
+/**
+ * Stored claims containing any of these words, with how many each contains
+ */
+async function wordOverlap(tokens: Set<string>): Promise<Map<string, number>> {
+  const overlap = new Map<string, number>();
+  const words = [...tokens];
+  if (words.length === 0) return overlap;
+
+  let sets: string[][];
+  const client = await getClient();
+  if (client) {
+    const multi = client.multi();
+    words.forEach((w) => multi.smembers(tokenKey(w)));
+    const results = await multi.exec();
+    sets = (results || []).map(([, members]) => (members as string[]) || []);
+  } else {
+    sets = words.map((w) => [...(memoryTokenIndex.get(tokenKey(w)) || [])]);
+  }
+
+  for (const ids of sets) {
+    for (const id of ids) overlap.set(id, (overlap.get(id) || 0) + 1);
+  }
+  return overlap;
+}
+
+/**
+ * Ids of stored claims sharing the most words with these tokens
+ */
+async function candidateIds(tokens: Set<string>): Promise<string[]> {
+  return [...(await wordOverlap(tokens)).entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CANDIDATES)
+    .map(([id]) => id);
+}
+
+/**
+ * Save a new claim with its word index and embedding
+ */
+async function insertClaim(claim: StoredClaim, tokens: Set<string>, embedding?: number[]): Promise<void> {
+  const client = await getClient();
+  if (client) {
+    const multi = client.multi().set(claimKey(claim.id), JSON.stringify(claim));
+    tokens.forEach((t) => multi.sadd(tokenKey(t), claim.id));
+    if (embedding) multi.set(embeddingKey(claim.id), JSON.stringify(embedding));
+    await multi.exec();
+    return;
+  }
+  memoryClaims.set(claim.id, claim);
+  for (const t of tokens) {
+    if (!memoryTokenIndex.has(tokenKey(t))) memoryTokenIndex.set(tokenKey(t), new Set());
+    memoryTokenIndex.get(tokenKey(t))!.add(claim.id);
+  }
+  if (embedding) memoryEmbeddings.set(claim.id, embedding);
+}
+
+/**
+ * Link an article to a claim and save the claim with the new count
+ */
+async function saveWithLink(claim: StoredClaim, link: ClaimArticleLink): Promise<void> {
+  const client = await getClient();
+  if (client) {
+    const results = await client
+      .multi()
+      .hset(articlesKey(claim.id), link.articleKey, JSON.stringify(link))
+      .hlen(articlesKey(claim.id))
+      .exec();
+    claim.articleCount = (results?.[1]?.[1] as number) || 1;
+    await client
+      .multi()
+      .set(claimKey(claim.id), JSON.stringify(claim))
+      .zadd(RECENT_KEY, Date.parse(claim.lastSeenAt), claim.id)
+      .exec();
+    return;
+  }
+  if (!memoryLinks.has(claim.id)) memoryLinks.set(claim.id, new Map());
+  const links = memoryLinks.get(claim.id)!;
+  links.set(link.articleKey, link);
+  claim.articleCount = links.size;
+  memoryClaims.set(claim.id, claim);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Find the stored claim each extracted claim repeats, if any
+ * Claims without a lexical match are embedded in one call (when
+ * configured); the vectors are returned for recordClaim to store.
+ * @returns Lookup per claim id
+ */
+export async function findClaimMatches(claims: ClassifiedClaim[]): Promise<Map<string, ClaimLookup>> {
+  const lookups = new Map<string, ClaimLookup>();
+  const unmatched: { claim: ClassifiedClaim; tokens: Set<string>; candidates: StoredClaim[] }[] = [];
+
+  for (const claim of claims) {
+    const normalized = normalizeClaimText(getResolvedClaimText(claim));
+    const exactId = await idForText(normalized);
+    const [exact] = exactId ? await loadClaims([exactId]) : [];
+    if (exact) {
+      lookups.set(claim.id, { match: { claim: exact, method: 'exact', similarity: 1 } });
+      continue;
+    }
+
+    const tokens = tokenizeClaim(normalized);
+    const scored = (await loadClaims(await candidateIds(tokens)))
+      .map((stored) => ({ stored, tokens: tokenizeClaim(stored.normalizedText) }))
+      .filter((c) => isCompatible(tokens, c.tokens))
+      .map((c) => ({ stored: c.stored, similarity: jaccard(tokens, c.tokens) }))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const best = scored[0];
+    if (best && best.similarity >= config.claimStore.lexicalMatch) {
+      lookups.set(claim.id, { match: { claim: best.stored, method: 'lexical', similarity: best.similarity } });
+      continue;
+    }
+
+    unmatched.push({
+      claim,
+      tokens,
+      candidates: scored.filter((c) => c.similarity >= MIN_EMBEDDING_OVERLAP).map((c) => c.stored),
+    });
+  }
+
+  if (unmatched.length === 0 || !openaiService.isEmbeddingAvailable()) {
+    unmatched.forEach(({ claim }) => lookups.set(claim.id, {}));
+    return lookups;
+  }
+
+  let vectors: number[][] = [];
+  try {
+    vectors = await openaiService.embed(unmatched.map(({ claim }) => getResolvedClaimText(claim)));
+  } catch (error) {
+    log.warn('Embedding failed, matching by words only', { error });
+  }
+
+  for (let i = 0; i < unmatched.length; i++) {
+    const { claim, candidates } = unmatched[i];
+    const embedding = vectors[i];
+    if (!embedding) {
+      lookups.set(claim.id, {});
+      continue;
+    }
+
+    const stored = await loadEmbeddings(candidates.map((c) => c.id));
+    let match: ClaimMatch | undefined;
+    for (const candidate of candidates) {
+      const vector = stored.get(candidate.id);
+      const similarity = vector ? cosine(embedding, vector) : 0;
+      if (similarity >= config.claimStore.embeddingMatch && similarity > (match?.similarity ?? 0)) {
+        match = { claim: candidate, method: 'embedding', similarity };
+      }
+    }
+    lookups.set(claim.id, { match, embedding });
+  }
+
+  return lookups;
+}
+
+/**
+ * Record that an article made a claim
+ * Creates the stored claim if the lookup found none, links the article,
+ * and replaces the stored assessment when a new one is given.
+ * @param lookup - From findClaimMatches
+ * @param assessment - A fresh evaluation of the claim (omit when it was reused)
+ */
+export async function recordClaim(
+  claim: ClassifiedClaim,
+  article: Article,
+  lookup: ClaimLookup = {},
+  assessment?: StoredAssessment
+): Promise<StoredClaimRef> {
+  const now = new Date().toISOString();
+  const normalized = normalizeClaimText(getResolvedClaimText(claim));
+  let stored = lookup.match?.claim;
+  let matchedBy: ClaimMatchMethod | 'new' = lookup.match?.method ?? 'new';
+
+  if (stored) {
+    // Remember this wording so it matches exactly next time
+    await claimText(normalized, stored.id);
+  } else {
+    const id = `clm_${crypto.randomBytes(8).toString('hex')}`;
+    const existingId = await claimText(normalized, id);
+    // Another run stored the same claim since the lookup
+    [stored] = existingId ? await loadClaims([existingId]) : [];
+
+    if (stored) {
+      matchedBy = 'exact';
+    } else {
+      stored = {
+        id,
+        text: getResolvedClaimText(claim),
+        normalizedText: normalized,
+        type: claim.type,
+        domain: claim.domain,
+        articleCount: 0,
+        firstSeenAt: now,
+        lastSeenAt: now,
+      };
+      await insertClaim(stored, tokenizeClaim(normalized), lookup.embedding);
+    }
+  }
+
+  if (assessment) {
+    stored.assessment = assessment;
+  }
+  stored.lastSeenAt = now;
+
+  await saveWithLink(stored, {
+    articleKey: getArticleKey(article),
+    title: article.title,
+    source: article.source,
+    url: article.url,
+    claimText: claim.text,
+    matchedBy,
+    seenAt: now,
+  });
+
+  return {
+    id: stored.id,
+    matchedBy,
+    reusedAssessment: !assessment && isAssessmentFresh(stored.assessment),
+    assessedAt: stored.assessment?.assessedAt,
+    articleCount: stored.articleCount,
+  };
+}
+
+/**
+ * Get a stored claim by id
+ */
+export async function getStoredClaim(id: string): Promise<StoredClaim | null> {
+  const [claim] = await loadClaims([id]);
+  return claim || null;
+}
+
+/**
+ * Articles a stored claim appeared in, most recent first
+ */
+export async function getClaimArticles(id: string): Promise<ClaimArticleLink[]> {
+  const client = await getClient();
+  const links = client
+    ? Object.values(await client.hgetall(articlesKey(id))).map((l) => JSON.parse(l) as ClaimArticleLink)
+    : [...(memoryLinks.get(id)?.values() || [])];
+
+  return links.sort((a, b) => b.seenAt.localeCompare(a.seenAt));
+}
+
+/**
+ * Search stored claims by words and filters
+ * With `q`, claims containing at least half of its words are returned,
+ * most words matched first; without it, the most recently seen claims.
+ * Filters apply to the first MAX_SEARCH_SCAN candidates in that order.
+ */
+export async function searchClaims(query: ClaimSearchQuery): Promise<ClaimSearchResult> {
+  // A query of only stopwords lists recent claims
+  const words = tokenizeClaim(normalizeClaimText(query.q || ''));
+
+  let ids: string[];
+  if (words.size > 0) {
+    const overlap = await wordOverlap(words);
+    ids = [...overlap.entries()]
+      .filter(([, count]) => count >= Math.ceil(words.size / 2))
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id);
+  } else {
+    ids = await recentIds();
+  }
+
+  const levels = query.consensusLevels;
+  const claims = (await loadClaims(ids.slice(0, MAX_SEARCH_SCAN))).filter(
+    (claim) =>
+      (!query.domains || query.domains.includes(claim.domain)) &&
+      (!query.types || query.types.includes(claim.type)) &&
+      (!levels || (!!claim.assessment && levels.includes(claim.assessment.consensus.level)))
+  );
+
+  if (words.size > 0) {
+    // Rank by words of the query matched, then by recency
+    const score = (claim: StoredClaim) => [...tokenizeClaim(claim.normalizedText)].filter((t) => words.has(t)).length;
+    claims.sort((a, b) => score(b) - score(a) || b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }
+
+  return {
+    total: claims.length,
+    claims: claims.slice(query.offset, query.offset + query.limit),
+  };
+}
+
+/**
+ * Ids of the most recently seen claims, newest first
+ */
+async function recentIds(): Promise<string[]> {
+  const client = await getClient();
+  if (client) {
+    return client.zrevrange(RECENT_KEY, 0, MAX_SEARCH_SCAN - 1);
+  }
+  return [...memoryClaims.values()]
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+    .map((claim) => claim.id);
+}
+
+/**
+ * Forget every claim kept in this process (tests)
+ */
+export function resetMemoryClaimStore(): void {
+  memoryClaims.clear();
+  memoryEmbeddings.clear();
+  memoryLinks.clear();
+  memoryTextIndex.clear();
+  memoryTokenIndex.clear();
+}
@@ -0,0 +1,100 @@
+/**
+ * Concurrency Limiter
+ * Caps how many tasks run at once; the rest wait in a FIFO queue
+ *
+ * Used to cap full pipeline runs (PIPELINE_MAX_CONCURRENT): each run fans
+ * out into many searches and LLM calls, so excess requests wait their turn
+ * instead of failing. The queue is bounded, and a task that waits longer
+ * than the timeout is rejected.
+ */
+
+interface QueuedTask {
+  start: () => void;
+  timer?: NodeJS.Timeout;
+}
+
+export interface ConcurrencyLimiterOptions {
+  /** Tasks running at once */
+  maxConcurrent: number;
+  /** Tasks allowed to wait; more are rejected immediately */
+  maxQueued: number;
+  /** Longest a task may wait for a slot (0 = no limit) */
+  queueTimeoutMs?: number;
+}
+
+export class ConcurrencyLimiter {
+  private options: ConcurrencyLimiterOptions;
+  private running = 0;
+  private queue: QueuedTask[] = [];
+
+  constructor(options: ConcurrencyLimiterOptions) {
+    this.options = { ...options, maxConcurrent: Math.max(1, options.maxConcurrent) };
+  }
+
+  /** Tasks currently running */
+  get active(): number {
+    return this.running;
+  }
+
+  /** Tasks waiting for a slot */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Run a task once a slot is free
+   * @param task - The work to run
+   * @param onQueued - Called with the 1-based queue position if the task has to wait
+   * @throws If the queue is full or the wait times out
+   */
+  async run<T>(task: () => Promise<T>, onQueued?: (position: number) => void): Promise<T> {
+    if (this.running >= this.options.maxConcurrent) {
+      await this.waitForSlot(onQueued);
+    } else {
+      this.running++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private waitForSlot(onQueued?: (position: number) => void): Promise<void> {
+    if (this.queue.length >= this.options.maxQueued) {
+      return Promise.reject(new Error('Evaluation queue is full. Please try again shortly.'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const entry: QueuedTask = { start: resolve };
+
+      if (this.options.queueTimeoutMs) {
+        entry.timer = setTimeout(() => {
+          this.queue = this.queue.filter((e) => e !== entry);
+          reject(new Error('Timed out waiting in the evaluation queue. Please try again shortly.'));
+        }, this.options.queueTimeoutMs);
+      }
+
+      this.queue.push(entry);
+      onQueued?.(this.queue.length);
+    });
+  }
+
+  /**
+   * Hand the finished task's slot to the next in line
+   */
+  private release(): void {
+    const next = this.queue.shift();
+    if (!next) {
+      this.running--;
+      return;
+    }
+
+    if (next.timer) {
+      clearTimeout(next.timer);
+    }
+    // The slot passes straight to the queued task, so `running` is unchanged
+    next.start();
+  }
+}
@@ -30,6 +30,7 @@ import {
   EvidenceDirection,
 } from '../types/consensus';
 import { ValidatedExpert } from '../types/expert';
+import { ExpertClaimVerdict, ExpertPanelSummary, ExpertVerdict } from '../types/expertPanel';
 
 // ═══════════════════════════════════════════════════════════════
 // FRAMING TEMPLATES
@@ -221,16 +222,25 @@ export function calculateWeightedSupportRatio(
   return supportWeight / totalWeight;
 }
 
+/**
+ * Drop retracted works; expressions of concern still count (but are flagged)
+ */
+export function excludeRetractedEvidence(evidence: DirectedEvidence[]): DirectedEvidence[] {
+  return evidence.filter((e) => e.citation.retraction?.status !== 'retracted');
+}
+
 /**
  * Build evidence basis from directed evidence
+ * Retracted works are counted as examined but never as supporting studies.
  */
 export function buildEvidenceBasis(evidence: DirectedEvidence[]): EvidenceBasis {
   const systematicReviews: Citation[] = [];
   const metaAnalyses: Citation[] = [];
   const majorReports: Citation[] = [];
   const peerReviewedStudies: Citation[] = [];
+  const usable = excludeRetractedEvidence(evidence);
 
-  for (const e of evidence) {
+  for (const e of usable) {
     if (e.category === 'systematic_review') {
       systematicReviews.push(e.citation);
     } else if (e.category === 'meta_analysis') {
@@ -242,7 +252,7 @@ export function buildEvidenceBasis(evidence: DirectedEvidence[]): EvidenceBasis
     }
   }
 
-  const qualityStudies = getHighQualityEvidence(evidence);
+  const qualityStudies = getHighQualityEvidence(usable);
 
   return {
     systematicReviews,
@@ -506,6 +516,98 @@ export function generateCaveats(
   return caveats;
 }
 
+// ═══════════════════════════════════════════════════════════════
+// EXPERT PANEL VERDICTS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Summarize the expert panel's verdicts on a claim
+ */
+export function summarizeExpertVerdicts(
+  verdicts: ExpertClaimVerdict[]
+): ExpertPanelSummary {
+  const counts: Record<ExpertVerdict, number> = {
+    supported: 0,
+    refuted: 0,
+    mixed: 0,
+    insufficient_evidence: 0,
+    inconclusive: 0,
+  };
+  for (const v of verdicts) {
+    counts[v.verdict]++;
+  }
+
+  const majority = (Object.keys(counts) as ExpertVerdict[]).find(
+    (verdict) => counts[verdict] > verdicts.length / 2
+  );
+
+  // Low-confidence verdicts alone do not make a genuine disagreement
+  const confident = verdicts.filter((v) => v.confidence !== 'low');
+  const hasDisagreement =
+    confident.some((v) => v.verdict === 'supported') &&
+    confident.some((v) => v.verdict === 'refuted');
+
+  return {
+    verdicts,
+    counts,
+    majorityVerdict: majority || null,
+    hasDisagreement,
+  };
+}
+
+/**
+ * Adjust the evidence-based consensus level using the expert panel
+ *
+ * Experts from different disciplines confidently reaching opposite verdicts
+ * is a genuine debate, so a strong/moderate consensus built from search
+ * results alone is downgraded to active_debate.
+ */
+export function applyExpertPanelToLevel(
+  level: ConsensusLevel,
+  panel: ExpertPanelSummary
+): ConsensusLevel {
+  if (
+    panel.hasDisagreement &&
+    (level === 'strong_consensus' || level === 'moderate_consensus')
+  ) {
+    return 'active_debate';
+  }
+  return level;
+}
+
+/**
+ * Caveats describing how the expert panel relates to the evidence
+ */
+export function generateExpertPanelCaveats(
+  panel: ExpertPanelSummary,
+  supportRatio: number,
+  qualityStudyCount: number
+): string[] {
+  const caveats: string[] = [];
+
+  if (panel.hasDisagreement) {
+    caveats.push(
+      `Expert perspectives disagree: ${panel.counts.supported} found the claim supported, ${panel.counts.refuted} found it refuted`
+    );
+  }
+
+  // Flag a panel majority that runs against the direction of the evidence
+  if (qualityStudyCount > 0) {
+    const evidenceLeansFor = supportRatio >= 0.6;
+    const evidenceLeansAgainst = supportRatio <= 0.4;
+    if (
+      (panel.majorityVerdict === 'refuted' && evidenceLeansFor) ||
+      (panel.majorityVerdict === 'supported' && evidenceLeansAgainst)
+    ) {
+      caveats.push(
+        `Most expert perspectives found the claim ${panel.majorityVerdict}, which differs from the direction of the sources found`
+      );
+    }
+  }
+
+  return caveats;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // MAIN ASSESSMENT FUNCTION
 // ═══════════════════════════════════════════════════════════════
@@ -517,31 +619,64 @@ export function assessConsensus(
   input: ConsensusAssessmentInput,
   thresholds: ConsensusThresholds = DEFAULT_CONSENSUS_THRESHOLDS
 ): ConsensusAssessment {
-  const { claimText, claimType, domain, evidence } = input;
+  const { claimText, claimType, domain } = input;
+
+  // Retracted works don't count toward the assessment, but are reported
+  const evidence = excludeRetractedEvidence(input.evidence);
+  const flaggedEvidence = input.evidence
+    .filter((e) => e.citation.retraction)
+    .map((e) => e.citation);
+
+  // Summarize expert panel verdicts, if the panel stage ran
+  const expertPanel = input.expertVerdicts && input.expertVerdicts.length > 0
+    ? summarizeExpertVerdicts(input.expertVerdicts)
+    : undefined;
 
   // Determine consensus level
-  const level = determineConsensusLevel(claimType, evidence, thresholds);
+  let level = determineConsensusLevel(claimType, evidence, thresholds);
+  if (expertPanel) {
+    level = applyExpertPanelToLevel(level, expertPanel);
+  }
+
+  // Official figures settle a statistical claim, whatever the search found
+  const { referenceData } = input;
+  if (referenceData) {
+    level = 'strong_consensus';
+  }
 
   // Build evidence basis
-  const basis = buildEvidenceBasis(evidence);
+  const basis = buildEvidenceBasis(input.evidence);
 
   // Calculate evidence direction summary
   const qualityEvidence = getHighQualityEvidence(evidence);
   const counts = countEvidenceByDirection(qualityEvidence);
-  const supportRatio = calculateWeightedSupportRatio(qualityEvidence);
+  const supportRatio = referenceData
+    ? (referenceData.verdict === 'matches' ? 1 : 0)
+    : calculateWeightedSupportRatio(qualityEvidence);
 
-  // Determine confidence
-  const confidence = determineConfidence(level, evidence);
+  // Determine confidence (a guessed period makes a data comparison less certain)
+  const confidence: ConfidenceLevel = referenceData
+    ? (referenceData.periodInferred ? 'medium' : 'high')
+    : determineConfidence(level, evidence);
 
   // Generate framing
-  const framingSentence = generateFramingSentence(
-    level,
-    supportRatio,
-    basis.totalQualityStudies
-  );
+  const framingSentence = referenceData
+    ? referenceData.summary
+    : generateFramingSentence(level, supportRatio, basis.totalQualityStudies);
 
   // Generate caveats
   const caveats = generateCaveats(level, domain, basis.totalQualityStudies);
+  if (expertPanel) {
+    caveats.push(
+      ...generateExpertPanelCaveats(expertPanel, supportRatio, basis.totalQualityStudies)
+    );
+  }
+  if (referenceData) {
+    caveats.push(`Compared with ${referenceData.datasetName} (${referenceData.source})`);
+    if (referenceData.periodInferred) {
+      caveats.push(`The claim gives no period; it was compared with the latest figure (${referenceData.period})`);
+    }
+  }
 
   // Build detailed explanation
   const detailedExplanation = buildDetailedExplanation(
@@ -575,6 +710,9 @@ export function assessConsensus(
     },
     positions,
     emergingTrends,
+    expertPanel,
+    referenceData,
+    flaggedEvidence: flaggedEvidence.length > 0 ? flaggedEvidence : undefined,
     framingSentence,
     detailedExplanation,
     caveats,
@@ -1,13 +1,114 @@
+/**
+ * Cost Tracker Service
+ * Itemized ledger of every metered call (LLM tokens, Exa searches, CrossRef)
+ *
+ * Charges live in Redis, keyed by day, so totals survive restarts and are
+ * shared by every backend replica:
+ *
+ *   cost:{date}:total              spent + reserved, USD
+ *   cost:{date}:{dimension}        cost per provider/operation/model/endpoint/client
+ *   cost:{date}:{dimension}:calls  call count per value
+ *   cost:{date}:charges            newest-first itemized entries (trimmed)
+ *   cost:{date}:client:total       spent + reserved per client, USD
+ *   cost:{month}:client:total      the same per calendar month (YYYY-MM)
+ *
+ * Budget checks are atomic: callers reserve an estimate before spending
+ * (a Lua script refuses the reservation past the cap or the caller's API
+ * key quota) and settle the actual amount afterwards. Without Redis the
+ * ledger falls back to this process.
+ */
+
 import { config } from '../config';
+import { getClient } from './cache';
+import { getRequestContext } from './requestContext';
+import { createLogger } from './logger';
+import {
+  BudgetReservation,
+  ClientSpend,
+  CostBreakdown,
+  CostBucket,
+  CostCharge,
+  CostChargeDetails,
+  CostDimension,
+  CostHistoryDay,
+  CostLimit,
+  CostStatus,
+} from '../types/cost';
+
+const log = createLogger('CostTracker');
+
+const DIMENSIONS: CostDimension[] = ['provider', 'operation', 'model', 'endpoint', 'client'];
+
+/**
+ * Add ARGV[1] to the day's total (KEYS[1]) unless that would pass the cap
+ * (ARGV[2]). With a client (ARGV[4]), also add it to the client's daily and
+ * monthly totals (KEYS[2], KEYS[3]) unless that would pass its quotas
+ * (ARGV[5], ARGV[6]; negative = unlimited).
+ * Returns {0, new total}, or {n, total} when limit n refused it
+ * (1 = cap, 2 = client daily, 3 = client monthly).
+ */
+const RESERVE_SCRIPT = `
+local amount = tonumber(ARGV[1])
+local function over(current, limit)
+  return limit >= 0 and (current >= limit or current + amount > limit)
+end
+local total = tonumber(redis.call('GET', KEYS[1]) or '0')
+if over(total, tonumber(ARGV[2])) then
+  return {1, tostring(total)}
+end
+if #KEYS == 3 then
+  if over(tonumber(redis.call('HGET', KEYS[2], ARGV[4]) or '0'), tonumber(ARGV[5])) then
+    return {2, tostring(total)}
+  end
+  if over(tonumber(redis.call('HGET', KEYS[3], ARGV[4]) or '0'), tonumber(ARGV[6])) then
+    return {3, tostring(total)}
+  end
+  redis.call('HINCRBYFLOAT', KEYS[2], ARGV[4], ARGV[1])
+  redis.call('EXPIRE', KEYS[2], ARGV[3])
+  redis.call('HINCRBYFLOAT', KEYS[3], ARGV[4], ARGV[1])
+  redis.call('EXPIRE', KEYS[3], ARGV[7])
+end
+local updated = redis.call('INCRBYFLOAT', KEYS[1], ARGV[1])
+redis.call('EXPIRE', KEYS[1], ARGV[3])
+return {0, updated}
+`;
+
+const RESERVE_LIMITS: Record<number, CostLimit> = { 1: 'daily', 2: 'clientDaily', 3: 'clientMonthly' };
 
 interface DailyCostData {
   date: string;
+  /** Authoritative without Redis; otherwise the last total Redis reported */
   totalCost: number;
+  /** Only filled without Redis */
+  breakdown: CostBreakdown;
+  charges: CostCharge[];
+  /** Spent + reserved per client; only filled without Redis */
+  clientTotals: Record<string, number>;
+}
+
+/**
+ * Spent + reserved per client this month; only filled without Redis
+ */
+interface MonthlyClientData {
+  month: string;
+  clientTotals: Record<string, number>;
+}
+
+function emptyBreakdown(): CostBreakdown {
+  return { provider: {}, operation: {}, model: {}, endpoint: {}, client: {} };
 }
 
 let dailyCostData: DailyCostData = {
   date: new Date().toISOString().split('T')[0],
   totalCost: 0,
+  breakdown: emptyBreakdown(),
+  charges: [],
+  clientTotals: {},
+};
+
+let monthlyClientData: MonthlyClientData = {
+  month: dailyCostData.date.slice(0, 7),
+  clientTotals: {},
 };
 
 /**
@@ -23,35 +124,356 @@ function getCurrentDateString(): string {
 function ensureCurrentDay(): void {
   const today = getCurrentDateString();
   if (dailyCostData.date !== today) {
-    console.log(`[CostTracker] New day detected. Resetting daily cost from ${dailyCostData.date} to ${today}`);
+    log.info(`New day detected. Resetting daily cost from ${dailyCostData.date} to ${today}`);
     dailyCostData = {
       date: today,
       totalCost: 0,
+      breakdown: emptyBreakdown(),
+      charges: [],
+      clientTotals: {},
     };
   }
+
+  const month = today.slice(0, 7);
+  if (monthlyClientData.month !== month) {
+    monthlyClientData = { month, clientTotals: {} };
+  }
+}
+
+/**
+ * The client whose quota a charge counts against ('internal' work has none)
+ */
+function currentClient(): string | undefined {
+  const client = getRequestContext()?.client;
+  return client && client !== 'internal' ? client : undefined;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// REDIS KEYS
+// ═══════════════════════════════════════════════════════════════
+
+function totalKey(date: string): string {
+  return `cost:${date}:total`;
+}
+
+function dimensionKey(date: string, dimension: CostDimension): string {
+  return `cost:${date}:${dimension}`;
+}
+
+function callsKey(date: string, dimension: CostDimension): string {
+  return `cost:${date}:${dimension}:calls`;
+}
+
+function chargesKey(date: string): string {
+  return `cost:${date}:charges`;
+}
+
+/**
+ * Per-client totals for a day (YYYY-MM-DD) or a month (YYYY-MM)
+ */
+function clientTotalKey(period: string): string {
+  return `cost:${period}:client:total`;
+}
+
+function retentionSeconds(): number {
+  return config.costLedger.retentionDays * 86400;
+}
+
+/**
+ * Monthly totals must outlive the month even with a short retention period
+ */
+function monthRetentionSeconds(): number {
+  return Math.max(retentionSeconds(), 62 * 86400);
+}
+
+/**
+ * Build breakdown buckets from a cost hash and a call-count hash
+ */
+function toBuckets(costs: Record<string, string> | null, calls: Record<string, string> | null): Record<string, CostBucket> {
+  const buckets: Record<string, CostBucket> = {};
+  for (const [value, cost] of Object.entries(costs || {})) {
+    buckets[value] = { cost: parseFloat(cost) || 0, calls: parseInt(calls?.[value] || '0', 10) };
+  }
+  return buckets;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// RECORDING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Log the day's total against the cap
+ */
+function logBudget(amount: number): void {
+  const percentUsed = (dailyCostData.totalCost / config.dailyCostCap) * 100;
+
+  log.info(`Added cost: $${amount.toFixed(4)}. Daily total: $${dailyCostData.totalCost.toFixed(4)} (${percentUsed.toFixed(1)}% of cap)`);
+
+  if (percentUsed >= 80 && percentUsed < 100) {
+    log.warn(`WARNING: Approaching daily cost cap! Currently at ${percentUsed.toFixed(1)}% ($${dailyCostData.totalCost.toFixed(2)} / $${config.dailyCostCap})`);
+  } else if (percentUsed >= 100) {
+    log.error(`ALERT: Daily cost cap exceeded! Currently at ${percentUsed.toFixed(1)}% ($${dailyCostData.totalCost.toFixed(2)} / $${config.dailyCostCap})`);
+  }
+}
+
+/**
+ * The values a charge is counted under, per dimension
+ */
+function dimensionValues(charge: CostCharge): [CostDimension, string][] {
+  return DIMENSIONS
+    .map((dimension): [CostDimension, string | undefined] => [dimension, charge[dimension]])
+    .filter((entry): entry is [CostDimension, string] => !!entry[1]);
+}
+
+/**
+ * Add to a client's daily and monthly totals in this process
+ */
+function addClientTotalsInMemory(client: string, amount: number): void {
+  dailyCostData.clientTotals[client] = (dailyCostData.clientTotals[client] || 0) + amount;
+  monthlyClientData.clientTotals[client] = (monthlyClientData.clientTotals[client] || 0) + amount;
+}
+
+function recordInMemory(charge: CostCharge, reserved: number, client: string | undefined): void {
+  dailyCostData.totalCost += charge.amount - reserved;
+  if (client) {
+    addClientTotalsInMemory(client, charge.amount - reserved);
+  }
+
+  for (const [dimension, value] of dimensionValues(charge)) {
+    const bucket = dailyCostData.breakdown[dimension][value] || { cost: 0, calls: 0 };
+    bucket.cost += charge.amount;
+    bucket.calls += 1;
+    dailyCostData.breakdown[dimension][value] = bucket;
+  }
+
+  dailyCostData.charges.unshift(charge);
+  dailyCostData.charges.length = Math.min(dailyCostData.charges.length, config.costLedger.maxChargesPerDay);
 }
 
 /**
  * Track an API cost
+ * The request's endpoint and client are attached automatically.
  * @param amount - The cost amount in dollars
+ * @param details - Provider, operation and model being billed
+ * @param reserved - Amount already reserved for this call with reserveBudget()
  */
-export function trackCost(amount: number): void {
+export async function trackCost(amount: number, details: CostChargeDetails, reserved: number = 0): Promise<void> {
   ensureCurrentDay();
+
+  const context = getRequestContext();
+  const charge: CostCharge = {
+    ...details,
+    amount,
+    endpoint: context?.endpoint || 'internal',
+    client: context?.client || 'internal',
+    timestamp: new Date().toISOString(),
+  };
+  const date = dailyCostData.date;
+  const quotaClient = currentClient();
+  if (context?.budget) {
+    context.budget.spent += amount - reserved;
+  }
+
+  const client = await getClient();
+  if (client) {
+    try {
+      const ttl = retentionSeconds();
+      const multi = client.multi().incrbyfloat(totalKey(date), amount - reserved).expire(totalKey(date), ttl);
+      if (quotaClient) {
+        const month = monthlyClientData.month;
+        multi
+          .hincrbyfloat(clientTotalKey(date), quotaClient, amount - reserved)
+          .expire(clientTotalKey(date), ttl)
+          .hincrbyfloat(clientTotalKey(month), quotaClient, amount - reserved)
+          .expire(clientTotalKey(month), monthRetentionSeconds());
+      }
+      for (const [dimension, value] of dimensionValues(charge)) {
+        multi
+          .hincrbyfloat(dimensionKey(date, dimension), value, amount)
+          .hincrby(callsKey(date, dimension), value, 1)
+          .expire(dimensionKey(date, dimension), ttl)
+          .expire(callsKey(date, dimension), ttl);
+      }
+      multi
+        .lpush(chargesKey(date), JSON.stringify(charge))
+        .ltrim(chargesKey(date), 0, config.costLedger.maxChargesPerDay - 1)
+        .expire(chargesKey(date), ttl);
+
+      const results = await multi.exec();
+      dailyCostData.totalCost = parseFloat(String(results?.[0]?.[1] ?? dailyCostData.totalCost));
+      logBudget(amount);
+      return;
+    } catch (err) {
+      log.warn('Failed to record charge in Redis, keeping it in memory', { error: err });
+    }
+  }
+
+  recordInMemory(charge, reserved, quotaClient);
+  logBudget(amount);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// BUDGET
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Atomically reserve part of today's budget before spending it
+ * Inside a request made with an API key, the key's daily and monthly
+ * quotas are checked too, and inside a batch its spending limit.
+ * Settle with trackCost(actual, details, amount) or give it back with
+ * releaseBudget(amount) if the call fails.
+ * @param amount - Estimated cost in dollars
+ * @returns Whether it was reserved, and which limit refused it if not
+ */
+export async function reserveBudget(amount: number): Promise<BudgetReservation> {
+  const budget = getRequestContext()?.budget;
+  if (budget && budget.spent + amount > budget.limit) {
+    return { ok: false, limit: 'batch' };
+  }
+
+  const reservation = await reserveSharedBudget(amount);
+  if (reservation.ok && budget) {
+    budget.spent += amount;
+  }
+  return reservation;
+}
+
+/**
+ * Reserve against the daily cap and the caller's API key quota
+ */
+async function reserveSharedBudget(amount: number): Promise<BudgetReservation> {
+  ensureCurrentDay();
+  const date = dailyCostData.date;
+  const quotaClient = currentClient();
+  const quota = getRequestContext()?.quota;
+
+  const client = await getClient();
+  if (client) {
+    try {
+      const keys = quotaClient
+        ? [totalKey(date), clientTotalKey(date), clientTotalKey(monthlyClientData.month)]
+        : [totalKey(date)];
+      const [refusedBy, total] = (await client.eval(
+        RESERVE_SCRIPT,
+        keys.length,
+        ...keys,
+        amount,
+        config.dailyCostCap,
+        retentionSeconds(),
+        quotaClient || '',
+        quota?.daily ?? -1,
+        quota?.monthly ?? -1,
+        monthRetentionSeconds()
+      )) as [number, string];
+
+      dailyCostData.totalCost = parseFloat(String(total)) || 0;
+      return refusedBy === 0 ? { ok: true } : { ok: false, limit: RESERVE_LIMITS[refusedBy] };
+    } catch (err) {
+      log.warn('Budget reservation in Redis failed, checking locally', { error: err });
+    }
+  }
+
+  const exceeds = (current: number, limit: number | null | undefined) =>
+    limit !== null && limit !== undefined && (current >= limit || current + amount > limit);
+
+  if (exceeds(dailyCostData.totalCost, config.dailyCostCap)) {
+    return { ok: false, limit: 'daily' };
+  }
+  if (quotaClient) {
+    if (exceeds(dailyCostData.clientTotals[quotaClient] || 0, quota?.daily)) {
+      return { ok: false, limit: 'clientDaily' };
+    }
+    if (exceeds(monthlyClientData.clientTotals[quotaClient] || 0, quota?.monthly)) {
+      return { ok: false, limit: 'clientMonthly' };
+    }
+    addClientTotalsInMemory(quotaClient, amount);
+  }
   dailyCostData.totalCost += amount;
+  return { ok: true };
+}
 
-  const percentUsed = (dailyCostData.totalCost / config.dailyCostCap) * 100;
+/**
+ * Return a reservation that was never spent
+ * @param amount - The amount passed to reserveBudget()
+ */
+export async function releaseBudget(amount: number): Promise<void> {
+  ensureCurrentDay();
+  const date = dailyCostData.date;
+  const quotaClient = currentClient();
+  const budget = getRequestContext()?.budget;
+  if (budget) {
+    budget.spent -= amount;
+  }
 
-  console.log(`[CostTracker] Added cost: $${amount.toFixed(4)}. Daily total: $${dailyCostData.totalCost.toFixed(4)} (${percentUsed.toFixed(1)}% of cap)`);
+  const client = await getClient();
+  if (client) {
+    try {
+      const multi = client.multi().incrbyfloat(totalKey(date), -amount);
+      if (quotaClient) {
+        multi
+          .hincrbyfloat(clientTotalKey(date), quotaClient, -amount)
+          .hincrbyfloat(clientTotalKey(monthlyClientData.month), quotaClient, -amount);
+      }
+      const results = await multi.exec();
+      dailyCostData.totalCost = parseFloat(String(results?.[0]?.[1] ?? dailyCostData.totalCost));
+      return;
+    } catch (err) {
+      log.warn('Failed to release reservation in Redis', { error: err });
+    }
+  }
 
-  if (percentUsed >= 80 && percentUsed < 100) {
-    console.warn(`[CostTracker] WARNING: Approaching daily cost cap! Currently at ${percentUsed.toFixed(1)}% ($${dailyCostData.totalCost.toFixed(2)} / $${config.dailyCostCap})`);
-  } else if (percentUsed >= 100) {
-    console.error(`[CostTracker] ALERT: Daily cost cap exceeded! Currently at ${percentUsed.toFixed(1)}% ($${dailyCostData.totalCost.toFixed(2)} / $${config.dailyCostCap})`);
+  dailyCostData.totalCost = Math.max(0, dailyCostData.totalCost - amount);
+  if (quotaClient) {
+    addClientTotalsInMemory(quotaClient, -amount);
   }
 }
 
+/**
+ * Error message for a refused reservation
+ * Mentions "budget" so route handlers answer 429.
+ */
+export function budgetExceededMessage(limit: CostLimit): string {
+  switch (limit) {
+    case 'clientDaily':
+      return 'API key daily budget exceeded. Please try again tomorrow.';
+    case 'clientMonthly':
+      return 'API key monthly budget exceeded. Please try again next month.';
+    case 'batch':
+      return 'Batch cost budget exceeded.';
+    default:
+      return 'Daily cost budget exceeded. Please try again tomorrow.';
+  }
+}
+
+/**
+ * Get what a client has spent today and this month (including reservations)
+ * @param client - API key id (or IP when keys are not required)
+ */
+export async function getClientSpend(client: string): Promise<ClientSpend> {
+  ensureCurrentDay();
+
+  const redis = await getClient();
+  if (redis) {
+    try {
+      const [daily, monthly] = await Promise.all([
+        redis.hget(clientTotalKey(dailyCostData.date), client),
+        redis.hget(clientTotalKey(monthlyClientData.month), client),
+      ]);
+      return { daily: parseFloat(daily || '0') || 0, monthly: parseFloat(monthly || '0') || 0 };
+    } catch (err) {
+      log.warn('Failed to read client spend from Redis', { error: err });
+    }
+  }
+
+  return {
+    daily: dailyCostData.clientTotals[client] || 0,
+    monthly: monthlyClientData.clientTotals[client] || 0,
+  };
+}
+
 /**
  * Get the current daily cost
+ * With Redis this is the last total seen by this instance.
  * @returns The total cost for today in dollars
  */
 export function getDailyCost(): number {
@@ -60,18 +482,39 @@ export function getDailyCost(): number {
 }
 
 /**
- * Reset the daily cost to zero
+ * Reset the daily cost to zero (clears today's ledger; monthly client
+ * totals are kept)
  */
-export function resetDailyCost(): void {
+export async function resetDailyCost(): Promise<void> {
+  const date = getCurrentDateString();
   dailyCostData = {
-    date: getCurrentDateString(),
+    date,
     totalCost: 0,
+    breakdown: emptyBreakdown(),
+    charges: [],
+    clientTotals: {},
   };
-  console.log('[CostTracker] Daily cost has been reset');
+
+  const client = await getClient();
+  if (client) {
+    try {
+      await client.del(
+        totalKey(date),
+        chargesKey(date),
+        clientTotalKey(date),
+        ...DIMENSIONS.flatMap((d) => [dimensionKey(date, d), callsKey(date, d)])
+      );
+    } catch (err) {
+      log.warn('Failed to clear ledger in Redis', { error: err });
+    }
+  }
+
+  log.info('Daily cost has been reset');
 }
 
 /**
  * Check if we're over the daily budget
+ * A fast local check; reserveBudget() is the cross-instance guard.
  * @returns true if daily cost exceeds the cap
  */
 export function isOverBudget(): boolean {
@@ -80,21 +523,118 @@ export function isOverBudget(): boolean {
 }
 
 /**
- * Get cost tracker status
+ * Check if we're close to the daily budget
+ * @param threshold - Fraction of the cap (default LLM_BUDGET_DOWNGRADE_AT)
+ * @returns true if daily cost has reached that fraction of the cap
  */
-export function getCostStatus(): {
-  date: string;
-  totalCost: number;
-  dailyCap: number;
-  percentUsed: number;
-  isOverBudget: boolean;
-} {
+export function isNearBudget(threshold: number = config.llm.budgetDowngradeAt): boolean {
   ensureCurrentDay();
+  return dailyCostData.totalCost >= config.dailyCostCap * threshold;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// REPORTING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Get cost tracker status with today's breakdowns
+ */
+export async function getCostStatus(): Promise<CostStatus> {
+  ensureCurrentDay();
+  const date = dailyCostData.date;
+  let storage: CostStatus['storage'] = 'memory';
+  let breakdown = dailyCostData.breakdown;
+
+  const client = await getClient();
+  if (client) {
+    try {
+      const multi = client.multi().get(totalKey(date));
+      for (const dimension of DIMENSIONS) {
+        multi.hgetall(dimensionKey(date, dimension)).hgetall(callsKey(date, dimension));
+      }
+      const results = (await multi.exec()) || [];
+
+      dailyCostData.totalCost = parseFloat(String(results[0]?.[1] ?? '0')) || 0;
+      breakdown = emptyBreakdown();
+      DIMENSIONS.forEach((dimension, i) => {
+        breakdown[dimension] = toBuckets(
+          results[1 + i * 2]?.[1] as Record<string, string>,
+          results[2 + i * 2]?.[1] as Record<string, string>
+        );
+      });
+      storage = 'redis';
+    } catch (err) {
+      log.warn('Failed to read ledger from Redis', { error: err });
+    }
+  }
+
   return {
-    date: dailyCostData.date,
+    date,
     totalCost: dailyCostData.totalCost,
     dailyCap: config.dailyCostCap,
     percentUsed: (dailyCostData.totalCost / config.dailyCostCap) * 100,
     isOverBudget: isOverBudget(),
+    storage,
+    breakdown,
   };
 }
+
+/**
+ * Get daily totals for the last N days, newest first
+ * @param days - Number of days including today (capped at the retention period)
+ */
+export async function getCostHistory(days: number = 7): Promise<CostHistoryDay[]> {
+  ensureCurrentDay();
+  const count = Math.max(1, Math.min(days, config.costLedger.retentionDays));
+  const dates = Array.from({ length: count }, (_, i) =>
+    new Date(Date.now() - i * 86400000).toISOString().split('T')[0]
+  );
+
+  const client = await getClient();
+  if (client) {
+    try {
+      const multi = client.multi();
+      for (const date of dates) {
+        multi.get(totalKey(date)).hgetall(dimensionKey(date, 'provider')).hgetall(callsKey(date, 'provider'));
+      }
+      const results = (await multi.exec()) || [];
+
+      return dates.map((date, i) => ({
+        date,
+        totalCost: parseFloat(String(results[i * 3]?.[1] ?? '0')) || 0,
+        byProvider: toBuckets(
+          results[i * 3 + 1]?.[1] as Record<string, string>,
+          results[i * 3 + 2]?.[1] as Record<string, string>
+        ),
+      }));
+    } catch (err) {
+      log.warn('Failed to read history from Redis', { error: err });
+    }
+  }
+
+  // Without Redis only today is known
+  return dates.map((date) => date === dailyCostData.date
+    ? { date, totalCost: dailyCostData.totalCost, byProvider: dailyCostData.breakdown.provider }
+    : { date, totalCost: 0, byProvider: {} });
+}
+
+/**
+ * Get the itemized charges for a day, newest first
+ * @param date - YYYY-MM-DD (default today)
+ * @param limit - Maximum entries
+ */
+export async function getCostCharges(date: string = getCurrentDateString(), limit: number = 100): Promise<CostCharge[]> {
+  ensureCurrentDay();
+
+  const client = await getClient();
+  if (client) {
+    try {
+      const entries = await client.lrange(chargesKey(date), 0, limit - 1);
+      return entries.map((entry) => JSON.parse(entry) as CostCharge);
+    } catch (err) {
+      log.warn('Failed to read charges from Redis', { error: err });
+    }
+  }
+
+  return date === dailyCostData.date ? dailyCostData.charges.slice(0, limit) : [];
+}
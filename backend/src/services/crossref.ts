@@ -1,4 +1,10 @@
 import * as cache from './cache';
+import { config } from '../config';
+import { trackCost } from './costTracker';
+import { createLogger } from './logger';
+import { SearchOptions } from '../types/search';
+
+const log = createLogger('CrossRef');
 
 const CROSSREF_API_BASE = 'https://api.crossref.org/works';
 const CACHE_TTL_SECONDS = 24 * 60 * 60; // 24 hours
@@ -14,6 +20,7 @@ export interface DOIMetadata {
   journal?: string;
   year?: number;
   url?: string;
+  abstract?: string;
 }
 
 interface CrossRefAuthor {
@@ -37,6 +44,7 @@ interface CrossRefWork {
   };
   URL?: string;
   DOI?: string;
+  abstract?: string;
 }
 
 interface CrossRefResponse {
@@ -56,6 +64,14 @@ function getUserAgent(): string {
   return base;
 }
 
+/**
+ * Record a CrossRef request in the cost ledger
+ * Free on the public API; CROSSREF_COST_PER_REQUEST prices Metadata Plus.
+ */
+export async function trackCrossRefRequest(operation: string): Promise<void> {
+  await trackCost(config.costRates.crossrefPerRequest, { provider: 'crossref', operation });
+}
+
 /**
  * Normalize a DOI string by removing common prefixes
  */
@@ -141,6 +157,11 @@ function parseMetadata(work: CrossRefWork): DOIMetadata {
     metadata.url = `https://doi.org/${work.DOI}`;
   }
 
+  // Abstract (JATS XML)
+  if (work.abstract) {
+    metadata.abstract = work.abstract.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
   return metadata;
 }
 
@@ -161,11 +182,11 @@ export async function lookupDOI(doi: string): Promise<DOIMetadata> {
   // Check cache first
   const cached = await cache.get<DOIMetadata>(cacheKey);
   if (cached !== null) {
-    console.log(`[CrossRef] Cache hit for DOI: ${normalizedDOI}`);
+    log.info(`Cache hit for DOI: ${normalizedDOI}`);
     return cached;
   }
 
-  console.log(`[CrossRef] Looking up DOI: ${normalizedDOI}`);
+  log.info(`Looking up DOI: ${normalizedDOI}`);
 
   try {
     const response = await fetch(`${CROSSREF_API_BASE}/${encodeURIComponent(normalizedDOI)}`, {
@@ -174,17 +195,18 @@ export async function lookupDOI(doi: string): Promise<DOIMetadata> {
         'Accept': 'application/json',
       },
     });
+    await trackCrossRefRequest('lookupDOI');
 
     if (response.status === 404) {
       // DOI not found - cache the negative result
       const result: DOIMetadata = { valid: false };
       await cache.set(cacheKey, result, CACHE_TTL_SECONDS);
-      console.log(`[CrossRef] DOI not found: ${normalizedDOI}`);
+      log.info(`DOI not found: ${normalizedDOI}`);
       return result;
     }
 
     if (!response.ok) {
-      console.warn(`[CrossRef] API error for DOI ${normalizedDOI}: ${response.status} ${response.statusText}`);
+      log.warn(`API error for DOI ${normalizedDOI}: ${response.status} ${response.statusText}`);
       // Don't cache errors - they might be temporary
       return { valid: false };
     }
@@ -194,16 +216,48 @@ export async function lookupDOI(doi: string): Promise<DOIMetadata> {
 
     // Cache the successful result
     await cache.set(cacheKey, metadata, CACHE_TTL_SECONDS);
-    console.log(`[CrossRef] Successfully looked up DOI: ${normalizedDOI}`);
+    log.info(`Successfully looked up DOI: ${normalizedDOI}`);
 
     return metadata;
   } catch (error) {
-    console.error(`[CrossRef] Error looking up DOI ${normalizedDOI}:`, (error as Error).message);
+    log.error(`Error looking up DOI ${normalizedDOI}`, { error });
     // Don't cache network errors - they might be temporary
     return { valid: false };
   }
 }
 
+/**
+ * Bibliographic search over CrossRef works, most relevant first
+ * Errors propagate - callers decide whether to fall back.
+ * @param query - Free-text query
+ * @param rows - Number of works to return
+ * @param options - Publish-date bounds
+ */
+export async function searchWorks(query: string, rows: number = 10, options: SearchOptions = {}): Promise<DOIMetadata[]> {
+  const filters = [
+    options.startPublishedDate && `from-pub-date:${options.startPublishedDate}`,
+    options.endPublishedDate && `until-pub-date:${options.endPublishedDate}`,
+  ].filter(Boolean);
+  const response = await fetch(
+    `${CROSSREF_API_BASE}?query=${encodeURIComponent(query)}&rows=${Math.min(rows, 50)}` +
+      (filters.length > 0 ? `&filter=${filters.join(',')}` : ''),
+    {
+      headers: {
+        'User-Agent': getUserAgent(),
+        'Accept': 'application/json',
+      },
+    }
+  );
+  await trackCrossRefRequest('searchWorks');
+
+  if (!response.ok) {
+    throw new Error(`CrossRef API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json() as { message: { items?: CrossRefWork[] } };
+  return (data.message.items || []).map(parseMetadata);
+}
+
 /**
  * Verify if a DOI exists
  * @param doi - The DOI to verify
@@ -236,6 +290,7 @@ export async function verifyDOIs(dois: string[]): Promise<Map<string, boolean>>
 
 export default {
   lookupDOI,
+  searchWorks,
   verifyDOI,
   verifyDOIs,
 };
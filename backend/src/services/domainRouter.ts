@@ -7,6 +7,7 @@
 
 import { Domain, ClassifiedClaim } from '../types/claims';
 import { DOMAIN_CONFIGS, DomainConfig } from '../config/domainConfigs';
+import { getResolvedClaimText } from './timeframe';
 
 /**
  * Get domain configuration for a given domain
@@ -79,7 +80,7 @@ function extractTopic(claimText: string): string {
  */
 export function buildSearchQueries(claim: ClassifiedClaim): string[] {
   const config = getDomainConfig(claim.domain);
-  const topic = extractTopic(claim.text);
+  const topic = extractTopic(getResolvedClaimText(claim));
 
   // Generate queries from templates
   const queries = config.queryTemplates.map(template =>
@@ -0,0 +1,95 @@
+/**
+ * Evidence Cache
+ * Evidence gathered for a claim, shared between pipeline runs
+ *
+ * A batch evaluation passes one cache to every article's run: a claim made
+ * by several articles is searched once, and runs that reach it at the same
+ * time wait for the same search. Results are also kept in Redis for an
+ * hour, so rerunning a batch (or an overlapping one) reuses them.
+ */
+
+import crypto from 'crypto';
+import cache from './cache';
+import { DirectedEvidence } from '../types/consensus';
+
+const EVIDENCE_TTL = 60 * 60;
+
+/**
+ * Normalize claim text so trivially different wordings share a key
+ * (case, punctuation, whitespace, "n't")
+ */
+export function normalizeClaimText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/n['’]t\b/g, ' not')
+    .replace(/[‘’“”]/g, '')
+    .replace(/[^\p{L}\p{N}%$.\s]/gu, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export class EvidenceCache {
+  private inFlight = new Map<string, Promise<DirectedEvidence[]>>();
+  private ttlSeconds: number;
+  private hitCount = 0;
+  private missCount = 0;
+
+  constructor(ttlSeconds: number = EVIDENCE_TTL) {
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /** Lookups answered without a new search */
+  get hits(): number {
+    return this.hitCount;
+  }
+
+  /** Lookups that searched */
+  get misses(): number {
+    return this.missCount;
+  }
+
+  /**
+   * Evidence for a claim, gathering it only if no run has yet
+   * @param claimText - The claim as extracted
+   * @param variant - Search settings that change the result (e.g. max results)
+   * @param gather - Searches for the evidence; failures are not cached
+   */
+  async getOrGather(
+    claimText: string,
+    variant: string,
+    gather: () => Promise<DirectedEvidence[]>
+  ): Promise<DirectedEvidence[]> {
+    const key = this.cacheKey(claimText, variant);
+
+    let pending = this.inFlight.get(key);
+    if (pending) {
+      this.hitCount++;
+    } else {
+      pending = this.load(key, gather);
+      this.inFlight.set(key, pending);
+      pending.catch(() => this.inFlight.delete(key));
+    }
+
+    // Each run gets its own copy; later stages replace fields on the evidence
+    return structuredClone(await pending);
+  }
+
+  private async load(key: string, gather: () => Promise<DirectedEvidence[]>): Promise<DirectedEvidence[]> {
+    const cached = await cache.get<DirectedEvidence[]>(key);
+    if (cached) {
+      this.hitCount++;
+      return cached;
+    }
+
+    this.missCount++;
+    const evidence = await gather();
+    await cache.set(key, evidence, this.ttlSeconds);
+    return evidence;
+  }
+
+  private cacheKey(claimText: string, variant: string): string {
+    const hash = crypto.createHash('md5').update(`${normalizeClaimText(claimText)}|${variant}`).digest('hex');
+    return `evidence:${hash}`;
+  }
+}
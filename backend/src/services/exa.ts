@@ -1,3 +1,11 @@
+import { config } from '../config';
+import { trackCost } from './costTracker';
+import { createLogger } from './logger';
+import { searchRetries } from './metrics';
+import { SearchOperation, SearchOptions, SearchProvider, SearchResponse, SearchResult } from '../types/search';
+
+const log = createLogger('Exa');
+
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const Exa = require('exa-js').default || require('exa-js');
 
@@ -6,18 +14,9 @@ type ExaClient = {
   searchAndContents: (query: string, options: Record<string, unknown>) => Promise<{ results: unknown[] }>;
 };
 
-// Types for search results
-export interface ExaSearchResult {
-  title: string;
-  url: string;
-  snippet: string;
-  publishedDate?: string;
-  author?: string;
-}
-
-export interface ExaSearchResponse {
-  results: ExaSearchResult[];
-}
+// Types for search results (shared by every search provider)
+export type ExaSearchResult = SearchResult;
+export type ExaSearchResponse = SearchResponse;
 
 // Retry configuration
 const MAX_RETRIES = 3;
@@ -53,10 +52,12 @@ function sleep(ms: number): Promise<void> {
 
 /**
  * Execute a function with exponential backoff retry logic
+ * Retries are counted under the search operation they belong to.
  */
 async function withRetry<T>(
   fn: () => Promise<T>,
-  operation: string
+  operation: string,
+  searchOperation: SearchOperation
 ): Promise<T> {
   let lastError: Error | null = null;
 
@@ -76,10 +77,11 @@ async function withRetry<T>(
 
       if (attempt < MAX_RETRIES - 1) {
         const delay = BASE_DELAY_MS * Math.pow(2, attempt);
-        console.log(
-          `[Exa] ${operation} failed (attempt ${attempt + 1}/${MAX_RETRIES}), ` +
+        log.info(
+          `${operation} failed (attempt ${attempt + 1}/${MAX_RETRIES}), ` +
           `retrying in ${delay}ms: ${lastError.message}`
         );
+        searchRetries.inc({ provider: 'exa', operation: searchOperation });
         await sleep(delay);
       }
     }
@@ -88,6 +90,14 @@ async function withRetry<T>(
   throw lastError || new Error(`${operation} failed after ${MAX_RETRIES} attempts`);
 }
 
+/**
+ * Record a search in the cost ledger (per-search price plus contents per result)
+ */
+async function trackSearchCost(operation: string, resultCount: number): Promise<void> {
+  const amount = config.costRates.exaPerSearch + resultCount * config.costRates.exaPerResult;
+  await trackCost(amount, { provider: 'exa', operation });
+}
+
 // Raw result type from Exa API
 interface RawExaResult {
   title?: string;
@@ -114,14 +124,26 @@ function transformResults(results: unknown[]): ExaSearchResult[] {
   });
 }
 
+/**
+ * Exa's publish-date filters (ISO dates; the end date is inclusive)
+ */
+function dateFilters(options: SearchOptions): Record<string, string> {
+  return {
+    ...(options.startPublishedDate && { startPublishedDate: `${options.startPublishedDate}T00:00:00.000Z` }),
+    ...(options.endPublishedDate && { endPublishedDate: `${options.endPublishedDate}T23:59:59.999Z` }),
+  };
+}
+
 /**
  * Search for news articles on a topic
  * @param topic - The topic to search for
  * @param numResults - Number of results to return (default: 10)
+ * @param options - Publish-date bounds
  */
 export async function searchNews(
   topic: string,
-  numResults: number = 10
+  numResults: number = 10,
+  options: SearchOptions = {}
 ): Promise<ExaSearchResponse> {
   const client = getClient();
 
@@ -133,9 +155,12 @@ export async function searchNews(
         numResults,
         category: 'news',
         text: { maxCharacters: 500 },
+        ...dateFilters(options),
       }),
-    'searchNews'
+    'searchNews',
+    'news'
   );
+  await trackSearchCost('searchNews', response.results.length);
 
   return {
     results: transformResults(response.results),
@@ -146,10 +171,12 @@ export async function searchNews(
  * Search for academic/research papers on a topic
  * @param topic - The topic to search for
  * @param numResults - Number of results to return (default: 10)
+ * @param options - Publish-date bounds
  */
 export async function searchAcademic(
   topic: string,
-  numResults: number = 10
+  numResults: number = 10,
+  options: SearchOptions = {}
 ): Promise<ExaSearchResponse> {
   const client = getClient();
 
@@ -161,9 +188,12 @@ export async function searchAcademic(
         numResults,
         category: 'research paper',
         text: { maxCharacters: 500 },
+        ...dateFilters(options),
       }),
-    'searchAcademic'
+    'searchAcademic',
+    'academic'
   );
+  await trackSearchCost('searchAcademic', response.results.length);
 
   return {
     results: transformResults(response.results),
@@ -174,10 +204,12 @@ export async function searchAcademic(
  * Search for expert commentary (news, interviews) on a topic
  * @param topic - The topic to search for
  * @param numResults - Number of results to return (default: 10)
+ * @param options - Publish-date bounds
  */
 export async function searchExpertCommentary(
   topic: string,
-  numResults: number = 10
+  numResults: number = 10,
+  options: SearchOptions = {}
 ): Promise<ExaSearchResponse> {
   const client = getClient();
 
@@ -190,9 +222,12 @@ export async function searchExpertCommentary(
         numResults,
         category: 'news',
         text: { maxCharacters: 500 },
+        ...dateFilters(options),
       }),
-    'searchExpertCommentary'
+    'searchExpertCommentary',
+    'expertCommentary'
   );
+  await trackSearchCost('searchExpertCommentary', response.results.length);
 
   return {
     results: transformResults(response.results).map((result) => ({
@@ -209,10 +244,12 @@ export async function searchExpertCommentary(
  * Search for fact verification - get current info about entities/claims
  * @param query - The fact or entity to verify
  * @param numResults - Number of results to return (default: 5)
+ * @param options - Publish-date bounds
  */
 export async function searchFactCheck(
   query: string,
-  numResults: number = 5
+  numResults: number = 5,
+  options: SearchOptions = {}
 ): Promise<ExaSearchResponse> {
   const client = getClient();
 
@@ -223,9 +260,12 @@ export async function searchFactCheck(
         useAutoprompt: true,
         numResults,
         text: { maxCharacters: 300 },
+        ...dateFilters(options),
       }),
-    'searchFactCheck'
+    'searchFactCheck',
+    'factCheck'
   );
+  await trackSearchCost('searchFactCheck', response.results.length);
 
   return {
     results: transformResults(response.results),
@@ -239,6 +279,18 @@ export function isConfigured(): boolean {
   return !!EXA_API_KEY;
 }
 
+/**
+ * Exa as a search provider (serves every operation)
+ */
+export const exaProvider: SearchProvider = {
+  name: 'exa',
+  isConfigured,
+  news: searchNews,
+  academic: searchAcademic,
+  expertCommentary: searchExpertCommentary,
+  factCheck: searchFactCheck,
+};
+
 // Default export with all methods
 export default {
   searchNews,
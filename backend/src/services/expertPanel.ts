@@ -0,0 +1,362 @@
+/**
+ * Expert Panel Service
+ * Dynamic expert identification and parallel research agents
+ *
+ * Reference: EXPERT_EVALUATION_SPEC_V2.md Part 3.2-3.3, Part 6
+ *
+ * Static DOMAIN_CONFIGS query templates search every claim the same way.
+ * This service instead:
+ * 1. Asks the LLM which 3-5 expert types would evaluate the article's claims
+ * 2. Runs one research agent per expert type, in parallel, each searching
+ *    with its own focus and analyzing the results through its own lens
+ * 3. Produces per-claim verdicts and directed evidence that feed
+ *    assessConsensus and the Expert Panel output section
+ *
+ * If identification fails, a team is derived from the claims' domain
+ * configs. Agents that fail are dropped; the pipeline never fails because
+ * of the panel.
+ */
+
+import { Article, ClassifiedClaim } from '../types/claims';
+import { Citation, ConfidenceLevel, DirectedEvidence, EvidenceDirection } from '../types/consensus';
+import {
+  ExpertType,
+  ExpertTeam,
+  ExpertVerdict,
+  ExpertClaimVerdict,
+  ExpertPanelSource,
+  ExpertFindings,
+  ExpertPanelResult,
+} from '../types/expertPanel';
+import { buildSearchQueries, getDomainConfig } from './domainRouter';
+import { classifyEvidenceTier } from './evidenceTier';
+import { isLLMStanceAvailable } from './stanceClassifier';
+import { searchAcademic, SearchResult } from './searchProvider';
+import { openaiService } from './openai';
+import { createLogger } from './logger';
+
+const log = createLogger('ExpertPanel');
+
+// ═══════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════
+
+const MIN_EXPERT_TYPES = 3;
+const MAX_EXPERT_TYPES = 5;
+
+/**
+ * Maximum characters of each search result sent to an agent
+ */
+const MAX_RESULT_TEXT_LENGTH = 500;
+
+const VALID_VERDICTS: ExpertVerdict[] = [
+  'supported',
+  'refuted',
+  'mixed',
+  'insufficient_evidence',
+  'inconclusive',
+];
+const VALID_DIRECTIONS: EvidenceDirection[] = ['supports', 'opposes', 'mixed', 'neutral'];
+const VALID_CONFIDENCE: ConfidenceLevel[] = ['high', 'medium', 'low'];
+
+// ═══════════════════════════════════════════════════════════════
+// EXPERT IDENTIFICATION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Check whether the expert panel can run right now (needs the LLM)
+ */
+export function isExpertPanelAvailable(): boolean {
+  return isLLMStanceAvailable();
+}
+
+/**
+ * Build an expert team from the claims' domain configs
+ * Used when LLM identification fails or returns nothing usable
+ */
+export function buildFallbackExpertTeam(
+  claims: ClassifiedClaim[],
+  articleSubjects: string[]
+): ExpertTeam {
+  const experts: ExpertType[] = [];
+  const seenDomains = new Set<string>();
+
+  for (const claim of claims) {
+    if (seenDomains.has(claim.domain) || experts.length >= MAX_EXPERT_TYPES) continue;
+    seenDomains.add(claim.domain);
+
+    const config = getDomainConfig(claim.domain);
+    const department = config.expertIdentification.relevantDepartments[0] || config.name;
+    const [searchFocus] = buildSearchQueries(claim);
+
+    experts.push({
+      type: `${department} researcher (${config.name})`,
+      searchFocus,
+      keyDatabases: config.academicSources.databases,
+      lookFor: [
+        ...config.academicSources.systematicReviewSources,
+        ...config.academicSources.majorReports,
+      ].slice(0, 4).join(', '),
+      whyNeeded: `To evaluate ${config.name} claims against the research literature`,
+    });
+  }
+
+  return { experts, articleSubjectsToExclude: articleSubjects, method: 'domain_config' };
+}
+
+/**
+ * Identify the expert types needed to evaluate a set of claims
+ */
+export async function identifyExpertTeam(
+  article: Article,
+  claims: ClassifiedClaim[],
+  articleSubjects: string[]
+): Promise<ExpertTeam> {
+  try {
+    const response = await openaiService.identifyExpertTypes(
+      article.title,
+      claims.map((c) => ({ id: c.id, text: c.text })),
+      articleSubjects
+    );
+
+    const experts = response.experts
+      .filter((e) => e && typeof e.type === 'string' && typeof e.searchFocus === 'string' && e.searchFocus.trim())
+      .slice(0, MAX_EXPERT_TYPES)
+      .map((e) => ({
+        type: e.type,
+        searchFocus: e.searchFocus,
+        keyDatabases: Array.isArray(e.keyDatabases) ? e.keyDatabases : [],
+        lookFor: e.lookFor || '',
+        whyNeeded: e.whyNeeded || '',
+      }));
+
+    if (experts.length === 0) {
+      log.warn('LLM returned no usable expert types, using domain configs');
+      return buildFallbackExpertTeam(claims, articleSubjects);
+    }
+    if (experts.length < MIN_EXPERT_TYPES) {
+      log.warn(`Only ${experts.length} expert types identified (expected ${MIN_EXPERT_TYPES}-${MAX_EXPERT_TYPES})`);
+    }
+
+    // Always exclude the extracted subjects, plus any the LLM added
+    const articleSubjectsToExclude = Array.from(
+      new Set([...articleSubjects, ...response.articleSubjectsToExclude])
+    );
+
+    return { experts, articleSubjectsToExclude, method: 'llm', model: response.model };
+  } catch (error) {
+    log.warn('Expert identification failed, using domain configs', { error });
+    return buildFallbackExpertTeam(claims, articleSubjects);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EXPERT RESEARCH AGENTS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Build an agent's search queries from its focus and priorities
+ */
+export function buildExpertQueries(expert: ExpertType): string[] {
+  const queries = [expert.searchFocus];
+
+  // Second query leans on the evidence types this expert prioritizes
+  const [firstPriority] = expert.lookFor.split(',').map((p) => p.trim()).filter(Boolean);
+  if (firstPriority) {
+    queries.push(`${expert.searchFocus} ${firstPriority}`);
+  }
+
+  return queries;
+}
+
+/**
+ * Check whether a search result is by or about an excluded article subject
+ */
+function mentionsExcludedSubject(result: SearchResult, excluded: string[]): boolean {
+  const haystack = `${result.title} ${result.author || ''}`.toLowerCase();
+  return excluded.some((subject) => subject && haystack.includes(subject.toLowerCase()));
+}
+
+/**
+ * Extract a publication year from a search result
+ */
+function resultYear(result: SearchResult): number {
+  const match = result.publishedDate?.match(/\b(19|20)\d{2}\b/);
+  return match ? parseInt(match[0], 10) : new Date().getFullYear();
+}
+
+/**
+ * Run one expert type's research agent over the claims
+ */
+export async function runExpertAgent(
+  expert: ExpertType,
+  claims: ClassifiedClaim[],
+  excludedSubjects: string[],
+  maxResults: number = 10
+): Promise<ExpertFindings> {
+  const queries = buildExpertQueries(expert);
+  const perQuery = Math.ceil(maxResults / queries.length);
+
+  const responses = await Promise.all(
+    queries.map((query) =>
+      searchAcademic(query, perQuery).catch((error) => {
+        log.warn(`Search failed for "${expert.type}" query "${query}"`, { error });
+        return { results: [] as SearchResult[] };
+      })
+    )
+  );
+
+  // Dedupe by URL and drop anything by or about the article subjects
+  const seenUrls = new Set<string>();
+  const results = responses
+    .flatMap((r) => r.results)
+    .filter((r) => {
+      if (seenUrls.has(r.url) || mentionsExcludedSubject(r, excludedSubjects)) return false;
+      seenUrls.add(r.url);
+      return true;
+    })
+    .slice(0, maxResults);
+
+  const claimIds = new Set(claims.map((c) => c.id));
+
+  const response = await openaiService.analyzeAsExpert(
+    expert,
+    claims.map((c) => ({ id: c.id, text: c.text })),
+    excludedSubjects,
+    results.map((r) => ({
+      title: r.title,
+      url: r.url,
+      text: r.snippet.substring(0, MAX_RESULT_TEXT_LENGTH),
+    }))
+  );
+
+  // Sources must point back at a real search result - never trust a cited URL
+  const sources: ExpertPanelSource[] = [];
+  for (const source of response.sources) {
+    const result = typeof source?.index === 'number' ? results[source.index] : undefined;
+    if (!result) continue;
+
+    const claimStances = (Array.isArray(source.claimStances) ? source.claimStances : [])
+      .filter((s) => claimIds.has(s.claimId) && VALID_DIRECTIONS.includes(s.direction));
+    if (claimStances.length === 0) continue;
+
+    sources.push({
+      title: result.title,
+      publication: new URL(result.url).hostname.replace('www.', ''),
+      year: resultYear(result),
+      url: result.url,
+      keyFinding: source.keyFinding || result.snippet.substring(0, 300),
+      claimStances,
+    });
+  }
+
+  const verdicts: ExpertClaimVerdict[] = response.claimAssessments
+    .filter((a) => a && claimIds.has(a.claimId) && VALID_VERDICTS.includes(a.verdict))
+    .map((a) => ({
+      expertType: expert.type,
+      claimId: a.claimId,
+      verdict: a.verdict,
+      confidence: VALID_CONFIDENCE.includes(a.confidence) ? a.confidence : 'low',
+      reasoning: a.reasoning || '',
+      keyEvidence: Array.isArray(a.keyEvidence) ? a.keyEvidence : [],
+    }));
+
+  log.info(`"${expert.type}": ${sources.length} sources, ${verdicts.length} verdicts from ${results.length} results`);
+
+  return {
+    expert,
+    sources,
+    verdicts,
+    overallAssessment: response.overallAssessment,
+    methodologicalConcerns: response.methodologicalConcerns,
+    limitations: response.limitations,
+    model: response.model,
+  };
+}
+
+/**
+ * Identify the expert team and run every agent in parallel
+ */
+export async function runExpertPanel(
+  article: Article,
+  claims: ClassifiedClaim[],
+  articleSubjects: string[],
+  maxResultsPerExpert: number = 10
+): Promise<ExpertPanelResult> {
+  const team = await identifyExpertTeam(article, claims, articleSubjects);
+  log.info(`Running ${team.experts.length} expert agents (${team.method}): ${team.experts.map((e) => e.type).join('; ')}`);
+
+  const settled = await Promise.allSettled(
+    team.experts.map((expert) =>
+      runExpertAgent(expert, claims, team.articleSubjectsToExclude, maxResultsPerExpert)
+    )
+  );
+
+  const findings: ExpertFindings[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      findings.push(outcome.value);
+    } else {
+      log.warn(`Agent "${team.experts[i].type}" failed`, { error: outcome.reason });
+    }
+  });
+
+  return { team, findings };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PER-CLAIM VIEWS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Get every expert's verdict on a claim
+ */
+export function getVerdictsForClaim(
+  panel: ExpertPanelResult,
+  claimId: string
+): ExpertClaimVerdict[] {
+  return panel.findings.flatMap((f) => f.verdicts.filter((v) => v.claimId === claimId));
+}
+
+/**
+ * Convert the panel's sources for a claim into directed evidence
+ * Sources cited by several experts are included once (first expert wins).
+ */
+export function getEvidenceForClaim(
+  panel: ExpertPanelResult,
+  claimId: string
+): DirectedEvidence[] {
+  const evidence: DirectedEvidence[] = [];
+  const seenUrls = new Set<string>();
+
+  for (const findings of panel.findings) {
+    for (const source of findings.sources) {
+      const stance = source.claimStances.find((s) => s.claimId === claimId);
+      if (!stance || seenUrls.has(source.url)) continue;
+      seenUrls.add(source.url);
+
+      const classification = classifyEvidenceTier({ url: source.url, title: source.title });
+      const citation: Citation = {
+        title: source.title,
+        authors: [],
+        publication: source.publication,
+        year: source.year,
+        url: source.url,
+        finding: source.keyFinding.substring(0, 200),
+      };
+
+      evidence.push({
+        citation,
+        tier: classification.tier,
+        category: classification.category,
+        direction: stance.direction,
+        directionRationale: `Assessed by ${findings.expert.type}`,
+        directionMethod: 'llm',
+        ...(findings.model && { directionModel: findings.model }),
+        keyFinding: source.keyFinding.substring(0, 300),
+      });
+    }
+  }
+
+  return evidence;
+}
@@ -26,6 +26,9 @@ import {
   BatchValidationResult,
   ExpertQualityIndicators,
 } from '../types/expert';
+import { createLogger } from './logger';
+
+const log = createLogger('ExpertValidator');
 
 // ═══════════════════════════════════════════════════════════════
 // EXCLUSION PATTERNS
@@ -516,7 +519,7 @@ export async function validateExpertWithLLM(
     };
   } catch (error) {
     // Fallback to heuristic validation on LLM failure
-    console.warn('[ExpertValidator] LLM validation failed, using heuristics:', (error as Error).message);
+    log.warn('LLM validation failed, using heuristics', { error });
     const heuristicResult = validateExpert({ person, articleSubjects, claimDomain: domain });
 
     return {
@@ -565,7 +568,7 @@ export async function validateExpertsWithLLM(
  * @returns ExpertValidation result
  */
 export function validateExpert(input: ExpertValidationInput): ExpertValidation {
-  const { person, articleSubjects, claimDomain } = input;
+  const { person, articleSubjects, claimDomain, qualityIndicators } = input;
 
   // Check disqualifying factors first (these are absolute)
   const disqualifiers = checkDisqualifiers(person, articleSubjects);
@@ -588,12 +591,17 @@ export function validateExpert(input: ExpertValidationInput): ExpertValidation {
   const credentials = extractCredentials(person.credentials, person.title);
   const hasRelevantDegree =
     credentials.length > 0 && hasRelevantCredentials(credentials, claimDomain);
-  const atResearchInstitution = isAtResearchInstitution(person.affiliation);
+  // An affiliation confirmed against an institution database beats the name patterns
+  const atResearchInstitution =
+    qualityIndicators?.isResearchInstitution ?? isAtResearchInstitution(person.affiliation);
   const hasAcadTitle = hasAcademicTitle(person.title);
 
-  // Note: hasRelevantPublications would ideally be checked via Semantic Scholar
-  // For now, we use a heuristic based on affiliation and title
-  const hasRelevantPublications = atResearchInstitution && hasAcadTitle;
+  // Publications come from the author lookup when available; otherwise
+  // fall back to a heuristic based on affiliation and title
+  const publicationsFound = qualityIndicators?.relevantPublicationCount;
+  const hasRelevantPublications = publicationsFound !== undefined
+    ? publicationsFound > 0
+    : atResearchInstitution && hasAcadTitle;
 
   // Calculate confidence score
   let confidenceScore = 0;
@@ -632,12 +640,13 @@ export function validateExpert(input: ExpertValidationInput): ExpertValidation {
     hasRelevantPublications,
     isAtResearchInstitution: atResearchInstitution,
     disqualifiers,
-    qualityIndicators: {},
+    qualityIndicators: qualityIndicators || {},
     isValidExpert,
     validationReason,
     confidenceScore,
     credentialsFound: credentials,
     affiliationFound: person.affiliation,
+    publicationsFound,
   };
 }
 
@@ -684,11 +693,15 @@ export function getExpertQualityTier(
 
 /**
  * Validate multiple experts and return results
+ *
+ * @param qualityIndicators - Citation metrics keyed by person name, from
+ *   an academic author lookup; persons without an entry use heuristics
  */
 export function validateExperts(
   persons: PersonMention[],
   articleSubjects: string[],
-  claimDomain: Domain
+  claimDomain: Domain,
+  qualityIndicators?: Map<string, ExpertQualityIndicators>
 ): BatchValidationResult {
   const validExperts: ValidatedExpert[] = [];
   const excludedPersons: {
@@ -702,6 +715,7 @@ export function validateExperts(
       person,
       articleSubjects,
       claimDomain,
+      qualityIndicators: qualityIndicators?.get(person.name),
     });
 
     if (validation.isValidExpert) {
@@ -711,7 +725,7 @@ export function validateExperts(
         affiliation: validation.affiliationFound || '',
         domain: claimDomain,
         validation,
-        qualityTier: getExpertQualityTier(validation),
+        qualityTier: getExpertQualityTier(validation, validation.qualityIndicators),
       });
     } else {
       const reason = getDisqualificationReason(validation.disqualifiers);
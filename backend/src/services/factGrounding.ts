@@ -1,10 +1,15 @@
-import { searchFactCheck } from './exa';
+import { searchFactCheck } from './searchProvider';
+import { formatMonth, getPresentSearchOptions, getReferenceDate } from './timeframe';
+import { createLogger } from './logger';
+
+const log = createLogger('FactGrounding');
 
 /**
  * Extract key entities from article text that need verification
  * Focus on: people with titles, organizations, recent events
+ * @param year - Year the article describes (its publish year)
  */
-function extractEntities(title: string, content: string): string[] {
+function extractEntities(title: string, content: string, year: number): string[] {
   const text = `${title} ${content}`;
   const entities: Set<string> = new Set();
 
@@ -29,7 +34,7 @@ function extractEntities(title: string, content: string): string[] {
   for (const pattern of deptPatterns) {
     const matches = text.match(pattern);
     if (matches) {
-      matches.slice(0, 2).forEach(m => entities.add(`current ${m.trim()} leadership 2025`));
+      matches.slice(0, 2).forEach(m => entities.add(`current ${m.trim()} leadership ${year}`));
     }
   }
 
@@ -38,26 +43,35 @@ function extractEntities(title: string, content: string): string[] {
 }
 
 /**
- * Get current facts from Exa to ground the LLM
+ * Get facts from the configured search providers to ground the LLM
+ *
+ * Facts are searched for as they stood when the article was published
+ * (the year up to its publish date), so an older article is not judged
+ * against people who took office after it was written.
+ *
+ * @param publishedAt - The article's publish date (ISO 8601); today when unknown
  */
 export async function getFactGrounding(
   title: string,
-  content: string
+  content: string,
+  publishedAt?: string
 ): Promise<string> {
-  const entities = extractEntities(title, content);
+  const reference = getReferenceDate({ publishedAt });
+  const asOf = formatMonth(reference.date);
+  const entities = extractEntities(title, content, reference.date.getUTCFullYear());
 
   if (entities.length === 0) {
-    console.log('[FactGrounding] No entities to verify');
+    log.info('No entities to verify');
     return '';
   }
 
-  console.log(`[FactGrounding] Verifying ${entities.length} entities:`, entities);
+  log.info(`Verifying ${entities.length} entities`, { entities });
 
   try {
     // Search for each entity in parallel
     const searches = entities.map(async (entity) => {
       try {
-        const results = await searchFactCheck(entity, 3);
+        const results = await searchFactCheck(entity, 3, getPresentSearchOptions(reference.date));
         if (results.results.length > 0) {
           return {
             entity,
@@ -66,7 +80,7 @@ export async function getFactGrounding(
         }
         return null;
       } catch (err) {
-        console.log(`[FactGrounding] Failed to verify "${entity}":`, err);
+        log.info(`Failed to verify "${entity}"`, { error: err });
         return null;
       }
     });
@@ -82,16 +96,25 @@ export async function getFactGrounding(
       .map(r => `### ${r!.entity}\n${r!.facts}`)
       .join('\n\n');
 
-    console.log(`[FactGrounding] Found context for ${results.length} entities`);
+    log.info(`Found context for ${results.length} entities`);
+
+    if (reference.source === 'published') {
+      return `
+VERIFIED INFORMATION AS OF THE ARTICLE'S PUBLISH DATE (from web search, ${asOf}):
+${groundingContext}
+
+The article was published in ${asOf}. Judge it against the facts as they stood then; do NOT contradict these facts, and do not flag statements that were true when it was published.
+`;
+    }
 
     return `
-CURRENT VERIFIED INFORMATION (from web search, January 2025):
+CURRENT VERIFIED INFORMATION (from web search, ${asOf}):
 ${groundingContext}
 
 Use this verified information when analyzing the article. Do NOT contradict these current facts.
 `;
   } catch (err) {
-    console.error('[FactGrounding] Error:', err);
+    log.error('Error', { error: err });
     return '';
   }
 }
@@ -0,0 +1,464 @@
+/**
+ * Job Queue Service
+ * Background jobs stored in Redis, so they survive a backend restart
+ *
+ *   job:{id}          JSON Job (expires JOB_RETENTION_HOURS after its last update)
+ *   job:{id}:cancel   set when a running job should stop
+ *   jobs:pending      ids waiting for a worker (FIFO)
+ *   jobs:processing   ids a worker has taken
+ *
+ * Workers move ids from pending to processing atomically (RPOPLPUSH) and
+ * refresh the job's heartbeat while it runs. A job whose heartbeat goes
+ * stale - its worker died - is put back on the pending list by whichever
+ * instance notices, up to JOB_MAX_ATTEMPTS starts.
+ *
+ * Without Redis, jobs are kept in this process and lost on restart.
+ */
+
+import { randomBytes } from 'crypto';
+import { config } from '../config';
+import { getClient } from './cache';
+import { getRequestContext, runWithRequestContext } from './requestContext';
+import { deliverWebhook } from './webhook';
+import { createLogger } from './logger';
+import { Job, JobProgress, JobStatus, JobType, JobView } from '../types/job';
+
+const log = createLogger('JobQueue');
+
+const PENDING_KEY = 'jobs:pending';
+const PROCESSING_KEY = 'jobs:processing';
+
+/**
+ * How often a running job's heartbeat is refreshed and its cancel flag read
+ */
+const HEARTBEAT_INTERVAL_MS = 5_000;
+
+/**
+ * A running job without a heartbeat for this long is considered orphaned
+ */
+const STALE_AFTER_MS = 60_000;
+
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * What a job handler gets besides the job
+ */
+export interface JobContext {
+  /** Aborted when the job is cancelled */
+  signal: AbortSignal;
+  /** Merge into the job's progress (saved in the background) */
+  updateProgress(update: Partial<Omit<JobProgress, 'updatedAt'>>): void;
+}
+
+export type JobHandler<TInput = any, TResult = any> = (
+  job: Job<TInput, TResult>,
+  context: JobContext
+) => Promise<TResult>;
+
+const handlers = new Map<JobType, JobHandler>();
+
+// Without Redis
+const memoryJobs = new Map<string, Job>();
+const memoryPending: string[] = [];
+const memoryCancelled = new Set<string>();
+
+interface WorkerState {
+  pollTimer: NodeJS.Timeout;
+  recoveryTimer: NodeJS.Timeout;
+  running: Set<string>;
+}
+
+let worker: WorkerState | null = null;
+
+/**
+ * Abort controllers of jobs running in this process, for immediate cancels
+ */
+const runningControllers = new Map<string, AbortController>();
+
+function jobKey(id: string): string {
+  return `job:${id}`;
+}
+
+function cancelKey(id: string): string {
+  return `job:${id}:cancel`;
+}
+
+function retentionSeconds(): number {
+  return config.jobs.retentionHours * 3600;
+}
+
+function isTerminal(job: Job): boolean {
+  return TERMINAL_STATUSES.includes(job.status);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════════
+
+async function saveJob(job: Job): Promise<void> {
+  const client = await getClient();
+  if (client) {
+    await client.set(jobKey(job.id), JSON.stringify(job), 'EX', retentionSeconds());
+    return;
+  }
+  memoryJobs.set(job.id, job);
+}
+
+/**
+ * Save without failing the caller (progress and heartbeats)
+ */
+function saveJobInBackground(job: Job): void {
+  saveJob(job).catch((error) => {
+    log.warn(`Failed to save job ${job.id}`, { error });
+  });
+}
+
+async function pushPending(id: string): Promise<void> {
+  const client = await getClient();
+  if (client) {
+    await client.lpush(PENDING_KEY, id);
+    return;
+  }
+  memoryPending.push(id);
+}
+
+/**
+ * Take the oldest pending id and mark it as processing
+ */
+async function takePending(): Promise<string | null> {
+  const client = await getClient();
+  if (client) {
+    return client.rpoplpush(PENDING_KEY, PROCESSING_KEY);
+  }
+  return memoryPending.shift() ?? null;
+}
+
+/**
+ * Remove an id from the pending list
+ * @returns true if it was still pending (no worker had taken it)
+ */
+async function removePending(id: string): Promise<boolean> {
+  const client = await getClient();
+  if (client) {
+    return (await client.lrem(PENDING_KEY, 0, id)) > 0;
+  }
+  const index = memoryPending.indexOf(id);
+  if (index >= 0) {
+    memoryPending.splice(index, 1);
+  }
+  return index >= 0;
+}
+
+async function finishProcessing(id: string): Promise<void> {
+  const client = await getClient();
+  if (client) {
+    await client.lrem(PROCESSING_KEY, 0, id);
+  }
+}
+
+async function requestCancel(id: string): Promise<void> {
+  const client = await getClient();
+  if (client) {
+    await client.set(cancelKey(id), '1', 'EX', retentionSeconds());
+    return;
+  }
+  memoryCancelled.add(id);
+}
+
+async function isCancelRequested(id: string): Promise<boolean> {
+  const client = await getClient();
+  if (client) {
+    return (await client.exists(cancelKey(id))) > 0;
+  }
+  return memoryCancelled.has(id);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Register the function that runs jobs of a type
+ */
+export function registerJobHandler<TInput, TResult>(type: JobType, handler: JobHandler<TInput, TResult>): void {
+  handlers.set(type, handler as JobHandler);
+}
+
+/**
+ * Queue a job for the calling client
+ * The request's client and API key quota are stored with the job, so
+ * its costs are billed and capped as if the request had run it.
+ * @param webhookUrl - Receives the job when it finishes
+ */
+export async function enqueueJob<TInput>(
+  type: JobType,
+  input: TInput,
+  options: { webhookUrl?: string } = {}
+): Promise<Job<TInput>> {
+  const context = getRequestContext();
+  const now = new Date().toISOString();
+
+  const job: Job<TInput> = {
+    id: `job_${randomBytes(8).toString('hex')}`,
+    type,
+    status: 'queued',
+    client: context?.client || 'internal',
+    quota: context?.quota,
+    input,
+    progress: { stage: 'queued', claimsWithEvidence: 0, claimsEvaluated: 0, updatedAt: now },
+    attempts: 0,
+    createdAt: now,
+    ...(options.webhookUrl && { webhook: { url: options.webhookUrl, status: 'pending' as const, attempts: 0 } }),
+  };
+
+  await saveJob(job);
+  await pushPending(job.id);
+  log.info(`Queued ${type} job ${job.id} for ${job.client}`);
+
+  return job;
+}
+
+/**
+ * Get a job by id
+ */
+export async function getJob<TInput = unknown, TResult = unknown>(id: string): Promise<Job<TInput, TResult> | null> {
+  const client = await getClient();
+  if (client) {
+    const stored = await client.get(jobKey(id));
+    return stored ? (JSON.parse(stored) as Job<TInput, TResult>) : null;
+  }
+  return (memoryJobs.get(id) as Job<TInput, TResult>) || null;
+}
+
+/**
+ * Cancel a job
+ * A queued job is cancelled at once; a running one is asked to stop and
+ * ends as 'cancelled' at its next checkpoint. Finished jobs are unchanged.
+ * @returns The job after the request, or null if it does not exist
+ */
+export async function cancelJob(id: string): Promise<Job | null> {
+  const job = await getJob(id);
+  if (!job || isTerminal(job)) {
+    return job;
+  }
+
+  if (job.status === 'queued' && (await removePending(id))) {
+    await finishJob(job, 'cancelled');
+    return job;
+  }
+
+  // Running: stop it here, or flag it for the worker on another instance.
+  // The worker owns the record while it runs, so it records the request.
+  await requestCancel(id);
+  runningControllers.get(id)?.abort();
+  return { ...job, cancelRequestedAt: new Date().toISOString() };
+}
+
+/**
+ * The job as shown to its owner
+ */
+export function toJobView<TResult>(job: Job<unknown, TResult>): JobView<TResult> {
+  const { input: _input, quota: _quota, client: _client, heartbeatAt: _heartbeatAt, ...view } = job;
+  return view;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// WORKER
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Mark a job finished, save it and send its webhook
+ */
+async function finishJob(job: Job, status: JobStatus, outcome: { result?: unknown; error?: string } = {}): Promise<void> {
+  job.status = status;
+  job.completedAt = new Date().toISOString();
+  job.progress = { ...job.progress, stage: status === 'completed' ? 'done' : job.progress.stage, updatedAt: job.completedAt };
+  if (outcome.result !== undefined) {
+    job.result = outcome.result;
+  }
+  if (outcome.error) {
+    job.error = outcome.error;
+  }
+  await saveJob(job);
+  await finishProcessing(job.id);
+  log.info(`Job ${job.id} ${status}${outcome.error ? `: ${outcome.error}` : ''}`);
+
+  if (job.webhook) {
+    const delivery = await deliverWebhook(job.webhook.url, `job.${status}`, { job: toJobView(job) });
+    job.webhook = {
+      ...job.webhook,
+      status: delivery.delivered ? 'delivered' : 'failed',
+      attempts: job.webhook.attempts + delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      lastError: delivery.error,
+      ...(delivery.delivered && { deliveredAt: new Date().toISOString() }),
+    };
+    await saveJob(job);
+  }
+}
+
+/**
+ * Run one job taken from the pending list
+ */
+async function runJob(id: string): Promise<void> {
+  const job = await getJob(id);
+  if (!job || job.status !== 'queued') {
+    await finishProcessing(id);
+    return;
+  }
+
+  if (await isCancelRequested(id)) {
+    await finishJob(job, 'cancelled');
+    return;
+  }
+
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await finishJob(job, 'failed', { error: `No handler for ${job.type} jobs` });
+    return;
+  }
+
+  job.attempts += 1;
+  if (job.attempts > config.jobs.maxAttempts) {
+    await finishJob(job, 'failed', { error: 'Job was interrupted too many times' });
+    return;
+  }
+
+  const now = new Date().toISOString();
+  job.status = 'running';
+  job.startedAt = job.startedAt || now;
+  job.heartbeatAt = now;
+  await saveJob(job);
+
+  const controller = new AbortController();
+  controller.signal.addEventListener('abort', () => {
+    job.cancelRequestedAt = new Date().toISOString();
+    saveJobInBackground(job);
+  });
+  runningControllers.set(id, controller);
+  const heartbeat = setInterval(async () => {
+    try {
+      if (!controller.signal.aborted && (await isCancelRequested(id))) {
+        log.info(`Cancelling job ${id}`);
+        controller.abort();
+      }
+    } catch (error) {
+      log.warn(`Failed to check cancellation of ${id}`, { error });
+    }
+    job.heartbeatAt = new Date().toISOString();
+    saveJobInBackground(job);
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const context: JobContext = {
+    signal: controller.signal,
+    updateProgress: (update) => {
+      job.progress = { ...job.progress, ...update, updatedAt: new Date().toISOString() };
+      saveJobInBackground(job);
+    },
+  };
+
+  try {
+    const result = await runWithRequestContext(
+      { requestId: job.id, endpoint: `JOB ${job.type}`, client: job.client, quota: job.quota },
+      () => handler(job, context)
+    );
+    clearInterval(heartbeat);
+    runningControllers.delete(id);
+    await finishJob(job, controller.signal.aborted ? 'cancelled' : 'completed', { result });
+  } catch (error) {
+    clearInterval(heartbeat);
+    runningControllers.delete(id);
+    if (controller.signal.aborted) {
+      await finishJob(job, 'cancelled');
+    } else {
+      await finishJob(job, 'failed', { error: (error as Error).message });
+    }
+  }
+}
+
+/**
+ * Start as many pending jobs as there are free worker slots
+ */
+async function poll(): Promise<void> {
+  if (!worker) return;
+
+  while (worker.running.size < config.jobs.workerConcurrency) {
+    const id = await takePending();
+    if (!id) return;
+
+    worker.running.add(id);
+    runJob(id)
+      .catch((error) => log.error(`Job ${id} crashed`, { error }))
+      .finally(() => worker?.running.delete(id));
+  }
+}
+
+/**
+ * Put jobs whose worker died back on the pending list
+ * Runs at startup and periodically, so any instance can pick up jobs
+ * orphaned by another one.
+ * @returns Ids put back
+ */
+export async function recoverStaleJobs(): Promise<string[]> {
+  const client = await getClient();
+  if (!client) return [];
+
+  const recovered: string[] = [];
+  const ids = await client.lrange(PROCESSING_KEY, 0, -1);
+
+  for (const id of ids) {
+    if (worker?.running.has(id)) continue;
+
+    const job = await getJob(id);
+    if (!job || isTerminal(job)) {
+      await finishProcessing(id);
+      continue;
+    }
+
+    const lastSeen = Date.parse(job.heartbeatAt || job.createdAt);
+    if (Date.now() - lastSeen < STALE_AFTER_MS) continue;
+
+    job.status = 'queued';
+    job.progress = { ...job.progress, stage: 'queued', updatedAt: new Date().toISOString() };
+    await saveJob(job);
+    await client.multi().lrem(PROCESSING_KEY, 0, id).lpush(PENDING_KEY, id).exec();
+    recovered.push(id);
+  }
+
+  if (recovered.length > 0) {
+    log.info(`Re-queued ${recovered.length} interrupted job(s): ${recovered.join(', ')}`);
+  }
+  return recovered;
+}
+
+/**
+ * Start taking jobs in this process
+ */
+export function startJobWorker(): void {
+  if (worker) return;
+
+  worker = {
+    pollTimer: setInterval(() => {
+      poll().catch((error) => log.warn('Poll failed', { error }));
+    }, config.jobs.pollIntervalMs),
+    recoveryTimer: setInterval(() => {
+      recoverStaleJobs().catch((error) => log.warn('Recovery failed', { error }));
+    }, STALE_AFTER_MS),
+    running: new Set(),
+  };
+
+  recoverStaleJobs()
+    .catch((error) => log.warn('Recovery failed', { error }))
+    .finally(() => poll());
+  log.info(`Worker started (${config.jobs.workerConcurrency} at a time)`);
+}
+
+/**
+ * Stop taking new jobs (running jobs finish)
+ */
+export function stopJobWorker(): void {
+  if (!worker) return;
+  clearInterval(worker.pollTimer);
+  clearInterval(worker.recoveryTimer);
+  worker = null;
+}
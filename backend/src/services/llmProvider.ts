@@ -0,0 +1,276 @@
+/**
+ * LLM Provider Service
+ * Builds the configured language-model backend for OpenAIService
+ *
+ * Two implementations, both on the openai SDK:
+ * - OpenAIResponsesProvider: OpenAI's Responses API (the default)
+ * - OpenAICompatibleProvider: chat completions against any OpenAI-compatible
+ *   server - self-hosted vLLM / llama.cpp, or another vendor's endpoint
+ *
+ * Pricing and capability flags live on the provider so cost tracking and
+ * JSON handling don't assume OpenAI.
+ */
+
+import OpenAI from 'openai';
+import { config } from '../config';
+import { LLMCapabilities, LLMEmbeddingResponse, LLMPricing, LLMProvider, LLMRequest, LLMResponse } from '../types/llm';
+
+/**
+ * OpenAI pricing per 1M tokens (GPT-5 models)
+ */
+export const OPENAI_MODEL_PRICING: Record<string, LLMPricing> = {
+  'gpt-5': { input: 2.00, output: 8.00 },
+  'gpt-5-mini': { input: 0.30, output: 1.20 },
+  'gpt-5-nano': { input: 0.10, output: 0.40 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+};
+
+/**
+ * OpenAI embedding pricing per 1M input tokens
+ */
+export const OPENAI_EMBEDDING_PRICING: Record<string, number> = {
+  'text-embedding-3-small': 0.02,
+  'text-embedding-3-large': 0.13,
+  'text-embedding-ada-002': 0.10,
+};
+
+/**
+ * Appended to the system prompt when JSON is requested but the server
+ * cannot enforce it; parseJsonResponse copes with fences and preambles
+ */
+const JSON_INSTRUCTION = 'Respond with a single valid JSON object and nothing else.';
+
+export interface LLMProviderOptions {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  capabilities?: Partial<LLMCapabilities>;
+  pricing?: Partial<LLMPricing>;
+}
+
+/**
+ * Price per 1M tokens of the embedding model (LLM_EMBEDDING_PRICE overrides)
+ * Self-hosted (openai-compatible) servers default to free.
+ */
+export function getEmbeddingPrice(providerName: string, model: string, llmConfig: typeof config.llm = config.llm): number {
+  if (llmConfig.embeddingPrice !== undefined) {
+    return llmConfig.embeddingPrice;
+  }
+  return providerName === 'openai' ? OPENAI_EMBEDDING_PRICING[model] ?? OPENAI_EMBEDDING_PRICING['text-embedding-3-small'] : 0;
+}
+
+/**
+ * Call the /embeddings endpoint (same API on OpenAI and compatible servers)
+ */
+async function createEmbeddings(client: OpenAI, texts: string[], model: string): Promise<LLMEmbeddingResponse> {
+  const response = await client.embeddings.create({ model, input: texts });
+  const ordered = [...response.data].sort((a, b) => a.index - b.index);
+
+  return {
+    embeddings: ordered.map((d) => d.embedding),
+    inputTokens: response.usage?.prompt_tokens || 0,
+    model: response.model || model,
+  };
+}
+
+/**
+ * Estimate the cost of a request in USD
+ */
+export function estimateCost(pricing: LLMPricing, inputTokens: number, outputTokens: number): number {
+  return (inputTokens / 1_000_000) * pricing.input + (outputTokens / 1_000_000) * pricing.output;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// OPENAI RESPONSES API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * OpenAI via the Responses API (client.responses.create)
+ */
+export class OpenAIResponsesProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly baseUrl?: string;
+  readonly capabilities: LLMCapabilities;
+  readonly pricing: LLMPricing;
+  private client: OpenAI;
+  private apiKey: string;
+  private options: LLMProviderOptions;
+
+  constructor(options: LLMProviderOptions) {
+    this.options = options;
+    this.model = options.model;
+    this.apiKey = options.apiKey || '';
+    this.baseUrl = options.baseUrl || undefined;
+    this.capabilities = { jsonMode: true, streaming: true, ...options.capabilities };
+
+    const tablePricing = OPENAI_MODEL_PRICING[this.model] || OPENAI_MODEL_PRICING['gpt-5'];
+    this.pricing = { ...tablePricing, ...options.pricing };
+
+    this.client = new OpenAI({
+      apiKey: this.apiKey || 'dummy-key',
+      baseURL: this.baseUrl,
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  withModel(model: string): LLMProvider {
+    // Pricing comes from the table for the new model, not the override
+    return new OpenAIResponsesProvider({ ...this.options, model, pricing: undefined });
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.apiKey) {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+
+    const response = await (this.client as any).responses.create({
+      model: this.model,
+      input: request.messages.map((m) => ({
+        role: m.role,
+        content: [{ type: 'input_text', text: m.content }],
+      })),
+      ...(request.json && { text: { format: { type: 'json_object' } } }),
+    });
+
+    return {
+      content: response.output_text || '',
+      inputTokens: response.usage?.input_tokens || 0,
+      outputTokens: response.usage?.output_tokens || 0,
+      model: response.model || this.model,
+    };
+  }
+
+  async embed(texts: string[], model: string): Promise<LLMEmbeddingResponse> {
+    if (!this.apiKey) {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+    return createEmbeddings(this.client, texts, model);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// OPENAI-COMPATIBLE CHAT COMPLETIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Any server speaking the OpenAI chat completions API
+ * Self-hosted servers usually need no key and cost nothing per token.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  readonly model: string;
+  readonly baseUrl: string;
+  readonly capabilities: LLMCapabilities;
+  readonly pricing: LLMPricing;
+  private client: OpenAI;
+  private options: LLMProviderOptions;
+
+  constructor(options: LLMProviderOptions) {
+    this.options = options;
+    this.model = options.model;
+    this.baseUrl = options.baseUrl || '';
+    this.capabilities = { jsonMode: true, streaming: false, ...options.capabilities };
+    this.pricing = { input: 0, output: 0, ...options.pricing };
+
+    this.client = new OpenAI({
+      // Local servers ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: this.baseUrl || undefined,
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  withModel(model: string): LLMProvider {
+    return new OpenAICompatibleProvider({ ...this.options, model });
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.baseUrl) {
+      throw new Error('LLM_BASE_URL is not configured');
+    }
+
+    const enforceJson = request.json && this.capabilities.jsonMode;
+    const messages = request.json && !enforceJson
+      ? withJsonInstruction(request.messages)
+      : request.messages;
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      ...(enforceJson && { response_format: { type: 'json_object' as const } }),
+    });
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      inputTokens: response.usage?.prompt_tokens || 0,
+      outputTokens: response.usage?.completion_tokens || 0,
+      model: response.model || this.model,
+    };
+  }
+
+  async embed(texts: string[], model: string): Promise<LLMEmbeddingResponse> {
+    if (!this.baseUrl) {
+      throw new Error('LLM_BASE_URL is not configured');
+    }
+    return createEmbeddings(this.client, texts, model);
+  }
+}
+
+/**
+ * Add the JSON instruction to the system message (or prepend one)
+ */
+function withJsonInstruction(messages: LLMRequest['messages']): LLMRequest['messages'] {
+  const hasSystem = messages.some((m) => m.role === 'system');
+  if (!hasSystem) {
+    return [{ role: 'system', content: JSON_INSTRUCTION }, ...messages];
+  }
+  return messages.map((m) =>
+    m.role === 'system' ? { ...m, content: `${m.content}\n\n${JSON_INSTRUCTION}` } : m
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FACTORY
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Build the provider named in config (LLM_PROVIDER)
+ */
+export function createLLMProvider(llmConfig: typeof config.llm = config.llm): LLMProvider {
+  const options: LLMProviderOptions = {
+    model: llmConfig.model,
+    apiKey: llmConfig.apiKey,
+    baseUrl: llmConfig.baseUrl,
+    capabilities: { jsonMode: llmConfig.jsonMode, streaming: llmConfig.streaming },
+    pricing: {
+      ...(llmConfig.priceInput !== undefined && { input: llmConfig.priceInput }),
+      ...(llmConfig.priceOutput !== undefined && { output: llmConfig.priceOutput }),
+    },
+  };
+
+  switch (llmConfig.provider) {
+    case 'openai':
+      // Streaming is always available on OpenAI; only JSON mode is configurable
+      return new OpenAIResponsesProvider({ ...options, capabilities: { jsonMode: llmConfig.jsonMode } });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(options);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${llmConfig.provider}" (expected openai or openai-compatible)`);
+  }
+}
+
+/**
+ * Check whether the configured provider has what it needs (key or endpoint)
+ * Config-only, so callers don't need the provider instance.
+ */
+export function isLLMConfigured(): boolean {
+  return config.llm.provider === 'openai-compatible' ? !!config.llm.baseUrl : !!config.llm.apiKey;
+}
@@ -0,0 +1,151 @@
+/**
+ * Local Corpus Search Provider
+ * Searches a JSON corpus on disk - for offline deployments, demos and
+ * evaluation runs that must be reproducible
+ *
+ * LOCAL_CORPUS_PATH points at a JSON array of documents:
+ *   { "title", "url", "text", "type"?, "publishedDate"?, "author"? }
+ * where type is 'news', 'research', 'commentary' or 'reference'. Documents
+ * without a type are eligible for every operation.
+ *
+ * Ranking is plain term overlap (title matches count double); the corpus
+ * is expected to be small and curated.
+ */
+
+import fs from 'fs';
+import { SearchOperation, SearchOptions, SearchProvider, SearchResponse } from '../types/search';
+import { isPublishedWithin } from './timeframe';
+import { createLogger } from './logger';
+
+const log = createLogger('LocalCorpus');
+
+const LOCAL_CORPUS_PATH = process.env.LOCAL_CORPUS_PATH;
+
+/**
+ * Maximum snippet length, matching what Exa returns
+ */
+const MAX_SNIPPET_LENGTH = 500;
+
+/**
+ * Words too common to count as a match
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'to', 'was', 'with', 'does', 'do', 'not',
+]);
+
+export type CorpusDocumentType = 'news' | 'research' | 'commentary' | 'reference';
+
+export interface CorpusDocument {
+  title: string;
+  url: string;
+  text: string;
+  type?: CorpusDocumentType;
+  publishedDate?: string;
+  author?: string;
+}
+
+/**
+ * Document types each operation may return
+ */
+const OPERATION_DOCUMENT_TYPES: Record<SearchOperation, CorpusDocumentType[]> = {
+  news: ['news'],
+  academic: ['research'],
+  expertCommentary: ['commentary', 'news'],
+  factCheck: ['reference', 'news', 'research', 'commentary'],
+};
+
+let corpus: CorpusDocument[] | null = null;
+
+/**
+ * Replace the loaded corpus (tests and programmatic loading)
+ */
+export function setCorpus(documents: CorpusDocument[] | null): void {
+  corpus = documents;
+}
+
+/**
+ * Load LOCAL_CORPUS_PATH on first use
+ */
+function getCorpus(): CorpusDocument[] {
+  if (corpus) {
+    return corpus;
+  }
+  if (!LOCAL_CORPUS_PATH) {
+    throw new Error('LOCAL_CORPUS_PATH environment variable is not set');
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(LOCAL_CORPUS_PATH, 'utf8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Local corpus ${LOCAL_CORPUS_PATH} must be a JSON array of documents`);
+  }
+  corpus = (parsed as CorpusDocument[]).filter((d) => d && d.title && d.url);
+  log.info(`Loaded ${corpus.length} documents from ${LOCAL_CORPUS_PATH}`);
+  return corpus;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Score a document against query terms (0 = no match)
+ */
+export function scoreDocument(document: CorpusDocument, terms: string[]): number {
+  const titleWords = new Set(tokenize(document.title));
+  const textWords = new Set(tokenize(document.text));
+
+  let score = 0;
+  for (const term of terms) {
+    if (titleWords.has(term)) score += 2;
+    if (textWords.has(term)) score += 1;
+  }
+  return score;
+}
+
+/**
+ * Search the corpus for one operation
+ */
+export function searchCorpus(
+  operation: SearchOperation,
+  query: string,
+  numResults: number,
+  options: SearchOptions = {}
+): SearchResponse {
+  const terms = Array.from(new Set(tokenize(query)));
+  const allowedTypes = OPERATION_DOCUMENT_TYPES[operation];
+
+  const results = getCorpus()
+    .filter((d) => !d.type || allowedTypes.includes(d.type))
+    .filter((d) => isPublishedWithin(d.publishedDate, options))
+    .map((document) => ({ document, score: scoreDocument(document, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, numResults)
+    .map(({ document }) => ({
+      title: document.title,
+      url: document.url,
+      snippet: document.text.substring(0, MAX_SNIPPET_LENGTH),
+      publishedDate: document.publishedDate,
+      author: document.author,
+    }));
+
+  return { results };
+}
+
+/**
+ * The local corpus as a search provider
+ */
+export const localCorpusProvider: SearchProvider = {
+  name: 'local',
+  isConfigured: () => corpus !== null || !!LOCAL_CORPUS_PATH,
+  news: async (query, numResults, options) => searchCorpus('news', query, numResults, options),
+  academic: async (query, numResults, options) => searchCorpus('academic', query, numResults, options),
+  expertCommentary: async (query, numResults, options) => searchCorpus('expertCommentary', query, numResults, options),
+  factCheck: async (query, numResults, options) => searchCorpus('factCheck', query, numResults, options),
+};
+
+export default localCorpusProvider;
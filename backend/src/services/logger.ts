@@ -0,0 +1,148 @@
+/**
+ * Logger
+ * Structured log entries with levels, tagged with the request they belong to
+ *
+ * One /evaluate request fans out into many concurrent searches and LLM
+ * calls; every entry logged while handling it carries its request ID (from
+ * the request context), so its lines can be picked out of the interleaved
+ * output of all requests in flight.
+ *
+ * Entries are written as one JSON object per line (LOG_FORMAT=text for a
+ * readable line instead). Article text and secrets never reach the log:
+ * fields named like content or API keys are replaced, and key-shaped
+ * strings (sk-..., cv_..., Bearer tokens) are masked wherever they appear.
+ */
+
+import { config } from '../config';
+import { getRequestContext } from './requestContext';
+import { LogEntry, LogFields, Logger, LogLevel } from '../types/logging';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Fields holding article text: logged as their length only
+ */
+const CONTENT_FIELDS = /^(content|body|html|prompt|articleContent|articleText)$/i;
+
+/**
+ * Fields holding credentials: never logged
+ */
+const SECRET_FIELDS = /(api[-_]?key|authorization|secret|password|token|signature|cookie)$/i;
+
+/**
+ * Credentials in free text: OpenAI-style keys, our API keys, bearer tokens
+ */
+const SECRET_PATTERNS = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bcv_[A-Za-z0-9_-]{16,}/g,
+  /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi,
+];
+
+const MAX_STRING_LENGTH = 1000;
+const MAX_DEPTH = 4;
+
+/**
+ * Mask credentials in a string and cut it to MAX_STRING_LENGTH
+ */
+function redactString(value: string): string {
+  let redacted = value;
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, '[redacted]');
+  }
+  return redacted.length > MAX_STRING_LENGTH
+    ? `${redacted.slice(0, MAX_STRING_LENGTH)}… (${redacted.length} chars)`
+    : redacted;
+}
+
+/**
+ * A copy of a logged value that is safe to write out
+ * Errors become their message, dates ISO strings.
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value instanceof Error) {
+    return redactString(value.message);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? `[${value.length} items]` : '[object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (SECRET_FIELDS.test(key)) {
+      result[key] = '[redacted]';
+    } else if (CONTENT_FIELDS.test(key) && typeof field === 'string') {
+      result[key] = `[redacted ${field.length} chars]`;
+    } else {
+      result[key] = redact(field, depth + 1);
+    }
+  }
+  return result;
+}
+
+function isEnabled(level: LogLevel): boolean {
+  const threshold = LEVELS[config.logging.level] ?? LEVELS.info;
+  return LEVELS[level] >= threshold;
+}
+
+/**
+ * "[time] WARN [Component] message key=value req=<id>"
+ */
+function formatText(entry: LogEntry): string {
+  const { time, level, component, msg, requestId, ...fields } = entry;
+  const details = Object.entries(fields)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  return `[${time}] ${level.toUpperCase()} [${component}] ${msg}${details ? ` ${details}` : ''}${requestId ? ` req=${requestId}` : ''}`;
+}
+
+function write(level: LogLevel, component: string, message: string, fields?: LogFields): void {
+  if (!isEnabled(level)) {
+    return;
+  }
+
+  const context = getRequestContext();
+  const entry: LogEntry = { time: new Date().toISOString(), level, component, msg: redactString(message) };
+  if (context?.requestId) {
+    entry.requestId = context.requestId;
+  }
+  // Fields never replace the entry's own keys
+  for (const [key, value] of Object.entries(redact(fields || {}) as LogFields)) {
+    if (!(key in entry)) {
+      entry[key] = value;
+    }
+  }
+
+  const line = config.logging.format === 'text' ? formatText(entry) : JSON.stringify(entry);
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * A logger for one component
+ * @param component - Names the entries' source, e.g. "Pipeline"
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', component, message, fields),
+    info: (message, fields) => write('info', component, message, fields),
+    warn: (message, fields) => write('warn', component, message, fields),
+    error: (message, fields) => write('error', component, message, fields),
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * LRU Cache
+ * A bounded in-process map that drops the least recently used entry
+ *
+ * The first tier of services/cache.ts. Entries carry their own expiry and
+ * freshness times so the same rules apply as for values kept in Redis.
+ */
+
+export interface LruEntry<V> {
+  value: V;
+  /** When the entry is dropped (ms since epoch); null keeps it until evicted */
+  expiresAt: number | null;
+  /** When the entry stops being fresh; after that it is stale until expiresAt */
+  freshUntil: number | null;
+}
+
+export class LruCache<V> {
+  // Map keeps insertion order: the first key is the least recently used
+  private entries = new Map<string, LruEntry<V>>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = Math.max(0, maxEntries);
+  }
+
+  /** Entries held (expired ones are dropped as they are read) */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get capacity(): number {
+    return this.maxEntries;
+  }
+
+  /**
+   * An unexpired entry, marked as most recently used
+   */
+  get(key: string, now: number = Date.now()): LruEntry<V> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: LruEntry<V>): void {
+    if (this.maxEntries === 0) {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Drop every key starting with a prefix
+   * @returns How many were dropped
+   */
+  deletePrefix(prefix: string): number {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Metrics
+ * Counters and histograms served in Prometheus text format on GET /metrics
+ *
+ * Requests, LLM calls, searches and pipeline runs are counted where they
+ * happen; cache figures are read from the cache's own counters at scrape
+ * time. Values live in this process only, so scrape every backend process.
+ *
+ * A failing evidence search does not fail the evaluation: the claim is
+ * judged on whatever the other searches found, or on placeholder evidence.
+ * clearview_search_requests_total{outcome="failure"} and
+ * clearview_evidence_placeholder_total are the series to alert on.
+ */
+
+import { getCacheStats } from './cache';
+import { Counter, Histogram, MetricLabels, MetricType } from '../types/metrics';
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Upper bounds (seconds) from a cached answer to a slow pipeline stage
+ */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+interface Series {
+  labels: MetricLabels;
+  /** Counter value, or sum of a histogram's observations */
+  value: number;
+  count: number;
+  /** Cumulative: observations at or below each bucket's bound */
+  bucketCounts: number[];
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  buckets: number[];
+  series: Map<string, Series>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════
+
+const families = new Map<string, MetricFamily>();
+
+function register(name: string, help: string, type: MetricType, buckets: number[] = []): MetricFamily {
+  const family: MetricFamily = { name, help, type, buckets, series: new Map() };
+  families.set(name, family);
+  return family;
+}
+
+function seriesFor(family: MetricFamily, labels: MetricLabels): Series {
+  const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+  let series = family.series.get(key);
+  if (!series) {
+    series = { labels, value: 0, count: 0, bucketCounts: family.buckets.map(() => 0) };
+    family.series.set(key, series);
+  }
+  return series;
+}
+
+/**
+ * A counter (name ends in _total)
+ */
+export function counter(name: string, help: string): Counter {
+  const family = register(name, help, 'counter');
+  return {
+    inc: (labels = {}, value = 1) => {
+      seriesFor(family, labels).value += value;
+    },
+  };
+}
+
+/**
+ * A histogram of durations in seconds
+ */
+export function histogram(name: string, help: string, buckets: number[] = DURATION_BUCKETS): Histogram {
+  const family = register(name, help, 'histogram', buckets);
+  return {
+    observe: (labels, value) => {
+      const series = seriesFor(family, labels);
+      series.value += value;
+      series.count++;
+      buckets.forEach((bound, i) => {
+        if (value <= bound) {
+          series.bucketCounts[i]++;
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Clear every recorded value (tests)
+ */
+export function resetMetrics(): void {
+  for (const family of families.values()) {
+    family.series.clear();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// METRICS
+// ═══════════════════════════════════════════════════════════════
+
+export const httpRequests = counter(
+  'clearview_http_requests_total',
+  'HTTP requests answered, by method, route pattern and status'
+);
+export const httpRequestDuration = histogram(
+  'clearview_http_request_duration_seconds',
+  'Time to answer HTTP requests, by method and route pattern'
+);
+
+export const llmCalls = counter(
+  'clearview_llm_calls_total',
+  'LLM calls by operation, model and outcome (success, failure), each after its retries'
+);
+export const llmRetries = counter(
+  'clearview_llm_retries_total',
+  'LLM attempts that failed and were retried, by operation and model'
+);
+export const llmTokens = counter(
+  'clearview_llm_tokens_total',
+  'LLM tokens used, by model and direction (input, output)'
+);
+
+export const searchRequests = counter(
+  'clearview_search_requests_total',
+  'Searches by provider, operation and outcome (success, failure)'
+);
+export const searchRetries = counter(
+  'clearview_search_retries_total',
+  'Search attempts that failed and were retried, by provider and operation'
+);
+export const evidencePlaceholders = counter(
+  'clearview_evidence_placeholder_total',
+  'Claims evaluated on placeholder evidence, by reason (search_failed, no_provider)'
+);
+
+export const pipelineRuns = counter(
+  'clearview_pipeline_runs_total',
+  'Evaluation pipeline runs by outcome (completed, extraction_failed)'
+);
+export const pipelineStageDuration = histogram(
+  'clearview_pipeline_stage_duration_seconds',
+  'Time spent in each evaluation pipeline stage'
+);
+export const consensusOutcomes = counter(
+  'clearview_consensus_outcomes_total',
+  'Evaluated claims by consensus level'
+);
+
+// ═══════════════════════════════════════════════════════════════
+// CACHE (read at scrape time)
+// ═══════════════════════════════════════════════════════════════
+
+function snapshot(name: string, help: string, type: MetricType, rows: Array<[MetricLabels, number]>): MetricFamily {
+  const family: MetricFamily = { name, help, type, buckets: [], series: new Map() };
+  for (const [labels, value] of rows) {
+    seriesFor(family, labels).value = value;
+  }
+  return family;
+}
+
+function cacheFamilies(): MetricFamily[] {
+  const stats = getCacheStats();
+  const namespaces = Object.entries(stats.namespaces);
+
+  return [
+    snapshot('clearview_cache_hits_total', 'Cache reads answered from the in-process tier or Redis, by namespace', 'counter',
+      namespaces.flatMap(([namespace, s]): Array<[MetricLabels, number]> => [
+        [{ namespace, tier: 'memory' }, s.memoryHits],
+        [{ namespace, tier: 'redis' }, s.redisHits],
+      ])),
+    snapshot('clearview_cache_stale_hits_total', 'Cache hits served past their TTL while refreshing, by namespace', 'counter',
+      namespaces.map(([namespace, s]) => [{ namespace }, s.staleHits])),
+    snapshot('clearview_cache_misses_total', 'Cache reads that ran the load, by namespace', 'counter',
+      namespaces.map(([namespace, s]) => [{ namespace }, s.misses])),
+    snapshot('clearview_cache_shared_loads_total', 'Cache misses that waited for a load already running, by namespace', 'counter',
+      namespaces.map(([namespace, s]) => [{ namespace }, s.sharedLoads])),
+    snapshot('clearview_cache_load_errors_total', 'Cache loads (including background refreshes) that failed, by namespace', 'counter',
+      namespaces.map(([namespace, s]) => [{ namespace }, s.loadErrors])),
+    snapshot('clearview_cache_hit_ratio', 'Share of cache reads answered from the cache since start, by namespace', 'gauge',
+      namespaces
+        .map(([namespace, s]): [string, number, number] => [namespace, s.memoryHits + s.redisHits, s.misses + s.sharedLoads])
+        .filter(([, hits, others]) => hits + others > 0)
+        .map(([namespace, hits, others]) => [{ namespace }, hits / (hits + others)])),
+    snapshot('clearview_cache_memory_entries', 'Entries in the in-process cache tier', 'gauge',
+      [[{}, stats.memory.entries]]),
+    snapshot('clearview_cache_memory_max_entries', 'Capacity of the in-process cache tier', 'gauge',
+      [[{}, stats.memory.maxEntries]]),
+    snapshot('clearview_cache_redis_connected', '1 while Redis is connected, 0 while the cache runs in memory only', 'gauge',
+      [[{}, stats.redisConnected ? 1 : 0]]),
+  ];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EXPOSITION
+// ═══════════════════════════════════════════════════════════════
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
+
+function renderFamily(family: MetricFamily): string[] {
+  const { name } = family;
+  const lines = [`# HELP ${name} ${family.help}`, `# TYPE ${name} ${family.type}`];
+
+  for (const series of family.series.values()) {
+    if (family.type !== 'histogram') {
+      lines.push(`${name}${formatLabels(series.labels)} ${formatValue(series.value)}`);
+      continue;
+    }
+    family.buckets.forEach((bound, i) => {
+      lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.bucketCounts[i]}`);
+    });
+    lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+    lines.push(`${name}_sum${formatLabels(series.labels)} ${formatValue(series.value)}`);
+    lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  return [...families.values(), ...cacheFamilies()].flatMap(renderFamily).join('\n') + '\n';
+}
@@ -0,0 +1,121 @@
+/**
+ * Model Router Service
+ * Picks the model chain for each LLM operation
+ *
+ * Every operation has a primary model and ordered fallbacks:
+ *
+ *   LLM_MODELS_ANALYZE_QUICK=gpt-5-nano,gpt-4o-mini
+ *   LLM_MODELS_EXTRACT_CLAIMS=gpt-5,gpt-5-mini
+ *
+ * OpenAIService tries the chain in order once retries on a model are
+ * exhausted. Close to the daily budget, calls start on the cheaper models.
+ */
+
+import { config } from '../config';
+import { LLMOperation, LLMProvider } from '../types/llm';
+import { estimateCost } from './llmProvider';
+
+/**
+ * Cheap, short-output operations
+ */
+const LIGHT_OPERATIONS: LLMOperation[] = ['analyzeQuick', 'stanceClassification'];
+
+/**
+ * Default chains on OpenAI
+ */
+const OPENAI_LIGHT_MODELS = ['gpt-5-mini', 'gpt-5-nano'];
+const OPENAI_FALLBACK_MODEL = 'gpt-5-mini';
+
+/**
+ * Get the model chain for an operation (primary first)
+ *
+ * Configured LLM_MODELS_* lists win. Otherwise on OpenAI, light operations
+ * run on gpt-5-mini and everything else on the configured model with
+ * gpt-5-mini as fallback. Other providers only know their configured model.
+ */
+export function getModelRoute(
+  operation: LLMOperation,
+  llmConfig: typeof config.llm = config.llm
+): string[] {
+  const configured = llmConfig.routes[operation];
+  if (configured && configured.length > 0) {
+    return configured;
+  }
+
+  if (llmConfig.provider !== 'openai') {
+    return [llmConfig.model];
+  }
+
+  if (LIGHT_OPERATIONS.includes(operation)) {
+    return OPENAI_LIGHT_MODELS;
+  }
+
+  return [...new Set([llmConfig.model, OPENAI_FALLBACK_MODEL])];
+}
+
+/**
+ * Relative price of a provider (1M tokens in and out)
+ */
+function relativeCost(provider: LLMProvider): number {
+  return estimateCost(provider.pricing, 1_000_000, 1_000_000);
+}
+
+/**
+ * Resolves model chains into providers
+ */
+export class ModelRouter {
+  private base: LLMProvider;
+  private routeFor: (operation: LLMOperation) => string[];
+  private providers = new Map<string, LLMProvider>();
+
+  /**
+   * @param base - Provider for the configured model; other models are derived
+   *               from it with withModel(), so a provider without withModel()
+   *               serves every operation itself
+   * @param routeFor - Model chain per operation
+   */
+  constructor(base: LLMProvider, routeFor: (operation: LLMOperation) => string[] = getModelRoute) {
+    this.base = base;
+    this.routeFor = routeFor;
+    this.providers.set(base.model, base);
+  }
+
+  /**
+   * Get the providers to try for an operation, in order
+   *
+   * @param nearBudget - Skip models that cost more than the cheapest
+   *                     alternative in the chain
+   */
+  getCandidates(operation: LLMOperation, nearBudget: boolean = false): LLMProvider[] {
+    const chain = this.routeFor(operation)
+      .map((model) => this.providerFor(model))
+      .filter((p): p is LLMProvider => !!p);
+
+    if (chain.length === 0) {
+      return [this.base];
+    }
+
+    if (nearBudget) {
+      const cheaper = chain.filter((p) => relativeCost(p) < relativeCost(chain[0]));
+      if (cheaper.length > 0) {
+        return cheaper;
+      }
+    }
+
+    return chain;
+  }
+
+  private providerFor(model: string): LLMProvider | undefined {
+    const existing = this.providers.get(model);
+    if (existing) {
+      return existing;
+    }
+    if (!this.base.withModel) {
+      return undefined;
+    }
+
+    const provider = this.base.withModel(model);
+    this.providers.set(model, provider);
+    return provider;
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * OpenAlex Service
+ * Enriches evidence citations with scholarly metadata and confirms
+ * institutional affiliations
+ *
+ * Reference: EXPERT_EVALUATION_SPEC_V2.md (data sources: OpenAlex)
+ *
+ * Search results only give us a title, URL and snippet. OpenAlex fills in
+ * the real authors, venue, publication type, citation count and open-access
+ * status, and its institution records tell us whether an affiliation is a
+ * research institution.
+ */
+
+import crypto from 'crypto';
+import * as cache from './cache';
+import { Citation, DirectedEvidence } from '../types/consensus';
+import { classifyEvidenceTier, SourceType } from './evidenceTier';
+import { createLogger } from './logger';
+import { SearchOptions } from '../types/search';
+
+const log = createLogger('OpenAlex');
+
+const OPENALEX_API_BASE = 'https://api.openalex.org';
+const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const WORK_CACHE_PREFIX = 'openalex:work:';
+// Entries before name matching could hold the wrong institution
+const INSTITUTION_CACHE_PREFIX = 'openalex:institution:';
+
+// Optional email for the OpenAlex polite pool (faster, more reliable)
+const OPENALEX_EMAIL = process.env.OPENALEX_EMAIL;
+
+/**
+ * Minimum title similarity (0-1) for a title search hit to count as the same work
+ */
+const TITLE_MATCH_THRESHOLD = 0.8;
+
+/**
+ * Institutions with at least this many works count as research-producing,
+ * whatever their type (e.g. government labs, research nonprofits)
+ */
+const RESEARCH_OUTPUT_THRESHOLD = 1000;
+
+/**
+ * Institution search hits checked for one whose name matches the affiliation
+ */
+const INSTITUTION_CANDIDATES = 5;
+
+/**
+ * Words left out when comparing institution names
+ */
+const INSTITUTION_STOP_WORDS = new Set(['the', 'of', 'and', 'at', 'for', 'in', 'de']);
+
+/**
+ * Maximum concurrent OpenAlex requests when enriching a batch
+ */
+const MAX_CONCURRENT_LOOKUPS = 5;
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Work metadata extracted from OpenAlex
+ */
+export interface OpenAlexWork {
+  id: string;
+  title: string;
+  doi?: string;
+  year?: number;
+  authors: string[];
+  institutions: string[];
+  venue?: string;
+  /** Host venue type: journal, repository, conference, book series... */
+  venueType?: string;
+  /** Work type: article, preprint, review, book-chapter, report... */
+  type?: string;
+  citedByCount: number;
+  isOpenAccess: boolean;
+  openAccessUrl?: string;
+  abstract?: string;
+}
+
+/**
+ * Institution metadata extracted from OpenAlex
+ */
+export interface OpenAlexInstitution {
+  id: string;
+  displayName: string;
+  /** education, healthcare, company, archive, nonprofit, government, facility, other */
+  type: string;
+  countryCode?: string;
+  worksCount: number;
+}
+
+interface OpenAlexWorkRecord {
+  id: string;
+  display_name?: string;
+  title?: string;
+  doi?: string | null;
+  publication_year?: number | null;
+  type?: string;
+  cited_by_count?: number;
+  authorships?: {
+    author?: { display_name?: string };
+    institutions?: { display_name?: string }[];
+  }[];
+  primary_location?: {
+    source?: { display_name?: string; type?: string } | null;
+  } | null;
+  open_access?: {
+    is_oa?: boolean;
+    oa_url?: string | null;
+  };
+  abstract_inverted_index?: Record<string, number[]> | null;
+}
+
+interface OpenAlexInstitutionRecord {
+  id: string;
+  display_name: string;
+  type?: string;
+  country_code?: string | null;
+  works_count?: number;
+  display_name_alternatives?: string[];
+  display_name_acronyms?: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+function buildUrl(path: string): string {
+  const separator = path.includes('?') ? '&' : '?';
+  return OPENALEX_EMAIL
+    ? `${OPENALEX_API_BASE}${path}${separator}mailto=${encodeURIComponent(OPENALEX_EMAIL)}`
+    : `${OPENALEX_API_BASE}${path}`;
+}
+
+/**
+ * Fetch JSON from OpenAlex; null for 404, throws for other errors
+ */
+async function requestJson<T>(path: string): Promise<T | null> {
+  const response = await fetch(buildUrl(path), {
+    headers: { Accept: 'application/json' },
+  });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`OpenAlex API error: ${response.status} ${response.statusText}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Extract a DOI from a URL or free text (doi.org links, publisher URLs)
+ */
+export function extractDOI(text: string): string | undefined {
+  const match = text.match(/\b(10\.\d{4,9}\/[^\s?#"<>]+)/i);
+  if (!match) return undefined;
+  // Trailing punctuation is almost never part of the DOI
+  return match[1].replace(/[.,;)\]]+$/, '').toLowerCase();
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Word-overlap similarity between two titles (0-1)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeTitle(a).split(' ').filter(Boolean));
+  const wordsB = new Set(normalizeTitle(b).split(' ').filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / Math.max(wordsA.size, wordsB.size);
+}
+
+function institutionWords(name: string): string[] {
+  return normalizeTitle(name).split(' ').filter((word) => word && !INSTITUTION_STOP_WORDS.has(word));
+}
+
+/**
+ * Whether a search hit is the institution an affiliation names: an acronym
+ * equal to it, or a name or alternative name whose words contain all of the
+ * affiliation's (or all of whose words the affiliation contains)
+ */
+function matchesAffiliation(affiliation: string, record: OpenAlexInstitutionRecord): boolean {
+  const affiliationWords = institutionWords(affiliation);
+  if (affiliationWords.length === 0) return false;
+
+  if ((record.display_name_acronyms || []).some((acronym) => acronym.trim() === affiliation.trim())) {
+    return true;
+  }
+
+  return [record.display_name, ...(record.display_name_alternatives || [])].some((name) => {
+    const nameWords = institutionWords(name);
+    return nameWords.length > 0 && (
+      affiliationWords.every((word) => nameWords.includes(word)) ||
+      nameWords.every((word) => affiliationWords.includes(word))
+    );
+  });
+}
+
+/**
+ * Rebuild abstract text from OpenAlex's inverted index (word -> positions)
+ */
+function rebuildAbstract(index?: Record<string, number[]> | null): string | undefined {
+  if (!index) return undefined;
+  const words: string[] = [];
+  for (const [word, positions] of Object.entries(index)) {
+    for (const position of positions) {
+      words[position] = word;
+    }
+  }
+  const text = words.filter(Boolean).join(' ');
+  return text || undefined;
+}
+
+function parseWork(record: OpenAlexWorkRecord): OpenAlexWork {
+  const authorships = record.authorships || [];
+  const institutions = new Set<string>();
+  for (const authorship of authorships) {
+    for (const inst of authorship.institutions || []) {
+      if (inst.display_name) institutions.add(inst.display_name);
+    }
+  }
+
+  return {
+    id: record.id,
+    title: record.display_name || record.title || '',
+    doi: record.doi ? extractDOI(record.doi) : undefined,
+    year: record.publication_year ?? undefined,
+    authors: authorships
+      .map((a) => a.author?.display_name || '')
+      .filter((name) => name.length > 0),
+    institutions: Array.from(institutions),
+    venue: record.primary_location?.source?.display_name || undefined,
+    venueType: record.primary_location?.source?.type || undefined,
+    type: record.type,
+    citedByCount: record.cited_by_count ?? 0,
+    isOpenAccess: record.open_access?.is_oa ?? false,
+    openAccessUrl: record.open_access?.oa_url || undefined,
+    abstract: rebuildAbstract(record.abstract_inverted_index),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// WORKS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Look up a work by DOI, falling back to a title search
+ * @returns The work, or null if not found (or the title hit is a different work)
+ */
+export async function lookupWork(query: { doi?: string; title?: string }): Promise<OpenAlexWork | null> {
+  const doi = query.doi ? extractDOI(query.doi) : undefined;
+  const title = query.title?.trim();
+  if (!doi && !title) {
+    return null;
+  }
+
+  const cacheKey = doi
+    ? `${WORK_CACHE_PREFIX}doi:${doi}`
+    : `${WORK_CACHE_PREFIX}title:${crypto.createHash('md5').update(normalizeTitle(title!)).digest('hex')}`;
+
+  const cached = await cache.get<{ work: OpenAlexWork | null }>(cacheKey);
+  if (cached !== null) {
+    return cached.work;
+  }
+
+  try {
+    let work: OpenAlexWork | null = null;
+
+    if (doi) {
+      const record = await requestJson<OpenAlexWorkRecord>(`/works/doi:${encodeURIComponent(doi)}`);
+      work = record ? parseWork(record) : null;
+    }
+
+    if (!work && title) {
+      const data = await requestJson<{ results?: OpenAlexWorkRecord[] }>(
+        `/works?search=${encodeURIComponent(title)}&per-page=3`
+      );
+      const best = (data?.results || [])
+        .map(parseWork)
+        .find((candidate) => titleSimilarity(candidate.title, title) >= TITLE_MATCH_THRESHOLD);
+      work = best || null;
+    }
+
+    await cache.set(cacheKey, { work }, CACHE_TTL_SECONDS);
+    return work;
+  } catch (error) {
+    // Don't cache errors - they might be temporary
+    log.warn(`Work lookup failed for "${doi || title}"`, { error });
+    return null;
+  }
+}
+
+/**
+ * Full-text search over works, most relevant first
+ * Errors propagate - callers decide whether to fall back.
+ */
+export async function searchWorks(query: string, limit: number = 10, options: SearchOptions = {}): Promise<OpenAlexWork[]> {
+  const filters = [
+    options.startPublishedDate && `from_publication_date:${options.startPublishedDate}`,
+    options.endPublishedDate && `to_publication_date:${options.endPublishedDate}`,
+  ].filter(Boolean);
+  const data = await requestJson<{ results?: OpenAlexWorkRecord[] }>(
+    `/works?search=${encodeURIComponent(query)}&per-page=${Math.min(limit, 50)}` +
+      (filters.length > 0 ? `&filter=${filters.join(',')}` : '')
+  );
+  return (data?.results || []).map(parseWork);
+}
+
+/**
+ * Map an OpenAlex work to an evidence source type, when it is unambiguous
+ */
+export function getSourceTypeForWork(work: OpenAlexWork): SourceType | undefined {
+  if (work.type === 'preprint' || work.venueType === 'repository') {
+    return 'preprint';
+  }
+  if ((work.type === 'article' || work.type === 'review') && work.venueType === 'journal') {
+    return 'peer_reviewed';
+  }
+  return undefined;
+}
+
+/**
+ * Merge OpenAlex metadata into a citation
+ */
+export function enrichCitation(citation: Citation, work: OpenAlexWork): Citation {
+  return {
+    ...citation,
+    authors: work.authors.length > 0 ? work.authors : citation.authors,
+    publication: work.venue || citation.publication,
+    year: work.year || citation.year,
+    doi: work.doi || citation.doi,
+    publicationType: work.type,
+    citationCount: work.citedByCount,
+    isOpenAccess: work.isOpenAccess,
+    openAccessUrl: work.openAccessUrl,
+    openAlexId: work.id,
+  };
+}
+
+/**
+ * Enrich one evidence item: citation metadata plus a tier correction when
+ * OpenAlex knows the venue (journal article vs preprint)
+ */
+export function applyWorkToEvidence(evidence: DirectedEvidence, work: OpenAlexWork): DirectedEvidence {
+  const citation = enrichCitation(evidence.citation, work);
+  const enriched: DirectedEvidence = { ...evidence, citation };
+
+  const sourceType = getSourceTypeForWork(work);
+  if (!sourceType) {
+    return enriched;
+  }
+
+  // Title patterns (meta-analysis, systematic review) are more specific than
+  // the venue, so only reclassify evidence that was classified from its URL
+  const fromTitleAndUrl = classifyEvidenceTier({ url: citation.url, title: citation.title });
+  const fromVenue = classifyEvidenceTier({ url: citation.url, title: citation.title, sourceType });
+  if (fromTitleAndUrl.tier === 1) {
+    return enriched;
+  }
+
+  // A journal article found via a random host is better than its URL
+  // suggests; a "paper" that is really a preprint is worse
+  if (fromVenue.tier < evidence.tier || sourceType === 'preprint') {
+    return { ...enriched, tier: fromVenue.tier, category: fromVenue.category };
+  }
+  return enriched;
+}
+
+/**
+ * Enrich a batch of evidence with OpenAlex metadata
+ * Items that cannot be resolved are returned unchanged.
+ */
+export async function enrichEvidence(evidence: DirectedEvidence[]): Promise<DirectedEvidence[]> {
+  const results: DirectedEvidence[] = [...evidence];
+  let next = 0;
+  let enrichedCount = 0;
+
+  const worker = async () => {
+    while (next < evidence.length) {
+      const i = next++;
+      const item = evidence[i];
+      const work = await lookupWork({
+        doi: item.citation.doi || extractDOI(item.citation.url),
+        title: item.citation.title,
+      });
+      if (work) {
+        results[i] = applyWorkToEvidence(item, work);
+        enrichedCount++;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(MAX_CONCURRENT_LOOKUPS, evidence.length) }, worker)
+  );
+
+  log.info(`Enriched ${enrichedCount}/${evidence.length} citations`);
+  return results;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INSTITUTIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Look up the institution an affiliation string names
+ * Search hits whose names do not match the affiliation are ignored: a
+ * wrong institution would override the affiliation heuristics.
+ * @returns null when OpenAlex has no matching institution
+ */
+export async function lookupInstitution(affiliation: string): Promise<OpenAlexInstitution | null> {
+  const name = affiliation.trim();
+  if (!name) {
+    return null;
+  }
+
+  const cacheKey = `${INSTITUTION_CACHE_PREFIX}${name.toLowerCase()}`;
+  const cached = await cache.get<{ institution: OpenAlexInstitution | null }>(cacheKey);
+  if (cached !== null) {
+    return cached.institution;
+  }
+
+  try {
+    const data = await requestJson<{ results?: OpenAlexInstitutionRecord[] }>(
+      `/institutions?search=${encodeURIComponent(name)}&per-page=${INSTITUTION_CANDIDATES}`
+    );
+    const record = data?.results?.find((candidate) => matchesAffiliation(name, candidate));
+    const institution: OpenAlexInstitution | null = record
+      ? {
+          id: record.id,
+          displayName: record.display_name,
+          type: record.type || 'other',
+          countryCode: record.country_code || undefined,
+          worksCount: record.works_count ?? 0,
+        }
+      : null;
+
+    await cache.set(cacheKey, { institution }, CACHE_TTL_SECONDS);
+    return institution;
+  } catch (error) {
+    log.warn(`Institution lookup failed for "${name}"`, { error });
+    return null;
+  }
+}
+
+/**
+ * Whether an OpenAlex institution is a research institution
+ */
+export function isResearchInstitutionRecord(institution: OpenAlexInstitution): boolean {
+  if (['education', 'facility', 'healthcare', 'archive'].includes(institution.type)) {
+    return true;
+  }
+  return institution.type !== 'company' && institution.worksCount >= RESEARCH_OUTPUT_THRESHOLD;
+}
+
+/**
+ * Confirm whether an affiliation is a research institution
+ * @returns true/false when OpenAlex knows the institution, null when unknown
+ */
+export async function confirmResearchInstitution(affiliation: string): Promise<boolean | null> {
+  const institution = await lookupInstitution(affiliation);
+  return institution ? isResearchInstitutionRecord(institution) : null;
+}
+
+export default {
+  lookupWork,
+  enrichCitation,
+  enrichEvidence,
+  lookupInstitution,
+  confirmResearchInstitution,
+};
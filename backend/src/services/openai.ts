@@ -1,19 +1,22 @@
-import OpenAI from 'openai';
+import { trackCost, isOverBudget, isNearBudget, reserveBudget, releaseBudget, budgetExceededMessage } from './costTracker';
+import { createLLMProvider, estimateCost, getEmbeddingPrice } from './llmProvider';
 import { config } from '../config';
-import { trackCost, isOverBudget } from './costTracker';
+import { ModelRouter } from './modelRouter';
+import { LLMMessage, LLMOperation, LLMPricing, LLMProvider, LLMResponse, LLMResult } from '../types/llm';
 import { generateFactSummaryPrompt, FactSummaryResponse } from '../prompts/factSummary';
 import { generateEvidenceSynthesisPrompt, EvidenceSynthesisResponse } from '../prompts/evidenceSynthesis';
-
-/**
- * OpenAI pricing per 1M tokens (GPT-5 models)
- */
-const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'gpt-5': { input: 2.00, output: 8.00 },
-  'gpt-5-mini': { input: 0.30, output: 1.20 },
-  'gpt-5-nano': { input: 0.10, output: 0.40 },
-  'gpt-4o': { input: 2.50, output: 10.00 },
-  'gpt-4o-mini': { input: 0.15, output: 0.60 },
-};
+import { generateEvidenceStancePrompt, EvidenceStanceResponse } from '../prompts/evidenceStance';
+import {
+  generateExpertIdentificationPrompt,
+  generateExpertAgentPrompt,
+  ExpertIdentificationResponse,
+  ExpertAgentResponse,
+} from '../prompts/expertPanel';
+import { generateQuoteAttributionPrompt, QuoteAttributionResponse } from '../prompts/quoteAttribution';
+import { createLogger } from './logger';
+import { llmCalls, llmRetries, llmTokens } from './metrics';
+
+const log = createLogger('OpenAI');
 
 /**
  * Retry configuration
@@ -25,37 +28,71 @@ const RETRY_CONFIG = {
 };
 
 /**
- * OpenAI Service using the Responses API (client.responses.create)
+ * Output tokens reserved against the budget before a call
+ * (input is estimated from prompt length at ~4 characters per token)
+ */
+const RESERVED_OUTPUT_TOKENS = 2000;
+
+/**
+ * LLM Service - every analysis prompt goes through the configured
+ * LLMProvider (OpenAI Responses API by default, or an OpenAI-compatible server)
+ *
+ * Each operation runs on its own model chain (see modelRouter); results
+ * carry the model that produced them.
  */
 class OpenAIService {
-  private client: OpenAI;
-  private model: string;
+  private provider: LLMProvider;
+  private router: ModelRouter;
+
+  constructor(provider: LLMProvider = createLLMProvider(), router: ModelRouter = new ModelRouter(provider)) {
+    this.provider = provider;
+    this.router = router;
 
-  constructor() {
-    if (!config.openaiApiKey) {
-      console.warn('[OpenAI] OPENAI_API_KEY not set. OpenAI features will be unavailable.');
+    if (!provider.isConfigured()) {
+      log.warn(`${provider.name} provider is not configured (API key or base URL missing). LLM features will be unavailable.`);
     }
 
-    this.client = new OpenAI({
-      apiKey: config.openaiApiKey || 'dummy-key',
-    });
-    this.model = config.openaiModel;
+    log.info(`Initialized with ${provider.name} provider, model: ${provider.model}${provider.baseUrl ? ` at ${provider.baseUrl}` : ''}`);
+  }
+
+  /**
+   * Get the active provider (name, model, capabilities, pricing)
+   */
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  /**
+   * Check whether LLM calls can be made
+   */
+  isAvailable(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  /**
+   * Check whether texts can be embedded (LLM_EMBEDDING_MODEL set and supported)
+   */
+  isEmbeddingAvailable(): boolean {
+    return this.provider.isConfigured() && !!this.provider.embed && !!config.llm.embeddingModel;
+  }
 
-    console.log(`[OpenAI] Initialized with model: ${this.model} (using Responses API)`);
+  /**
+   * Get the models an operation would try right now, in order
+   */
+  getModelsFor(operation: LLMOperation): string[] {
+    return this.router.getCandidates(operation, isNearBudget()).map((p) => p.model);
   }
 
   /**
    * Calculate and log estimated cost for a request
    */
-  private calculateCost(inputTokens: number, outputTokens: number): number {
-    const pricing = MODEL_PRICING[this.model] || MODEL_PRICING['gpt-5'];
-    const inputCost = (inputTokens / 1_000_000) * pricing.input;
-    const outputCost = (outputTokens / 1_000_000) * pricing.output;
-    const totalCost = inputCost + outputCost;
-
-    console.log(
-      `[OpenAI] Token usage - Input: ${inputTokens}, Output: ${outputTokens}. ` +
-      `Estimated cost: $${totalCost.toFixed(6)}`
+  private calculateCost(pricing: LLMPricing, inputTokens: number, outputTokens: number): number {
+    const totalCost = estimateCost(pricing, inputTokens, outputTokens);
+
+    log.info(
+      `Token usage - Input: ${inputTokens}, Output: ${outputTokens}. ` +
+      `Estimated cost: $${totalCost.toFixed(6)}`,
+      { inputTokens, outputTokens, cost: totalCost }
     );
 
     return totalCost;
@@ -70,44 +107,54 @@ class OpenAIService {
 
   /**
    * Execute a function with exponential backoff retry logic
+   * Counts the call (once, after its retries) and each retry in the metrics.
    */
   private async withRetry<T>(
     fn: () => Promise<T>,
-    operation: string
+    operation: string,
+    model: string
   ): Promise<T> {
+    const labels = { operation, model };
+    const description = `${operation} (${model})`;
     let lastError: Error | undefined;
     let delay = RETRY_CONFIG.initialDelayMs;
 
     for (let attempt = 1; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
       try {
-        return await fn();
+        const result = await fn();
+        llmCalls.inc({ ...labels, outcome: 'success' });
+        return result;
       } catch (error: any) {
         lastError = error;
 
         // Don't retry on certain errors
         if (error?.status === 401 || error?.status === 403) {
-          console.error(`[OpenAI] Authentication error for ${operation}:`, error.message);
+          log.error(`Authentication error for ${description}`, { error: error.message });
+          llmCalls.inc({ ...labels, outcome: 'failure' });
           throw error;
         }
 
         if (error?.status === 400) {
-          console.error(`[OpenAI] Bad request for ${operation}:`, error.message);
+          log.error(`Bad request for ${description}`, { error: error.message });
+          llmCalls.inc({ ...labels, outcome: 'failure' });
           throw error;
         }
 
-        console.warn(
-          `[OpenAI] Attempt ${attempt}/${RETRY_CONFIG.maxRetries} failed for ${operation}: ${error.message}`
+        log.warn(
+          `Attempt ${attempt}/${RETRY_CONFIG.maxRetries} failed for ${description}: ${error.message}`
         );
 
         if (attempt < RETRY_CONFIG.maxRetries) {
-          console.log(`[OpenAI] Retrying in ${delay}ms...`);
+          log.info(`Retrying in ${delay}ms...`);
+          llmRetries.inc(labels);
           await this.sleep(delay);
           delay = Math.min(delay * 2, RETRY_CONFIG.maxDelayMs);
         }
       }
     }
 
-    console.error(`[OpenAI] All ${RETRY_CONFIG.maxRetries} attempts failed for ${operation}`);
+    log.error(`All ${RETRY_CONFIG.maxRetries} attempts failed for ${description}`);
+    llmCalls.inc({ ...labels, outcome: 'failure' });
     throw lastError;
   }
 
@@ -139,7 +186,7 @@ class OpenAIService {
     // Validate expected fields are present
     for (const field of expectedFields) {
       if (!(field in parsed)) {
-        console.warn(`[OpenAI] Missing expected field in response: ${field}`);
+        log.warn(`Missing expected field in response: ${field}`);
       }
     }
 
@@ -147,48 +194,130 @@ class OpenAIService {
   }
 
   /**
-   * Make a request using the OpenAI Responses API
+   * Send messages down the operation's model chain with retries and cost tracking
+   *
+   * Each model gets the full retry budget; when it gives up, the next model
+   * in the chain is tried. Authentication errors stop the chain.
+   *
+   * An estimate is reserved against the shared daily budget (and the
+   * caller's API key quota) before each model is called, then settled at
+   * the actual cost (or released on failure).
    */
-  private async makeResponsesRequest(
-    systemPrompt: string,
-    userPrompt: string,
-    operation: string
-  ): Promise<{ content: string; inputTokens: number; outputTokens: number }> {
-    if (!config.openaiApiKey) {
-      throw new Error('OPENAI_API_KEY is not configured');
+  private async generate(
+    messages: LLMMessage[],
+    json: boolean,
+    operation: LLMOperation
+  ): Promise<LLMResponse> {
+    if (isOverBudget()) {
+      throw new Error('Daily cost budget exceeded. Please try again tomorrow.');
+    }
+
+    const nearBudget = isNearBudget();
+    const candidates = this.router
+      .getCandidates(operation, nearBudget)
+      .filter((p) => p.isConfigured());
+
+    if (candidates.length === 0) {
+      throw new Error(`LLM provider "${this.provider.name}" is not configured`);
+    }
+
+    if (nearBudget) {
+      log.warn(`Near daily budget - ${operation} starting on ${candidates[0].model}`);
+    }
+
+    const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    let lastError: Error | undefined;
+
+    for (let i = 0; i < candidates.length; i++) {
+      const provider = candidates[i];
+
+      const reserved = estimateCost(provider.pricing, promptTokens, RESERVED_OUTPUT_TOKENS);
+      const reservation = await reserveBudget(reserved);
+      if (!reservation.ok) {
+        throw new Error(budgetExceededMessage(reservation.limit));
+      }
+
+      try {
+        const response = await this.withRetry(
+          () => provider.generate({ messages, json }),
+          operation,
+          provider.model
+        );
+        llmTokens.inc({ model: provider.model, direction: 'input' }, response.inputTokens);
+        llmTokens.inc({ model: provider.model, direction: 'output' }, response.outputTokens);
+
+        // Track costs at the price of the model that actually ran
+        const cost = this.calculateCost(provider.pricing, response.inputTokens, response.outputTokens);
+        await trackCost(cost, { provider: provider.name, operation, model: provider.model }, reserved);
+
+        return response;
+      } catch (error: any) {
+        lastError = error;
+        await releaseBudget(reserved);
+
+        if (error?.status === 401 || error?.status === 403) {
+          throw error;
+        }
+
+        const next = candidates[i + 1];
+        if (next) {
+          log.warn(`${operation} failed on ${provider.model}, falling back to ${next.model}`);
+        }
+      }
     }
 
+    throw lastError;
+  }
+
+  /**
+   * Embed texts with LLM_EMBEDDING_MODEL
+   * Reserved against the budget and tracked like other calls; no fallback chain.
+   * @returns One vector per text, in order
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.isEmbeddingAvailable()) {
+      throw new Error('Embeddings are not configured (LLM_EMBEDDING_MODEL)');
+    }
     if (isOverBudget()) {
       throw new Error('Daily cost budget exceeded. Please try again tomorrow.');
     }
 
-    return this.withRetry(async () => {
-      // Use the Responses API format
-      const response = await (this.client as any).responses.create({
-        model: this.model,
-        input: [
-          {
-            role: 'system',
-            content: [{ type: 'input_text', text: systemPrompt }]
-          },
-          {
-            role: 'user',
-            content: [{ type: 'input_text', text: userPrompt }]
-          }
-        ],
-        text: { format: { type: 'json_object' } }
-      });
-
-      const content = response.output_text || '';
-      const inputTokens = response.usage?.input_tokens || 0;
-      const outputTokens = response.usage?.output_tokens || 0;
-
-      // Track costs
-      const cost = this.calculateCost(inputTokens, outputTokens);
-      trackCost(cost);
-
-      return { content, inputTokens, outputTokens };
-    }, operation);
+    const model = config.llm.embeddingModel;
+    const pricing: LLMPricing = { input: getEmbeddingPrice(this.provider.name, model), output: 0 };
+    const reserved = estimateCost(pricing, Math.ceil(texts.reduce((sum, t) => sum + t.length, 0) / 4), 0);
+    const reservation = await reserveBudget(reserved);
+    if (!reservation.ok) {
+      throw new Error(budgetExceededMessage(reservation.limit));
+    }
+
+    try {
+      const response = await this.withRetry(() => this.provider.embed!(texts, model), 'embedding', model);
+      llmTokens.inc({ model, direction: 'input' }, response.inputTokens);
+      const cost = estimateCost(pricing, response.inputTokens, 0);
+      await trackCost(cost, { provider: this.provider.name, operation: 'embedding', model }, reserved);
+      return response.embeddings;
+    } catch (error) {
+      await releaseBudget(reserved);
+      throw error;
+    }
+  }
+
+  /**
+   * Make a JSON request with a system and user prompt
+   */
+  private async makeJsonRequest(
+    systemPrompt: string,
+    userPrompt: string,
+    operation: LLMOperation
+  ): Promise<LLMResponse> {
+    return this.generate(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      true,
+      operation
+    );
   }
 
   /**
@@ -199,13 +328,13 @@ class OpenAIService {
     title: string,
     source: string,
     groundingContext: string = ''
-  ): Promise<{
+  ): Promise<LLMResult<{
     biasScore: { score: number; label: string; summary: string };
     summaryText: string;
     isPolitical: boolean;
     politicalLean: 'left' | 'center-left' | 'center' | 'center-right' | 'right' | 'none';
-  }> {
-    console.log(`[OpenAI] Quick analysis: "${title}"`);
+  }>> {
+    log.info(`Quick analysis: "${title}"`);
 
     const prompt = `Analyze this news article quickly.
 ${groundingContext}
@@ -224,7 +353,7 @@ IMPORTANT: Use the CURRENT VERIFIED INFORMATION above as ground truth. Do not fl
 
 Be concise. Valid JSON only.`;
 
-    const { content: responseContent } = await this.makeResponsesRequest(
+    const { content: responseContent, model } = await this.makeJsonRequest(
       'You are a news analyst. Respond with valid JSON only.',
       prompt,
       'analyzeQuick'
@@ -244,6 +373,7 @@ Be concise. Valid JSON only.`;
       summaryText: parsed.summaryText || '',
       isPolitical: parsed.isPolitical ?? false,
       politicalLean,
+      model,
     };
   }
 
@@ -255,12 +385,12 @@ Be concise. Valid JSON only.`;
     title: string,
     source: string,
     groundingContext: string = ''
-  ): Promise<{
+  ): Promise<LLMResult<{
     keyFacts: string[];
     missingContext: string[];
     biasIndicators: { originalText: string; type: string; explanation: string }[];
-  }> {
-    console.log(`[OpenAI] Detailed analysis: "${title}"`);
+  }>> {
+    log.info(`Detailed analysis: "${title}"`);
 
     const prompt = `Analyze this article for facts, missing context, and bias.
 ${groundingContext}
@@ -282,7 +412,7 @@ CRITICAL:
 
 For biasIndicators, quote the EXACT text from the article. Valid JSON only.`;
 
-    const { content: responseContent } = await this.makeResponsesRequest(
+    const { content: responseContent, model } = await this.makeJsonRequest(
       'You are a fact-checker. Respond with valid JSON only.',
       prompt,
       'analyzeDetailed'
@@ -298,6 +428,7 @@ For biasIndicators, quote the EXACT text from the article. Valid JSON only.`;
         type: bi.type || 'framing',
         explanation: bi.explanation || '',
       })),
+      model,
     };
   }
 
@@ -308,19 +439,19 @@ For biasIndicators, quote the EXACT text from the article. Valid JSON only.`;
     content: string,
     title: string,
     source: string
-  ): Promise<{
+  ): Promise<LLMResult<{
     biasScore: { score: number; label: string; summary: string } | null;
     summary: { text: string; keyFacts: string[]; missingContext: string[] };
     biasIndicators: { originalText: string; type: string; explanation: string }[];
     isPolitical: boolean;
     politicalLean: 'left' | 'center-left' | 'center' | 'center-right' | 'right' | 'none';
-  }> {
-    console.log(`[OpenAI] Full analysis: "${title}" from ${source}`);
+  }>> {
+    log.info(`Full analysis: "${title}" from ${source}`);
 
     const systemPrompt = 'You are an expert journalist trained in objective, fact-based reporting. Always respond with valid JSON.';
     const userPrompt = generateFactSummaryPrompt(title, source, content);
 
-    const { content: responseContent } = await this.makeResponsesRequest(
+    const { content: responseContent, model } = await this.makeJsonRequest(
       systemPrompt,
       userPrompt,
       'analyzeArticle'
@@ -356,6 +487,7 @@ For biasIndicators, quote the EXACT text from the article. Valid JSON only.`;
       })),
       isPolitical: parsed.isPolitical ?? false,
       politicalLean,
+      model,
     };
   }
 
@@ -367,16 +499,16 @@ For biasIndicators, quote the EXACT text from the article. Valid JSON only.`;
     topic: string,
     coreArgument: string,
     exaResults: any
-  ): Promise<EvidenceSynthesisResponse> {
-    console.log(`[OpenAI] Synthesizing expert evidence for: "${topic}"`);
+  ): Promise<LLMResult<EvidenceSynthesisResponse>> {
+    log.info(`Synthesizing expert evidence for: "${topic}"`);
 
     const systemPrompt = 'You are a research analyst finding what EXPERTS and ACADEMIC RESEARCH say about a topic. Always respond with valid JSON.';
     const userPrompt = generateEvidenceSynthesisPrompt(topic, coreArgument, exaResults);
 
-    const { content: responseContent } = await this.makeResponsesRequest(
+    const { content: responseContent, model } = await this.makeJsonRequest(
       systemPrompt,
       userPrompt,
-      'synthesizeEvidence'
+      'evidenceSynthesis'
     );
 
     const parsed = this.parseJsonResponse<EvidenceSynthesisResponse>(
@@ -430,45 +562,147 @@ For biasIndicators, quote the EXACT text from the article. Valid JSON only.`;
         confidence: 'low',
         caveat: 'More research may be needed.',
       },
+      model,
     };
   }
 
   /**
-   * Generic completion for testing using Responses API
+   * Classify the stance of each evidence snippet toward a claim
+   * (one batched call per claim)
    */
-  async complete(prompt: string): Promise<string> {
-    console.log(`[OpenAI] Running completion (prompt length: ${prompt.length})`);
+  async classifyEvidenceStance(
+    claimText: string,
+    snippets: { title: string; text: string }[]
+  ): Promise<LLMResult<EvidenceStanceResponse>> {
+    log.info(`Classifying stance of ${snippets.length} snippets for claim: "${claimText.substring(0, 60)}"`);
 
-    if (!config.openaiApiKey) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
+    const systemPrompt = 'You are a careful research analyst judging whether evidence supports or contradicts a claim. Always respond with valid JSON.';
+    const userPrompt = generateEvidenceStancePrompt(claimText, snippets);
 
-    if (isOverBudget()) {
-      throw new Error('Daily cost budget exceeded. Please try again tomorrow.');
-    }
+    const { content: responseContent, model } = await this.makeJsonRequest(
+      systemPrompt,
+      userPrompt,
+      'stanceClassification'
+    );
+
+    const parsed = this.parseJsonResponse<EvidenceStanceResponse>(responseContent, ['stances']);
+
+    return {
+      stances: Array.isArray(parsed.stances) ? parsed.stances : [],
+      model,
+    };
+  }
+
+  /**
+   * Identify the 3-5 expert types needed to evaluate an article's claims
+   */
+  async identifyExpertTypes(
+    title: string,
+    claims: { id: string; text: string }[],
+    articleSubjects: string[]
+  ): Promise<LLMResult<ExpertIdentificationResponse>> {
+    log.info(`Identifying expert panel for ${claims.length} claims: "${title.substring(0, 60)}"`);
+
+    const systemPrompt = 'You are a research director assembling interdisciplinary fact-checking teams. Always respond with valid JSON.';
+    const userPrompt = generateExpertIdentificationPrompt(title, claims, articleSubjects);
+
+    const { content: responseContent, model } = await this.makeJsonRequest(
+      systemPrompt,
+      userPrompt,
+      'expertValidation'
+    );
+
+    const parsed = this.parseJsonResponse<ExpertIdentificationResponse>(responseContent, ['experts']);
+
+    return {
+      experts: Array.isArray(parsed.experts) ? parsed.experts : [],
+      articleSubjectsToExclude: Array.isArray(parsed.articleSubjectsToExclude)
+        ? parsed.articleSubjectsToExclude
+        : [],
+      model,
+    };
+  }
+
+  /**
+   * Find every quoted person in an article and link their quotes to claims
+   */
+  async attributeQuotes(
+    title: string,
+    content: string,
+    claims: { id: string; text: string }[]
+  ): Promise<LLMResult<QuoteAttributionResponse>> {
+    log.info(`Attributing quotes in article: "${title.substring(0, 60)}"`);
+
+    const systemPrompt = 'You are a careful news editor attributing quotes to the people who said them. Always respond with valid JSON.';
+    const userPrompt = generateQuoteAttributionPrompt(title, content, claims);
+
+    const { content: responseContent, model } = await this.makeJsonRequest(
+      systemPrompt,
+      userPrompt,
+      'expertValidation'
+    );
+
+    const parsed = this.parseJsonResponse<QuoteAttributionResponse>(responseContent, ['quotes']);
+
+    return {
+      quotes: Array.isArray(parsed.quotes) ? parsed.quotes : [],
+      model,
+    };
+  }
 
-    const response = await this.withRetry(async () => {
-      return (this.client as any).responses.create({
-        model: this.model,
-        input: [
-          {
-            role: 'user',
-            content: [{ type: 'input_text', text: prompt }]
-          }
-        ]
-      });
-    }, 'complete');
-
-    const content = response.output_text || '';
-    const inputTokens = response.usage?.input_tokens || 0;
-    const outputTokens = response.usage?.output_tokens || 0;
-
-    // Track costs
-    const cost = this.calculateCost(inputTokens, outputTokens);
-    trackCost(cost);
+  /**
+   * Analyze search results for a set of claims from one expert type's perspective
+   */
+  async analyzeAsExpert(
+    expert: { type: string; whyNeeded: string; lookFor: string },
+    claims: { id: string; text: string }[],
+    excludedSubjects: string[],
+    results: { title: string; url: string; text: string }[]
+  ): Promise<LLMResult<ExpertAgentResponse>> {
+    log.info(`Running expert agent "${expert.type}" over ${results.length} results`);
+
+    const systemPrompt = `You are a ${expert.type} reviewing research evidence. Always respond with valid JSON.`;
+    const userPrompt = generateExpertAgentPrompt(expert, claims, excludedSubjects, results);
+
+    const { content: responseContent, model } = await this.makeJsonRequest(
+      systemPrompt,
+      userPrompt,
+      'expertValidation'
+    );
+
+    const parsed = this.parseJsonResponse<ExpertAgentResponse>(responseContent, ['claimAssessments']);
+
+    return {
+      sources: Array.isArray(parsed.sources) ? parsed.sources : [],
+      claimAssessments: Array.isArray(parsed.claimAssessments) ? parsed.claimAssessments : [],
+      overallAssessment: parsed.overallAssessment || '',
+      methodologicalConcerns: Array.isArray(parsed.methodologicalConcerns) ? parsed.methodologicalConcerns : [],
+      limitations: Array.isArray(parsed.limitations) ? parsed.limitations : [],
+      model,
+    };
+  }
 
+  /**
+   * Generic completion (free text)
+   */
+  async complete(prompt: string, operation: LLMOperation = 'complete'): Promise<string> {
+    const { content } = await this.completeWithModel(prompt, operation);
     return content;
   }
+
+  /**
+   * Free-text completion tagged with the model that produced it
+   * (claim extraction routes through here as 'extractClaims')
+   */
+  async completeWithModel(
+    prompt: string,
+    operation: LLMOperation = 'complete'
+  ): Promise<LLMResult<{ content: string }>> {
+    log.info(`Running completion for ${operation} (prompt length: ${prompt.length})`);
+
+    const { content, model } = await this.generate([{ role: 'user', content: prompt }], false, operation);
+    return { content, model };
+  }
 }
 
 // Export singleton instance
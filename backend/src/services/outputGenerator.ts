@@ -21,9 +21,11 @@ import {
   EvidenceDirection,
 } from '../types/consensus';
 import { ValidatedExpert } from '../types/expert';
+import { ExpertVerdict } from '../types/expertPanel';
 import { Domain, ClaimType } from '../types/claims';
 import { FRAMING_TEMPLATES, getFramingTemplate } from './consensusDetector';
 import { EvidenceTier } from './evidenceTier';
+import { createLogger } from './logger';
 import {
   OutputFormat,
   RenderedClaimOutput,
@@ -37,6 +39,7 @@ import {
   OutputDebateSection,
   OutputDebatePosition,
   OutputEmergingTrends,
+  OutputExpertPanelSection,
   OutputWarning,
   OutputSourcesList,
   OutputValuesContent,
@@ -53,6 +56,8 @@ import {
   requiresUncertaintyLanguage,
 } from '../types/output';
 
+const log = createLogger('OutputGenerator');
+
 // ═══════════════════════════════════════════════════════════════
 // TIER LABELS
 // ═══════════════════════════════════════════════════════════════
@@ -106,9 +111,25 @@ export function convertCitation(
     finding: citation.finding,
     tierLabel: getTierLabel(tier),
     tierLevel: tier,
+    citationCount: citation.citationCount,
+    isOpenAccess: citation.isOpenAccess,
   };
 }
 
+/**
+ * Tier label plus scholarly metadata tags, when known
+ */
+function formatCitationTags(citation: OutputCitation): string[] {
+  const tags = [citation.tierLabel];
+  if (citation.citationCount !== undefined) {
+    tags.push(`cited ${citation.citationCount} times`);
+  }
+  if (citation.isOpenAccess) {
+    tags.push('open access');
+  }
+  return tags;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // HEADER GENERATION
 // ═══════════════════════════════════════════════════════════════
@@ -194,7 +215,10 @@ export function generateEvidenceSummary(
 
   let summaryText: string;
 
-  if (assessment.level === 'values_question') {
+  if (assessment.referenceData) {
+    const { datasetName, source } = assessment.referenceData;
+    summaryText = `Compared with official data (${datasetName}, ${source}); ${basis.totalQualityStudies} high-quality studies also examined.`;
+  } else if (assessment.level === 'values_question') {
     summaryText =
       'This is a values question - empirical evidence cannot resolve it.';
   } else if (assessment.level === 'insufficient_research') {
@@ -333,6 +357,56 @@ export function generateEmergingTrends(
   };
 }
 
+// ═══════════════════════════════════════════════════════════════
+// EXPERT PANEL GENERATION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Human-readable expert verdict labels
+ */
+const EXPERT_VERDICT_LABELS: Record<ExpertVerdict, string> = {
+  supported: 'Supported',
+  refuted: 'Not supported',
+  mixed: 'Mixed evidence',
+  insufficient_evidence: 'Insufficient evidence',
+  inconclusive: 'Inconclusive',
+};
+
+/**
+ * Generate the Expert Panel section from the panel's verdicts
+ */
+export function generateExpertPanelSection(
+  assessment: ConsensusAssessment
+): OutputExpertPanelSection | undefined {
+  const panel = assessment.expertPanel;
+  if (!panel || panel.verdicts.length === 0) {
+    return undefined;
+  }
+
+  const total = panel.verdicts.length;
+  let summaryText: string;
+  if (panel.hasDisagreement) {
+    summaryText = `The ${total} expert perspectives consulted disagree on this claim.`;
+  } else if (panel.majorityVerdict) {
+    const agreeing = panel.counts[panel.majorityVerdict];
+    summaryText = `${agreeing} of ${total} expert perspectives: ${EXPERT_VERDICT_LABELS[panel.majorityVerdict].toLowerCase()}.`;
+  } else {
+    summaryText = `The ${total} expert perspectives consulted reached different verdicts.`;
+  }
+
+  return {
+    verdicts: panel.verdicts.map((v) => ({
+      expertType: v.expertType,
+      verdict: v.verdict,
+      verdictLabel: EXPERT_VERDICT_LABELS[v.verdict],
+      confidence: v.confidence,
+      reasoning: v.reasoning,
+    })),
+    hasDisagreement: panel.hasDisagreement,
+    summaryText,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════
 // VALUES CONTENT GENERATION
 // ═══════════════════════════════════════════════════════════════
@@ -427,6 +501,25 @@ export function generateWarnings(
     });
   }
 
+  // Retracted or questioned studies turned up in the search
+  for (const citation of assessment.flaggedEvidence || []) {
+    const notice = citation.retraction!;
+    const when = notice.date ? ` (${notice.date.substring(0, 4)})` : '';
+    warnings.push(
+      notice.status === 'retracted'
+        ? {
+            type: 'methodological',
+            text: `"${citation.title}" has been retracted${when} and was excluded from this assessment.`,
+            severity: 'warning',
+          }
+        : {
+            type: 'methodological',
+            text: `"${citation.title}" carries an expression of concern${when}; treat its findings with caution.`,
+            severity: 'info',
+          }
+    );
+  }
+
   return warnings;
 }
 
@@ -570,6 +663,7 @@ export function renderClaimOutput(
   const debateSection = generateDebateSection(assessment);
   const emergingTrends = generateEmergingTrends(assessment);
   const valuesContent = generateValuesContent(assessment, claimText);
+  const expertPanel = generateExpertPanelSection(assessment);
   const warnings = generateWarnings(assessment);
   const sources = generateSourcesList(assessment, opts.maxCitations);
 
@@ -588,6 +682,7 @@ export function renderClaimOutput(
     debateSection,
     emergingTrends,
     valuesContent,
+    expertPanel,
     warnings: warnings.slice(0, opts.maxCaveats),
     sources,
     consensusLevel: assessment.level,
@@ -672,6 +767,20 @@ export function generateMarkdownOutput(output: RenderedClaimOutput): string {
     lines.push('');
   }
 
+  // Expert panel
+  if (output.expertPanel) {
+    lines.push('### Expert Panel');
+    lines.push(output.expertPanel.summaryText);
+    lines.push('');
+    for (const v of output.expertPanel.verdicts) {
+      lines.push(`- **${v.expertType}**: ${v.verdictLabel} (${v.confidence} confidence)`);
+      if (v.reasoning) {
+        lines.push(`  ${v.reasoning}`);
+      }
+    }
+    lines.push('');
+  }
+
   // Values content (for values_question)
   if (output.valuesContent) {
     lines.push('### This is a Values Question');
@@ -702,12 +811,12 @@ export function generateMarkdownOutput(output: RenderedClaimOutput): string {
   if (output.topCitations.length > 0) {
     lines.push('### Key Sources');
     for (const citation of output.topCitations) {
-      lines.push(`- **${citation.title}** (${citation.year})`);
+      lines.push(`- **${citation.title}**${citation.year ? ` (${citation.year})` : ''}`);
       lines.push(`  ${citation.authors}, *${citation.publication}*`);
       if (citation.finding) {
         lines.push(`  Finding: ${citation.finding}`);
       }
-      lines.push(`  [${citation.tierLabel}]`);
+      lines.push(`  [${formatCitationTags(citation).join(' · ')}]`);
     }
     if (output.sources.sourcesNote) {
       lines.push('');
@@ -751,6 +860,16 @@ export function generateTextOutput(output: RenderedClaimOutput): string {
     lines.push('');
   }
 
+  // Expert panel
+  if (output.expertPanel) {
+    lines.push('EXPERT PANEL:');
+    lines.push(output.expertPanel.summaryText);
+    for (const v of output.expertPanel.verdicts) {
+      lines.push(`- ${v.expertType}: ${v.verdictLabel} (${v.confidence} confidence)`);
+    }
+    lines.push('');
+  }
+
   // Values
   if (output.valuesContent) {
     lines.push('VALUES QUESTION:');
@@ -771,7 +890,7 @@ export function generateTextOutput(output: RenderedClaimOutput): string {
   if (output.topCitations.length > 0) {
     lines.push('KEY SOURCES:');
     for (const citation of output.topCitations) {
-      lines.push(`- ${citation.title} (${citation.year}) - ${citation.tierLabel}`);
+      lines.push(`- ${citation.title}${citation.year ? ` (${citation.year})` : ''} - ${citation.tierLabel}`);
     }
   }
 
@@ -864,6 +983,24 @@ export function generateHtmlOutput(output: RenderedClaimOutput): string {
     parts.push(`  </section>`);
   }
 
+  // Expert panel
+  if (output.expertPanel) {
+    parts.push(`  <section class="expert-panel">`);
+    parts.push(`    <h3>Expert Panel</h3>`);
+    parts.push(`    <p>${escapeHtml(output.expertPanel.summaryText)}</p>`);
+    parts.push(`    <ul class="expert-verdicts">`);
+    for (const v of output.expertPanel.verdicts) {
+      parts.push(`      <li class="expert-verdict verdict-${v.verdict}">`);
+      parts.push(`        <strong>${escapeHtml(v.expertType)}</strong>: ${escapeHtml(v.verdictLabel)} (${v.confidence} confidence)`);
+      if (v.reasoning) {
+        parts.push(`        <p>${escapeHtml(v.reasoning)}</p>`);
+      }
+      parts.push(`      </li>`);
+    }
+    parts.push(`    </ul>`);
+    parts.push(`  </section>`);
+  }
+
   // Values content
   if (output.valuesContent) {
     parts.push(`  <section class="values-content">`);
@@ -898,7 +1035,7 @@ export function generateHtmlOutput(output: RenderedClaimOutput): string {
     for (const citation of output.topCitations) {
       parts.push(`      <li class="citation">`);
       parts.push(`        <strong class="citation-title">${escapeHtml(citation.title)}</strong>`);
-      parts.push(`        <span class="citation-meta">(${citation.year}) - ${escapeHtml(citation.authors)}</span>`);
+      parts.push(`        <span class="citation-meta">${citation.year ? `(${citation.year}) - ` : ''}${escapeHtml(citation.authors)}</span>`);
       parts.push(`        <span class="citation-tier">[${escapeHtml(citation.tierLabel)}]</span>`);
       parts.push(`      </li>`);
     }
@@ -950,7 +1087,7 @@ export function generateOutput(
   // Perform honesty check
   const honestyCheck = performHonestyCheck(assessment, rendered);
   if (!honestyCheck.isHonest) {
-    console.warn('[OutputGenerator] Honesty violations:', honestyCheck.violations);
+    log.warn('Honesty violations', { violations: honestyCheck.violations });
   }
 
   // Generate format-specific content
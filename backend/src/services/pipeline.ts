@@ -18,8 +18,11 @@
 
 import { Article, ClassifiedClaim, Domain, ExtractedClaims } from '../types/claims';
 import { ConsensusAssessment, ConsensusAssessmentInput, DirectedEvidence, Citation, EvidenceDirection } from '../types/consensus';
-import { PersonMention, ValidatedExpert, BatchValidationResult } from '../types/expert';
+import { PersonMention, ValidatedExpert, BatchValidationResult, ExpertQualityIndicators } from '../types/expert';
 import { GeneratedOutput, OutputFormat, RenderedClaimOutput } from '../types/output';
+import { ExpertClaimVerdict, ExpertPanelResult } from '../types/expertPanel';
+import { StoredAssessment, StoredClaimRef } from '../types/claimStore';
+import { AttributedQuote, QuoteAttributionResult } from '../types/quote';
 
 // Import services from Waves 1-6
 import { extractClaims } from './claimExtractor';
@@ -28,10 +31,26 @@ import { classifyEvidenceTier, EvidenceTier, EvidenceClassification, EvidenceCat
 import { validateExperts, shouldExcludeFromExpertPool } from './expertValidator';
 import { assessConsensus, getSimplifiedResult } from './consensusDetector';
 import { generateOutput, renderClaimOutput, performHonestyCheck } from './outputGenerator';
+import { classifyEvidenceStances, classifyStanceHeuristically, isLLMStanceAvailable } from './stanceClassifier';
+import { runExpertPanel, isExpertPanelAvailable, getEvidenceForClaim, getVerdictsForClaim } from './expertPanel';
+import { getQualityIndicators } from './semanticScholar';
+import { enrichEvidence, extractDOI, confirmResearchInstitution } from './openAlex';
+import { annotateRetractions } from './retractionCheck';
+import { extractQuotes, getQuotedPersons } from './quoteExtractor';
+import { checkStatisticalClaim, isReferenceDataAvailable } from './referenceData';
+import { annotateTimeframes, filterEvidenceByTimeframe, getResolvedClaimText, getSearchOptions } from './timeframe';
 
 // External services
-import { searchAcademic, isConfigured as isExaConfigured } from './exa';
+import { searchAcademic, isSearchAvailable, getSearchProviders } from './searchProvider';
 import { openaiService } from './openai';
+import { ConcurrencyLimiter } from './concurrencyLimiter';
+import { EvidenceCache } from './evidenceCache';
+import { ClaimLookup, findClaimMatches, isAssessmentFresh, recordClaim } from './claimStore';
+import { createLogger } from './logger';
+import { consensusOutcomes, evidencePlaceholders, pipelineRuns, pipelineStageDuration } from './metrics';
+import { config } from '../config';
+
+const log = createLogger('Pipeline');
 
 // ═══════════════════════════════════════════════════════════════
 // TYPES
@@ -43,6 +62,30 @@ import { openaiService } from './openai';
 export interface PipelineInput {
   article: Article;
   options?: PipelineOptions;
+  /** Progress callbacks, invoked as each stage finishes (used for streaming) */
+  handlers?: PipelineProgressHandlers;
+  /** Stops the run between stages; it then rejects with "Pipeline cancelled" */
+  signal?: AbortSignal;
+  /** Evidence shared with other runs (batch evaluations) */
+  evidenceCache?: EvidenceCache;
+}
+
+/**
+ * Progress callbacks for consumers that report partial results
+ * (e.g. the SSE evaluation stream). All handlers are optional and
+ * must not throw - errors are logged and otherwise ignored.
+ */
+export interface PipelineProgressHandlers {
+  /** All pipeline slots are busy; the run waits at this queue position */
+  onQueued?: (position: number) => void;
+  /** The run got a pipeline slot and is starting */
+  onStarted?: () => void;
+  /** Claims extracted; `claimsToEvaluate` is the subset after maxClaims */
+  onClaimsExtracted?: (extractedClaims: ExtractedClaims, claimsToEvaluate: ClassifiedClaim[]) => void;
+  /** Evidence search finished for a single claim */
+  onEvidenceGathered?: (claim: ClassifiedClaim, evidence: DirectedEvidence[]) => void;
+  /** Consensus assessed and output rendered for a single claim */
+  onClaimEvaluated?: (evaluated: EvaluatedClaim) => void;
 }
 
 /**
@@ -63,6 +106,20 @@ export interface PipelineOptions {
   parallelEvaluation?: boolean;
   /** Max concurrent claim evaluations (if parallel) */
   maxConcurrency?: number;
+  /** Run the dynamic expert panel research agents (extra LLM + search calls) */
+  useExpertPanel?: boolean;
+  /** Look up cited experts on Semantic Scholar for citation metrics */
+  useScholarMetrics?: boolean;
+  /** Enrich citations and confirm affiliations with OpenAlex metadata */
+  useOpenAlex?: boolean;
+  /** Flag retracted evidence (local Retraction Watch index, plus CrossRef when searching) */
+  checkRetractions?: boolean;
+  /** Record claims in the claim store and reuse fresh assessments of claims seen before */
+  useClaimStore?: boolean;
+  /** Validate everyone quoted in the article, not only claim sources */
+  useQuoteAttribution?: boolean;
+  /** Compare statistical claims with the official figures in REFERENCE_DATA_DIR */
+  useReferenceData?: boolean;
 }
 
 /**
@@ -76,6 +133,13 @@ export const DEFAULT_PIPELINE_OPTIONS: Required<PipelineOptions> = {
   includeRawResults: false,
   parallelEvaluation: true,  // Default to parallel for speed
   maxConcurrency: 3,         // Limit to avoid rate limits
+  useExpertPanel: false,     // Opt-in: roughly one search + LLM call per expert type
+  useScholarMetrics: true,   // Skipped with skipEvidenceSearch
+  useOpenAlex: true,         // Skipped with skipEvidenceSearch
+  checkRetractions: true,    // CrossRef skipped with skipEvidenceSearch
+  useClaimStore: true,       // Skipped with skipEvidenceSearch or CLAIM_STORE_ENABLED=false
+  useQuoteAttribution: true, // Heuristics only with skipEvidenceSearch
+  useReferenceData: true,    // Needs REFERENCE_DATA_DIR
 };
 
 /**
@@ -92,6 +156,8 @@ export interface EvaluatedClaim {
     violations: string[];
     warnings: string[];
   };
+  /** The claim's record in the claim store */
+  storedClaim?: StoredClaimRef;
 }
 
 /**
@@ -106,6 +172,12 @@ export interface PipelineResult {
   evaluatedClaims: EvaluatedClaim[];
   /** Summary of all claim evaluations */
   summary: PipelineSummary;
+  /** Expert team and per-expert findings (if the panel ran) */
+  expertPanel?: ExpertPanelResult;
+  /** Quotes in the article with their speakers (if quote attribution ran) */
+  quotes?: QuoteAttributionResult;
+  /** Everyone cited or quoted in the article, validated as experts */
+  articleExperts?: BatchValidationResult;
   /** Processing metadata */
   metadata: PipelineMetadata;
   /** Raw intermediate results (if requested) */
@@ -126,6 +198,20 @@ export interface PipelineSummary {
   hasActiveDabate: boolean;
 }
 
+/**
+ * Milliseconds spent in each stage of a run
+ * Stages after claim extraction run alongside each other, so they overlap;
+ * a stage that did not run is absent.
+ */
+export interface PipelineStageDurations {
+  claimExtraction: number;
+  claimStoreLookup?: number;
+  /** Searching for evidence and evaluating every claim */
+  evidence?: number;
+  expertPanel?: number;
+  quoteAttribution?: number;
+}
+
 /**
  * Processing metadata
  */
@@ -133,7 +219,10 @@ export interface PipelineMetadata {
   startedAt: Date;
   completedAt: Date;
   processingTimeMs: number;
+  stageDurationsMs: PipelineStageDurations;
   servicesUsed: string[];
+  /** Models that produced LLM results in this run (claims, stances, panel, quotes) */
+  modelsUsed?: string[];
   warnings: string[];
   errors: string[];
 }
@@ -153,73 +242,19 @@ export interface RawPipelineResults {
 // ═══════════════════════════════════════════════════════════════
 
 /**
- * Extract a year from text or use current year
+ * Extract a year from text; 0 when it gives none
+ * (an unknown year must not pass for a recent one)
  */
 function extractYearFromText(text: string): number {
   const yearMatch = text.match(/\b(19|20)\d{2}\b/);
-  if (yearMatch) {
-    return parseInt(yearMatch[0], 10);
-  }
-  return new Date().getFullYear();
-}
-
-/**
- * Determine evidence direction from search result content
- * Uses simple heuristics - in production this would use LLM analysis
- */
-function inferEvidenceDirection(snippet: string, claimText: string): EvidenceDirection {
-  const lowerSnippet = snippet.toLowerCase();
-  const lowerClaim = claimText.toLowerCase();
-
-  // Look for negation patterns
-  const negationPatterns = [
-    /\b(no evidence|not support|does not|did not|failed to|insufficient|inconclusive)\b/,
-    /\b(contrary to|refute|disprove|reject|oppose)\b/,
-    /\b(no (significant |meaningful )?(effect|difference|impact|relationship))\b/,
-  ];
-
-  // Look for support patterns
-  const supportPatterns = [
-    /\b(evidence (supports|shows|indicates|demonstrates))\b/,
-    /\b(found (that|a)|showed (that|a)|demonstrated)\b/,
-    /\b(significant (effect|difference|impact|relationship))\b/,
-    /\b(consistent with|confirms|supports)\b/,
-  ];
-
-  // Look for mixed/debate patterns
-  const mixedPatterns = [
-    /\b(mixed (results|evidence|findings))\b/,
-    /\b(debate|contested|controversial)\b/,
-    /\b(some (studies|research) (show|find).*while (other|some))\b/,
-  ];
-
-  for (const pattern of mixedPatterns) {
-    if (pattern.test(lowerSnippet)) {
-      return 'mixed';
-    }
-  }
-
-  for (const pattern of negationPatterns) {
-    if (pattern.test(lowerSnippet)) {
-      return 'opposes';
-    }
-  }
-
-  for (const pattern of supportPatterns) {
-    if (pattern.test(lowerSnippet)) {
-      return 'supports';
-    }
-  }
-
-  return 'neutral';
+  return yearMatch ? parseInt(yearMatch[0], 10) : 0;
 }
 
 /**
  * Convert search result to directed evidence
  */
 function convertToDirectedEvidence(
-  searchResult: { title: string; url: string; snippet: string; publishedDate?: string },
-  claimText: string
+  searchResult: { title: string; url: string; snippet: string; publishedDate?: string }
 ): DirectedEvidence {
   // Classify the evidence tier
   const classification = classifyEvidenceTier({
@@ -227,8 +262,9 @@ function convertToDirectedEvidence(
     title: searchResult.title,
   });
 
-  // Infer direction from snippet
-  const direction = inferEvidenceDirection(searchResult.snippet, claimText);
+  // Provisional direction from snippet wording; refined against the claim
+  // by classifyEvidenceStances once all results for the claim are in
+  const stance = classifyStanceHeuristically(searchResult.snippet);
 
   // Extract year
   const year = searchResult.publishedDate
@@ -238,9 +274,10 @@ function convertToDirectedEvidence(
   // Build citation
   const citation: Citation = {
     title: searchResult.title,
-    authors: [], // Would be extracted from actual metadata
+    authors: [], // Filled in by OpenAlex enrichment when the work is found
     publication: new URL(searchResult.url).hostname.replace('www.', ''),
     year,
+    doi: extractDOI(searchResult.url),
     url: searchResult.url,
     finding: searchResult.snippet.substring(0, 200),
   };
@@ -249,17 +286,21 @@ function convertToDirectedEvidence(
     citation,
     tier: classification.tier,
     category: classification.category,
-    direction,
+    direction: stance.direction,
+    directionConfidence: stance.confidence,
+    directionRationale: stance.rationale,
+    directionMethod: stance.method,
     keyFinding: searchResult.snippet.substring(0, 300),
   };
 }
 
 /**
- * Gather evidence for a claim using Exa search
+ * Gather evidence for a claim using the configured search providers
  */
 async function gatherEvidence(
   claim: ClassifiedClaim,
-  maxResults: number = 10
+  maxResults: number = 10,
+  useOpenAlex: boolean = false
 ): Promise<DirectedEvidence[]> {
   // Build search queries based on domain
   const queries = buildSearchQueries(claim);
@@ -269,15 +310,18 @@ async function gatherEvidence(
 
   const allResults: DirectedEvidence[] = [];
 
+  // Only sources from the period the claim is about
+  const searchOptions = getSearchOptions(claim.timeframe);
+
   for (const query of searchQueries) {
     try {
-      const response = await searchAcademic(query, Math.ceil(maxResults / 2));
+      const response = await searchAcademic(query, Math.ceil(maxResults / 2), searchOptions);
       const evidence = response.results.map((result) =>
-        convertToDirectedEvidence(result, claim.text)
+        convertToDirectedEvidence(result)
       );
       allResults.push(...evidence);
     } catch (error) {
-      console.warn(`[Pipeline] Search failed for query "${query}":`, (error as Error).message);
+      log.warn(`Search failed for query "${query}"`, { error });
     }
   }
 
@@ -289,11 +333,17 @@ async function gatherEvidence(
     return true;
   });
 
-  return deduped.slice(0, maxResults);
+  // Real authors, venue and publication type (may correct the tier)
+  const evidence = useOpenAlex
+    ? await enrichEvidence(deduped.slice(0, maxResults))
+    : deduped.slice(0, maxResults);
+
+  // Classify each result's stance toward the claim (one batched LLM call)
+  return classifyEvidenceStances(getResolvedClaimText(claim), evidence);
 }
 
 /**
- * Create mock evidence for testing when Exa is not configured
+ * Create mock evidence for testing, or when no search provider is configured
  */
 function createMockEvidence(claim: ClassifiedClaim): DirectedEvidence[] {
   // Return minimal mock evidence for testing
@@ -320,9 +370,10 @@ function createMockEvidence(claim: ClassifiedClaim): DirectedEvidence[] {
 // ═══════════════════════════════════════════════════════════════
 
 /**
- * Extract potential expert mentions from claim source
+ * Extract potential expert mentions from claim source and the people
+ * quoted supporting or disputing the claim
  */
-function extractExpertMentions(claim: ClassifiedClaim): PersonMention[] {
+function extractExpertMentions(claim: ClassifiedClaim, quotes: AttributedQuote[] = []): PersonMention[] {
   const mentions: PersonMention[] = [];
 
   // Add claim source if present
@@ -336,9 +387,113 @@ function extractExpertMentions(claim: ClassifiedClaim): PersonMention[] {
     });
   }
 
+  // A source who is also quoted gets the quote and the title the article gives them
+  for (const person of getQuotedPersons(quotes, claim.id)) {
+    const existing = mentions.find((m) => m.name.toLowerCase() === person.name.toLowerCase());
+    if (existing) {
+      existing.quote = person.quote;
+      existing.title = person.title || existing.title;
+      existing.affiliation = existing.affiliation || person.affiliation;
+      existing.credentials = existing.credentials || person.credentials;
+    } else {
+      mentions.push(person);
+    }
+  }
+
   return mentions;
 }
 
+/**
+ * Everyone cited or quoted in the article, one validation each
+ *
+ * People tied to a claim keep their validation for that claim (valid for
+ * any claim wins). Quoted people tied to no claim are validated against
+ * the most common domain among the claims.
+ */
+function validateArticleExperts(
+  evaluatedClaims: EvaluatedClaim[],
+  quotes: AttributedQuote[],
+  articleSubjects: string[]
+): BatchValidationResult {
+  const validExperts = new Map<string, ValidatedExpert>();
+  const excludedPersons = new Map<string, BatchValidationResult['excludedPersons'][number]>();
+
+  const add = (result: BatchValidationResult) => {
+    for (const expert of result.validExperts) {
+      const key = expert.name.toLowerCase();
+      if (!validExperts.has(key)) {
+        validExperts.set(key, expert);
+      }
+      excludedPersons.delete(key);
+    }
+    for (const person of result.excludedPersons) {
+      const key = person.name.toLowerCase();
+      if (!validExperts.has(key) && !excludedPersons.has(key)) {
+        excludedPersons.set(key, person);
+      }
+    }
+  };
+
+  for (const evaluated of evaluatedClaims) {
+    add(evaluated.experts);
+  }
+
+  const unlinked = getQuotedPersons(quotes).filter(
+    (person) => !validExperts.has(person.name.toLowerCase()) && !excludedPersons.has(person.name.toLowerCase())
+  );
+  if (unlinked.length > 0) {
+    const domainCounts = new Map<Domain, number>();
+    for (const { claim } of evaluatedClaims) {
+      domainCounts.set(claim.domain, (domainCounts.get(claim.domain) || 0) + 1);
+    }
+    const domain = [...domainCounts].sort((a, b) => b[1] - a[1])[0]?.[0] || 'general';
+    add(validateExperts(unlinked, articleSubjects, domain));
+  }
+
+  return {
+    validExperts: [...validExperts.values()],
+    excludedPersons: [...excludedPersons.values()],
+    totalProcessed: validExperts.size + excludedPersons.size,
+    validCount: validExperts.size,
+    excludedCount: excludedPersons.size,
+  };
+}
+
+/**
+ * Look up citation metrics and confirm affiliations for the mentioned people
+ * who could be experts. Politicians, article subjects etc. are excluded
+ * anyway, so skip the lookup.
+ */
+async function lookupExpertMetrics(
+  mentions: PersonMention[],
+  articleSubjects: string[],
+  domain: Domain,
+  sources: { scholarMetrics: boolean; openAlex: boolean }
+): Promise<Map<string, ExpertQualityIndicators>> {
+  const metrics = new Map<string, ExpertQualityIndicators>();
+  const candidates = mentions.filter(
+    (person) => !shouldExcludeFromExpertPool(person, articleSubjects).exclude
+  );
+
+  await Promise.all(candidates.map(async (person) => {
+    const [indicators, isResearchInstitution] = await Promise.all([
+      sources.scholarMetrics ? getQualityIndicators(person, domain) : Promise.resolve(null),
+      sources.openAlex && person.affiliation
+        ? confirmResearchInstitution(person.affiliation)
+        : Promise.resolve(null),
+    ]);
+
+    if (indicators || isResearchInstitution !== null) {
+      metrics.set(person.name, {
+        ...indicators,
+        ...(isResearchInstitution !== null && { isResearchInstitution }),
+      });
+    }
+  }));
+
+  return metrics;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // MAIN PIPELINE
 // ═══════════════════════════════════════════════════════════════
@@ -348,29 +503,45 @@ function extractExpertMentions(claim: ClassifiedClaim): PersonMention[] {
  */
 async function gatherAllEvidence(
   claims: ClassifiedClaim[],
-  options: Required<PipelineOptions>
+  options: Required<PipelineOptions>,
+  onGathered?: (claim: ClassifiedClaim, evidence: DirectedEvidence[], placeholder: boolean) => void | Promise<void>,
+  evidenceCache?: EvidenceCache
 ): Promise<Map<string, DirectedEvidence[]>> {
   const evidenceMap = new Map<string, DirectedEvidence[]>();
 
-  if (options.skipEvidenceSearch || !isExaConfigured()) {
+  if (options.skipEvidenceSearch || !isSearchAvailable('academic')) {
     // Use mock evidence
     for (const claim of claims) {
-      evidenceMap.set(claim.id, createMockEvidence(claim));
+      const evidence = createMockEvidence(claim);
+      evidenceMap.set(claim.id, evidence);
+      if (!options.skipEvidenceSearch) {
+        evidencePlaceholders.inc({ reason: 'no_provider' });
+      }
+      await onGathered?.(claim, evidence, true);
     }
     return evidenceMap;
   }
 
-  console.log(`[Pipeline] Gathering evidence for ${claims.length} claims in parallel...`);
+  log.info(`Gathering evidence for ${claims.length} claims in parallel...`);
 
   // Kick off ALL evidence searches in parallel
   const evidencePromises = claims.map(async (claim) => {
+    let evidence: DirectedEvidence[];
+    let placeholder = false;
+    const gather = () => gatherEvidence(claim, options.maxSearchResults, options.useOpenAlex);
     try {
-      const evidence = await gatherEvidence(claim, options.maxSearchResults);
-      return { claimId: claim.id, evidence };
+      evidence = evidenceCache
+        ? await evidenceCache.getOrGather(getResolvedClaimText(claim), `${options.maxSearchResults}:${options.useOpenAlex}`, gather)
+        : await gather();
     } catch (error) {
-      console.warn(`[Pipeline] Evidence search failed for claim ${claim.id}:`, (error as Error).message);
-      return { claimId: claim.id, evidence: createMockEvidence(claim) };
+      log.warn(`Evidence search failed for claim ${claim.id}`, { error });
+      evidence = createMockEvidence(claim);
+      placeholder = true;
+      evidencePlaceholders.inc({ reason: 'search_failed' });
     }
+    // Report each claim as soon as its own searches finish
+    await onGathered?.(claim, evidence, placeholder);
+    return { claimId: claim.id, evidence };
   });
 
   const results = await Promise.all(evidencePromises);
@@ -379,10 +550,24 @@ async function gatherAllEvidence(
     evidenceMap.set(claimId, evidence);
   }
 
-  console.log(`[Pipeline] Evidence gathered for all ${claims.length} claims`);
+  log.info(`Evidence gathered for all ${claims.length} claims`);
   return evidenceMap;
 }
 
+/**
+ * Optional per-claim results from slower enrichment stages
+ */
+interface ClaimEvaluationContext {
+  /** Expert panel verdicts on this claim */
+  expertVerdicts?: ExpertClaimVerdict[];
+  /** Citation metrics for the claim's cited people, keyed by name */
+  expertMetrics?: Map<string, ExpertQualityIndicators>;
+  /** A stored assessment to use instead of assessing the evidence again */
+  consensus?: ConsensusAssessment;
+  /** Quotes in the article; people quoted on this claim are validated with its source */
+  quotes?: AttributedQuote[];
+}
+
 /**
  * Evaluate a single claim with pre-fetched evidence
  */
@@ -390,11 +575,12 @@ function evaluateSingleClaimWithEvidence(
   claim: ClassifiedClaim,
   evidence: DirectedEvidence[],
   articleSubjects: string[],
-  options: Required<PipelineOptions>
+  options: Required<PipelineOptions>,
+  context: ClaimEvaluationContext = {}
 ): EvaluatedClaim {
   // Step 1: Extract and validate experts (Wave 4)
-  const expertMentions = extractExpertMentions(claim);
-  const experts = validateExperts(expertMentions, articleSubjects, claim.domain);
+  const expertMentions = extractExpertMentions(claim, context.quotes);
+  const experts = validateExperts(expertMentions, articleSubjects, claim.domain, context.expertMetrics);
 
   // Step 2: Assess consensus (Wave 5)
   const consensusInput: ConsensusAssessmentInput = {
@@ -403,8 +589,12 @@ function evaluateSingleClaimWithEvidence(
     domain: claim.domain,
     evidence,
     articleSubjects,
+    expertVerdicts: context.expertVerdicts,
   };
-  const consensus = assessConsensus(consensusInput);
+  if (!context.consensus && options.useReferenceData) {
+    consensusInput.referenceData = checkStatisticalClaim(claim) ?? undefined;
+  }
+  const consensus = context.consensus ?? assessConsensus(consensusInput);
 
   // Step 3: Generate output (Wave 6)
   const output = generateOutput(consensus, claim.text, {
@@ -435,13 +625,72 @@ async function evaluateSingleClaim(
 ): Promise<EvaluatedClaim> {
   // Gather evidence for this claim
   let evidence: DirectedEvidence[];
-  if (options.skipEvidenceSearch || !isExaConfigured()) {
+  if (options.skipEvidenceSearch || !isSearchAvailable('academic')) {
     evidence = createMockEvidence(claim);
+    if (!options.skipEvidenceSearch) {
+      evidencePlaceholders.inc({ reason: 'no_provider' });
+    }
   } else {
-    evidence = await gatherEvidence(claim, options.maxSearchResults);
+    evidence = await gatherEvidence(claim, options.maxSearchResults, options.useOpenAlex);
+  }
+
+  if (options.checkRetractions) {
+    evidence = await annotateRetractions(evidence, { online: !options.skipEvidenceSearch });
   }
 
-  return evaluateSingleClaimWithEvidence(claim, evidence, articleSubjects, options);
+  const expertMetrics = (options.useScholarMetrics || options.useOpenAlex) && !options.skipEvidenceSearch
+    ? await lookupExpertMetrics(extractExpertMentions(claim), articleSubjects, claim.domain, {
+        scholarMetrics: options.useScholarMetrics,
+        openAlex: options.useOpenAlex,
+      })
+    : undefined;
+
+  return evaluateSingleClaimWithEvidence(claim, evidence, articleSubjects, options, { expertMetrics });
+}
+
+/**
+ * Stop a cancelled run at the next stage boundary
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Pipeline cancelled');
+  }
+}
+
+/**
+ * Invoke a progress handler, isolating the pipeline from consumer errors
+ */
+function notifyHandler<A extends unknown[]>(
+  name: keyof PipelineProgressHandlers,
+  handler: ((...args: A) => void) | undefined,
+  ...args: A
+): void {
+  if (!handler) return;
+  try {
+    handler(...args);
+  } catch (error) {
+    log.warn(`Progress handler ${name} failed`, { error });
+  }
+}
+
+/**
+ * Collect the distinct models that produced LLM results in a run
+ */
+function collectModelsUsed(
+  extractedClaims: ExtractedClaims,
+  evaluatedClaims: EvaluatedClaim[],
+  expertPanel?: ExpertPanelResult,
+  quotes?: QuoteAttributionResult
+): string[] {
+  const models = [
+    extractedClaims.model,
+    ...evaluatedClaims.flatMap((c) => c.evidence.map((e) => e.directionModel)),
+    expertPanel?.team.model,
+    ...(expertPanel?.findings.map((f) => f.model) || []),
+    quotes?.model,
+  ];
+
+  return [...new Set(models.filter((m): m is string => !!m))];
 }
 
 /**
@@ -503,23 +752,73 @@ function buildSummary(
   };
 }
 
+/**
+ * Caps concurrent pipeline runs in this process (PIPELINE_MAX_CONCURRENT)
+ */
+export const pipelineLimiter = new ConcurrencyLimiter(config.pipeline);
+
 /**
  * Run the complete evaluation pipeline on an article
+ * Waits for a free slot when PIPELINE_MAX_CONCURRENT runs are in progress.
  */
 export async function runPipeline(input: PipelineInput): Promise<PipelineResult> {
+  const execute = () => {
+    notifyHandler('onStarted', input.handlers?.onStarted);
+    return executePipeline(input);
+  };
+
+  return pipelineLimiter.run(execute, (position) => {
+    log.info(`All slots busy, queued at position ${position}`);
+    notifyHandler('onQueued', input.handlers?.onQueued, position);
+  });
+}
+
+/**
+ * Record how long a stage's work takes, whether it succeeds or fails
+ */
+function timeStage<T>(durations: PipelineStageDurations, stage: keyof PipelineStageDurations, work: Promise<T>): Promise<T> {
+  const started = Date.now();
+  return work.finally(() => {
+    durations[stage] = Date.now() - started;
+  });
+}
+
+/**
+ * Count a finished run in the metrics, with its stage timings and the
+ * consensus level of each evaluated claim
+ */
+function recordRunMetrics(
+  outcome: 'completed' | 'extraction_failed',
+  stageDurationsMs: PipelineStageDurations,
+  evaluatedClaims: EvaluatedClaim[]
+): void {
+  pipelineRuns.inc({ outcome });
+  for (const [stage, durationMs] of Object.entries(stageDurationsMs)) {
+    pipelineStageDuration.observe({ stage }, durationMs / 1000);
+  }
+  for (const evaluated of evaluatedClaims) {
+    consensusOutcomes.inc({ level: evaluated.consensus.level });
+  }
+}
+
+async function executePipeline(input: PipelineInput): Promise<PipelineResult> {
+  throwIfCancelled(input.signal);
   const startedAt = new Date();
   const options = { ...DEFAULT_PIPELINE_OPTIONS, ...input.options };
   const warnings: string[] = [];
   const errors: string[] = [];
   const servicesUsed: string[] = ['claimExtractor'];
+  const handlers = input.handlers || {};
+  const stageDurationsMs: PipelineStageDurations = { claimExtraction: 0 };
 
   // Step 1: Extract claims (Wave 1)
-  console.log('[Pipeline] Step 1: Extracting claims from article...');
+  log.info('Step 1: Extracting claims from article...');
   let extractedClaims: ExtractedClaims;
   try {
-    extractedClaims = await extractClaims(input.article);
+    extractedClaims = await timeStage(stageDurationsMs, 'claimExtraction', extractClaims(input.article));
   } catch (error) {
     errors.push(`Claim extraction failed: ${(error as Error).message}`);
+    recordRunMetrics('extraction_failed', stageDurationsMs, []);
     // Return early with empty results
     return {
       article: input.article,
@@ -539,6 +838,7 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
         startedAt,
         completedAt: new Date(),
         processingTimeMs: Date.now() - startedAt.getTime(),
+        stageDurationsMs,
         servicesUsed,
         warnings,
         errors,
@@ -546,7 +846,8 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
     };
   }
 
-  console.log(`[Pipeline] Extracted ${extractedClaims.claims.length} claims, ${extractedClaims.articleSubjects.length} article subjects`);
+  log.info(`Extracted ${extractedClaims.claims.length} claims, ${extractedClaims.articleSubjects.length} article subjects`);
+  throwIfCancelled(input.signal);
 
   // Limit claims if needed
   const claimsToEvaluate = extractedClaims.claims.slice(0, options.maxClaims);
@@ -554,24 +855,94 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
     warnings.push(`Evaluating only first ${options.maxClaims} of ${extractedClaims.claims.length} claims`);
   }
 
+  // "Last year", "currently": resolved against the publish date
+  annotateTimeframes(claimsToEvaluate, input.article);
+
+  notifyHandler('onClaimsExtracted', handlers.onClaimsExtracted, extractedClaims, claimsToEvaluate);
+
   // ═══════════════════════════════════════════════════════════════
   // Step 2: IMMEDIATELY gather evidence for ALL claims in parallel
   // This is the slowest step - kick it off right after claim extraction
   // ═══════════════════════════════════════════════════════════════
   servicesUsed.push('domainRouter', 'evidenceTier', 'expertValidator', 'consensusDetector', 'outputGenerator');
-  if (isExaConfigured() && !options.skipEvidenceSearch) {
-    servicesUsed.push('exa');
+  const searchAvailable = isSearchAvailable('academic');
+  if (searchAvailable && !options.skipEvidenceSearch) {
+    servicesUsed.push(...getSearchProviders('academic').map((p) => p.name));
+    servicesUsed.push(isLLMStanceAvailable() ? 'stanceClassifier' : 'stanceHeuristics');
+  } else if (!options.skipEvidenceSearch) {
+    warnings.push('Evidence search unavailable: no search provider is configured (see SEARCH_PROVIDERS); results use placeholder evidence');
+  }
+
+  // Expert panel runs alongside the per-claim searches; each claim waits
+  // for it before consensus so the panel's verdicts can be taken into account
+  let panelPromise: Promise<ExpertPanelResult | undefined> = Promise.resolve(undefined);
+  if (options.useExpertPanel && claimsToEvaluate.length > 0) {
+    if (options.skipEvidenceSearch || !searchAvailable) {
+      warnings.push('Expert panel skipped: evidence search is disabled');
+    } else if (!isExpertPanelAvailable()) {
+      warnings.push('Expert panel skipped: LLM unavailable or over budget');
+    } else {
+      servicesUsed.push('expertPanel');
+      log.info('Starting expert panel research agents...');
+      panelPromise = timeStage(stageDurationsMs, 'expertPanel', runExpertPanel(
+        input.article,
+        claimsToEvaluate,
+        extractedClaims.articleSubjects,
+        options.maxSearchResults
+      )).catch((error) => {
+        warnings.push(`Expert panel failed: ${(error as Error).message}`);
+        return undefined;
+      });
+    }
   }
 
-  console.log('[Pipeline] Step 2: Gathering evidence for all claims (parallel)...');
-  const evidenceMap = await gatherAllEvidence(claimsToEvaluate, options);
+  // Quotes are attributed alongside the searches; each claim waits for them
+  // so the people quoted on it are validated with its source
+  let quotesPromise: Promise<QuoteAttributionResult | undefined> = Promise.resolve(undefined);
+  if (options.useQuoteAttribution) {
+    servicesUsed.push('quoteExtractor');
+    const quotes = extractQuotes(input.article, claimsToEvaluate, { useLLM: !options.skipEvidenceSearch });
+    quotesPromise = timeStage(stageDurationsMs, 'quoteAttribution', quotes)
+      .catch((error) => {
+        warnings.push(`Quote attribution failed: ${(error as Error).message}`);
+        return undefined;
+      });
+  }
 
-  // ═══════════════════════════════════════════════════════════════
-  // Step 3-6: Process claims with pre-fetched evidence (fast, local)
-  // ═══════════════════════════════════════════════════════════════
-  console.log('[Pipeline] Step 3: Processing claims with evidence...');
+  const useScholarMetrics = options.useScholarMetrics && !options.skipEvidenceSearch;
+  if (useScholarMetrics) {
+    servicesUsed.push('semanticScholar');
+  }
+  const useOpenAlex = options.useOpenAlex && !options.skipEvidenceSearch;
+  if (useOpenAlex) {
+    servicesUsed.push('openAlex');
+  }
+  if (options.checkRetractions) {
+    servicesUsed.push('retractionCheck');
+  }
+  if (options.useReferenceData && isReferenceDataAvailable()) {
+    servicesUsed.push('referenceData');
+  }
+
+  // Claims seen in earlier articles: a fresh stored assessment replaces the search
+  const useClaimStore = options.useClaimStore && config.claimStore.enabled && searchAvailable && !options.skipEvidenceSearch;
+  let claimLookups = new Map<string, ClaimLookup>();
+  const storedAssessments = new Map<string, StoredAssessment>();
+  if (useClaimStore && claimsToEvaluate.length > 0) {
+    servicesUsed.push('claimStore');
+    try {
+      claimLookups = await timeStage(stageDurationsMs, 'claimStoreLookup', findClaimMatches(claimsToEvaluate));
+    } catch (error) {
+      warnings.push(`Claim store lookup failed: ${(error as Error).message}`);
+    }
+    for (const [claimId, lookup] of claimLookups) {
+      const assessment = lookup.match?.claim.assessment;
+      if (assessment && isAssessmentFresh(assessment)) {
+        storedAssessments.set(claimId, assessment);
+      }
+    }
+  }
 
-  const evaluatedClaims: EvaluatedClaim[] = [];
   const rawSearchQueries: Record<string, string[]> = {};
   const rawSearchResults: Record<string, any[]> = {};
 
@@ -582,27 +953,96 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
     }
   }
 
-  // Process claims with pre-fetched evidence (this is now fast - no API calls)
-  for (const claim of claimsToEvaluate) {
+  // ═══════════════════════════════════════════════════════════════
+  // Step 3-6: Process each claim as soon as its evidence arrives (fast, local)
+  // ═══════════════════════════════════════════════════════════════
+  const evaluatedById = new Map<string, EvaluatedClaim>();
+
+  const processClaim = async (claim: ClassifiedClaim, evidence: DirectedEvidence[], placeholder: boolean): Promise<void> => {
+    if (input.signal?.aborted) return;
+    notifyHandler('onEvidenceGathered', handlers.onEvidenceGathered, claim, evidence);
+    const stored = storedAssessments.get(claim.id);
+    const quotes = (await quotesPromise)?.quotes;
+
+    // Author and affiliation lookups for the claim's cited people, while the panel finishes
+    const metricsPromise = useScholarMetrics || useOpenAlex
+      ? lookupExpertMetrics(extractExpertMentions(claim, quotes), extractedClaims.articleSubjects, claim.domain, {
+          scholarMetrics: useScholarMetrics,
+          openAlex: useOpenAlex,
+        })
+      : Promise.resolve(undefined);
+
+    // Merge in the panel's sources (deduped by URL) and verdicts for this claim
+    const panel = stored ? undefined : await panelPromise;
+    let expertVerdicts: ExpertClaimVerdict[] | undefined;
+    if (panel) {
+      const seenUrls = new Set(evidence.map((e) => e.citation.url));
+      const panelEvidence = filterEvidenceByTimeframe(getEvidenceForClaim(panel, claim.id), claim.timeframe)
+        .filter((e) => !seenUrls.has(e.citation.url));
+      evidence = [...evidence, ...panelEvidence];
+      expertVerdicts = getVerdictsForClaim(panel, claim.id);
+    }
+
+    // Retracted works are flagged here and left out of the consensus
+    if (options.checkRetractions && !stored) {
+      evidence = await annotateRetractions(evidence, { online: !options.skipEvidenceSearch });
+    }
+
     try {
-      const evidence = evidenceMap.get(claim.id) || createMockEvidence(claim);
       const evaluated = evaluateSingleClaimWithEvidence(
         claim,
         evidence,
         extractedClaims.articleSubjects,
-        options
+        options,
+        { expertVerdicts, expertMetrics: await metricsPromise, consensus: stored?.consensus, quotes }
       );
-      evaluatedClaims.push(evaluated);
+
+      // Placeholder evidence is not worth keeping as the claim's assessment
+      if (useClaimStore) {
+        const assessment = stored || placeholder
+          ? undefined
+          : { consensus: evaluated.consensus, evidence, assessedAt: new Date().toISOString() };
+        try {
+          evaluated.storedClaim = await recordClaim(claim, input.article, claimLookups.get(claim.id), assessment);
+        } catch (error) {
+          warnings.push(`Claim store update failed for claim "${claim.id}": ${(error as Error).message}`);
+        }
+      }
+      evaluatedById.set(claim.id, evaluated);
 
       if (!evaluated.honestyCheck.isHonest) {
         warnings.push(`Claim "${claim.id}" has honesty violations: ${evaluated.honestyCheck.violations.join('; ')}`);
       }
+
+      notifyHandler('onClaimEvaluated', handlers.onClaimEvaluated, evaluated);
     } catch (error) {
       const errorMsg = `Claim "${claim.id}" evaluation failed: ${(error as Error).message}`;
-      console.error(`[Pipeline] ${errorMsg}`);
+      log.error(`${errorMsg}`);
       errors.push(errorMsg);
     }
+  };
+
+  log.info('Step 2: Gathering evidence for all claims (parallel), processing as results arrive...');
+  const claimsToSearch = claimsToEvaluate.filter((claim) => !storedAssessments.has(claim.id));
+  if (storedAssessments.size > 0) {
+    log.info(`Reusing stored assessments for ${storedAssessments.size} claims`);
   }
+  await timeStage(stageDurationsMs, 'evidence', Promise.all([
+    ...claimsToEvaluate
+      .filter((claim) => storedAssessments.has(claim.id))
+      .map((claim) => processClaim(claim, structuredClone(storedAssessments.get(claim.id)!.evidence), false)),
+    claimsToSearch.length > 0 && gatherAllEvidence(claimsToSearch, options, processClaim, input.evidenceCache),
+  ]));
+  const expertPanel = await panelPromise;
+  const quoteAttribution = await quotesPromise;
+  throwIfCancelled(input.signal);
+
+  // Keep the original claim order regardless of which search finished first
+  const evaluatedClaims: EvaluatedClaim[] = claimsToEvaluate
+    .map((claim) => evaluatedById.get(claim.id))
+    .filter((evaluated): evaluated is EvaluatedClaim => evaluated !== undefined);
+
+  const articleExperts = validateArticleExperts(evaluatedClaims, quoteAttribution?.quotes || [], extractedClaims.articleSubjects);
 
   // Build summary
   const summary = buildSummary(extractedClaims, evaluatedClaims);
@@ -615,11 +1055,16 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
     extractedClaims,
     evaluatedClaims,
     summary,
+    expertPanel,
+    quotes: quoteAttribution,
+    articleExperts,
     metadata: {
       startedAt,
       completedAt,
       processingTimeMs: completedAt.getTime() - startedAt.getTime(),
+      stageDurationsMs,
       servicesUsed,
+      modelsUsed: collectModelsUsed(extractedClaims, evaluatedClaims, expertPanel, quoteAttribution),
       warnings,
       errors,
     },
@@ -635,7 +1080,11 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineResult>
     };
   }
 
-  console.log(`[Pipeline] Completed. Evaluated ${evaluatedClaims.length}/${claimsToEvaluate.length} claims in ${result.metadata.processingTimeMs}ms`);
+  recordRunMetrics('completed', stageDurationsMs, evaluatedClaims);
+  log.info(`Completed. Evaluated ${evaluatedClaims.length}/${claimsToEvaluate.length} claims in ${result.metadata.processingTimeMs}ms`, {
+    processingTimeMs: result.metadata.processingTimeMs,
+    stageDurationsMs,
+  });
 
   return result;
 }
@@ -664,7 +1113,7 @@ export async function evaluateClaim(
   options?: Partial<PipelineOptions>
 ): Promise<EvaluatedClaim> {
   const fullOptions = { ...DEFAULT_PIPELINE_OPTIONS, ...options };
-  return evaluateSingleClaim(claim, articleSubjects, fullOptions);
+  return pipelineLimiter.run(() => evaluateSingleClaim(claim, articleSubjects, fullOptions));
 }
 
 // Export types for consumers
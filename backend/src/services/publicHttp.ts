@@ -0,0 +1,215 @@
+/**
+ * Public HTTP
+ * Requests to addresses a caller gave us, limited to the public internet
+ *
+ * Article URLs and job webhooks come from API callers, so the backend must
+ * not be usable to reach localhost, the cloud metadata endpoint or other
+ * internal hosts. URLs are checked before each request (isFetchableUrl,
+ * assertPublicUrl), and requestPublicUrl connects through a lookup that
+ * refuses private addresses: the connection goes to the address that was
+ * checked, so a DNS server answering differently the second time (DNS
+ * rebinding) cannot point it elsewhere. Redirects are never followed here.
+ */
+
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { LookupAddress, LookupOptions } from 'dns';
+import { lookup } from 'dns/promises';
+import { Readable } from 'stream';
+
+const ALLOWED_PORTS = ['', '80', '443'];
+
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/,
+  /\.localhost$/,
+  /\.local$/,
+  /\.internal$/,
+  /^metadata\.google\.internal$/,
+];
+
+/**
+ * Statuses whose response has no body
+ */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+export interface PublicRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ADDRESS CHECKS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Whether an IP address is loopback, private, link-local, reserved or multicast
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (net.isIPv4(ip)) {
+    const [a, b] = ip.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  if (net.isIPv6(ip)) {
+    // IPv4-mapped and NAT64 addresses carry an IPv4 address at the end
+    const embedded = ip.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+    if (embedded) return isPrivateAddress(embedded);
+    const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const value = (parseInt(mappedHex[1], 16) << 16) | parseInt(mappedHex[2], 16);
+      return isPrivateAddress([24, 16, 8, 0].map((shift) => (value >>> shift) & 255).join('.'));
+    }
+    return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || /^ff/.test(ip);
+  }
+
+  return false;
+}
+
+/**
+ * Check that a URL is an http(s) address on a public-looking host
+ * Does not resolve the host; assertPublicUrl and requestPublicUrl do.
+ */
+export function isFetchableUrl(url: unknown): url is string {
+  if (typeof url !== 'string') {
+    return false;
+  }
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return false;
+    }
+    if (parsed.username || parsed.password || !ALLOWED_PORTS.includes(parsed.port)) {
+      return false;
+    }
+    const host = parsed.hostname.toLowerCase();
+    return !isPrivateAddress(host) && !PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(host));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a host, refusing it if any address is private
+ * (a host with one private address could be switched to it between checks)
+ */
+async function resolvePublicHost(host: string): Promise<LookupAddress[]> {
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    throw new Error(`Could not reach the page: ${host} does not resolve`);
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error('URL resolves to an address that is not allowed');
+  }
+  return addresses;
+}
+
+/**
+ * Refuse a URL unless its host resolves only to public addresses
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  if (!isFetchableUrl(url)) {
+    throw new Error('URL must be a public http(s) address');
+  }
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (!net.isIP(host)) {
+    await resolvePublicHost(host);
+  }
+}
+
+/**
+ * dns.lookup replacement for outgoing connections: the socket connects to
+ * one of the addresses checked here
+ */
+export function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  resolvePublicHost(hostname).then(
+    (addresses) => {
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    (error: Error) => callback(error, '')
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════
+// REQUESTS
+// ═══════════════════════════════════════════════════════════════
+
+function toHeaders(raw: http.IncomingHttpHeaders): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(raw)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      headers.append(name, item);
+    }
+  }
+  return headers;
+}
+
+/**
+ * Send one request to a public address and answer with a fetch Response
+ * Redirects are returned as they are, for the caller to check and follow.
+ * @throws If the URL or the address its host resolves to is not allowed,
+ *         or the connection fails (errors carry the socket's error code)
+ */
+export function requestPublicUrl(url: string, init: PublicRequestInit = {}): Promise<Response> {
+  if (!isFetchableUrl(url)) {
+    return Promise.reject(new Error('URL must be a public http(s) address'));
+  }
+
+  const target = new URL(url);
+  const transport = target.protocol === 'https:' ? https : http;
+
+  return new Promise<Response>((resolve, reject) => {
+    const request = transport.request(
+      target,
+      {
+        method: init.method || 'GET',
+        headers: init.headers,
+        signal: init.signal,
+        lookup: publicLookup,
+        agent: false,
+      },
+      (response) => {
+        const status = response.statusCode || 502;
+        const hasBody = init.method !== 'HEAD' && !NULL_BODY_STATUSES.includes(status);
+        if (!hasBody) {
+          response.resume();
+        }
+        resolve(
+          new Response(hasBody ? (Readable.toWeb(response) as ReadableStream<Uint8Array>) : null, {
+            status,
+            statusText: response.statusMessage,
+            headers: toHeaders(response.headers),
+          })
+        );
+      }
+    );
+    request.on('error', reject);
+    request.end(init.body);
+  });
+}
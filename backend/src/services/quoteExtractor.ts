@@ -0,0 +1,410 @@
+/**
+ * Quote Extractor Service
+ * Finds every person quoted in an article so they can be validated as experts
+ *
+ * Reference: EXPERT_EVALUATION_SPEC.md Part 7
+ *
+ * Claim sources only name the person a claim is attributed to; researchers
+ * asked for comment, officials and spokespeople quoted elsewhere in the
+ * article never reached expert validation. This service:
+ * 1. Asks the LLM for every direct and indirect quote, its speaker, the
+ *    speaker's title and affiliation, and the claims it supports or disputes
+ * 2. Falls back to regex attribution of common news phrasings ("...," said
+ *    Jane Doe, a professor at X) when the LLM is unavailable, over budget,
+ *    or fails
+ * 3. Turns the quotes into PersonMentions (quote filled in) per claim
+ */
+
+import { Article, ClassifiedClaim } from '../types/claims';
+import { PersonMention } from '../types/expert';
+import { AttributedQuote, QuoteAttributionResult, QuoteClaimLink, QuoteKind, QuoteRelation } from '../types/quote';
+import { isOverBudget } from './costTracker';
+import { isLLMConfigured } from './llmProvider';
+import { openaiService } from './openai';
+import { normalizeClaimText } from './evidenceCache';
+import { isNegated, tokenizeClaim } from './claimStore';
+import { createLogger } from './logger';
+
+const log = createLogger('QuoteExtractor');
+
+/**
+ * Quotes are cut to this many characters
+ */
+const MAX_QUOTE_LENGTH = 300;
+
+/**
+ * Shorter quotation marks are usually scare quotes or titles, not speech
+ */
+const MIN_QUOTE_LENGTH = 15;
+
+/**
+ * Longest quotation or reported statement the attribution patterns match.
+ * Each match attempt then reads a bounded stretch of text, so long text
+ * without quotation marks or sentence ends costs linear, not quadratic, time.
+ */
+const MAX_MATCH_LENGTH = 1000;
+
+const VALID_KINDS: QuoteKind[] = ['direct', 'indirect'];
+const VALID_RELATIONS: QuoteRelation[] = ['supports', 'disputes'];
+
+// ═══════════════════════════════════════════════════════════════
+// HEURISTIC FALLBACK
+// ═══════════════════════════════════════════════════════════════
+
+// One to four capitalized words, optionally after an honorific; single
+// words are only kept when they resolve to a speaker named earlier
+const NAME = String.raw`(?:(?<honorific>Dr|Prof|Professor|Sen|Senator|Rep|Gov|Governor)\.?\s+)?(?<name>[A-Z][\p{L}'’-]+(?:\s+(?:[A-Z]\.|[A-Z][\p{L}'’-]+)){0,3})`;
+
+// ", a professor of economics at Stanford University" after a name
+const APPOSITIVE = String.raw`(?:,\s+(?!who\b|which\b|whose\b|and\b|but\b|said\b|says\b)(?<appositive>[a-z][^,."]{2,120}?)(?=[,.]|$))?`;
+
+const VERB = String.raw`(?:said|says|added|adds|noted|notes|explained|explains|argued|argues|warned|warns|cautioned|stressed|wrote|writes|observed|acknowledged|insisted|claimed|contended|countered|concluded|agreed|disagreed|told\s+(?:reporters|[A-Z][\p{L}.]*(?:\s+[A-Z][\p{L}.]*)*))`;
+
+const WHEN = String.raw`(?:\s+(?:on\s+)?(?:Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday|yesterday|today|this week|last week))?`;
+
+const QUOTE = String.raw`"(?<text>[^"]{${MIN_QUOTE_LENGTH},${MAX_MATCH_LENGTH}}?)[,.?!]?"`;
+
+// A quote attributed after the closing mark ends in a comma ("...," she said);
+// one ending in a period closes the sentence and the next name is not its speaker
+const QUOTE_THEN_SPEAKER = String.raw`"(?<text>[^"]{${MIN_QUOTE_LENGTH},${MAX_MATCH_LENGTH}}?)[,?!]"`;
+
+// Reported statement up to the end of the sentence (decimals allowed)
+const STATEMENT = String.raw`(?<text>(?:[^".!?]|\.(?=\d)){1,${MAX_MATCH_LENGTH}})[.!?]`;
+
+const PRONOUN = String.raw`(?<pronoun>[Hh]e|[Ss]he)`;
+
+/**
+ * Attribution patterns, most reliable first; a later match overlapping an
+ * earlier one is dropped
+ */
+const QUOTE_PATTERNS: { kind: QuoteKind; pattern: RegExp }[] = [
+  // "...," said Jane Doe, a professor at X.
+  { kind: 'direct', pattern: new RegExp(`${QUOTE_THEN_SPEAKER}\\s*(?:${VERB}|according\\s+to)\\s+${NAME}${APPOSITIVE}`, 'gu') },
+  // "...," Jane Doe, a professor at X, said.
+  { kind: 'direct', pattern: new RegExp(`${QUOTE_THEN_SPEAKER}\\s*${NAME}${APPOSITIVE},?\\s+${VERB}`, 'gu') },
+  // Jane Doe, a professor at X, said: "..."
+  { kind: 'direct', pattern: new RegExp(`${NAME}${APPOSITIVE},?\\s+${VERB}${WHEN}(?:\\s+that)?[,:]?\\s*${QUOTE}`, 'gu') },
+  // "...," she said.
+  { kind: 'direct', pattern: new RegExp(`${QUOTE_THEN_SPEAKER}\\s*${PRONOUN}\\s+${VERB}`, 'gu') },
+  // She added: "..."
+  { kind: 'direct', pattern: new RegExp(`\\b${PRONOUN}\\s+${VERB}${WHEN}[,:]?\\s*${QUOTE}`, 'gu') },
+  // According to Jane Doe, a professor at X, the policy failed.
+  { kind: 'indirect', pattern: new RegExp(`\\bAccording\\s+to\\s+${NAME}${APPOSITIVE},\\s*${STATEMENT}`, 'gu') },
+  // The policy failed, according to Jane Doe.
+  { kind: 'indirect', pattern: new RegExp(`(?<text>[A-Z](?:[^".!?]|\\.(?=\\d)){${MIN_QUOTE_LENGTH},${MAX_MATCH_LENGTH}}?),\\s+according\\s+to\\s+${NAME}${APPOSITIVE}`, 'gu') },
+  // Jane Doe, a professor at X, said that the policy failed.
+  { kind: 'indirect', pattern: new RegExp(`${NAME}${APPOSITIVE},?\\s+${VERB}${WHEN}\\s+(?:that\\s+)?${STATEMENT}`, 'gu') },
+];
+
+/**
+ * Capitalized words that start sentences rather than names
+ */
+const NON_NAME_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'and', 'but', 'or', 'so', 'yet', 'in', 'on', 'at', 'by',
+  'for', 'from', 'with', 'after', 'before', 'during', 'since', 'while', 'when', 'if', 'as', 'however', 'still',
+  'meanwhile', 'instead', 'also', 'he', 'she', 'they', 'we', 'it', 'i', 'you', 'according', 'last', 'next',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october',
+  'november', 'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+]);
+
+/**
+ * Honorifics that are titles (the rest are credentials)
+ */
+const HONORIFIC_TITLES: Record<string, string> = {
+  prof: 'Professor',
+  professor: 'Professor',
+  sen: 'Senator',
+  senator: 'Senator',
+  rep: 'Representative',
+  gov: 'Governor',
+  governor: 'Governor',
+};
+
+/**
+ * Wording that contests what was said rather than asserting it
+ */
+const DISPUTE_PATTERNS: RegExp[] = [
+  /\b(not true|untrue|false|wrong|misleading|overstate[sd]?|exaggerat\w*|flawed|debunked)\b/i,
+  /\b(no evidence|little evidence|not supported by|doesn'?t hold up|does not hold up)\b/i,
+  /\b(disagree[sd]?|dispute[sd]?|doubt\w*|skeptic\w*|sceptic\w*|question(s|ed)? whether)\b/i,
+];
+
+interface QuoteMatch {
+  index: number;
+  end: number;
+  kind: QuoteKind;
+  text: string;
+  name?: string;
+  honorific?: string;
+  appositive?: string;
+}
+
+interface Speaker {
+  name: string;
+  title?: string;
+  affiliation?: string;
+  credentials?: string;
+}
+
+/**
+ * Straighten curly quotation marks so one set of patterns covers both
+ */
+function normalizeQuotes(text: string): string {
+  return text.replace(/[“”„‟]/g, '"');
+}
+
+/**
+ * Drop sentence-starting words captured in front of a name
+ * ("In March Jane Doe" -> "Jane Doe")
+ */
+function cleanName(name: string): string {
+  const words = name.split(/\s+/);
+  while (words.length > 0 && NON_NAME_WORDS.has(words[0].toLowerCase())) {
+    words.shift();
+  }
+  return words.join(' ');
+}
+
+/**
+ * Split an appositive into title and affiliation at the first preposition
+ * followed by a proper noun ("professor of economics at Stanford University")
+ */
+export function parseAppositive(appositive: string): { title?: string; affiliation?: string } {
+  const text = appositive.trim().replace(/^(?:an?|the)\s+/i, '');
+  const split = text.match(/^(.*?)\s+(?:at|with|from|of|for)\s+((?:the\s+)?[A-Z].*)$/);
+  if (split) {
+    return { title: split[1] || undefined, affiliation: split[2].replace(/^the\s+/, '') };
+  }
+  return { title: text || undefined };
+}
+
+/**
+ * Find quotes and their speakers using common news attribution phrasings
+ *
+ * Catches "...," said X; X said: "..."; X said that ...; according to X.
+ * Pronouns and bare surnames are resolved to the last matching speaker
+ * named in full earlier in the article; unresolved quotes are dropped.
+ * Claim links are left empty (see linkQuotesToClaims).
+ */
+export function extractQuotesHeuristically(content: string): AttributedQuote[] {
+  const text = normalizeQuotes(content);
+
+  // Collect matches, skipping any that overlap a more reliable one
+  const matches: QuoteMatch[] = [];
+  for (const { kind, pattern } of QUOTE_PATTERNS) {
+    for (const m of text.matchAll(pattern)) {
+      const index = m.index ?? 0;
+      const end = index + m[0].length;
+      const groups = m.groups || {};
+      if (groups.text.trim().length < MIN_QUOTE_LENGTH) continue;
+      if (matches.some((other) => index < other.end && end > other.index)) continue;
+      matches.push({
+        index,
+        end,
+        kind,
+        text: groups.text.trim(),
+        name: groups.pronoun ? undefined : groups.name,
+        honorific: groups.honorific,
+        appositive: groups.appositive,
+      });
+    }
+  }
+  matches.sort((a, b) => a.index - b.index);
+
+  // Resolve speakers in reading order
+  const speakers = new Map<string, Speaker>();
+  let lastSpeaker: Speaker | undefined;
+  const resolved: { match: QuoteMatch; speaker: Speaker }[] = [];
+
+  for (const match of matches) {
+    let speaker: Speaker | undefined;
+    const name = match.name ? cleanName(match.name) : '';
+    if (!match.name) {
+      speaker = lastSpeaker;
+    } else if (name.includes(' ')) {
+      speaker = speakers.get(name.toLowerCase());
+      if (!speaker) {
+        speaker = { name };
+        speakers.set(name.toLowerCase(), speaker);
+      }
+    } else if (name) {
+      const surname = name.toLowerCase();
+      speaker = [...speakers.values()].reverse().find((s) => s.name.toLowerCase().split(' ').pop() === surname);
+    }
+    if (!speaker) continue;
+
+    // Fill in details the first time the article gives them
+    if (match.appositive) {
+      const { title, affiliation } = parseAppositive(match.appositive);
+      speaker.title = speaker.title || title;
+      speaker.affiliation = speaker.affiliation || affiliation;
+    }
+    if (match.honorific) {
+      const honorificTitle = HONORIFIC_TITLES[match.honorific.toLowerCase()];
+      if (honorificTitle) {
+        speaker.title = speaker.title || honorificTitle;
+      } else {
+        speaker.credentials = speaker.credentials || `${match.honorific}.`;
+      }
+    }
+
+    lastSpeaker = speaker;
+    resolved.push({ match, speaker });
+  }
+
+  return resolved.map(({ match, speaker }) => ({
+    text: match.text.substring(0, MAX_QUOTE_LENGTH),
+    kind: match.kind,
+    speaker: speaker.name,
+    ...(speaker.title && { title: speaker.title }),
+    ...(speaker.affiliation && { affiliation: speaker.affiliation }),
+    ...(speaker.credentials && { credentials: speaker.credentials }),
+    claims: [],
+  }));
+}
+
+/**
+ * Whether two names refer to the same person ("Jane Doe", "Dr. Jane Doe", "Doe")
+ */
+function isSamePerson(a: string, b: string): boolean {
+  const partsA = a.toLowerCase().replace(/[.,]/g, '').split(/\s+/);
+  const partsB = b.toLowerCase().replace(/[.,]/g, '').split(/\s+/);
+  return partsA[partsA.length - 1] === partsB[partsB.length - 1];
+}
+
+/**
+ * Link quotes to the claims they bear on by shared wording
+ *
+ * A quote is linked when it covers at least half of a claim's content
+ * words (a quarter if the claim is attributed to the speaker). It disputes
+ * the claim when exactly one of them is negated or it uses contesting
+ * wording ("misleading", "no evidence"), and supports it otherwise.
+ */
+export function linkQuotesToClaims(quotes: AttributedQuote[], claims: ClassifiedClaim[]): AttributedQuote[] {
+  const claimTokens = claims.map((claim) => ({ claim, tokens: tokenizeClaim(normalizeClaimText(claim.text)) }));
+
+  return quotes.map((quote) => {
+    const quoteTokens = tokenizeClaim(normalizeClaimText(quote.text));
+    const links: QuoteClaimLink[] = [];
+
+    for (const { claim, tokens } of claimTokens) {
+      if (tokens.size === 0) continue;
+      let shared = 0;
+      for (const token of tokens) {
+        if (quoteTokens.has(token)) shared++;
+      }
+      const isSource = !!claim.source?.name && isSamePerson(claim.source.name, quote.speaker);
+      if (shared / tokens.size < (isSource ? 0.25 : 0.5)) continue;
+
+      const disputes = isNegated(quoteTokens) !== isNegated(tokens)
+        || DISPUTE_PATTERNS.some((pattern) => pattern.test(quote.text));
+      links.push({ claimId: claim.id, relation: disputes ? 'disputes' : 'supports' });
+    }
+
+    return { ...quote, claims: links };
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LLM ATTRIBUTION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Check whether LLM quote attribution can run right now
+ */
+export function isLLMQuoteAttributionAvailable(): boolean {
+  return isLLMConfigured() && !isOverBudget();
+}
+
+/**
+ * Find every quote in an article with its speaker and the claims it bears on
+ *
+ * Uses one LLM call per article. Entries without a speaker or text are
+ * dropped, as are links to unknown claims; if the call fails entirely the
+ * heuristic attribution is used instead.
+ *
+ * @param article - The article to search
+ * @param claims - Claims extracted from it, for linking
+ * @param options.useLLM - Set false to use only the heuristics (quick runs)
+ */
+export async function extractQuotes(
+  article: Article,
+  claims: ClassifiedClaim[],
+  options: { useLLM?: boolean } = {}
+): Promise<QuoteAttributionResult> {
+  const heuristic = (): QuoteAttributionResult => ({
+    quotes: linkQuotesToClaims(extractQuotesHeuristically(article.content), claims),
+    method: 'heuristic',
+  });
+
+  if (options.useLLM === false || !isLLMQuoteAttributionAvailable()) {
+    return heuristic();
+  }
+
+  try {
+    const response = await openaiService.attributeQuotes(
+      article.title,
+      article.content,
+      claims.map((c) => ({ id: c.id, text: c.text }))
+    );
+
+    const claimIds = new Set(claims.map((c) => c.id));
+    const quotes: AttributedQuote[] = [];
+    for (const entry of response.quotes) {
+      const speaker = typeof entry?.speaker === 'string' ? entry.speaker.trim() : '';
+      const text = typeof entry?.text === 'string' ? entry.text.trim() : '';
+      if (!speaker || !text) continue;
+
+      const links = Array.isArray(entry.claims) ? entry.claims : [];
+      quotes.push({
+        text: text.substring(0, MAX_QUOTE_LENGTH),
+        kind: VALID_KINDS.includes(entry.kind) ? entry.kind : 'direct',
+        speaker,
+        ...(entry.title && { title: entry.title }),
+        ...(entry.affiliation && { affiliation: entry.affiliation }),
+        ...(entry.credentials && { credentials: entry.credentials }),
+        claims: links.filter(
+          (link) => claimIds.has(link?.claimId) && VALID_RELATIONS.includes(link.relation)
+        ).map((link) => ({ claimId: link.claimId, relation: link.relation })),
+      });
+    }
+
+    log.info(`LLM attributed ${quotes.length} quotes`);
+    return { quotes, method: 'llm', model: response.model };
+  } catch (error) {
+    log.warn('LLM quote attribution failed, using heuristics', { error });
+    return heuristic();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PERSON MENTIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * People quoted in the article, one mention per speaker
+ *
+ * Each mention carries the speaker's first quote (the first one linked to
+ * the claim, if claimId is given) and the fullest title and affiliation
+ * any of their quotes gave.
+ *
+ * @param quotes - Attributed quotes
+ * @param claimId - Only speakers whose quotes support or dispute this claim
+ */
+export function getQuotedPersons(quotes: AttributedQuote[], claimId?: string): PersonMention[] {
+  const persons = new Map<string, PersonMention>();
+
+  for (const quote of quotes) {
+    if (claimId && !quote.claims.some((link) => link.claimId === claimId)) continue;
+
+    const key = quote.speaker.toLowerCase();
+    const person = persons.get(key) || { name: quote.speaker, quote: quote.text };
+    person.title = person.title || quote.title;
+    person.role = person.role || quote.title;
+    person.affiliation = person.affiliation || quote.affiliation;
+    person.credentials = person.credentials || quote.credentials;
+    persons.set(key, person);
+  }
+
+  return [...persons.values()];
+}
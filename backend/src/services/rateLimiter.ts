@@ -0,0 +1,128 @@
+/**
+ * Rate Limiter Service
+ * Token buckets shared through Redis, with an in-process fallback
+ *
+ * Each bucket holds up to `burst` tokens and refills at `perMinute`; every
+ * request takes one. Buckets live in Redis so all replicas count together:
+ *
+ *   ratelimit:{route}:{client}   hash { tokens, updatedAt }
+ *
+ * The refill-and-take step is a Lua script, so concurrent requests cannot
+ * both take the last token. Without Redis each process keeps its own buckets.
+ */
+
+import { getClient } from './cache';
+import { createLogger } from './logger';
+import { RateLimitResult, RateLimitRule } from '../types/rateLimit';
+
+const log = createLogger('RateLimiter');
+
+/**
+ * Refill KEYS[1] for the time since its last update and take one token
+ * ARGV: burst, tokens per ms, now (ms), TTL (s)
+ * Returns {1 if allowed, tokens left}.
+ */
+const TAKE_TOKEN_SCRIPT = `
+local burst = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or burst
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(burst, tokens + math.max(0, now - updatedAt) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('EXPIRE', KEYS[1], ARGV[4])
+return {allowed, tostring(tokens)}
+`;
+
+/**
+ * Buckets kept in this process before the oldest are dropped
+ */
+const MAX_LOCAL_BUCKETS = 10_000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const localBuckets = new Map<string, Bucket>();
+
+function bucketKey(route: string, client: string): string {
+  return `ratelimit:${route}:${client}`;
+}
+
+function tokensPerMs(rule: RateLimitRule): number {
+  return rule.perMinute / 60_000;
+}
+
+function toResult(allowed: boolean, tokens: number, rule: RateLimitRule): RateLimitResult {
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / tokensPerMs(rule) / 1000),
+  };
+}
+
+/**
+ * Take a token from a bucket in this process
+ */
+function takeLocalToken(key: string, rule: RateLimitRule, now: number): RateLimitResult {
+  const bucket = localBuckets.get(key) || { tokens: rule.burst, updatedAt: now };
+  const tokens = Math.min(rule.burst, bucket.tokens + Math.max(0, now - bucket.updatedAt) * tokensPerMs(rule));
+  const allowed = tokens >= 1;
+  const remaining = allowed ? tokens - 1 : tokens;
+
+  // Re-insert so the map stays ordered by last use
+  localBuckets.delete(key);
+  localBuckets.set(key, { tokens: remaining, updatedAt: now });
+  if (localBuckets.size > MAX_LOCAL_BUCKETS) {
+    localBuckets.delete(localBuckets.keys().next().value as string);
+  }
+
+  return toResult(allowed, remaining, rule);
+}
+
+/**
+ * Take one token from a client's bucket for a route
+ * @param route - Route group the rule belongs to
+ * @param client - API key id or IP
+ * @param rule - Bucket size and refill rate
+ */
+export async function takeToken(route: string, client: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  const key = bucketKey(route, client);
+  const now = Date.now();
+
+  const redis = await getClient();
+  if (redis) {
+    try {
+      // Keep an idle bucket until it would be full again
+      const ttl = Math.ceil(rule.burst / rule.perMinute * 60) + 1;
+      const [allowed, tokens] = (await redis.eval(
+        TAKE_TOKEN_SCRIPT,
+        1,
+        key,
+        rule.burst,
+        tokensPerMs(rule),
+        now,
+        ttl
+      )) as [number, string];
+      return toResult(allowed === 1, parseFloat(tokens), rule);
+    } catch (err) {
+      log.warn('Redis unavailable for rate limiting, counting locally', { error: err });
+    }
+  }
+
+  return takeLocalToken(key, rule, now);
+}
+
+/**
+ * Forget every bucket kept in this process (tests)
+ */
+export function resetLocalBuckets(): void {
+  localBuckets.clear();
+}
@@ -0,0 +1,504 @@
+/**
+ * Reference Data Service
+ * Compares statistical claims with official figures kept on disk
+ *
+ * Reference: EXPERT_EVALUATION_SPEC.md Part 6
+ *
+ * Academic search is poorly suited to "unemployment is at 3.5%" - the
+ * answer is a number an agency publishes. REFERENCE_DATA_DIR holds curated
+ * datasets, each one measure over time:
+ * - .json: a dataset or an array of them
+ *     { "id", "name", "source", "url"?, "unit", "region"?, "keywords": [...],
+ *       "tolerance"?, "observations": [{ "period": "2023", "value": 3.6 }] }
+ * - .csv: one row per observation, with the columns
+ *     dataset, name, source, url, unit, region, keywords, tolerance, period, value
+ *   (keywords separated by ';'; metadata is read from a dataset's first row)
+ *
+ * Units are percent, count, usd or per_100k; periods are "2023", "2023-07"
+ * or "2023-Q2". The matcher pulls the figure, unit and period out of a
+ * statistical claim, picks the dataset whose keywords the claim mentions,
+ * and returns a "matches official data" / "differs by X" verdict that
+ * assessConsensus uses in place of the search results.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ClassifiedClaim } from '../types/claims';
+import {
+  ExtractedStatistic,
+  ReferenceDataCheck,
+  ReferenceDataset,
+  ReferenceObservation,
+  ReferenceUnit,
+  StatisticUnit,
+} from '../types/referenceData';
+import { parseCsv } from './retractionCheck';
+import { getResolvedClaimText } from './timeframe';
+import { createLogger } from './logger';
+import { config } from '../config';
+
+const log = createLogger('ReferenceData');
+
+const VALID_UNITS: ReferenceUnit[] = ['percent', 'count', 'usd', 'per_100k'];
+
+const PERIOD_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])|-Q[1-4])?$/;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+let datasets: ReferenceDataset[] | null = null;
+
+// ═══════════════════════════════════════════════════════════════
+// LOADING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Replace the loaded datasets (tests and programmatic loading)
+ */
+export function setReferenceDatasets(list: ReferenceDataset[] | null): void {
+  datasets = list;
+}
+
+/**
+ * Why a dataset cannot be used, or null if it can
+ */
+function validateDataset(dataset: Partial<ReferenceDataset>): string | null {
+  if (!dataset.id || !dataset.name || !dataset.source) {
+    return 'id, name and source are required';
+  }
+  if (!dataset.unit || !VALID_UNITS.includes(dataset.unit)) {
+    return `unknown unit "${dataset.unit}"`;
+  }
+  if (!Array.isArray(dataset.keywords) || dataset.keywords.length === 0) {
+    return 'no keywords';
+  }
+  if (!Array.isArray(dataset.observations) || dataset.observations.length === 0) {
+    return 'no observations';
+  }
+  const invalid = dataset.observations.find(
+    (o) => !PERIOD_PATTERN.test(o?.period) || !Number.isFinite(o?.value)
+  );
+  return invalid ? `invalid observation ${JSON.stringify(invalid)}` : null;
+}
+
+/**
+ * Read datasets from a long-format CSV (one row per observation)
+ */
+export function parseReferenceCsv(csvText: string): Partial<ReferenceDataset>[] {
+  const [header, ...rows] = parseCsv(csvText);
+  if (!header) {
+    return [];
+  }
+
+  const column = (name: string) => header.findIndex((h) => h.trim().toLowerCase() === name);
+  const byId = new Map<string, Partial<ReferenceDataset>>();
+
+  for (const row of rows) {
+    const cell = (name: string) => {
+      const index = column(name);
+      return index >= 0 ? (row[index] || '').trim() : '';
+    };
+    const id = cell('dataset');
+    if (!id) continue;
+
+    let dataset = byId.get(id);
+    if (!dataset) {
+      const tolerance = parseFloat(cell('tolerance'));
+      dataset = {
+        id,
+        name: cell('name'),
+        source: cell('source'),
+        ...(cell('url') && { url: cell('url') }),
+        unit: cell('unit') as ReferenceUnit,
+        ...(cell('region') && { region: cell('region') }),
+        keywords: cell('keywords').split(';').map((k) => k.trim()).filter(Boolean),
+        ...(Number.isFinite(tolerance) && { tolerance }),
+        observations: [],
+      };
+      byId.set(id, dataset);
+    }
+    dataset.observations!.push({ period: cell('period'), value: parseFloat(cell('value').replace(/,/g, '')) });
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * Load every .json and .csv dataset file in a directory
+ * Unreadable files and invalid datasets are skipped with a warning.
+ */
+export function loadReferenceDatasets(dir: string): ReferenceDataset[] {
+  const loaded: ReferenceDataset[] = [];
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    const extension = path.extname(file).toLowerCase();
+    if (extension !== '.json' && extension !== '.csv') continue;
+
+    let candidates: Partial<ReferenceDataset>[];
+    try {
+      const text = fs.readFileSync(path.join(dir, file), 'utf8');
+      if (extension === '.csv') {
+        candidates = parseReferenceCsv(text);
+      } else {
+        const parsed = JSON.parse(text);
+        candidates = Array.isArray(parsed) ? parsed : [parsed];
+      }
+    } catch (error) {
+      log.warn(`Failed to read ${file}`, { error });
+      continue;
+    }
+
+    for (const candidate of candidates) {
+      const problem = validateDataset(candidate || {});
+      if (problem) {
+        log.warn(`Skipping dataset "${candidate?.id || 'unnamed'}" in ${file}: ${problem}`);
+        continue;
+      }
+      loaded.push(candidate as ReferenceDataset);
+    }
+  }
+
+  return loaded;
+}
+
+/**
+ * Load REFERENCE_DATA_DIR on first use
+ */
+function getDatasets(): ReferenceDataset[] {
+  if (datasets) {
+    return datasets;
+  }
+  datasets = [];
+  if (!config.referenceData.dir) {
+    return datasets;
+  }
+
+  try {
+    datasets = loadReferenceDatasets(config.referenceData.dir);
+    log.info(`Loaded ${datasets.length} datasets from ${config.referenceData.dir}`);
+  } catch (error) {
+    log.warn(`Failed to load ${config.referenceData.dir}`, { error });
+  }
+  return datasets;
+}
+
+/**
+ * Check whether any reference dataset is loaded
+ */
+export function isReferenceDataAvailable(): boolean {
+  return getDatasets().length > 0;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FIGURE EXTRACTION
+// ═══════════════════════════════════════════════════════════════
+
+const NUMBER = String.raw`(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?`;
+const SCALE = String.raw`(?:\s*(thousand|million|billion|trillion)\b)?`;
+
+const SCALES: Record<string, number> = {
+  thousand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+  trillion: 1e12,
+};
+
+/**
+ * Figures by unit, most specific first; the first that matches is used
+ */
+const FIGURE_PATTERNS: { unit: StatisticUnit; pattern: RegExp }[] = [
+  { unit: 'percentage_points', pattern: new RegExp(`${NUMBER}\\s*(?:percentage|%)[- ]points?\\b`, 'gi') },
+  { unit: 'percent', pattern: new RegExp(`${NUMBER}\\s*(?:%|percent\\b|per cent\\b)`, 'gi') },
+  { unit: 'per_100k', pattern: new RegExp(`${NUMBER}(?:\\s+[a-z]+){0,3}?\\s+(?:per|for every)\\s+100,?000\\b`, 'gi') },
+  { unit: 'usd', pattern: new RegExp(`\\$\\s?${NUMBER}${SCALE}`, 'gi') },
+  { unit: 'count', pattern: new RegExp(`(?<![\\d.,$])${NUMBER}${SCALE}(?![\\d%]|st\\b|nd\\b|rd\\b|th\\b)`, 'gi') },
+];
+
+// Hedges allowed between a change word and the figure ("rose by nearly 4%")
+const HEDGE = String.raw`(?:\s+by)?(?:\s+(?:about|around|almost|nearly|roughly|more than|over|some|just))?\s*$`;
+
+const RISE_BEFORE = new RegExp(`\\b(?:rose|risen|rises|rising|increased|increases|increasing|grew|grown|grows|growing|climbed|climbs|jumped|jumps|surged|soared|up)${HEDGE}`, 'i');
+const FALL_BEFORE = new RegExp(`\\b(?:fell|fallen|falls|falling|dropped|drops|declined|declines|declining|decreased|decreases|decreasing|down|plunged|plummeted|shrank|shrunk|cut)${HEDGE}`, 'i');
+const RISE_AFTER = /^\s*(?:increase|rise|jump|gain|growth|surge)\b/i;
+const FALL_AFTER = /^\s*(?:drop|decline|decrease|fall|reduction|cut|plunge)\b/i;
+
+/**
+ * Whether a matched number is a bare year ("in 2023")
+ */
+function isYear(match: RegExpMatchArray): boolean {
+  const [, integer, decimals, scale] = match;
+  const value = Number(integer);
+  return !decimals && !scale && !integer.includes(',') && value >= 1900 && value <= 2099;
+}
+
+/**
+ * Period a claim refers to, and the period a change is measured from
+ *
+ * Understands "from 2019 to 2023", "between 2019 and 2023", "since 2019",
+ * "July 2023", "Q2 2023" / "second quarter of 2023" and plain years.
+ */
+export function extractPeriods(text: string): { period?: string; basePeriod?: string } {
+  const range = text.match(/\b(?:from|between)\s+((?:19|20)\d{2})\s+(?:to|and|through|until)\s+((?:19|20)\d{2})\b/i);
+  if (range) {
+    return { basePeriod: range[1], period: range[2] };
+  }
+
+  const since = text.match(/\bsince\s+((?:19|20)\d{2})\b/i);
+  const basePeriod = since?.[1];
+  const rest = since ? text.replace(since[0], ' ') : text;
+
+  const month = rest.match(/\b(January|February|March|April|May|June|July|August|September|October|November|December)\s+(?:of\s+)?((?:19|20)\d{2})\b/i);
+  if (month) {
+    const number = MONTHS.indexOf(month[1].toLowerCase()) + 1;
+    return { period: `${month[2]}-${String(number).padStart(2, '0')}`, basePeriod };
+  }
+
+  const quarter = rest.match(/\b(?:Q([1-4])\s+((?:19|20)\d{2})|(first|second|third|fourth)\s+quarter\s+(?:of\s+)?((?:19|20)\d{2}))\b/i);
+  if (quarter) {
+    const number = quarter[1] || String(['first', 'second', 'third', 'fourth'].indexOf(quarter[3].toLowerCase()) + 1);
+    return { period: `${quarter[2] || quarter[4]}-Q${number}`, basePeriod };
+  }
+
+  const year = rest.match(/\b((?:19|20)\d{2})\b/);
+  return { period: year?.[1], basePeriod };
+}
+
+/**
+ * Pull the figure a statistical claim states
+ *
+ * A figure after a rise/fall word ("fell 12%") or before a change noun
+ * ("a 12% drop") is a change and is signed (falls negative); otherwise it
+ * is a level ("is at 3.5%"). Years are never taken as the figure.
+ *
+ * @returns The figure, or null if the claim states none
+ */
+export function extractStatistic(text: string): ExtractedStatistic | null {
+  for (const { unit, pattern } of FIGURE_PATTERNS) {
+    const match = [...text.matchAll(pattern)].find((m) => unit !== 'count' || !isYear(m));
+    if (!match) continue;
+
+    const [figure, integer, decimals, scaleWord] = match;
+    const scale = scaleWord ? SCALES[scaleWord.toLowerCase()] : 1;
+    const magnitude = Number(`${integer.replace(/,/g, '')}${decimals ? `.${decimals}` : ''}`) * scale;
+    const precision = 0.5 * Math.pow(10, -(decimals?.length || 0)) * scale;
+
+    const before = text.slice(0, match.index);
+    const after = text.slice((match.index ?? 0) + figure.length);
+    const rises = RISE_BEFORE.test(before) || RISE_AFTER.test(after);
+    const falls = FALL_BEFORE.test(before) || FALL_AFTER.test(after);
+    const measure = rises || falls ? 'change' : 'level';
+
+    // Percentage points only describe changes
+    if (unit === 'percentage_points' && measure === 'level') continue;
+
+    return {
+      measure,
+      value: falls ? -magnitude : magnitude,
+      unit,
+      precision,
+      ...extractPeriods(text),
+      text: figure.trim(),
+    };
+  }
+
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// MATCHING
+// ═══════════════════════════════════════════════════════════════
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a claim's figure can be compared with a dataset's values
+ * A level needs the dataset's unit; a change can be relative (percent),
+ * in percentage points (percent datasets) or in the dataset's unit.
+ */
+function isComparable(statistic: ExtractedStatistic, dataset: ReferenceDataset): boolean {
+  if (statistic.measure === 'level') {
+    return statistic.unit === dataset.unit;
+  }
+  if (statistic.unit === 'percentage_points') {
+    return dataset.unit === 'percent';
+  }
+  return statistic.unit === 'percent' || statistic.unit === dataset.unit;
+}
+
+/**
+ * The dataset a claim is about: the comparable one with the longest
+ * keyword found in the claim (plurals allowed)
+ */
+export function findDataset(text: string, statistic: ExtractedStatistic): ReferenceDataset | undefined {
+  const lower = text.toLowerCase();
+  let best: { dataset: ReferenceDataset; score: number } | undefined;
+
+  for (const dataset of getDatasets()) {
+    if (!isComparable(statistic, dataset)) continue;
+    const score = Math.max(0, ...dataset.keywords
+      .filter((k) => new RegExp(`\\b${escapeRegex(k.toLowerCase())}(?:s|es)?\\b`).test(lower))
+      .map((k) => k.length));
+    if (score > 0 && (!best || score > best.score)) {
+      best = { dataset, score };
+    }
+  }
+
+  return best?.dataset;
+}
+
+function granularity(period: string): string {
+  return period.includes('Q') ? 'quarter' : period.length === 7 ? 'month' : 'year';
+}
+
+/**
+ * The latest observation (the most detailed one of the latest year)
+ */
+function latestObservation(dataset: ReferenceDataset): ReferenceObservation {
+  return dataset.observations.reduce((latest, o) => (o.period > latest.period ? o : latest));
+}
+
+/**
+ * The observation before a period, at the same granularity
+ */
+function previousObservation(dataset: ReferenceDataset, period: string): ReferenceObservation | undefined {
+  return dataset.observations
+    .filter((o) => granularity(o.period) === granularity(period) && o.period < period)
+    .reduce<ReferenceObservation | undefined>((previous, o) => (!previous || o.period > previous.period ? o : previous), undefined);
+}
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 1000
+    ? Math.round(value).toLocaleString('en-US')
+    : String(Number(value.toFixed(2)));
+}
+
+function formatValue(value: number, unit: StatisticUnit): string {
+  const number = formatNumber(value);
+  switch (unit) {
+    case 'percent':
+      return `${number}%`;
+    case 'percentage_points':
+      return `${number} percentage point${number === '1' ? '' : 's'}`;
+    case 'usd':
+      return `$${number}`;
+    case 'per_100k':
+      return `${number} per 100,000`;
+    default:
+      return number;
+  }
+}
+
+function formatPeriod(period: string): string {
+  const month = period.match(/^(\d{4})-(\d{2})$/);
+  if (month) {
+    const name = MONTHS[Number(month[2]) - 1];
+    return `${name.charAt(0).toUpperCase()}${name.slice(1)} ${month[1]}`;
+  }
+  const quarter = period.match(/^(\d{4})-(Q[1-4])$/);
+  return quarter ? `${quarter[2]} ${quarter[1]}` : period;
+}
+
+function describeChange(value: number, unit: StatisticUnit): string {
+  if (value === 0) {
+    return 'no change';
+  }
+  return `a ${value > 0 ? 'rise' : 'fall'} of ${formatValue(Math.abs(value), unit)}`;
+}
+
+/**
+ * Compare a claim's figure with a dataset
+ *
+ * A level is compared with the value for the claim's period (the latest
+ * value if it gives none); a change with the change from the base period
+ * (or the period before) to that period. The figures match when they
+ * differ by no more than the dataset's tolerance (relative to the official
+ * figure) or the claim's rounding, and a change goes the same way.
+ *
+ * @returns The verdict, or null if the dataset does not cover the periods
+ */
+export function compareWithDataset(
+  statistic: ExtractedStatistic,
+  dataset: ReferenceDataset
+): ReferenceDataCheck | null {
+  const current = statistic.period
+    ? dataset.observations.find((o) => o.period === statistic.period)
+    : latestObservation(dataset);
+  if (!current) {
+    return null;
+  }
+
+  let officialValue = current.value;
+  let base: ReferenceObservation | undefined;
+  if (statistic.measure === 'change') {
+    base = statistic.basePeriod
+      ? dataset.observations.find((o) => o.period === statistic.basePeriod)
+      : previousObservation(dataset, current.period);
+    if (!base || (statistic.unit === 'percent' && base.value === 0)) {
+      return null;
+    }
+    officialValue = statistic.unit === 'percent'
+      ? ((current.value - base.value) / Math.abs(base.value)) * 100
+      : current.value - base.value;
+  }
+  officialValue = Number(officialValue.toFixed(4));
+
+  const difference = Number((officialValue - statistic.value).toFixed(4));
+  const allowed = Math.max(Math.abs(officialValue) * (dataset.tolerance ?? config.referenceData.tolerance), statistic.precision);
+  const sameDirection = statistic.measure === 'level' || Math.sign(officialValue) === Math.sign(statistic.value);
+  const verdict = Math.abs(difference) <= allowed && sameDirection ? 'matches' : 'differs';
+
+  // A gap between two percentages is in percentage points
+  const differenceUnit = statistic.unit === 'percent' ? 'percentage_points' : statistic.unit;
+  const official = statistic.measure === 'change'
+    ? `${describeChange(officialValue, statistic.unit)} from ${formatPeriod(base!.period)} to ${formatPeriod(current.period)}`
+    : `${formatValue(officialValue, statistic.unit)} for ${formatPeriod(current.period)}`;
+  const claimed = statistic.measure === 'change'
+    ? describeChange(statistic.value, statistic.unit)
+    : formatValue(statistic.value, statistic.unit);
+  const summary = verdict === 'matches'
+    ? `Matches official data: ${dataset.source} reports ${official}.`
+    : `Differs from official data by ${formatValue(Math.abs(difference), differenceUnit)}: ${dataset.source} reports ${official}, not ${claimed}.`;
+
+  return {
+    verdict,
+    datasetId: dataset.id,
+    datasetName: dataset.name,
+    source: dataset.source,
+    ...(dataset.url && { url: dataset.url }),
+    measure: statistic.measure,
+    unit: statistic.unit,
+    claimedValue: statistic.value,
+    officialValue,
+    difference,
+    period: current.period,
+    ...(base && { basePeriod: base.period }),
+    periodInferred: !statistic.period,
+    summary,
+  };
+}
+
+/**
+ * Compare a statistical claim with the reference dataset it is about
+ *
+ * @returns The verdict, or null if the claim is not statistical, states no
+ *   figure, or no dataset covers it
+ */
+export function checkStatisticalClaim(claim: ClassifiedClaim): ReferenceDataCheck | null {
+  if (claim.type !== 'statistical') {
+    return null;
+  }
+
+  // "Last year" and the like are read as the dates they stand for
+  const text = getResolvedClaimText(claim);
+  const statistic = extractStatistic(text);
+  if (!statistic) {
+    return null;
+  }
+
+  const dataset = findDataset(text, statistic);
+  return dataset ? compareWithDataset(statistic, dataset) : null;
+}
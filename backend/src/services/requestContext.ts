@@ -0,0 +1,72 @@
+/**
+ * Request Context
+ * Per-request values that services need without threading them through
+ * every call (AsyncLocalStorage)
+ *
+ * The cost ledger reads the endpoint and client from here so charges made
+ * deep inside the pipeline are still attributed to the request, and
+ * budget reservations are checked against the caller's API key quota (and
+ * a batch's spending limit). The logger tags entries with the request ID
+ * so the lines of one request can be followed through the pipeline.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyQuota } from '../types/apiKey';
+import { CostBudget } from '../types/cost';
+
+export interface RequestContext {
+  /** Correlates log entries of one request (X-Request-ID; jobs use their job id) */
+  readonly requestId?: string;
+  /** Matched route, e.g. "POST /api/v1/evaluate/" */
+  readonly endpoint: string;
+  /** Who made the request (IP address until an API key identifies the caller) */
+  client: string;
+  /** Spending limits of the caller's API key */
+  quota?: ApiKeyQuota;
+  /** Spending limit of the work in progress (batch evaluations) */
+  budget?: CostBudget;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Get the context of the request being handled, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Run a function inside a context (background work, tests)
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Request IDs accepted from callers (anything else gets a new one)
+ */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Express middleware that opens a context for every request
+ * Takes the caller's X-Request-ID when valid, else makes one, and echoes it in the response.
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const header = req.get('X-Request-ID');
+  const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+  res.setHeader('X-Request-ID', requestId);
+
+  const context: RequestContext = {
+    requestId,
+    // Resolved lazily: the route pattern is only known once routing has matched
+    get endpoint() {
+      return `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+    },
+    client: req.ip || 'unknown',
+  };
+
+  storage.run(context, next);
+}
@@ -0,0 +1,425 @@
+/**
+ * Retraction Check Service
+ * Flags cited works that have been retracted or carry an expression of concern
+ *
+ * Two sources:
+ * 1. CrossRef metadata - notices that `update-to` the work, plus the work's
+ *    own `updated-by` and `relation` entries (Crossmark)
+ * 2. A local Retraction Watch-style CSV, imported from RETRACTION_WATCH_CSV
+ *    or with importRetractionWatchCsv(). Checked first; needs no network.
+ *
+ * Retracted works must not count as evidence: consensusDetector leaves them
+ * out of the evidence basis and outputGenerator warns about them.
+ */
+
+import fs from 'fs';
+import * as cache from './cache';
+import { Citation, DirectedEvidence, RetractionNotice, RetractionStatus } from '../types/consensus';
+import { extractDOI } from './openAlex';
+import { trackCrossRefRequest } from './crossref';
+import { createLogger } from './logger';
+
+const log = createLogger('Retractions');
+
+const CROSSREF_API_BASE = 'https://api.crossref.org/works';
+const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const CACHE_KEY_PREFIX = 'retraction:';
+
+const CROSSREF_EMAIL = process.env.CROSSREF_EMAIL;
+const RETRACTION_WATCH_CSV = process.env.RETRACTION_WATCH_CSV;
+
+/**
+ * Maximum concurrent CrossRef requests when checking a batch
+ */
+const MAX_CONCURRENT_CHECKS = 5;
+
+/**
+ * CrossRef update types that mean the work should no longer be relied on
+ */
+const CROSSREF_RETRACTION_TYPES = ['retraction', 'withdrawal', 'removal', 'partial_retraction'];
+const CROSSREF_CONCERN_TYPES = ['expression_of_concern'];
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+interface CrossRefUpdate {
+  DOI?: string;
+  type?: string;
+  updated?: { 'date-parts'?: number[][] };
+}
+
+interface CrossRefWork {
+  DOI?: string;
+  'update-to'?: CrossRefUpdate[];
+  'updated-by'?: CrossRefUpdate[];
+  relation?: Record<string, { id?: string; 'id-type'?: string }[]>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+function getUserAgent(): string {
+  const base = 'ClearViewNews/1.0 (https://github.com/clearview-news)';
+  return CROSSREF_EMAIL ? `${base}; mailto:${CROSSREF_EMAIL}` : base;
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function statusForCrossRefType(type?: string): RetractionStatus | undefined {
+  const normalized = (type || '').toLowerCase().replace(/[\s-]/g, '_');
+  if (CROSSREF_RETRACTION_TYPES.includes(normalized)) return 'retracted';
+  if (CROSSREF_CONCERN_TYPES.includes(normalized)) return 'expression_of_concern';
+  return undefined;
+}
+
+function formatDateParts(update?: CrossRefUpdate['updated']): string | undefined {
+  const parts = update?.['date-parts']?.[0];
+  if (!parts?.[0]) return undefined;
+  const [year, month = 1, day = 1] = parts;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Retractions outrank expressions of concern
+ */
+function mostSevere(notices: RetractionNotice[]): RetractionNotice | null {
+  return notices.find((n) => n.status === 'retracted') || notices[0] || null;
+}
+
+/**
+ * Check whether a citation is retracted (expressions of concern still count)
+ */
+export function isRetracted(citation: Citation): boolean {
+  return citation.retraction?.status === 'retracted';
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LOCAL RETRACTION WATCH INDEX
+// ═══════════════════════════════════════════════════════════════
+
+const localByDoi = new Map<string, RetractionNotice>();
+const localByTitle = new Map<string, RetractionNotice>();
+let localIndexLoaded = false;
+
+/**
+ * Parse CSV text into rows (handles quoted fields, escaped quotes and
+ * newlines inside quotes)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((f) => f.length > 0)) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((f) => f.length > 0)) rows.push(row);
+  return rows;
+}
+
+/**
+ * Parse a Retraction Watch date ("5/13/2019 0:00" or ISO) into an ISO date
+ */
+function parseRetractionWatchDate(value: string): string | undefined {
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) {
+    return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  }
+  const iso = value.match(/^\d{4}-\d{2}-\d{2}/);
+  return iso ? iso[0] : undefined;
+}
+
+/**
+ * Import a Retraction Watch-style CSV into the local index
+ *
+ * Uses the OriginalPaperDOI, Title, RetractionNature, RetractionDate,
+ * RetractionDOI and Reason columns. Corrections are ignored; a later
+ * Reinstatement clears an earlier notice.
+ *
+ * @returns Number of notices in the index after the import
+ */
+export function importRetractionWatchCsv(csvText: string): number {
+  const [header, ...rows] = parseCsv(csvText);
+  if (!header) {
+    return localByDoi.size + localByTitle.size;
+  }
+
+  const column = (name: string) => header.findIndex((h) => h.trim().toLowerCase() === name.toLowerCase());
+  const cols = {
+    doi: column('OriginalPaperDOI'),
+    title: column('Title'),
+    nature: column('RetractionNature'),
+    date: column('RetractionDate'),
+    noticeDoi: column('RetractionDOI'),
+    reason: column('Reason'),
+  };
+  if (cols.nature === -1 || (cols.doi === -1 && cols.title === -1)) {
+    throw new Error('Retraction CSV must have RetractionNature and OriginalPaperDOI or Title columns');
+  }
+
+  for (const row of rows) {
+    const nature = (row[cols.nature] || '').trim().toLowerCase();
+    const doi = cols.doi >= 0 ? extractDOI(row[cols.doi] || '') : undefined;
+    const title = cols.title >= 0 ? normalizeTitle(row[cols.title] || '') : '';
+
+    if (nature === 'reinstatement') {
+      if (doi) localByDoi.delete(doi);
+      if (title) localByTitle.delete(title);
+      continue;
+    }
+
+    const status: RetractionStatus | undefined =
+      nature === 'retraction' ? 'retracted'
+      : nature === 'expression of concern' ? 'expression_of_concern'
+      : undefined;
+    if (!status) continue;
+
+    const notice: RetractionNotice = {
+      status,
+      source: 'retraction_watch',
+      date: cols.date >= 0 ? parseRetractionWatchDate(row[cols.date] || '') : undefined,
+      noticeDoi: cols.noticeDoi >= 0 ? extractDOI(row[cols.noticeDoi] || '') : undefined,
+      reason: cols.reason >= 0 ? (row[cols.reason] || '').replace(/^\+/, '').trim() || undefined : undefined,
+    };
+
+    // Never let an expression of concern overwrite a retraction
+    if (doi && localByDoi.get(doi)?.status !== 'retracted') localByDoi.set(doi, notice);
+    if (title && localByTitle.get(title)?.status !== 'retracted') localByTitle.set(title, notice);
+  }
+
+  localIndexLoaded = true;
+  log.info(`Local index has ${localByDoi.size} DOIs, ${localByTitle.size} titles`);
+  return localByDoi.size + localByTitle.size;
+}
+
+/**
+ * Clear the local index (for tests and re-imports)
+ */
+export function clearLocalRetractions(): void {
+  localByDoi.clear();
+  localByTitle.clear();
+  localIndexLoaded = false;
+}
+
+/**
+ * Load RETRACTION_WATCH_CSV on first use
+ */
+function ensureLocalIndex(): void {
+  if (localIndexLoaded) return;
+  localIndexLoaded = true;
+  if (!RETRACTION_WATCH_CSV) return;
+
+  try {
+    importRetractionWatchCsv(fs.readFileSync(RETRACTION_WATCH_CSV, 'utf8'));
+  } catch (error) {
+    log.warn(`Failed to load ${RETRACTION_WATCH_CSV}`, { error });
+  }
+}
+
+/**
+ * Look up a work in the local index
+ */
+export function checkLocalRetraction(query: { doi?: string; title?: string }): RetractionNotice | null {
+  ensureLocalIndex();
+  const doi = query.doi ? extractDOI(query.doi) : undefined;
+  if (doi && localByDoi.has(doi)) {
+    return localByDoi.get(doi)!;
+  }
+  const title = query.title ? normalizeTitle(query.title) : '';
+  return (title && localByTitle.get(title)) || null;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CROSSREF
+// ═══════════════════════════════════════════════════════════════
+
+async function crossRefJson<T>(url: string): Promise<T | null> {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': getUserAgent(), Accept: 'application/json' },
+  });
+  await trackCrossRefRequest('checkRetraction');
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`CrossRef API error: ${response.status} ${response.statusText}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Collect the notices CrossRef knows about for a DOI
+ */
+export function parseCrossRefNotices(doi: string, work: CrossRefWork | null, updaters: CrossRefWork[]): RetractionNotice[] {
+  const notices: RetractionNotice[] = [];
+
+  // Notices published against the work (each notice's update-to points here)
+  for (const notice of updaters) {
+    for (const update of notice['update-to'] || []) {
+      const status = statusForCrossRefType(update.type);
+      if (status && extractDOI(update.DOI || '') === doi) {
+        notices.push({ status, source: 'crossref', date: formatDateParts(update.updated), noticeDoi: extractDOI(notice.DOI || '') });
+      }
+    }
+  }
+
+  if (work) {
+    // Crossmark updates recorded on the work itself
+    for (const update of work['updated-by'] || []) {
+      const status = statusForCrossRefType(update.type);
+      if (status) {
+        notices.push({ status, source: 'crossref', date: formatDateParts(update.updated), noticeDoi: extractDOI(update.DOI || '') });
+      }
+    }
+
+    // Relations such as is-retracted-by / has-expression-of-concern
+    for (const [relation, targets] of Object.entries(work.relation || {})) {
+      const status = relation.includes('retract') ? 'retracted'
+        : relation.includes('concern') ? 'expression_of_concern'
+        : undefined;
+      if (status) {
+        notices.push({ status, source: 'crossref', noticeDoi: extractDOI(targets?.[0]?.id || '') });
+      }
+    }
+
+    // The cited DOI is itself a retraction notice
+    for (const update of work['update-to'] || []) {
+      if (statusForCrossRefType(update.type) === 'retracted') {
+        notices.push({ status: 'retracted', source: 'crossref', date: formatDateParts(update.updated), noticeDoi: doi });
+      }
+    }
+  }
+
+  return notices;
+}
+
+/**
+ * Check CrossRef for retraction notices on a DOI
+ */
+export async function checkCrossRefRetraction(rawDoi: string): Promise<RetractionNotice | null> {
+  const doi = extractDOI(rawDoi);
+  if (!doi) {
+    return null;
+  }
+
+  const cacheKey = `${CACHE_KEY_PREFIX}${doi}`;
+  const cached = await cache.get<{ notice: RetractionNotice | null }>(cacheKey);
+  if (cached !== null) {
+    return cached.notice;
+  }
+
+  try {
+    const [workResponse, updatesResponse] = await Promise.all([
+      crossRefJson<{ message: CrossRefWork }>(`${CROSSREF_API_BASE}/${encodeURIComponent(doi)}`),
+      crossRefJson<{ message: { items?: CrossRefWork[] } }>(
+        `${CROSSREF_API_BASE}?filter=updates:${encodeURIComponent(doi)}&rows=10`
+      ),
+    ]);
+
+    const notice = mostSevere(
+      parseCrossRefNotices(doi, workResponse?.message || null, updatesResponse?.message.items || [])
+    );
+
+    await cache.set(cacheKey, { notice }, CACHE_TTL_SECONDS);
+    if (notice) {
+      log.info(`${doi}: ${notice.status} (CrossRef)`);
+    }
+    return notice;
+  } catch (error) {
+    // Don't cache errors - they might be temporary
+    log.warn(`CrossRef check failed for ${doi}`, { error });
+    return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Check a work against the local index, then CrossRef
+ * @param options.online - Set false to check the local index only
+ */
+export async function checkRetraction(
+  query: { doi?: string; title?: string; url?: string },
+  options: { online?: boolean } = {}
+): Promise<RetractionNotice | null> {
+  const doi = query.doi || (query.url ? extractDOI(query.url) : undefined);
+
+  const local = checkLocalRetraction({ doi, title: query.title });
+  if (local?.status === 'retracted' || options.online === false || !doi) {
+    return local;
+  }
+
+  const remote = await checkCrossRefRetraction(doi);
+  return mostSevere([remote, local].filter((n): n is RetractionNotice => n !== null));
+}
+
+/**
+ * Attach retraction notices to a batch of evidence
+ */
+export async function annotateRetractions(
+  evidence: DirectedEvidence[],
+  options: { online?: boolean } = {}
+): Promise<DirectedEvidence[]> {
+  const results: DirectedEvidence[] = [...evidence];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < evidence.length) {
+      const i = next++;
+      const { citation } = evidence[i];
+      const notice = await checkRetraction(citation, options);
+      if (notice) {
+        results[i] = { ...evidence[i], citation: { ...citation, retraction: notice } };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(MAX_CONCURRENT_CHECKS, evidence.length) }, worker)
+  );
+
+  const flagged = results.filter((e) => e.citation.retraction).length;
+  if (flagged > 0) {
+    log.info(`Flagged ${flagged}/${evidence.length} cited works`);
+  }
+  return results;
+}
+
+export default {
+  checkRetraction,
+  annotateRetractions,
+  importRetractionWatchCsv,
+  isRetracted,
+};
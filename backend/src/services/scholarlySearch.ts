@@ -0,0 +1,67 @@
+/**
+ * Scholarly Search Provider
+ * Academic search over OpenAlex, falling back to CrossRef
+ *
+ * Needs no API key, so it works as a free academic provider or alongside
+ * Exa to add indexed, DOI-backed papers to the evidence pool. Only serves
+ * the academic operation.
+ */
+
+import { SearchOptions, SearchProvider, SearchResponse, SearchResult } from '../types/search';
+import { searchWorks as searchOpenAlexWorks } from './openAlex';
+import { searchWorks as searchCrossRefWorks } from './crossref';
+import { createLogger } from './logger';
+
+const log = createLogger('ScholarlySearch');
+
+/**
+ * Maximum snippet length, matching what Exa returns
+ */
+const MAX_SNIPPET_LENGTH = 500;
+
+/**
+ * Search OpenAlex, falling back to CrossRef when OpenAlex fails
+ */
+export async function searchScholarly(
+  query: string,
+  numResults: number = 10,
+  options: SearchOptions = {}
+): Promise<SearchResponse> {
+  try {
+    const works = await searchOpenAlexWorks(query, numResults, options);
+    const results: SearchResult[] = works.map((work) => ({
+      title: work.title,
+      url: work.doi ? `https://doi.org/${work.doi}` : work.openAccessUrl || work.id,
+      snippet: (work.abstract || '').substring(0, MAX_SNIPPET_LENGTH),
+      publishedDate: work.year ? `${work.year}-01-01` : undefined,
+      author: work.authors.slice(0, 3).join(', ') || undefined,
+    }));
+    return { results };
+  } catch (error) {
+    log.warn(`OpenAlex search failed, trying CrossRef`, { error });
+  }
+
+  const works = await searchCrossRefWorks(query, numResults, options);
+  return {
+    results: works
+      .filter((work) => work.title && work.url)
+      .map((work) => ({
+        title: work.title!,
+        url: work.url!,
+        snippet: (work.abstract || '').substring(0, MAX_SNIPPET_LENGTH),
+        publishedDate: work.year ? `${work.year}-01-01` : undefined,
+        author: work.authors?.slice(0, 3).join(', ') || undefined,
+      })),
+  };
+}
+
+/**
+ * OpenAlex/CrossRef as a search provider (academic only)
+ */
+export const scholarlyProvider: SearchProvider = {
+  name: 'scholarly',
+  isConfigured: () => true,
+  academic: searchScholarly,
+};
+
+export default scholarlyProvider;
@@ -0,0 +1,190 @@
+/**
+ * Search Provider Service
+ * Single entry point for every evidence search
+ *
+ * Callers (pipeline, evidence, perspectives, fact grounding, expert panel)
+ * ask for an operation - news, academic, expertCommentary, factCheck - and
+ * this service runs it on every provider configured for that operation:
+ *
+ *   SEARCH_PROVIDERS=exa,scholarly          default for all operations
+ *   SEARCH_PROVIDERS_ACADEMIC=scholarly     per-operation override
+ *
+ * Providers run in parallel; results are interleaved in provider order and
+ * deduped by URL. A provider that fails is skipped unless all of them fail.
+ */
+
+import { config } from '../config';
+import { SearchOperation, SearchOptions, SearchProvider, SearchProviderConfig, SearchResponse, SearchResult } from '../types/search';
+import { exaProvider } from './exa';
+import { localCorpusProvider } from './localCorpus';
+import { scholarlyProvider } from './scholarlySearch';
+import { isPublishedWithin } from './timeframe';
+import { createLogger } from './logger';
+import { searchRequests } from './metrics';
+
+const log = createLogger('Search');
+
+export type { SearchOperation, SearchOptions, SearchProvider, SearchResponse, SearchResult } from '../types/search';
+
+// ═══════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════
+
+const providers = new Map<string, SearchProvider>(
+  [exaProvider, localCorpusProvider, scholarlyProvider].map((p) => [p.name, p])
+);
+
+let providerConfig: SearchProviderConfig = config.searchProviders;
+
+/**
+ * Register an additional provider (or replace one with the same name)
+ */
+export function registerSearchProvider(provider: SearchProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Override the provider configuration (tests, programmatic setups)
+ * Pass null to restore the environment configuration.
+ */
+export function configureSearchProviders(override: SearchProviderConfig | null): void {
+  providerConfig = override || config.searchProviders;
+}
+
+/**
+ * Get the configured, usable providers for an operation, in priority order
+ */
+export function getSearchProviders(operation: SearchOperation): SearchProvider[] {
+  const names = providerConfig[operation] || providerConfig.default;
+
+  return names
+    .map((name) => {
+      const provider = providers.get(name);
+      if (!provider) {
+        log.warn(`Unknown search provider "${name}" in configuration`);
+      }
+      return provider;
+    })
+    .filter((p): p is SearchProvider => !!p && !!p[operation] && p.isConfigured());
+}
+
+/**
+ * Check whether any provider can serve an operation
+ */
+export function isSearchAvailable(operation: SearchOperation = 'academic'): boolean {
+  return getSearchProviders(operation).length > 0;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// COMBINING RESULTS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Interleave ranked result lists (first of each, then second of each...)
+ * and drop repeated URLs
+ */
+export function mergeResults(lists: SearchResult[][], numResults: number): SearchResult[] {
+  const merged: SearchResult[] = [];
+  const seenUrls = new Set<string>();
+  const longest = Math.max(0, ...lists.map((l) => l.length));
+
+  for (let rank = 0; rank < longest && merged.length < numResults; rank++) {
+    for (const list of lists) {
+      const result = list[rank];
+      if (!result || seenUrls.has(result.url)) continue;
+      seenUrls.add(result.url);
+      merged.push(result);
+      if (merged.length >= numResults) break;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Run an operation on every configured provider and combine the results
+ * Date bounds are passed to each provider and enforced again here, for
+ * providers that cannot filter by date themselves.
+ */
+export async function search(
+  operation: SearchOperation,
+  query: string,
+  numResults: number,
+  options: SearchOptions = {}
+): Promise<SearchResponse> {
+  const active = getSearchProviders(operation);
+  if (active.length === 0) {
+    throw new Error(`No search provider configured for ${operation} search`);
+  }
+
+  const settled = await Promise.allSettled(
+    active.map(async (provider) => {
+      const response = await provider[operation]!(query, numResults, options);
+      return response.results
+        .filter((r) => isPublishedWithin(r.publishedDate, options))
+        .map((r) => ({ ...r, provider: provider.name }));
+    })
+  );
+
+  const lists: SearchResult[][] = [];
+  const errors: Error[] = [];
+  settled.forEach((outcome, i) => {
+    const labels = { provider: active[i].name, operation };
+    if (outcome.status === 'fulfilled') {
+      lists.push(outcome.value);
+      searchRequests.inc({ ...labels, outcome: 'success' });
+    } else {
+      errors.push(outcome.reason as Error);
+      searchRequests.inc({ ...labels, outcome: 'failure' });
+      log.warn(`${active[i].name} ${operation} search failed`, { error: outcome.reason });
+    }
+  });
+
+  if (lists.length === 0) {
+    throw errors[0];
+  }
+
+  return { results: mergeResults(lists, numResults) };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// OPERATIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Search for news articles on a topic
+ */
+export function searchNews(topic: string, numResults: number = 10, options: SearchOptions = {}): Promise<SearchResponse> {
+  return search('news', topic, numResults, options);
+}
+
+/**
+ * Search for academic/research papers on a topic
+ */
+export function searchAcademic(topic: string, numResults: number = 10, options: SearchOptions = {}): Promise<SearchResponse> {
+  return search('academic', topic, numResults, options);
+}
+
+/**
+ * Search for expert commentary (news, interviews) on a topic
+ */
+export function searchExpertCommentary(topic: string, numResults: number = 10, options: SearchOptions = {}): Promise<SearchResponse> {
+  return search('expertCommentary', topic, numResults, options);
+}
+
+/**
+ * Search for fact verification - current info about entities/claims
+ */
+export function searchFactCheck(query: string, numResults: number = 5, options: SearchOptions = {}): Promise<SearchResponse> {
+  return search('factCheck', query, numResults, options);
+}
+
+export default {
+  search,
+  searchNews,
+  searchAcademic,
+  searchExpertCommentary,
+  searchFactCheck,
+  isSearchAvailable,
+  getSearchProviders,
+};
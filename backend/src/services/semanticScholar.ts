@@ -0,0 +1,368 @@
+/**
+ * Semantic Scholar Service
+ * Resolves people cited in articles to academic author profiles
+ *
+ * Reference: EXPERT_EVALUATION_SPEC.md Part 7
+ *
+ * Fills ExpertQualityIndicators (hIndex, citations, publication counts)
+ * so getExpertQualityTier can rank experts on real citation metrics
+ * instead of title/affiliation heuristics alone.
+ *
+ * The HTTP client can be swapped for a fixture-backed client, used by
+ * tests and by offline development (SEMANTIC_SCHOLAR_FIXTURES=path.json).
+ */
+
+import * as fs from 'fs';
+import * as cache from './cache';
+import { Domain } from '../types/claims';
+import { PersonMention, AcademicAuthorResult, ExpertQualityIndicators } from '../types/expert';
+import { getDomainConfig } from './domainRouter';
+import { createLogger } from './logger';
+
+const log = createLogger('SemanticScholar');
+
+const S2_API_BASE = 'https://api.semanticscholar.org/graph/v1';
+const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days - author metrics move slowly
+const NEGATIVE_CACHE_TTL_SECONDS = 24 * 60 * 60; // 1 day
+const CACHE_KEY_PREFIX = 's2author:';
+
+const SEARCH_LIMIT = 10;
+const PAPERS_LIMIT = 100;
+const RECENT_YEARS = 5;
+
+// Optional API key (raises the shared unauthenticated rate limit)
+const S2_API_KEY = process.env.SEMANTIC_SCHOLAR_API_KEY;
+
+// Optional fixture file - serves lookups from disk instead of the API
+const S2_FIXTURES_PATH = process.env.SEMANTIC_SCHOLAR_FIXTURES;
+
+// ═══════════════════════════════════════════════════════════════
+// CLIENT
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Author record as returned by the author search endpoint
+ */
+export interface S2Author {
+  authorId: string;
+  name: string;
+  affiliations?: string[];
+  homepage?: string;
+  paperCount?: number;
+  citationCount?: number;
+  hIndex?: number;
+}
+
+/**
+ * Paper record as returned by the author papers endpoint
+ */
+export interface S2Paper {
+  title: string;
+  year?: number;
+  citationCount?: number;
+  venue?: string;
+}
+
+/**
+ * Minimal Semantic Scholar API surface used by this service
+ */
+export interface SemanticScholarClient {
+  searchAuthors(name: string, limit: number): Promise<S2Author[]>;
+  getAuthorPapers(authorId: string, limit: number): Promise<S2Paper[]>;
+}
+
+/**
+ * Fixture file format for the offline client
+ */
+export interface SemanticScholarFixtures {
+  authors: S2Author[];
+  papers: Record<string, S2Paper[]>;
+}
+
+async function requestJson<T>(path: string): Promise<T> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (S2_API_KEY) {
+    headers['x-api-key'] = S2_API_KEY;
+  }
+
+  const response = await fetch(`${S2_API_BASE}${path}`, { headers });
+  if (!response.ok) {
+    throw new Error(`Semantic Scholar API error: ${response.status} ${response.statusText}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Client backed by the public Semantic Scholar Graph API
+ */
+export const httpClient: SemanticScholarClient = {
+  async searchAuthors(name, limit) {
+    const fields = 'name,affiliations,homepage,paperCount,citationCount,hIndex';
+    const data = await requestJson<{ data?: S2Author[] }>(
+      `/author/search?query=${encodeURIComponent(name)}&fields=${fields}&limit=${limit}`
+    );
+    return data.data || [];
+  },
+
+  async getAuthorPapers(authorId, limit) {
+    const fields = 'title,year,citationCount,venue';
+    const data = await requestJson<{ data?: S2Paper[] }>(
+      `/author/${encodeURIComponent(authorId)}/papers?fields=${fields}&limit=${limit}`
+    );
+    return data.data || [];
+  },
+};
+
+/**
+ * Client that answers from fixture data - no network access
+ */
+export function createFixtureClient(fixtures: SemanticScholarFixtures): SemanticScholarClient {
+  return {
+    async searchAuthors(name, limit) {
+      const queryTokens = nameTokens(name);
+      return fixtures.authors
+        .filter((a) => {
+          const tokens = nameTokens(a.name);
+          return queryTokens.every((t) => tokens.includes(t));
+        })
+        .slice(0, limit);
+    },
+
+    async getAuthorPapers(authorId, limit) {
+      return (fixtures.papers[authorId] || []).slice(0, limit);
+    },
+  };
+}
+
+function createDefaultClient(): SemanticScholarClient {
+  if (S2_FIXTURES_PATH) {
+    log.info(`Using fixtures from ${S2_FIXTURES_PATH}`);
+    const fixtures = JSON.parse(fs.readFileSync(S2_FIXTURES_PATH, 'utf8')) as SemanticScholarFixtures;
+    return createFixtureClient(fixtures);
+  }
+  return httpClient;
+}
+
+let client: SemanticScholarClient | null = null;
+
+function getClient(): SemanticScholarClient {
+  if (!client) {
+    client = createDefaultClient();
+  }
+  return client;
+}
+
+/**
+ * Replace the client (tests, offline runs). Pass null to restore the default.
+ */
+export function setClient(newClient: SemanticScholarClient | null): void {
+  client = newClient;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// NAME & AFFILIATION MATCHING
+// ═══════════════════════════════════════════════════════════════
+
+const HONORIFICS = new Set(['dr', 'prof', 'professor', 'mr', 'mrs', 'ms', 'phd', 'md', 'jr', 'sr']);
+const AFFILIATION_STOPWORDS = new Set(['university', 'of', 'the', 'at', 'and', 'institute', 'college', 'school', 'department', 'dept']);
+
+/**
+ * Lowercase, accent-free name tokens without honorifics
+ */
+function nameTokens(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter((t) => t.length > 0 && !HONORIFICS.has(t));
+}
+
+/**
+ * Check whether an author record's name refers to the mentioned person
+ * Requires the same family name and a compatible first name or initial.
+ */
+export function namesMatch(mentionName: string, authorName: string): boolean {
+  const mention = nameTokens(mentionName);
+  const author = nameTokens(authorName);
+  if (mention.length === 0 || author.length === 0) return false;
+
+  if (mention[mention.length - 1] !== author[author.length - 1]) return false;
+  if (mention.length === 1 || author.length === 1) return true;
+
+  const [m, a] = [mention[0], author[0]];
+  return m === a || (m.length === 1 && a.startsWith(m)) || (a.length === 1 && m.startsWith(a));
+}
+
+/**
+ * Distinctive words of an affiliation ("MIT", "stanford", "economics")
+ */
+function affiliationTokens(affiliation: string): string[] {
+  return affiliation
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((t) => t.length > 1 && !AFFILIATION_STOPWORDS.has(t));
+}
+
+/**
+ * Check whether any of an author's affiliations overlaps the mentioned one
+ */
+export function affiliationsMatch(mentionAffiliation: string, authorAffiliations: string[]): boolean {
+  const wanted = new Set(affiliationTokens(mentionAffiliation));
+  if (wanted.size === 0) return false;
+  return authorAffiliations.some((aff) => affiliationTokens(aff).some((t) => wanted.has(t)));
+}
+
+/**
+ * Pick the author a mention refers to, or null if none or ambiguous
+ *
+ * 1. Keep candidates whose name matches
+ * 2. If the mention has an affiliation, prefer candidates sharing it
+ * 3. A single remaining candidate is a match; several are ambiguous
+ */
+export function selectAuthor(person: PersonMention, candidates: S2Author[]): S2Author | null {
+  const byName = candidates.filter((c) => namesMatch(person.name, c.name));
+  if (byName.length === 0) return null;
+
+  if (person.affiliation) {
+    const byAffiliation = byName.filter((c) =>
+      affiliationsMatch(person.affiliation!, c.affiliations || [])
+    );
+    if (byAffiliation.length === 1) return byAffiliation[0];
+    if (byAffiliation.length > 1) {
+      // Same name at the same place - take the most established profile
+      return byAffiliation.reduce((best, c) =>
+        (c.citationCount || 0) > (best.citationCount || 0) ? c : best
+      );
+    }
+  }
+
+  return byName.length === 1 ? byName[0] : null;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LOOKUP
+// ═══════════════════════════════════════════════════════════════
+
+function getCacheKey(person: PersonMention): string {
+  const name = nameTokens(person.name).join(' ');
+  const affiliation = person.affiliation ? affiliationTokens(person.affiliation).join(' ') : '';
+  return `${CACHE_KEY_PREFIX}${name}|${affiliation}`;
+}
+
+/**
+ * Resolve a person mentioned in an article to a Semantic Scholar author
+ * @param person - Name (required) and affiliation (used to disambiguate)
+ * @returns The author with top papers, or null if not found or ambiguous
+ */
+export async function lookupAuthor(person: PersonMention): Promise<AcademicAuthorResult | null> {
+  if (nameTokens(person.name).length < 2) {
+    // A bare surname is too ambiguous to resolve
+    return null;
+  }
+
+  const cacheKey = getCacheKey(person);
+  const cached = await cache.get<{ author: AcademicAuthorResult | null }>(cacheKey);
+  if (cached !== null) {
+    log.info(`Cache hit for author: ${person.name}`);
+    return cached.author;
+  }
+
+  log.info(`Looking up author: ${person.name}`);
+
+  try {
+    const candidates = await getClient().searchAuthors(person.name, SEARCH_LIMIT);
+    const match = selectAuthor(person, candidates);
+
+    if (!match) {
+      await cache.set(cacheKey, { author: null }, NEGATIVE_CACHE_TTL_SECONDS);
+      log.info(`No unambiguous author for: ${person.name} (${candidates.length} candidates)`);
+      return null;
+    }
+
+    const papers = await getClient().getAuthorPapers(match.authorId, PAPERS_LIMIT);
+    const author: AcademicAuthorResult = {
+      authorId: match.authorId,
+      name: match.name,
+      affiliations: match.affiliations || [],
+      homepage: match.homepage,
+      paperCount: match.paperCount ?? papers.length,
+      citationCount: match.citationCount ?? 0,
+      hIndex: match.hIndex ?? 0,
+      topPapers: papers
+        .filter((p) => p.title)
+        .map((p) => ({
+          title: p.title,
+          year: p.year ?? 0,
+          citationCount: p.citationCount ?? 0,
+          venue: p.venue || undefined,
+        })),
+    };
+
+    await cache.set(cacheKey, { author }, CACHE_TTL_SECONDS);
+    return author;
+  } catch (error) {
+    // Rate limits and network errors may be temporary - don't cache
+    log.warn(`Lookup failed for ${person.name}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Check whether a paper title or venue falls within a domain
+ */
+function isRelevantPaper(paper: { title: string; venue?: string }, domain: Domain): boolean {
+  const config = getDomainConfig(domain);
+  const keywords = [
+    ...config.aliases,
+    ...config.expertIdentification.relevantDepartments,
+  ].map((k) => k.toLowerCase());
+  const text = `${paper.title} ${paper.venue || ''}`.toLowerCase();
+  return keywords.some((k) => text.includes(k));
+}
+
+/**
+ * Convert an author profile into expert quality indicators
+ * @param domain - When given, relevantPublicationCount counts only papers in this domain
+ */
+export function toQualityIndicators(
+  author: AcademicAuthorResult,
+  domain?: Domain
+): ExpertQualityIndicators {
+  const currentYear = new Date().getFullYear();
+  const papers = author.topPapers || [];
+  const years = papers.map((p) => p.year).filter((y) => y > 0);
+
+  const relevantPublicationCount = domain && domain !== 'general'
+    ? papers.filter((p) => isRelevantPaper(p, domain)).length
+    : author.paperCount;
+
+  return {
+    hIndex: author.hIndex,
+    totalCitations: author.citationCount,
+    relevantPublicationCount,
+    recentPublications: papers.filter((p) => p.year >= currentYear - RECENT_YEARS).length,
+    yearsInField: years.length > 0 ? currentYear - Math.min(...years) : undefined,
+  };
+}
+
+/**
+ * Look up a person and return their quality indicators
+ * @returns Indicators, or null if the person could not be resolved
+ */
+export async function getQualityIndicators(
+  person: PersonMention,
+  domain?: Domain
+): Promise<ExpertQualityIndicators | null> {
+  const author = await lookupAuthor(person);
+  return author ? toQualityIndicators(author, domain) : null;
+}
+
+export default {
+  lookupAuthor,
+  getQualityIndicators,
+  toQualityIndicators,
+  setClient,
+};
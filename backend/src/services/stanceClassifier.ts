@@ -0,0 +1,212 @@
+/**
+ * Stance Classifier Service
+ * Decides whether each piece of evidence supports or opposes a claim
+ *
+ * Reference: EXPERT_EVALUATION_SPEC.md Part 6
+ *
+ * Evidence direction drives the weighted support ratio and therefore the
+ * final ConsensusLevel, so it must be judged against the CLAIM, not just
+ * the wording of the snippet. This service:
+ * 1. Sends all snippets for a claim to the LLM in a single batched call
+ * 2. Records a confidence and short rationale for every DirectedEvidence
+ * 3. Falls back to regex heuristics when the LLM is unavailable,
+ *    over budget, or returns an unusable response
+ */
+
+import { DirectedEvidence, EvidenceDirection, StanceMethod } from '../types/consensus';
+import { isOverBudget } from './costTracker';
+import { isLLMConfigured } from './llmProvider';
+import { openaiService } from './openai';
+import { createLogger } from './logger';
+
+const log = createLogger('StanceClassifier');
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Stance of a single snippet toward a claim
+ */
+export interface StanceClassification {
+  direction: EvidenceDirection;
+  confidence: number;
+  rationale: string;
+  method: StanceMethod;
+  /** Model that classified the snippet (method 'llm') */
+  model?: string;
+}
+
+/**
+ * Maximum characters of each snippet sent to the LLM
+ */
+const MAX_SNIPPET_LENGTH = 400;
+
+const VALID_DIRECTIONS: EvidenceDirection[] = ['supports', 'opposes', 'mixed', 'neutral'];
+
+// ═══════════════════════════════════════════════════════════════
+// HEURISTIC FALLBACK
+// ═══════════════════════════════════════════════════════════════
+
+// Look for mixed/debate patterns
+const MIXED_PATTERNS: RegExp[] = [
+  /\b(mixed (results|evidence|findings))\b/,
+  /\b(debate|contested|controversial)\b/,
+  /\b(some (studies|research) (show|find).*while (other|some))\b/,
+];
+
+// Look for negation patterns
+const NEGATION_PATTERNS: RegExp[] = [
+  /\b(no evidence|not support|does not|did not|failed to|insufficient|inconclusive)\b/,
+  /\b(contrary to|refute|disprove|reject|oppose)\b/,
+  /\b(no (significant |meaningful )?(effect|difference|impact|relationship))\b/,
+];
+
+// Look for support patterns
+const SUPPORT_PATTERNS: RegExp[] = [
+  /\b(evidence (supports|shows|indicates|demonstrates))\b/,
+  /\b(found (that|a)|showed (that|a)|demonstrated)\b/,
+  /\b(significant (effect|difference|impact|relationship))\b/,
+  /\b(consistent with|confirms|supports)\b/,
+];
+
+/**
+ * Heuristic confidence - regex matches are a weak signal at best
+ */
+const HEURISTIC_MATCH_CONFIDENCE = 0.3;
+const HEURISTIC_DEFAULT_CONFIDENCE = 0.1;
+
+/**
+ * Determine evidence direction from snippet wording alone
+ * Ignores the claim - used only when LLM classification is unavailable
+ */
+export function classifyStanceHeuristically(snippet: string): StanceClassification {
+  const lowerSnippet = snippet.toLowerCase();
+
+  if (MIXED_PATTERNS.some((pattern) => pattern.test(lowerSnippet))) {
+    return {
+      direction: 'mixed',
+      confidence: HEURISTIC_MATCH_CONFIDENCE,
+      rationale: 'Snippet wording suggests mixed or debated findings',
+      method: 'heuristic',
+    };
+  }
+
+  if (NEGATION_PATTERNS.some((pattern) => pattern.test(lowerSnippet))) {
+    return {
+      direction: 'opposes',
+      confidence: HEURISTIC_MATCH_CONFIDENCE,
+      rationale: 'Snippet wording suggests null or negative findings',
+      method: 'heuristic',
+    };
+  }
+
+  if (SUPPORT_PATTERNS.some((pattern) => pattern.test(lowerSnippet))) {
+    return {
+      direction: 'supports',
+      confidence: HEURISTIC_MATCH_CONFIDENCE,
+      rationale: 'Snippet wording suggests positive findings',
+      method: 'heuristic',
+    };
+  }
+
+  return {
+    direction: 'neutral',
+    confidence: HEURISTIC_DEFAULT_CONFIDENCE,
+    rationale: 'No directional language found in snippet',
+    method: 'heuristic',
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// LLM CLASSIFICATION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Check whether LLM stance classification can run right now
+ */
+export function isLLMStanceAvailable(): boolean {
+  return isLLMConfigured() && !isOverBudget();
+}
+
+/**
+ * Apply a stance classification to a piece of evidence
+ */
+function applyStance(evidence: DirectedEvidence, stance: StanceClassification): DirectedEvidence {
+  return {
+    ...evidence,
+    direction: stance.direction,
+    directionConfidence: stance.confidence,
+    directionRationale: stance.rationale,
+    directionMethod: stance.method,
+    ...(stance.model && { directionModel: stance.model }),
+  };
+}
+
+/**
+ * Classify the stance of every evidence item toward a claim
+ *
+ * Uses one batched LLM call per claim. Items the LLM does not return
+ * (or returns invalid values for) fall back to heuristics individually;
+ * if the call fails entirely, all items fall back.
+ *
+ * @param claimText - The claim the evidence is judged against
+ * @param evidence - Evidence for that claim
+ * @returns Evidence with direction, confidence and rationale filled in
+ */
+export async function classifyEvidenceStances(
+  claimText: string,
+  evidence: DirectedEvidence[]
+): Promise<DirectedEvidence[]> {
+  if (evidence.length === 0) {
+    return evidence;
+  }
+
+  const heuristic = (e: DirectedEvidence) =>
+    applyStance(e, classifyStanceHeuristically(e.keyFinding));
+
+  if (!isLLMStanceAvailable()) {
+    return evidence.map(heuristic);
+  }
+
+  try {
+    const response = await openaiService.classifyEvidenceStance(
+      claimText,
+      evidence.map((e) => ({
+        title: e.citation.title,
+        text: e.keyFinding.substring(0, MAX_SNIPPET_LENGTH),
+      }))
+    );
+
+    const byIndex = new Map<number, StanceClassification>();
+    for (const stance of response.stances) {
+      if (
+        typeof stance?.index !== 'number' ||
+        !VALID_DIRECTIONS.includes(stance.direction)
+      ) {
+        continue;
+      }
+      byIndex.set(stance.index, {
+        direction: stance.direction,
+        confidence: Math.min(1, Math.max(0, Number(stance.confidence) || 0.5)),
+        rationale: stance.rationale || '',
+        method: 'llm',
+        model: response.model,
+      });
+    }
+
+    if (byIndex.size < evidence.length) {
+      log.warn(
+        `LLM classified ${byIndex.size}/${evidence.length} snippets, using heuristics for the rest`
+      );
+    }
+
+    return evidence.map((e, i) => {
+      const stance = byIndex.get(i);
+      return stance ? applyStance(e, stance) : heuristic(e);
+    });
+  } catch (error) {
+    log.warn('LLM stance classification failed, using heuristics', { error });
+    return evidence.map(heuristic);
+  }
+}
@@ -0,0 +1,501 @@
+/**
+ * Timeframe Service
+ * Resolves the time a claim is about against the article's publish date
+ *
+ * A claim that "unemployment fell last year" is about 2023 in an article
+ * published in 2024, and "the current secretary" is whoever held the post
+ * on the publish date - not on the day we analyze it. This service finds
+ * time expressions in a claim, turns them into date ranges, rewrites the
+ * relative ones as dates for searching ("fell in 2023"), and works out the
+ * publish dates of evidence that can speak to the claim.
+ */
+
+import { Article } from '../types/claims';
+import { DirectedEvidence } from '../types/consensus';
+import { SearchOptions } from '../types/search';
+import { ClaimTimeframe, ResolvedTimeExpression, TimeExpressionKind } from '../types/timeframe';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const QUARTER_WORDS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4 };
+
+/**
+ * Present-state claims are checked against evidence from the year before
+ * the reference date
+ */
+const PRESENT_LOOKBACK_YEARS = 1;
+
+// ═══════════════════════════════════════════════════════════════
+// DATES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * A calendar day as YYYY-MM-DD (UTC)
+ */
+export function toIsoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function utc(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return utc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+}
+
+function addMonths(date: Date, months: number): Date {
+  // Clamp the day so Mar 31 minus a month is Feb 28/29, not Mar 2/3
+  const target = utc(date.getUTCFullYear(), date.getUTCMonth() + months, 1);
+  const lastDay = utc(target.getUTCFullYear(), target.getUTCMonth() + 1, 0).getUTCDate();
+  return utc(target.getUTCFullYear(), target.getUTCMonth(), Math.min(date.getUTCDate(), lastDay));
+}
+
+function yearRange(year: number): [Date, Date] {
+  return [utc(year, 0, 1), utc(year, 11, 31)];
+}
+
+function monthRange(year: number, month: number): [Date, Date] {
+  return [utc(year, month, 1), utc(year, month + 1, 0)];
+}
+
+function quarterRange(year: number, quarter: number): [Date, Date] {
+  return [utc(year, (quarter - 1) * 3, 1), utc(year, quarter * 3, 0)];
+}
+
+/**
+ * Monday-to-Sunday week containing a date
+ */
+function weekRange(date: Date): [Date, Date] {
+  const monday = addDays(date, -((date.getUTCDay() + 6) % 7));
+  return [monday, addDays(monday, 6)];
+}
+
+/**
+ * "March 2024"
+ */
+export function formatMonth(date: Date): string {
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+}
+
+function formatDay(date: Date): string {
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+}
+
+/**
+ * The date an article's claims are read against: its publish date, or
+ * now when it has none (or an unparseable one)
+ */
+export function getReferenceDate(
+  article: Pick<Article, 'publishedAt'>,
+  now: Date = new Date()
+): { date: Date; source: ClaimTimeframe['referenceDateSource'] } {
+  const published = article.publishedAt ? new Date(article.publishedAt) : null;
+  if (published && !isNaN(published.getTime())) {
+    return { date: utc(published.getUTCFullYear(), published.getUTCMonth(), published.getUTCDate()), source: 'published' };
+  }
+  return { date: utc(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()), source: 'analysis' };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EXPRESSIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * How a resolved expression is written back into the claim
+ * - point: a single period ("2023"); gets "in"/"on" unless a preposition precedes it
+ * - phrase: replaces the whole expression as is ("between March 2022 and March 2024")
+ * - none: left as written
+ */
+type Rewrite =
+  | { style: 'point'; label: string; preposition: 'in' | 'on' }
+  | { style: 'phrase'; label: string }
+  | { style: 'none' };
+
+interface ExpressionMatch {
+  index: number;
+  length: number;
+  kind: TimeExpressionKind;
+  range: [Date, Date];
+  rewrite: Rewrite;
+}
+
+type ExpressionRule = {
+  pattern: RegExp;
+  /** Capture group that is the expression itself, when the pattern needs context around it */
+  spanGroup?: number;
+  resolve: (match: RegExpExecArray, reference: Date) => Omit<ExpressionMatch, 'index' | 'length'> | null;
+};
+
+const MONTH_NAMES = MONTHS.join('|');
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+function parseCount(word: string | undefined): number {
+  if (!word) return 1;
+  return NUMBER_WORDS[word.toLowerCase()] ?? parseInt(word, 10);
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex((m) => m.toLowerCase() === name.toLowerCase());
+}
+
+function point(range: [Date, Date], label: string, kind: TimeExpressionKind = 'relative', preposition: 'in' | 'on' = 'in') {
+  return { kind, range, rewrite: { style: 'point' as const, label, preposition } };
+}
+
+/**
+ * Expressions in priority order; text matched by an earlier rule is not
+ * matched again ("in the last year" is a rolling year, not "last year")
+ */
+const EXPRESSION_RULES: ExpressionRule[] = [
+  // Rolling windows: "in the past two years", "over the last decade"
+  {
+    pattern: new RegExp(`\\b(?:(?:in|over|during|within|for)\\s+)?the\\s+(?:last|past|previous)\\s+(?:${COUNT}\\s+)?(years?|months?|weeks?|days?|decades?)\\b`, 'gi'),
+    resolve: (m, reference) => {
+      const count = parseCount(m[1]);
+      const unit = m[2].toLowerCase().replace(/s$/, '');
+      const start = unit === 'decade' ? addMonths(reference, -120 * count)
+        : unit === 'year' ? addMonths(reference, -12 * count)
+        : unit === 'month' ? addMonths(reference, -count)
+        : addDays(reference, -(unit === 'week' ? 7 : 1) * count);
+      const format = unit === 'year' || unit === 'decade' ? formatMonth : formatDay;
+      return {
+        kind: 'relative',
+        range: [start, reference],
+        rewrite: { style: 'phrase', label: `between ${format(start)} and ${format(reference)}` },
+      };
+    },
+  },
+  // "two years ago", "three months ago"
+  {
+    pattern: new RegExp(`\\b${COUNT}\\s+(years?|months?|weeks?|days?)\\s+ago\\b`, 'gi'),
+    resolve: (m, reference) => {
+      const count = parseCount(m[1]);
+      const unit = m[2].toLowerCase().replace(/s$/, '');
+      if (unit === 'year') {
+        const year = reference.getUTCFullYear() - count;
+        return point(yearRange(year), String(year));
+      }
+      if (unit === 'month') {
+        const month = addMonths(reference, -count);
+        return point(monthRange(month.getUTCFullYear(), month.getUTCMonth()), formatMonth(month));
+      }
+      const day = addDays(reference, -(unit === 'week' ? 7 : 1) * count);
+      return unit === 'week'
+        ? point(weekRange(day), `the week of ${formatDay(weekRange(day)[0])}`)
+        : point([day, day], formatDay(day), 'relative', 'on');
+    },
+  },
+  // "last year", "this month", "next quarter"
+  {
+    pattern: /\b(last|this|next)\s+(year|month|week|quarter)\b/gi,
+    resolve: (m, reference) => {
+      const offset = { last: -1, this: 0, next: 1 }[m[1].toLowerCase() as 'last' | 'this' | 'next'];
+      const unit = m[2].toLowerCase();
+      if (unit === 'year') {
+        const year = reference.getUTCFullYear() + offset;
+        return point(yearRange(year), String(year));
+      }
+      if (unit === 'month') {
+        const month = addMonths(reference, offset);
+        return point(monthRange(month.getUTCFullYear(), month.getUTCMonth()), formatMonth(month));
+      }
+      if (unit === 'week') {
+        const week = weekRange(addDays(reference, 7 * offset));
+        return point(week, `the week of ${formatDay(week[0])}`);
+      }
+      const quarters = reference.getUTCFullYear() * 4 + Math.floor(reference.getUTCMonth() / 3) + offset;
+      const year = Math.floor(quarters / 4);
+      const quarter = (quarters % 4) + 1;
+      return point(quarterRange(year, quarter), `Q${quarter} ${year}`);
+    },
+  },
+  // "yesterday", "tomorrow"
+  {
+    pattern: /\b(yesterday|tomorrow)\b/gi,
+    resolve: (m, reference) => {
+      const day = addDays(reference, m[1].toLowerCase() === 'yesterday' ? -1 : 1);
+      return point([day, day], formatDay(day), 'relative', 'on');
+    },
+  },
+  // "Q2 2023", "the second quarter of 2023"
+  {
+    pattern: /\b(?:Q([1-4])|(first|second|third|fourth)\s+quarter\s+(?:of\s+)?)\s*((?:19|20)\d{2})\b/gi,
+    resolve: (m) => {
+      const quarter = m[1] ? Number(m[1]) : QUARTER_WORDS[m[2].toLowerCase()];
+      return point(quarterRange(Number(m[3]), quarter), `Q${quarter} ${m[3]}`, 'absolute');
+    },
+  },
+  // "March 2023", "March of 2023"
+  {
+    pattern: new RegExp(`\\b(${MONTH_NAMES})\\s+(?:of\\s+)?((?:19|20)\\d{2})\\b`, 'g'),
+    resolve: (m) => point(monthRange(Number(m[2]), monthIndex(m[1])), `${m[1]} ${m[2]}`, 'absolute'),
+  },
+  // A month without a year: the latest one up to the reference date
+  // ("in March", "last March"); needs a preposition, since "May" is also a verb
+  {
+    pattern: new RegExp(`\\b(in|since|by|until|through|during|early|late|last)\\s+(${MONTH_NAMES})\\b(?!\\s+\\d)`, 'g'),
+    resolve: (m, reference) => {
+      const month = monthIndex(m[2]);
+      const last = m[1].toLowerCase() === 'last';
+      const current = reference.getUTCMonth();
+      const year = reference.getUTCFullYear() - (month > current || (last && month === current) ? 1 : 0);
+      const label = `${m[2]} ${year}`;
+      return {
+        kind: 'relative',
+        range: monthRange(year, month),
+        // Keep the preposition ("in March" -> "in March 2023"), drop "last"
+        rewrite: { style: 'phrase', label: last ? `in ${label}` : `${m[1]} ${label}` },
+      };
+    },
+  },
+  // "the 1990s"
+  {
+    pattern: /\b((?:19|20)\d)0s\b/g,
+    resolve: (m) => {
+      const start = Number(`${m[1]}0`);
+      return point([yearRange(start)[0], yearRange(start + 9)[1]], `${start}s`, 'absolute');
+    },
+  },
+  // A year after a preposition ("in 2019", "since 2019", "between 2019 and 2021")
+  {
+    pattern: /\b(?:in|during|of|for|from|until|through|by|to|and|between|since)\s+((?:19|20)\d{2})\b(?![,.]?\d)/gi,
+    spanGroup: 1,
+    resolve: (m) => point(yearRange(Number(m[1])), m[1], 'absolute'),
+  },
+  // The state at the reference date
+  {
+    pattern: /\b(currently|presently|at present|at the moment|right now|as of now|as of today|today(?!['’]s)|nowadays|now(?!\s+that))\b/gi,
+    resolve: (_m, reference) => ({
+      kind: 'present',
+      range: [reference, reference],
+      rewrite: { style: 'phrase', label: `as of ${formatMonth(reference)}` },
+    }),
+  },
+  {
+    pattern: /\b(current|incumbent|sitting|present-day|today['’]s)(?!\w)/gi,
+    resolve: (_m, reference) => ({ kind: 'present', range: [reference, reference], rewrite: { style: 'none' } }),
+  },
+];
+
+const PRECEDING_PREPOSITION = /\b(in|on|since|by|until|till|from|through|during|of|for|to|before|after|than|between|and|around)\s+$/i;
+
+/**
+ * Find every time expression in a text, earliest first
+ */
+function findExpressions(text: string, reference: Date): ExpressionMatch[] {
+  const found: ExpressionMatch[] = [];
+  const overlaps = (index: number, length: number) =>
+    found.some((f) => index < f.index + f.length && f.index < index + length);
+
+  for (const rule of EXPRESSION_RULES) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(text)) !== null) {
+      const span = rule.spanGroup ? match[rule.spanGroup] : match[0];
+      const index = match.index + match[0].lastIndexOf(span);
+      const length = span.length;
+      if (overlaps(index, length)) continue;
+
+      const resolved = rule.resolve(match, reference);
+      if (resolved) {
+        found.push({ index, length, ...resolved });
+      }
+    }
+  }
+
+  return found.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Rewrite relative and present expressions as dates
+ */
+function rewriteText(text: string, expressions: ExpressionMatch[], reference: Date): string {
+  let rewritten = text;
+  let presentAdjective = false;
+  let presentRewritten = false;
+
+  // Right to left so earlier indices stay valid
+  for (const expression of [...expressions].reverse()) {
+    const { index, length, rewrite, kind } = expression;
+    if (kind === 'absolute') continue;
+    if (rewrite.style === 'none') {
+      presentAdjective = true;
+      continue;
+    }
+
+    let replacement = rewrite.label;
+    if (rewrite.style === 'point') {
+      const before = rewritten.slice(0, index);
+      const possessive = /^['’]s\b/.test(rewritten.slice(index + length));
+      if (!PRECEDING_PREPOSITION.test(before) && !possessive) {
+        replacement = `${rewrite.preposition} ${replacement}`;
+      }
+    }
+    if (kind === 'present') {
+      presentRewritten = true;
+    }
+    rewritten = rewritten.slice(0, index) + replacement + rewritten.slice(index + length);
+  }
+
+  // "The current secretary..." -> "The current secretary... (as of March 2024)"
+  if (presentAdjective && !presentRewritten) {
+    rewritten = `${rewritten.replace(/[\s.]+$/, '')} (as of ${formatMonth(reference)})`;
+  }
+  return rewritten;
+}
+
+/**
+ * Resolve the time a claim is about
+ *
+ * @param text - The claim
+ * @param reference - The article's publish date (see getReferenceDate)
+ * @returns The timeframe, or null if the claim mentions no time
+ */
+export function resolveTimeframe(
+  text: string,
+  reference: { date: Date; source: ClaimTimeframe['referenceDateSource'] }
+): ClaimTimeframe | null {
+  const matches = findExpressions(text, reference.date);
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const expressions: ResolvedTimeExpression[] = matches.map((m) => ({
+    text: text.slice(m.index, m.index + m.length),
+    kind: m.kind,
+    start: toIsoDay(m.range[0]),
+    end: toIsoDay(m.range[1]),
+  }));
+
+  // "since 2019" runs up to the reference date
+  const since = matches.some((m) => /\bsince\s+$/i.test(text.slice(0, m.index)) || /^since\b/i.test(text.slice(m.index)));
+  const start = expressions.reduce((min, e) => (e.start < min ? e.start : min), expressions[0].start);
+  let end = expressions.reduce((max, e) => (e.end > max ? e.end : max), expressions[0].end);
+  const referenceDay = toIsoDay(reference.date);
+  if (since && end < referenceDay) {
+    end = referenceDay;
+  }
+
+  const timeframe: ClaimTimeframe = {
+    referenceDate: referenceDay,
+    referenceDateSource: reference.source,
+    start,
+    end,
+    expressions,
+    resolvedText: rewriteText(text, matches, reference.date),
+  };
+
+  // Evidence on a prediction can come from before or after; leave it unbounded
+  if (start > referenceDay) {
+    return timeframe;
+  }
+
+  const present = expressions.some((e) => e.kind === 'present');
+  if (present && expressions.every((e) => e.kind === 'present')) {
+    timeframe.evidenceFrom = getPresentSearchOptions(reference.date).startPublishedDate;
+  } else {
+    timeframe.evidenceFrom = start;
+  }
+  // A claim about the present can be overtaken by later events
+  if (present) {
+    timeframe.evidenceUntil = referenceDay;
+  }
+
+  return timeframe;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EVIDENCE WINDOW
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Search bounds for facts as they stood on a date: the year up to it
+ */
+export function getPresentSearchOptions(date: Date): Required<SearchOptions> {
+  return {
+    startPublishedDate: toIsoDay(addMonths(date, -12 * PRESENT_LOOKBACK_YEARS)),
+    endPublishedDate: toIsoDay(date),
+  };
+}
+
+/**
+ * Search bounds for a claim's evidence
+ */
+export function getSearchOptions(timeframe?: ClaimTimeframe): SearchOptions {
+  return {
+    ...(timeframe?.evidenceFrom && { startPublishedDate: timeframe.evidenceFrom }),
+    ...(timeframe?.evidenceUntil && { endPublishedDate: timeframe.evidenceUntil }),
+  };
+}
+
+/**
+ * Whether a publish date falls within search bounds; undated results pass
+ */
+export function isPublishedWithin(publishedDate: string | undefined, options: SearchOptions = {}): boolean {
+  if (!publishedDate) {
+    return true;
+  }
+  const day = publishedDate.slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+    return true;
+  }
+  return (!options.startPublishedDate || day >= options.startPublishedDate)
+    && (!options.endPublishedDate || day <= options.endPublishedDate);
+}
+
+/**
+ * Drop evidence published outside a claim's window
+ * Citations carry only a year, so the window is widened to whole years;
+ * citations with an unknown year (0) are kept.
+ */
+export function filterEvidenceByTimeframe(
+  evidence: DirectedEvidence[],
+  timeframe?: ClaimTimeframe
+): DirectedEvidence[] {
+  if (!timeframe?.evidenceFrom && !timeframe?.evidenceUntil) {
+    return evidence;
+  }
+  const fromYear = timeframe.evidenceFrom ? Number(timeframe.evidenceFrom.slice(0, 4)) : -Infinity;
+  const untilYear = timeframe.evidenceUntil ? Number(timeframe.evidenceUntil.slice(0, 4)) : Infinity;
+
+  return evidence.filter(({ citation }) =>
+    !citation.year || (citation.year >= fromYear && citation.year <= untilYear)
+  );
+}
+
+/**
+ * Resolve the timeframe of each claim against the article's date
+ * Claims that already have one (e.g. from a stored evaluation) keep it.
+ */
+export function annotateTimeframes<T extends { text: string; timeframe?: ClaimTimeframe }>(
+  claims: T[],
+  article: Pick<Article, 'publishedAt'>,
+  now: Date = new Date()
+): T[] {
+  const reference = getReferenceDate(article, now);
+  for (const claim of claims) {
+    if (!claim.timeframe) {
+      const timeframe = resolveTimeframe(claim.text, reference);
+      if (timeframe) {
+        claim.timeframe = timeframe;
+      }
+    }
+  }
+  return claims;
+}
+
+/**
+ * The claim text to search and match with: relative time replaced by dates
+ */
+export function getResolvedClaimText(claim: { text: string; timeframe?: ClaimTimeframe }): string {
+  return claim.timeframe?.resolvedText ?? claim.text;
+}
@@ -0,0 +1,128 @@
+/**
+ * Webhook Service
+ * POSTs job results to caller-registered URLs
+ *
+ * Payloads are JSON. With WEBHOOK_SECRET set, each request carries
+ * X-ClearView-Signature: sha256=<HMAC-SHA256 of the raw body>, so receivers
+ * can check it came from this backend. Network errors, 429 and 5xx answers
+ * are retried with exponential backoff; other 4xx answers are final.
+ *
+ * Receivers must be public addresses (publicHttp.ts): private hosts are
+ * refused when the job is queued and again, pinned to the connected
+ * address, at delivery. Redirects are not followed.
+ */
+
+import { createHmac } from 'crypto';
+import { config } from '../config';
+import { createLogger } from './logger';
+import { isFetchableUrl, requestPublicUrl } from './publicHttp';
+
+const log = createLogger('Webhook');
+
+const USER_AGENT = 'ClearView-News-Webhook/1.0';
+
+export interface WebhookOptions {
+  maxAttempts?: number;
+  timeoutMs?: number;
+  /** Delay before the first retry; doubles each time */
+  backoffMs?: number;
+  secret?: string;
+}
+
+export interface WebhookResult {
+  delivered: boolean;
+  attempts: number;
+  /** HTTP status of the last attempt */
+  responseStatus?: number;
+  error?: string;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<WebhookOptions, 'secret'>> = {
+  maxAttempts: 3,
+  timeoutMs: 10_000,
+  backoffMs: 2_000,
+};
+
+/**
+ * Check that a webhook URL is an http(s) URL on a public-looking host
+ * (the host is resolved and checked again at delivery)
+ */
+export function isValidWebhookUrl(url: unknown): url is string {
+  return isFetchableUrl(url);
+}
+
+/**
+ * Signature header value for a body
+ */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function shouldRetry(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Deliver a payload, retrying transient failures
+ * @param url - Receiver URL
+ * @param event - Event name, sent as X-ClearView-Event
+ * @param payload - JSON body
+ */
+export async function deliverWebhook(
+  url: string,
+  event: string,
+  payload: unknown,
+  options: WebhookOptions = {}
+): Promise<WebhookResult> {
+  const { maxAttempts, timeoutMs, backoffMs } = { ...DEFAULT_OPTIONS, ...options };
+  const secret = options.secret ?? config.jobs.webhookSecret;
+  const body = JSON.stringify(payload);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': USER_AGENT,
+    'X-ClearView-Event': event,
+  };
+  if (secret) {
+    headers['X-ClearView-Signature'] = signPayload(body, secret);
+  }
+
+  let result: WebhookResult = { delivered: false, attempts: 0 };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await requestPublicUrl(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      // Only the status matters; release the connection
+      await response.body?.cancel();
+
+      result = { delivered: response.ok, attempts: attempt, responseStatus: response.status };
+      if (response.ok) {
+        return result;
+      }
+      result.error = `Receiver answered ${response.status}`;
+      if (!shouldRetry(response.status)) {
+        break;
+      }
+    } catch (error) {
+      result = { delivered: false, attempts: attempt, error: (error as Error).message };
+      // Refused addresses stay refused; connection errors and timeouts are retried
+      if (/not allowed|public http/i.test(result.error!)) {
+        break;
+      }
+    }
+
+    if (attempt < maxAttempts) {
+      const delay = backoffMs * Math.pow(2, attempt - 1);
+      log.warn(`Delivery to ${url} failed (${result.error}), retrying in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  log.warn(`Giving up on ${url} after ${result.attempts} attempt(s): ${result.error}`);
+  return result;
+}
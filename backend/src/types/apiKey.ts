@@ -0,0 +1,51 @@
+/**
+ * API Key Types
+ * Keys issued with `npm run api-keys` and checked on every /api/v1 request
+ *
+ * Only a SHA-256 hash of each key is stored; the key itself is shown once
+ * when it is created.
+ */
+
+/**
+ * Spending limits for one key in USD (null = unlimited)
+ */
+export interface ApiKeyQuota {
+  daily: number | null;
+  monthly: number | null;
+}
+
+/**
+ * A stored API key
+ */
+export interface ApiKeyRecord {
+  /** Stable identifier; charges made with the key are billed to this client */
+  id: string;
+  /** Who the key was issued to, e.g. "chrome-extension" */
+  name: string;
+  /** First characters of the key, to recognise it in listings */
+  prefix: string;
+  quota: ApiKeyQuota;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+/**
+ * Response of GET /api/v1/usage
+ */
+export interface ApiKeyUsage {
+  /** API key id, or the caller's IP when keys are not required */
+  client: string;
+  name?: string;
+  date: string;
+  month: string;
+  spent: {
+    daily: number;
+    monthly: number;
+  };
+  quota: ApiKeyQuota;
+  /** Quota left (null = unlimited) */
+  remaining: {
+    daily: number | null;
+    monthly: number | null;
+  };
+}
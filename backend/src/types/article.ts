@@ -0,0 +1,27 @@
+/**
+ * Article Fetching Types
+ * Articles downloaded and extracted by services/articleFetcher.ts
+ */
+
+import { Article } from './claims';
+
+/**
+ * A link in the article body
+ */
+export interface ArticleLink {
+  url: string;
+  text: string;
+  /** Points to another site than the article's */
+  external: boolean;
+}
+
+/**
+ * An article extracted from a page, ready for POST /analyze or /evaluate
+ */
+export interface FetchedArticle extends Article {
+  /** Address of the page after redirects */
+  url: string;
+  links: ArticleLink[];
+  wordCount: number;
+  fetchedAt: string;
+}
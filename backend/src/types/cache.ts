@@ -0,0 +1,58 @@
+/**
+ * Cache Types
+ * Two-tier cache (services/cache.ts): an in-process LRU in front of Redis
+ */
+
+/**
+ * How a cached load was answered
+ * - hit: a fresh cached value
+ * - stale: an expired value still within its stale window (refreshed in the background)
+ * - miss: not cached; this call loaded it
+ * - shared: not cached; answered by a load another caller had already started
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'shared';
+
+export interface CacheLoadOptions<T> {
+  /** How long a loaded value is fresh; unset keeps it until evicted */
+  ttlSeconds?: number;
+  /** How long after that it is still served while a refresh runs */
+  staleSeconds?: number;
+  /** Whether a loaded value should be kept (e.g. not partial results); default all */
+  shouldCache?: (value: T) => boolean;
+}
+
+export interface CacheLoadResult<T> {
+  value: T;
+  status: CacheStatus;
+}
+
+/**
+ * Counters for one key namespace (the key up to its first ":")
+ */
+export interface CacheNamespaceStats {
+  /** Answered from the in-process tier */
+  memoryHits: number;
+  /** Answered from Redis */
+  redisHits: number;
+  /** Served past their TTL while refreshing */
+  staleHits: number;
+  misses: number;
+  /** Misses that waited for a load already running */
+  sharedLoads: number;
+  /** Loads (including background refreshes) that failed */
+  loadErrors: number;
+  sets: number;
+  /** Keys removed by invalidateNamespace */
+  invalidated: number;
+}
+
+export interface CacheStats {
+  redisConnected: boolean;
+  memory: {
+    entries: number;
+    maxEntries: number;
+  };
+  /** Loads running now */
+  inFlight: number;
+  namespaces: Record<string, CacheNamespaceStats>;
+}
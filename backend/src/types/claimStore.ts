@@ -0,0 +1,100 @@
+/**
+ * Claim Store Types
+ * Claims remembered across articles by services/claimStore.ts
+ *
+ * The same claim ("The death penalty does not deter crime") turns up in
+ * many articles. The store keeps one record per distinct claim, the latest
+ * assessment of it, and every article it appeared in.
+ */
+
+import { ClaimType, Domain } from './claims';
+import { ConsensusAssessment, ConsensusLevel, DirectedEvidence } from './consensus';
+
+/**
+ * How a claim was matched to a stored one
+ * - exact: same text after normalization
+ * - lexical: nearly the same words
+ * - embedding: different wording, same meaning
+ */
+export type ClaimMatchMethod = 'exact' | 'lexical' | 'embedding';
+
+/**
+ * The last full evaluation of a stored claim
+ */
+export interface StoredAssessment {
+  consensus: ConsensusAssessment;
+  /** Evidence the consensus was based on (after retraction checks) */
+  evidence: DirectedEvidence[];
+  assessedAt: string;
+}
+
+export interface StoredClaim {
+  id: string;
+  /** Wording of the first article that made the claim */
+  text: string;
+  normalizedText: string;
+  type: ClaimType;
+  domain: Domain;
+  assessment?: StoredAssessment;
+  /** Distinct articles linked to the claim */
+  articleCount: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * An article a stored claim appeared in
+ */
+export interface ClaimArticleLink {
+  /** The article's URL, or a hash of its title and source */
+  articleKey: string;
+  title: string;
+  source: string;
+  url?: string;
+  /** The claim as worded in this article */
+  claimText: string;
+  matchedBy: ClaimMatchMethod | 'new';
+  seenAt: string;
+}
+
+/**
+ * A stored claim found for a newly extracted one
+ */
+export interface ClaimMatch {
+  claim: StoredClaim;
+  method: ClaimMatchMethod;
+  /** 1 for exact matches; token overlap or cosine similarity otherwise */
+  similarity: number;
+}
+
+/**
+ * What the pipeline records about a claim it stored (see EvaluatedClaim)
+ */
+export interface StoredClaimRef {
+  id: string;
+  matchedBy: ClaimMatchMethod | 'new';
+  /** The stored assessment was reused instead of searching again */
+  reusedAssessment: boolean;
+  assessedAt?: string;
+  articleCount: number;
+}
+
+/**
+ * Filters for GET /api/v1/claims/search (omitted filters match everything)
+ */
+export interface ClaimSearchQuery {
+  /** Words the claim should contain */
+  q?: string;
+  domains?: Domain[];
+  types?: ClaimType[];
+  /** Level of the latest assessment; unassessed claims never match */
+  consensusLevels?: ConsensusLevel[];
+  limit: number;
+  offset: number;
+}
+
+export interface ClaimSearchResult {
+  /** Matching claims before limit and offset */
+  total: number;
+  claims: StoredClaim[];
+}
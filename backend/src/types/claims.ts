@@ -2,6 +2,8 @@
  * Claim Types - Based on EXPERT_EVALUATION_SPEC.md Part 3
  */
 
+import { ClaimTimeframe } from './timeframe';
+
 // Fully verifiable - can reach ground truth
 // Partially verifiable - components can be checked
 // Not empirically verifiable
@@ -73,6 +75,8 @@ export interface ClassifiedClaim {
   // For partially verifiable claims
   verifiableComponents?: string[];
   unverifiableComponents?: string[];
+  // Period the claim is about, when it mentions one
+  timeframe?: ClaimTimeframe;
 }
 
 /**
@@ -81,6 +85,8 @@ export interface ClassifiedClaim {
 export interface ExtractedClaims {
   articleSubjects: string[];
   claims: ClassifiedClaim[];
+  /** Model that extracted the claims */
+  model?: string;
 }
 
 /**
@@ -92,6 +98,10 @@ export interface Article {
   content: string;
   author?: string;
   url?: string;
+  /** Publish date (ISO 8601); relative time in claims is resolved against it */
+  publishedAt?: string;
+  /** The page's <link rel="canonical">, when it names one */
+  canonicalUrl?: string;
 }
 
 /**
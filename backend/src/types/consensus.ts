@@ -8,6 +8,8 @@
 import { Domain, ClaimType } from './claims';
 import { EvidenceTier } from '../services/evidenceTier';
 import { ValidatedExpert } from './expert';
+import { ExpertClaimVerdict, ExpertPanelSummary } from './expertPanel';
+import { ReferenceDataCheck } from './referenceData';
 
 /**
  * Consensus levels representing the state of scientific knowledge
@@ -36,6 +38,27 @@ export type ConfidenceLevel = 'high' | 'medium' | 'low';
  */
 export type EvidenceDirection = 'supports' | 'opposes' | 'neutral' | 'mixed';
 
+/**
+ * How an evidence direction was classified
+ */
+export type StanceMethod = 'llm' | 'heuristic';
+
+/**
+ * Editorial notice status for a published work
+ */
+export type RetractionStatus = 'retracted' | 'expression_of_concern';
+
+/**
+ * Retraction or expression of concern found for a cited work
+ */
+export interface RetractionNotice {
+  status: RetractionStatus;
+  source: 'crossref' | 'retraction_watch';
+  date?: string;          // ISO date of the notice, when known
+  noticeDoi?: string;     // DOI of the notice itself
+  reason?: string;
+}
+
 /**
  * Citation reference for evidence
  */
@@ -43,10 +66,19 @@ export interface Citation {
   title: string;
   authors: string[];
   publication: string;
+  /** 0 when the source gives no date */
   year: number;
   doi?: string;
   url: string;
   finding?: string;
+  /** Scholarly metadata from OpenAlex, when the work was resolved */
+  publicationType?: string;
+  citationCount?: number;
+  isOpenAccess?: boolean;
+  openAccessUrl?: string;
+  openAlexId?: string;
+  /** Set when the work has been retracted or carries an expression of concern */
+  retraction?: RetractionNotice;
 }
 
 /**
@@ -57,6 +89,14 @@ export interface DirectedEvidence {
   tier: EvidenceTier;
   category: string;
   direction: EvidenceDirection;
+  /** Confidence (0-1) in the direction classification */
+  directionConfidence?: number;
+  /** Short explanation of why the evidence has this direction */
+  directionRationale?: string;
+  /** How the direction was determined */
+  directionMethod?: StanceMethod;
+  /** Model that classified the direction (LLM methods only) */
+  directionModel?: string;
   keyFinding: string;
   sampleSize?: number;
   effectSize?: string;
@@ -119,6 +159,17 @@ export interface ConsensusAssessment {
     caveats: string[];
   };
 
+  // Expert panel verdicts (when the panel stage ran)
+  expertPanel?: ExpertPanelSummary;
+
+  // Comparison with official figures (statistical claims); when present
+  // it sets the level, direction and framing
+  referenceData?: ReferenceDataCheck;
+
+  // Cited works with a retraction or expression of concern; retracted
+  // works are left out of the basis and the consensus level
+  flaggedEvidence?: Citation[];
+
   // Output framing
   framingSentence: string;
   detailedExplanation: string;
@@ -139,6 +190,10 @@ export interface ConsensusAssessmentInput {
   domain: Domain;
   evidence: DirectedEvidence[];
   articleSubjects?: string[];
+  /** Verdicts from the expert panel research agents for this claim */
+  expertVerdicts?: ExpertClaimVerdict[];
+  /** Comparison with a reference dataset for this claim */
+  referenceData?: ReferenceDataCheck;
 }
 
 /**
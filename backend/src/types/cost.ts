@@ -0,0 +1,103 @@
+/**
+ * Cost Ledger Types
+ * Itemized record of every paid (or metered) external call
+ *
+ * services/costTracker.ts writes charges to Redis so totals survive
+ * restarts and are shared by every backend replica.
+ */
+
+/**
+ * Dimensions a charge is broken down by
+ */
+export type CostDimension = 'provider' | 'operation' | 'model' | 'endpoint' | 'client';
+
+/**
+ * What a caller reports when it spends money
+ */
+export interface CostChargeDetails {
+  /** Service billed, e.g. 'openai', 'openai-compatible', 'exa', 'crossref' */
+  provider: string;
+  /** Operation within the service, e.g. 'extractClaims', 'academic', 'lookupDOI' */
+  operation: string;
+  /** Model, for LLM charges */
+  model?: string;
+}
+
+/**
+ * A single ledger entry
+ */
+export interface CostCharge extends CostChargeDetails {
+  amount: number;
+  /** API endpoint the charge was made for ('internal' outside a request) */
+  endpoint: string;
+  /** Client that made the request ('internal' outside a request) */
+  client: string;
+  timestamp: string;
+}
+
+/**
+ * Spend and call count for one value of a dimension
+ */
+export interface CostBucket {
+  cost: number;
+  calls: number;
+}
+
+export type CostBreakdown = Record<CostDimension, Record<string, CostBucket>>;
+
+/**
+ * Response of GET /api/v1/cost-status
+ */
+export interface CostStatus {
+  date: string;
+  totalCost: number;
+  dailyCap: number;
+  percentUsed: number;
+  isOverBudget: boolean;
+  /** 'redis' when the ledger is shared; 'memory' when Redis is unavailable */
+  storage: 'redis' | 'memory';
+  breakdown: CostBreakdown;
+}
+
+/**
+ * One day of GET /api/v1/cost-status/history
+ */
+export interface CostHistoryDay {
+  date: string;
+  totalCost: number;
+  byProvider: Record<string, CostBucket>;
+}
+
+/**
+ * Limit that refused a budget reservation
+ * - daily: the shared DAILY_COST_CAP
+ * - clientDaily / clientMonthly: the caller's API key quota
+ * - batch: the spending limit of a batch evaluation
+ */
+export type CostLimit = 'daily' | 'clientDaily' | 'clientMonthly' | 'batch';
+
+/**
+ * Result of reserveBudget()
+ */
+export type BudgetReservation = { ok: true } | { ok: false; limit: CostLimit };
+
+/**
+ * What one client has spent (including open reservations), USD
+ */
+export interface ClientSpend {
+  /** Today (UTC) */
+  daily: number;
+  /** This calendar month (UTC) */
+  monthly: number;
+}
+
+/**
+ * Spending limit for one piece of work (a batch evaluation), USD
+ * Carried in the request context; reservations and charges made inside it
+ * count toward `spent`.
+ */
+export interface CostBudget {
+  limit: number;
+  /** Charged plus reserved so far */
+  spent: number;
+}
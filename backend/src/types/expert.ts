@@ -43,6 +43,7 @@ export interface ExpertQualityIndicators {
   institutionRanking?: number;
   yearsInField?: number;
   recentPublications?: number; // Publications in last 5 years
+  isResearchInstitution?: boolean; // Affiliation confirmed via OpenAlex
 }
 
 /**
@@ -91,6 +92,8 @@ export interface ExpertValidationInput {
   articleSubjects: string[];
   claimDomain: Domain;
   claimText?: string;
+  /** Citation metrics from an academic author lookup (e.g. Semantic Scholar) */
+  qualityIndicators?: ExpertQualityIndicators;
 }
 
 /**
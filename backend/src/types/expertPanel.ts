@@ -0,0 +1,108 @@
+/**
+ * Expert Panel Types
+ * Dynamic expert identification and per-expert research agents
+ *
+ * Reference: EXPERT_EVALUATION_SPEC_V2.md Part 3.2-3.3
+ */
+
+import { ConfidenceLevel, EvidenceDirection } from './consensus';
+
+/**
+ * A type of domain expert needed to evaluate the article's claims
+ */
+export interface ExpertType {
+  /** Specific sub-specialty, e.g. "criminologist specializing in deterrence research" */
+  type: string;
+  /** What this expert should search for */
+  searchFocus: string;
+  /** Databases/sources most relevant to the field */
+  keyDatabases: string[];
+  /** Evidence types to prioritize */
+  lookFor: string;
+  /** Why this perspective is needed */
+  whyNeeded: string;
+}
+
+/**
+ * The assembled panel of expert types for an article
+ */
+export interface ExpertTeam {
+  experts: ExpertType[];
+  articleSubjectsToExclude: string[];
+  /** How the team was assembled */
+  method: 'llm' | 'domain_config';
+  /** Model that assembled the team (method 'llm') */
+  model?: string;
+}
+
+/**
+ * An expert agent's verdict on a single claim
+ */
+export type ExpertVerdict =
+  | 'supported'
+  | 'refuted'
+  | 'mixed'
+  | 'insufficient_evidence'
+  | 'inconclusive';
+
+/**
+ * One expert type's assessment of one claim
+ */
+export interface ExpertClaimVerdict {
+  expertType: string;
+  claimId: string;
+  verdict: ExpertVerdict;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+  keyEvidence: string[];
+}
+
+/**
+ * A source an expert agent found relevant, with its stance per claim
+ */
+export interface ExpertPanelSource {
+  title: string;
+  publication: string;
+  year: number;
+  url: string;
+  keyFinding: string;
+  /** Direction of the finding toward each claim it bears on */
+  claimStances: {
+    claimId: string;
+    direction: EvidenceDirection;
+  }[];
+}
+
+/**
+ * Everything one expert agent produced
+ */
+export interface ExpertFindings {
+  expert: ExpertType;
+  sources: ExpertPanelSource[];
+  verdicts: ExpertClaimVerdict[];
+  overallAssessment: string;
+  methodologicalConcerns: string[];
+  limitations: string[];
+  /** Model that ran the agent */
+  model?: string;
+}
+
+/**
+ * Output of the full expert panel stage
+ */
+export interface ExpertPanelResult {
+  team: ExpertTeam;
+  findings: ExpertFindings[];
+}
+
+/**
+ * Roll-up of the panel's verdicts on a single claim
+ */
+export interface ExpertPanelSummary {
+  verdicts: ExpertClaimVerdict[];
+  counts: Record<ExpertVerdict, number>;
+  /** Verdict held by more than half the panel, if any */
+  majorityVerdict: ExpertVerdict | null;
+  /** Confident experts reached opposite verdicts (supported vs refuted) */
+  hasDisagreement: boolean;
+}
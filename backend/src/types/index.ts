@@ -7,9 +7,57 @@ export * from './expert';
 // Wave 5: Consensus Detection
 export * from './consensus';
 
+// Expert panel research agents
+export * from './expertPanel';
+
 // Wave 6: Output Generation
 export * from './output';
 
+// Pluggable search providers
+export * from './search';
+
+// Pluggable LLM providers
+export * from './llm';
+
+// Cost ledger
+export * from './cost';
+
+// API keys and quotas
+export * from './apiKey';
+
+// Rate limiting
+export * from './rateLimit';
+
+// Background jobs
+export * from './job';
+
+// Claim store
+export * from './claimStore';
+
+// Article fetching
+export * from './article';
+
+// Quote attribution
+export * from './quote';
+
+// Reference datasets for statistical claims
+export * from './referenceData';
+
+// When claims are about (publish date, relative time)
+export * from './timeframe';
+
+// Two-tier response cache
+export * from './cache';
+
+// Revisions of edited articles
+export * from './revision';
+
+// Structured logging
+export * from './logging';
+
+// Prometheus metrics
+export * from './metrics';
+
 // Core data models
 export interface ArticleAnalysis {
   id: string;
@@ -107,6 +155,8 @@ export interface AnalyzeResponse {
     explanation: string;
   }[];
   is_political: boolean;
+  /** Model that produced the analysis (absent for partial results) */
+  model?: string;
   cached: boolean;
 }
 
@@ -0,0 +1,82 @@
+/**
+ * Job Types
+ * Background evaluations run by services/jobQueue.ts
+ *
+ * Jobs are stored in Redis so a restart picks up where it left off; callers
+ * poll GET /api/v1/jobs/:id or register a webhook for the result.
+ */
+
+import { ApiKeyQuota } from './apiKey';
+
+export type JobType = 'evaluate' | 'batch';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Where a running evaluation is
+ */
+export type JobStage =
+  | 'queued'
+  | 'waitingForSlot'
+  | 'extractingClaims'
+  | 'gatheringEvidence'
+  | 'evaluatingArticles'
+  | 'finalizing'
+  | 'done';
+
+export interface JobProgress {
+  stage: JobStage;
+  /** Position among runs waiting for a pipeline slot */
+  queuePosition?: number;
+  /** Claims selected for evaluation, once extracted */
+  claimsTotal?: number;
+  claimsWithEvidence: number;
+  claimsEvaluated: number;
+  /** Batch jobs: articles in the batch, and how many have finished */
+  articlesTotal?: number;
+  articlesDone?: number;
+  updatedAt: string;
+}
+
+/**
+ * Webhook registered with the job and how its delivery went
+ */
+export interface JobWebhook {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  /** HTTP status of the last attempt */
+  responseStatus?: number;
+  lastError?: string;
+  deliveredAt?: string;
+}
+
+export interface Job<TInput = unknown, TResult = unknown> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  /** Client (API key id or IP) that created the job; only it may read or cancel it */
+  client: string;
+  /** The client's quota, enforced while the job runs */
+  quota?: ApiKeyQuota;
+  input: TInput;
+  progress: JobProgress;
+  /** Final response, once completed */
+  result?: TResult;
+  error?: string;
+  webhook?: JobWebhook;
+  /** Times a worker has started the job (restarts included) */
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  /** Set when a running job was asked to stop; it ends as 'cancelled' */
+  cancelRequestedAt?: string;
+  /** Refreshed by the worker while running; stale means the worker died */
+  heartbeatAt?: string;
+}
+
+/**
+ * Response of GET /api/v1/jobs/:id (and the webhook payload's job)
+ */
+export type JobView<TResult = unknown> = Omit<Job<unknown, TResult>, 'input' | 'quota' | 'client' | 'heartbeatAt'>;
@@ -0,0 +1,96 @@
+/**
+ * LLM Provider Types
+ * Pluggable language-model backends behind OpenAIService
+ *
+ * The OpenAI Responses API and any OpenAI-compatible chat completions
+ * server (vLLM, llama.cpp, other vendors) implement LLMProvider;
+ * services/llmProvider.ts builds the configured one.
+ */
+
+/**
+ * Price per 1M tokens, in USD
+ */
+export interface LLMPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Features a provider/model supports
+ */
+export interface LLMCapabilities {
+  /** Server-enforced JSON output (response_format / text.format json_object) */
+  jsonMode: boolean;
+  /** Token streaming */
+  streaming: boolean;
+}
+
+/**
+ * Operations routed to their own model chain (LLM_MODELS_<OPERATION>)
+ */
+export type LLMOperation =
+  | 'analyzeQuick'
+  | 'analyzeDetailed'
+  | 'analyzeArticle'
+  | 'extractClaims'
+  | 'expertValidation'
+  | 'evidenceSynthesis'
+  | 'stanceClassification'
+  | 'complete';
+
+/**
+ * Primary model first, then fallbacks in order
+ */
+export type LLMRoutingTable = Partial<Record<LLMOperation, string[]>>;
+
+export interface LLMMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  /** Ask for a JSON object response */
+  json?: boolean;
+}
+
+export interface LLMResponse {
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Model that produced the response */
+  model: string;
+}
+
+/**
+ * Vectors for a list of texts, in input order
+ */
+export interface LLMEmbeddingResponse {
+  embeddings: number[][];
+  inputTokens: number;
+  model: string;
+}
+
+/**
+ * A parsed LLM result tagged with the model that produced it
+ */
+export type LLMResult<T> = T & { model: string };
+
+/**
+ * A language-model backend
+ */
+export interface LLMProvider {
+  /** Identifier used in LLM_PROVIDER config, e.g. 'openai' */
+  name: string;
+  model: string;
+  baseUrl?: string;
+  capabilities: LLMCapabilities;
+  pricing: LLMPricing;
+  /** Whether the provider is usable in this deployment (key or endpoint set) */
+  isConfigured(): boolean;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  /** Embed texts with an embedding model (OpenAI /embeddings endpoint) */
+  embed?(texts: string[], model: string): Promise<LLMEmbeddingResponse>;
+  /** Same endpoint and credentials with a different model (used for routing) */
+  withModel?(model: string): LLMProvider;
+}
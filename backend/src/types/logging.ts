@@ -0,0 +1,35 @@
+/**
+ * Logging Types
+ * Structured log entries (services/logger.ts)
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * - json: one JSON object per line, for log collectors
+ * - text: "[time] LEVEL [Component] message key=value", for reading in a terminal
+ */
+export type LogFormat = 'json' | 'text';
+
+/**
+ * Extra values logged with a message (errors are logged as their message)
+ */
+export type LogFields = Record<string, unknown>;
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  /** What logged it, e.g. "Pipeline" or "OpenAI" */
+  component: string;
+  msg: string;
+  /** Request the entry belongs to (X-Request-ID), when logged while handling one */
+  requestId?: string;
+  [field: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
@@ -0,0 +1,20 @@
+/**
+ * Metrics Types
+ * Counters and histograms exposed on /metrics (services/metrics.ts)
+ */
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Label values of one series, e.g. { route: '/api/v1/evaluate/', status: '200' }
+ */
+export type MetricLabels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Histogram {
+  /** Record one observation (seconds for durations) */
+  observe(labels: MetricLabels, value: number): void;
+}
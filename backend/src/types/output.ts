@@ -47,12 +47,15 @@ export interface OutputCitation {
   title: string;
   authors: string;
   publication: string;
+  /** 0 when the source gives no date */
   year: number;
   url: string;
   doi?: string;
   finding?: string;
   tierLabel: string;
   tierLevel: number;
+  citationCount?: number;
+  isOpenAccess?: boolean;
 }
 
 /**
@@ -112,6 +115,26 @@ export interface OutputEmergingTrends {
   summaryText: string;
 }
 
+/**
+ * One expert type's verdict in the Expert Panel section
+ */
+export interface OutputExpertPanelVerdict {
+  expertType: string;
+  verdict: string;
+  verdictLabel: string;
+  confidence: ConfidenceLevel;
+  reasoning: string;
+}
+
+/**
+ * Expert Panel section - verdicts from the per-expert-type research agents
+ */
+export interface OutputExpertPanelSection {
+  verdicts: OutputExpertPanelVerdict[];
+  hasDisagreement: boolean;
+  summaryText: string;
+}
+
 /**
  * Warning/caveat in the output
  */
@@ -166,6 +189,9 @@ export interface RenderedClaimOutput {
   // Expert voices (for non-values questions)
   expertVoices?: OutputExpertVoice[];
 
+  // Expert panel research agents (when the panel stage ran)
+  expertPanel?: OutputExpertPanelSection;
+
   // Warnings and caveats
   warnings: OutputWarning[];
 
@@ -0,0 +1,61 @@
+/**
+ * Quote Attribution Types
+ * People quoted in an article, what they said, and which claims it bears on
+ *
+ * Claim sources only cover the people an extracted claim is attributed to.
+ * An article usually quotes more people than that - researchers asked for
+ * comment, officials, spokespeople - and each of them has to go through
+ * expert validation before their words can count as expert opinion.
+ */
+
+/**
+ * How the speaker's words appear in the article
+ * - direct: in quotation marks
+ * - indirect: reported speech ("Smith said that...", "according to Smith")
+ */
+export type QuoteKind = 'direct' | 'indirect';
+
+/**
+ * Whether a quote backs or contests a claim
+ */
+export type QuoteRelation = 'supports' | 'disputes';
+
+/**
+ * How quotes were attributed (the heuristic fallback only finds common
+ * news phrasings)
+ */
+export type QuoteAttributionMethod = 'llm' | 'heuristic';
+
+/**
+ * A claim a quote bears on
+ */
+export interface QuoteClaimLink {
+  claimId: string;
+  relation: QuoteRelation;
+}
+
+/**
+ * A quote with its speaker
+ */
+export interface AttributedQuote {
+  /** The quoted words (direct) or the reported statement (indirect) */
+  text: string;
+  kind: QuoteKind;
+  speaker: string;
+  /** The speaker's title or role as given in the article */
+  title?: string;
+  affiliation?: string;
+  /** Degrees or honorifics given with the name ("Dr.", "PhD") */
+  credentials?: string;
+  claims: QuoteClaimLink[];
+}
+
+/**
+ * Every quote found in an article
+ */
+export interface QuoteAttributionResult {
+  quotes: AttributedQuote[];
+  method: QuoteAttributionMethod;
+  /** Model that attributed the quotes (method 'llm') */
+  model?: string;
+}
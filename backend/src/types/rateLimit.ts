@@ -0,0 +1,28 @@
+/**
+ * Rate Limit Types
+ * Token buckets per client and route (middleware/rateLimit.ts)
+ */
+
+/**
+ * Route groups with their own limit; 'default' covers every /api/v1 request
+ */
+export type RateLimitRoute = 'default' | 'analyze' | 'perspectives' | 'evidence' | 'evaluate' | 'articles';
+
+/**
+ * A token bucket: refills at perMinute, holds at most burst requests
+ */
+export interface RateLimitRule {
+  perMinute: number;
+  burst: number;
+}
+
+/**
+ * Outcome of taking a token
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Whole requests left in the bucket */
+  remaining: number;
+  /** Seconds until the next request would be allowed (0 when allowed) */
+  retryAfterSeconds: number;
+}
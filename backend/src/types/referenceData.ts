@@ -0,0 +1,102 @@
+/**
+ * Reference Data Types
+ * Official statistics kept on disk by services/referenceData.ts
+ *
+ * Statistical claims ("unemployment is at 3.5%", "homicides fell 12%") are
+ * settled by the agency that publishes the figure, not by academic papers.
+ * A dataset holds one measure over time, with its source and unit.
+ */
+
+/**
+ * Unit of a dataset's values
+ * - percent: a rate given in percent (unemployment rate)
+ * - count: people, incidents, units (homicides)
+ * - usd: US dollars
+ * - per_100k: a rate per 100,000 people
+ */
+export type ReferenceUnit = 'percent' | 'count' | 'usd' | 'per_100k';
+
+/**
+ * One value of a dataset
+ */
+export interface ReferenceObservation {
+  /** "2023", "2023-07" (month) or "2023-Q2" (quarter) */
+  period: string;
+  value: number;
+}
+
+/**
+ * A measure published by an official source
+ */
+export interface ReferenceDataset {
+  id: string;
+  name: string;
+  /** Publishing agency ("Bureau of Labor Statistics") */
+  source: string;
+  url?: string;
+  unit: ReferenceUnit;
+  /** Place the figures describe ("United States") */
+  region?: string;
+  /** Phrases that identify claims about this measure ("unemployment rate") */
+  keywords: string[];
+  /** Relative difference still counted as a match; defaults to REFERENCE_DATA_TOLERANCE */
+  tolerance?: number;
+  observations: ReferenceObservation[];
+}
+
+/**
+ * Whether a claim states a value or a change between two periods
+ */
+export type StatisticMeasure = 'level' | 'change';
+
+/**
+ * Unit of a stated figure; a change can be in percent of the earlier value
+ * or in percentage points
+ */
+export type StatisticUnit = ReferenceUnit | 'percentage_points';
+
+/**
+ * The figure a statistical claim states
+ */
+export interface ExtractedStatistic {
+  measure: StatisticMeasure;
+  /** Signed for changes (a fall is negative) */
+  value: number;
+  unit: StatisticUnit;
+  /** Half a unit of the last digit given ("12%" -> 0.5, "3.5%" -> 0.05) */
+  precision: number;
+  period?: string;
+  /** Period a change is measured from ("since 2019") */
+  basePeriod?: string;
+  /** The figure as written in the claim */
+  text: string;
+}
+
+/**
+ * - matches: the claim's figure is within tolerance of the official one
+ * - differs: it is not
+ */
+export type ReferenceVerdict = 'matches' | 'differs';
+
+/**
+ * A statistical claim compared with official data
+ */
+export interface ReferenceDataCheck {
+  verdict: ReferenceVerdict;
+  datasetId: string;
+  datasetName: string;
+  source: string;
+  url?: string;
+  measure: StatisticMeasure;
+  unit: StatisticUnit;
+  claimedValue: number;
+  officialValue: number;
+  /** officialValue - claimedValue */
+  difference: number;
+  period: string;
+  basePeriod?: string;
+  /** The claim gave no period; the latest figure was used */
+  periodInferred: boolean;
+  /** "Matches official data: ..." or "Differs from official data by ...: ..." */
+  summary: string;
+}
@@ -0,0 +1,97 @@
+/**
+ * Article Revision Types
+ * Versions of an edited article and how their analyses differ (services/articleRevisions.ts)
+ */
+
+/**
+ * A bias indicator as the analyze endpoints return it
+ */
+export interface AnalysisBiasIndicator {
+  original_text: string;
+  type: string;
+  explanation: string;
+}
+
+/**
+ * The parts of an analysis compared between revisions
+ */
+export interface RevisionAnalysis {
+  summary: {
+    text: string;
+    key_facts: string[];
+    missing_context: string[];
+  };
+  bias_indicators: AnalysisBiasIndicator[];
+  bias_score?: { score: number; label: string; summary: string };
+}
+
+/**
+ * Sentence-level difference between two versions of an article's text
+ */
+export interface TextDiff {
+  /** Sentences only in the newer version, in its order */
+  added: string[];
+  /** Sentences only in the older version, in its order */
+  removed: string[];
+  unchangedCount: number;
+  /** Share of sentences (of both versions) added or removed, 0-1 */
+  changedShare: number;
+}
+
+/**
+ * What changed in the analysis from the previous revision
+ */
+export interface RevisionChanges {
+  title?: { from: string; to: string };
+  addedClaims: string[];
+  removedClaims: string[];
+  addedBiasIndicators: AnalysisBiasIndicator[];
+  removedBiasIndicators: AnalysisBiasIndicator[];
+  biasScore?: { from: number; to: number };
+}
+
+/**
+ * One version of an article, as returned in its revision history
+ */
+export interface ArticleRevision {
+  /** 1 for the first version analyzed */
+  revision: number;
+  contentHash: string;
+  title: string;
+  analyzedAt: string;
+  /**
+   * - full: the whole article was analyzed
+   * - partial: only the changed passages were, merged into the previous analysis
+   */
+  reanalysis: 'full' | 'partial';
+  /** Against the previous revision (absent on the first) */
+  diff?: TextDiff;
+  changes?: RevisionChanges;
+}
+
+/**
+ * A revision as stored: with the text and analysis the next one is compared with
+ */
+export interface StoredRevision extends ArticleRevision {
+  content: string;
+  analysis: RevisionAnalysis;
+}
+
+/**
+ * Sent with an analysis: which version of the article it is for
+ */
+export interface AnalysisRevisionInfo {
+  revision: number;
+  /** When the oldest stored version was analyzed */
+  firstAnalyzedAt: string;
+  reanalysis: 'full' | 'partial';
+  /** Against the previous revision (absent on the first) */
+  changes?: RevisionChanges;
+}
+
+export interface RevisionHistory {
+  /** Canonical URL the revisions are kept under */
+  url: string;
+  /** Oldest first */
+  revisions: ArticleRevision[];
+}
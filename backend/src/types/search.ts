@@ -0,0 +1,58 @@
+/**
+ * Search Provider Types
+ * Pluggable search backends behind the evidence paths
+ *
+ * Exa, the local corpus and the OpenAlex/CrossRef scholarly provider all
+ * implement SearchProvider; services/searchProvider.ts picks and combines
+ * them per deployment.
+ */
+
+/**
+ * Search operations used by the evidence paths
+ */
+export type SearchOperation = 'news' | 'academic' | 'expertCommentary' | 'factCheck';
+
+/**
+ * A single search result, normalized across providers
+ */
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  publishedDate?: string;
+  author?: string;
+  /** Name of the provider that returned the result */
+  provider?: string;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+}
+
+/**
+ * Limits on a search; dates are YYYY-MM-DD and inclusive
+ * Results without a publish date are kept.
+ */
+export interface SearchOptions {
+  startPublishedDate?: string;
+  endPublishedDate?: string;
+}
+
+/**
+ * A search backend. Operations a provider cannot serve are left undefined.
+ */
+export interface SearchProvider {
+  /** Identifier used in SEARCH_PROVIDERS config, e.g. 'exa' */
+  name: string;
+  /** Whether the provider is usable in this deployment (keys, files present) */
+  isConfigured(): boolean;
+  news?(query: string, numResults: number, options?: SearchOptions): Promise<SearchResponse>;
+  academic?(query: string, numResults: number, options?: SearchOptions): Promise<SearchResponse>;
+  expertCommentary?(query: string, numResults: number, options?: SearchOptions): Promise<SearchResponse>;
+  factCheck?(query: string, numResults: number, options?: SearchOptions): Promise<SearchResponse>;
+}
+
+/**
+ * Provider names per operation, in priority order
+ */
+export type SearchProviderConfig = { default: string[] } & Partial<Record<SearchOperation, string[]>>;
@@ -0,0 +1,47 @@
+/**
+ * Timeframe Types
+ * When a claim is about, resolved by services/timeframe.ts
+ *
+ * "Last year", "the current secretary" and "in March" mean different
+ * things depending on when the article was written. Claims are resolved
+ * against the article's publish date (or the analysis date when the
+ * article has none), and evidence is searched for in the matching window.
+ */
+
+/**
+ * - absolute: names its own date ("in 2019", "March 2023", "Q2 2023")
+ * - relative: counted from the reference date ("last year", "two months ago")
+ * - present: the state at the reference date ("currently", "the current ...")
+ */
+export type TimeExpressionKind = 'absolute' | 'relative' | 'present';
+
+/**
+ * A time expression found in a claim
+ */
+export interface ResolvedTimeExpression {
+  /** As written in the claim */
+  text: string;
+  kind: TimeExpressionKind;
+  /** First and last day covered, as YYYY-MM-DD */
+  start: string;
+  end: string;
+}
+
+/**
+ * The period a claim is about
+ */
+export interface ClaimTimeframe {
+  /** Date relative expressions were resolved against (YYYY-MM-DD) */
+  referenceDate: string;
+  /** Whether that is the article's publish date or the day of analysis */
+  referenceDateSource: 'published' | 'analysis';
+  /** First and last day covered by every expression in the claim */
+  start: string;
+  end: string;
+  expressions: ResolvedTimeExpression[];
+  /** The claim with relative expressions replaced by dates ("in 2023") */
+  resolvedText: string;
+  /** Publish dates of evidence that can speak to the claim; unset means unbounded */
+  evidenceFrom?: string;
+  evidenceUntil?: string;
+}
@@ -1,5 +1,7 @@
 // API client for streaming responses
 
+import { apiHeaders } from './apiKey';
+
 const API_BASE_URL = 'http://localhost:3000/api/v1';
 
 export interface StreamCallbacks {
@@ -17,12 +19,12 @@ export interface StreamCallbacks {
 }
 
 export async function analyzeArticleStream(
-  article: { url: string; content: string; title: string; source: string },
+  article: { url: string; content: string; title: string; source: string; publishedAt?: string; canonicalUrl?: string },
   callbacks: StreamCallbacks
 ): Promise<void> {
   const response = await fetch(`${API_BASE_URL}/analyze/stream`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: await apiHeaders(),
     body: JSON.stringify(article),
   });
 
@@ -32,9 +34,47 @@ export async function analyzeArticleStream(
     return;
   }
 
+  await readEventStream(response, (event, data) => handleEvent(event, data, callbacks), callbacks.onError);
+}
+
+export interface EvaluateStreamCallbacks {
+  onStatus?: (message: string) => void;
+  onClaimsExtracted?: (data: { articleSubjects: string[]; totalClaims: number; claims: { id: string; text: string; type: string; domain: string }[] }) => void;
+  onEvidenceGathered?: (data: { claimId: string; total: number; topSources: any[] }) => void;
+  onClaimEvaluated?: (claim: any) => void;
+  onSummary?: (data: { summary: any; metadata: any }) => void;
+  onComplete?: (data: { id: string; cached: boolean }) => void;
+  onError?: (message: string) => void;
+}
+
+export async function evaluateArticleStream(
+  article: { url?: string; content: string; title: string; source: string; author?: string; publishedAt?: string; canonicalUrl?: string },
+  callbacks: EvaluateStreamCallbacks
+): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/evaluate/stream`, {
+    method: 'POST',
+    headers: await apiHeaders(),
+    body: JSON.stringify(article),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    callbacks.onError?.(error.message || 'Evaluation failed');
+    return;
+  }
+
+  await readEventStream(response, (event, data) => handleEvaluateEvent(event, data, callbacks), callbacks.onError);
+}
+
+// Read an SSE response body, dispatching each complete event
+async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void,
+  onError?: (message: string) => void
+): Promise<void> {
   const reader = response.body?.getReader();
   if (!reader) {
-    callbacks.onError?.('No response stream');
+    onError?.('No response stream');
     return;
   }
 
@@ -58,7 +98,7 @@ export async function analyzeArticleStream(
       } else if (line.startsWith('data: ') && currentEvent) {
         try {
           const data = JSON.parse(line.slice(6));
-          handleEvent(currentEvent, data, callbacks);
+          onEvent(currentEvent, data);
         } catch (e) {
           console.error('[API] Failed to parse event data:', line);
         }
@@ -68,6 +108,35 @@ export async function analyzeArticleStream(
   }
 }
 
+function handleEvaluateEvent(event: string, data: any, callbacks: EvaluateStreamCallbacks): void {
+  switch (event) {
+    case 'status':
+      callbacks.onStatus?.(data.message);
+      break;
+    case 'claimsExtracted':
+      callbacks.onClaimsExtracted?.(data);
+      break;
+    case 'evidenceGathered':
+      callbacks.onEvidenceGathered?.(data);
+      break;
+    case 'claimEvaluated':
+      callbacks.onClaimEvaluated?.(data);
+      break;
+    case 'summary':
+      callbacks.onSummary?.(data);
+      break;
+    case 'complete':
+      callbacks.onComplete?.(data);
+      break;
+    case 'error':
+      callbacks.onError?.(data.message);
+      break;
+    case 'cached':
+      callbacks.onStatus?.('Loading from cache...');
+      break;
+  }
+}
+
 function handleEvent(event: string, data: any, callbacks: StreamCallbacks): void {
   switch (event) {
     case 'status':
@@ -0,0 +1,28 @@
+// API key for the ClearView backend
+// Issued with `npm run api-keys -- create <name>` in backend/, entered in the
+// side panel and kept in chrome.storage.local
+
+const STORAGE_KEY = 'clearviewApiKey';
+
+export async function getApiKey(): Promise<string> {
+  const stored = await chrome.storage.local.get(STORAGE_KEY);
+  return stored[STORAGE_KEY] || '';
+}
+
+export async function setApiKey(key: string): Promise<void> {
+  const trimmed = key.trim();
+  if (trimmed) {
+    await chrome.storage.local.set({ [STORAGE_KEY]: trimmed });
+  } else {
+    await chrome.storage.local.remove(STORAGE_KEY);
+  }
+}
+
+// JSON request headers, with the API key when one is stored
+export async function apiHeaders(): Promise<Record<string, string>> {
+  const key = await getApiKey();
+  return {
+    'Content-Type': 'application/json',
+    ...(key && { 'X-API-Key': key }),
+  };
+}
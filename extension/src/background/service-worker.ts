@@ -1,5 +1,7 @@
 // Background service worker for ClearView News extension
 
+import { apiHeaders } from './apiKey';
+
 const API_BASE_URL = 'http://localhost:3000/api/v1';
 
 interface ExtractedArticle {
@@ -8,6 +10,8 @@ interface ExtractedArticle {
   content: string;
   source: string;
   author?: string;
+  publishedAt?: string;
+  canonicalUrl?: string;
 }
 
 interface AnalysisResult {
@@ -148,12 +152,14 @@ async function handleAnalyzeArticle(tabId: number): Promise<{ success: boolean;
     // Call backend API
     const response = await fetch(`${API_BASE_URL}/analyze`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: await apiHeaders(),
       body: JSON.stringify({
         url: article.url,
         content: article.content,
         title: article.title,
         source: article.source,
+        publishedAt: article.publishedAt,
+        canonicalUrl: article.canonicalUrl,
       }),
     });
 
@@ -186,7 +192,7 @@ async function handleGetPerspectives(
   try {
     const response = await fetch(`${API_BASE_URL}/perspectives`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: await apiHeaders(),
       body: JSON.stringify({ topic, keywords }),
     });
 
@@ -219,7 +225,7 @@ async function handleGetEvidence(
   try {
     const response = await fetch(`${API_BASE_URL}/evidence`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: await apiHeaders(),
       body: JSON.stringify({ topic, claims }),
     });
 
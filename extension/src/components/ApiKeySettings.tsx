@@ -0,0 +1,42 @@
+import React, { useState, useEffect } from 'react';
+import { getApiKey, setApiKey } from '../background/apiKey';
+
+interface ApiKeySettingsProps {
+  onSaved?: () => void;
+}
+
+export function ApiKeySettings({ onSaved }: ApiKeySettingsProps) {
+  const [value, setValue] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    getApiKey().then(setValue);
+  }, []);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    await setApiKey(value);
+    setSaved(true);
+    onSaved?.();
+  }
+
+  return (
+    <form className="api-key-settings" onSubmit={save}>
+      <label htmlFor="api-key-input">API key</label>
+      <div className="api-key-row">
+        <input
+          id="api-key-input"
+          type="password"
+          placeholder="cv_..."
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setSaved(false);
+          }}
+        />
+        <button type="submit" className="api-key-save">Save</button>
+      </div>
+      {saved && <span className="api-key-saved">Saved</span>}
+    </form>
+  );
+}
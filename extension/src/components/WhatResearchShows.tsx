@@ -1,6 +1,12 @@
 import React, { useState } from 'react';
 import DOMPurify from 'dompurify';
 
+interface RetractionNotice {
+  status: 'retracted' | 'expression_of_concern';
+  date?: string;
+  reason?: string;
+}
+
 interface EvidenceItem {
   finding: string;
   source: string;
@@ -8,6 +14,7 @@ interface EvidenceItem {
   year: number;
   url: string;
   strength: 'strong' | 'moderate' | 'weak';
+  retraction?: RetractionNotice;
 }
 
 interface KeyStudy {
@@ -18,6 +25,7 @@ interface KeyStudy {
   keyFinding: string;
   url: string;
   doiVerified?: boolean;
+  retraction?: RetractionNotice;
 }
 
 interface ExpertVoice {
@@ -76,6 +84,24 @@ const POSITION_COLORS: Record<string, string> = {
   nuanced: '#6b7280',
 };
 
+const RETRACTION_LABELS: Record<RetractionNotice['status'], string> = {
+  retracted: 'Retracted',
+  expression_of_concern: 'Expression of concern',
+};
+
+function RetractionBadge({ notice }: { notice?: RetractionNotice }) {
+  if (!notice) return null;
+  const year = notice.date ? ` (${notice.date.substring(0, 4)})` : '';
+  return (
+    <span
+      className={`retraction-badge retraction-${notice.status}`}
+      title={notice.reason ? DOMPurify.sanitize(notice.reason) : undefined}
+    >
+      ⚠ {RETRACTION_LABELS[notice.status]}{year}
+    </span>
+  );
+}
+
 export function WhatResearchShows({ evidence }: WhatResearchShowsProps) {
   const [showAllStudies, setShowAllStudies] = useState(false);
 
@@ -122,7 +148,7 @@ export function WhatResearchShows({ evidence }: WhatResearchShowsProps) {
             <span className="evidence-icon">✓</span> Evidence Supporting This View
           </h4>
           {evidence.evidenceFor.slice(0, 3).map((item, i) => (
-            <div key={i} className="evidence-item">
+            <div key={i} className={`evidence-item${item.retraction ? ` has-${item.retraction.status}` : ''}`}>
               <div className="evidence-strength-indicator" title={`${item.strength} evidence`}>
                 {STRENGTH_ICONS[item.strength] || '○○○'}
               </div>
@@ -132,6 +158,7 @@ export function WhatResearchShows({ evidence }: WhatResearchShowsProps) {
                   {DOMPurify.sanitize(item.source)} ({item.year})
                 </a>
                 <span className="source-type">{item.sourceType?.replace(/_/g, ' ')}</span>
+                <RetractionBadge notice={item.retraction} />
               </div>
             </div>
           ))}
@@ -145,7 +172,7 @@ export function WhatResearchShows({ evidence }: WhatResearchShowsProps) {
             <span className="evidence-icon">✗</span> Evidence Challenging This View
           </h4>
           {evidence.evidenceAgainst.slice(0, 3).map((item, i) => (
-            <div key={i} className="evidence-item">
+            <div key={i} className={`evidence-item${item.retraction ? ` has-${item.retraction.status}` : ''}`}>
               <div className="evidence-strength-indicator" title={`${item.strength} evidence`}>
                 {STRENGTH_ICONS[item.strength] || '○○○'}
               </div>
@@ -155,6 +182,7 @@ export function WhatResearchShows({ evidence }: WhatResearchShowsProps) {
                   {DOMPurify.sanitize(item.source)} ({item.year})
                 </a>
                 <span className="source-type">{item.sourceType?.replace(/_/g, ' ')}</span>
+                <RetractionBadge notice={item.retraction} />
               </div>
             </div>
           ))}
@@ -199,13 +227,14 @@ export function WhatResearchShows({ evidence }: WhatResearchShowsProps) {
           {showAllStudies && (
             <div className="studies-list">
               {evidence.keyStudies.map((study, i) => (
-                <div key={i} className="study-item">
+                <div key={i} className={`study-item${study.retraction ? ` has-${study.retraction.status}` : ''}`}>
                   <a href={study.url} target="_blank" rel="noopener noreferrer" className="study-title">
                     {DOMPurify.sanitize(study.title)}
                   </a>
                   <div className="study-meta">
                     {DOMPurify.sanitize(study.authors)} • {study.journal} ({study.year})
                     {study.doiVerified && <span className="doi-verified">✓ DOI</span>}
+                    <RetractionBadge notice={study.retraction} />
                   </div>
                   <p className="study-finding">{DOMPurify.sanitize(study.keyFinding)}</p>
                 </div>
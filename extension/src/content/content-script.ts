@@ -6,6 +6,8 @@ interface ExtractedArticle {
   content: string;
   source: string;
   author?: string;
+  publishedAt?: string;
+  canonicalUrl?: string;
 }
 
 // Extract article content from the current page
@@ -31,6 +33,13 @@ function extractArticle(): ExtractedArticle | null {
       document.querySelector('[rel="author"]')?.textContent?.trim() ||
       document.querySelector('.author')?.textContent?.trim();
 
+    // Publish date, so claims like "last year" are read against it
+    const publishedAt = extractPublishedAt();
+
+    // The publisher's own address for the page, so tracking and AMP variants share a cache entry
+    const canonicalLink = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+    const canonicalUrl = canonicalLink?.href && /^https?:/.test(canonicalLink.href) ? canonicalLink.href : undefined;
+
     // Extract main article content
     const content = extractMainContent();
 
@@ -47,6 +56,8 @@ function extractArticle(): ExtractedArticle | null {
       content,
       source: source || 'Unknown',
       author: author || undefined,
+      publishedAt,
+      canonicalUrl,
     };
   } catch (error) {
     console.error('[ClearView] Error extracting article:', error);
@@ -54,6 +65,49 @@ function extractArticle(): ExtractedArticle | null {
   }
 }
 
+// Find the publish date in page metadata, JSON-LD or a <time> element (ISO 8601)
+function extractPublishedAt(): string | undefined {
+  const candidates: (string | null | undefined)[] = [
+    document.querySelector('meta[property="article:published_time"]')?.getAttribute('content'),
+    document.querySelector('meta[name="article:published_time"]')?.getAttribute('content'),
+    document.querySelector('meta[itemprop="datePublished"]')?.getAttribute('content'),
+    document.querySelector('meta[name="date"]')?.getAttribute('content'),
+    document.querySelector('meta[name="pubdate"]')?.getAttribute('content'),
+    document.querySelector('meta[name="publish-date"]')?.getAttribute('content'),
+    document.querySelector('meta[name="dc.date"], meta[name="DC.date.issued"]')?.getAttribute('content'),
+    findJsonLdDatePublished(),
+    document.querySelector('[itemprop="datePublished"]')?.getAttribute('datetime'),
+    document.querySelector('article time[datetime], time[pubdate]')?.getAttribute('datetime'),
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const date = new Date(candidate.trim());
+    if (!isNaN(date.getTime())) {
+      return date.toISOString();
+    }
+  }
+  return undefined;
+}
+
+// datePublished of the first JSON-LD article on the page
+function findJsonLdDatePublished(): string | undefined {
+  const scripts = document.querySelectorAll('script[type="application/ld+json"]');
+  for (const script of Array.from(scripts)) {
+    try {
+      const data = JSON.parse(script.textContent || '');
+      const items: any[] = Array.isArray(data) ? data : data['@graph'] || [data];
+      const article = items.find((item) => item && typeof item.datePublished === 'string');
+      if (article) {
+        return article.datePublished;
+      }
+    } catch {
+      // Malformed JSON-LD is common; try the next block
+    }
+  }
+  return undefined;
+}
+
 // Extract main content using common selectors
 function extractMainContent(): string {
   // Common article content selectors (in order of preference)
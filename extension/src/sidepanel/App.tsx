@@ -6,6 +6,8 @@ import { OtherPerspectives } from '../components/OtherPerspectives';
 import { WhatResearchShows } from '../components/WhatResearchShows';
 import { Disclaimer } from '../components/Disclaimer';
 import { ErrorBoundary } from '../components/ErrorBoundary';
+import { ApiKeySettings } from '../components/ApiKeySettings';
+import { apiHeaders } from '../background/apiKey';
 import './styles.css';
 
 const API_BASE_URL = 'http://localhost:3000/api/v1';
@@ -22,6 +24,18 @@ interface BiasScore {
   summary: string;
 }
 
+interface ArticleRevision {
+  revision: number;
+  firstAnalyzedAt: string;
+  changes?: {
+    title?: { from: string; to: string };
+    addedClaims: string[];
+    removedClaims: string[];
+    addedBiasIndicators: BiasIndicator[];
+    removedBiasIndicators: BiasIndicator[];
+  };
+}
+
 export function App() {
   // Status
   const [status, setStatus] = useState<string>('Initializing...');
@@ -38,6 +52,8 @@ export function App() {
   const [isPolitical, setIsPolitical] = useState<boolean>(false);
   const [politicalLean, setPoliticalLean] = useState<string>('none');
   const [analysisComplete, setAnalysisComplete] = useState<boolean>(false);
+  // Set when the article was edited since it was first analyzed
+  const [revision, setRevision] = useState<ArticleRevision | null>(null);
 
   // Perspectives & Evidence
   const [perspectives, setPerspectives] = useState<any>(null);
@@ -48,6 +64,9 @@ export function App() {
   // Store article for later use
   const [currentArticle, setCurrentArticle] = useState<any>(null);
 
+  // API key form (opened from the header, or when the backend rejects the key)
+  const [showSettings, setShowSettings] = useState(false);
+
   useEffect(() => {
     startAnalysis();
   }, []);
@@ -107,6 +126,7 @@ export function App() {
     setMissingContext([]);
     setBiasIndicators([]);
     setAnalysisComplete(false);
+    setRevision(null);
     setPerspectives(null);
     setEvidence(null);
 
@@ -118,17 +138,22 @@ export function App() {
       // Use streaming endpoint
       const response = await fetch(`${API_BASE_URL}/analyze/stream`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: await apiHeaders(),
         body: JSON.stringify({
           url: article.url,
           content: article.content,
           title: article.title,
           source: article.source,
+          publishedAt: article.publishedAt,
+          canonicalUrl: article.canonicalUrl,
         }),
       });
 
       if (!response.ok) {
         const err = await response.json();
+        if (response.status === 401) {
+          setShowSettings(true);
+        }
         throw new Error(err.message || 'Analysis failed');
       }
 
@@ -202,6 +227,9 @@ export function App() {
                   // Highlight bias in the article
                   highlightBiasInArticle(data.indicators);
                   break;
+                case 'revision':
+                  setRevision(data.revision > 1 ? data : null);
+                  break;
                 case 'complete':
                   setIsPolitical(data.is_political);
                   setPoliticalLean(data.political_lean || 'none');
@@ -240,7 +268,7 @@ export function App() {
 
       const response = await fetch(`${API_BASE_URL}/perspectives`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: await apiHeaders(),
         body: JSON.stringify({ topic, keywords, articleLean }),
       });
 
@@ -261,7 +289,7 @@ export function App() {
       // This lets the backend find expert research on the topic
       const response = await fetch(`${API_BASE_URL}/evidence`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: await apiHeaders(),
         body: JSON.stringify({
           topic: article.title,
           summaryText: summary, // Used to infer the core argument/position
@@ -283,9 +311,26 @@ export function App() {
       <header className="panel-header">
         <h1>ClearView News</h1>
         <span className="subtitle">Fact-Focused Analysis</span>
+        <button
+          className="settings-button"
+          onClick={() => setShowSettings(!showSettings)}
+          title="API key"
+        >
+          Settings
+        </button>
       </header>
 
       <main className="panel-content">
+        {/* API key */}
+        {showSettings && (
+          <ApiKeySettings
+            onSaved={() => {
+              setShowSettings(false);
+              startAnalysis();
+            }}
+          />
+        )}
+
         {/* Status / Loading */}
         {status && (
           <div className="status-bar">
@@ -320,6 +365,33 @@ export function App() {
           </div>
         )}
 
+        {/* Edited since first analyzed */}
+        {revision && (
+          <div className="revision-notice">
+            <strong>This article was edited since first analyzed</strong>
+            {' '}({new Date(revision.firstAnalyzedAt).toLocaleDateString()})
+            {revision.changes && (
+              <ul>
+                {revision.changes.title && (
+                  <li>Headline changed from "{DOMPurify.sanitize(revision.changes.title.from)}"</li>
+                )}
+                {revision.changes.addedClaims.length > 0 && (
+                  <li>{revision.changes.addedClaims.length} new key fact(s)</li>
+                )}
+                {revision.changes.removedClaims.map((claim, i) => (
+                  <li key={i}>No longer stated: {DOMPurify.sanitize(claim)}</li>
+                ))}
+                {(revision.changes.addedBiasIndicators.length > 0 || revision.changes.removedBiasIndicators.length > 0) && (
+                  <li>
+                    Bias indicators: {revision.changes.addedBiasIndicators.length} added,
+                    {' '}{revision.changes.removedBiasIndicators.length} removed
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Summary - shows while streaming */}
         {summaryText && (
           <ErrorBoundary>